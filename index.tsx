@@ -2,81 +2,69 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import {marked} from 'marked';
-import {GoogleGenAI, Chat, GenerateContentResponse, Modality, Type} from '@google/genai';
-
-const API_KEY = (window as any).process?.env?.API_KEY;
-
-const investmentFramework = `
-# 50 Structures & Strategies for Building an Unbeatable Investment Company
-
-## Organizational Structure & Governance (1-10)
-... [framework content] ...
-`; // Note: Abridged for brevity in this description, the full content is used.
-
-interface ErrorLogEntry {
-  timestamp: string;
-  context: string;
-  message: string;
-  stack?: string;
-}
-
-let errorLog: ErrorLogEntry[] = [];
+import {ApiError} from './services/apiClient';
+import {clearErrorLog, getErrorLog, logError} from './services/errorLog';
+import {analyzeTrader, ChatToolCall, ChatTurn, commentOnAllocation, editImage, generateAllocation, generateGuide, generateGuideDeepDive, generateImage, generateVideo, getStrategicInsights, isAbortError, KnowledgeSource, streamChat, suggestChatTitle, TraderData} from './services/ai';
+import {encodeQr, qrToDataUrl} from './utils/qrcode';
+import {completePartialMarkdown, errorMessageHtml, isSafeLinkUrl, setMarkdown} from './utils/markdown';
+import {computeRiskMetrics} from './utils/riskAnalytics.mjs';
+import riskSettings from './utils/riskSettings.json';
+import {isLoggedIn, login, logout, register, requestPasswordReset, resetPassword, TwoFactorChallenge, verifyTwoFactor} from './services/auth';
+import {GainTotals, getRealizedGains, getTaxLots, HoldingTerm, LotMethod, RealizedGains, TaxLots} from './services/reports';
+import {changeTier, Deal, getDeals, getSubscription, Subscription, Tier, TierFeature} from './services/subscription';
+import {ActivityExportFormat, ActivityFilters, AllocationEntry, DriftStatus, exportActivity, getActivity, getAllocations, getOverview, getPerformance, getRebalancing, LedgerEntry, PerformanceRange, PortfolioAllocations, PortfolioOverview, PortfolioPerformance, Rebalancing, setBaseCurrency, Transaction, TransactionType} from './services/portfolio';
+import {convertCurrency, FxRates, getFxRates} from './services/fx';
+import {openPriceStream, PriceStream, Quote, StreamStatus} from './services/priceStream';
+import {addToWatchlist, getWatchlist, removeFromWatchlist} from './services/watchlist';
+import {ChatThread, ChatThreadSummary, createThread, deleteThread, getThread, listThreads, updateThread} from './services/copilotThreads';
+import {CopySettings, Follow, followTrader, getCopyTrades, getTraders, MirroredTrade, Trader, unfollowTrader} from './services/social';
+import {cancelOrder, getOrders, Order, OrderSide, OrderType, placeOrder, TimeInForce} from './services/orders';
+import {AlertCondition, AlertNotification, AlertRule, createAlert, createAlertFromText, deleteAlert, getAlerts, getNotifications, markNotificationsRead, Notifications} from './services/alerts';
 
 /**
- * Logs an error to the in-memory store for admin review.
- * @param error The error object.
- * @param context A string describing where the error occurred (e.g., 'Co-pilot').
+ * Renders markdown content into a specific DOM element. The HTML is
+ * sanitised, so model output can't inject markup.
+ * @param content The markdown string to render.
+ * @param element The container element to render into.
+ * @param className Optional CSS class for a wrapper div.
  */
-function logError(error: unknown, context: string) {
-  console.error(`[${context}]`, error); // Keep original console log for debugging
-
-  const entry: ErrorLogEntry = {
-    timestamp: new Date().toISOString(),
-    context: context,
-    message: error instanceof Error ? error.message : String(error),
-    stack: error instanceof Error ? error.stack : undefined,
-  };
-
-  errorLog.push(entry);
+async function render(content: string, element: HTMLElement, className?: string) {
+  const wrapper = document.createElement('div');
+  if (className) {
+      wrapper.className = className;
+  }
+  setMarkdown(wrapper, content);
+  element.replaceChildren(wrapper);
 }
 
 /**
- * Generates a mock 16-character base32 secret for TOTP.
- * NOTE: For production, use a cryptographically secure random generator.
- * @returns A 16-character string compatible with Base32 for TOTP.
+ * Shows or clears an inline error message beneath a form.
+ * @param errorElement The element that displays the message.
+ * @param message The message to show, or null to clear it.
  */
-function generateTotpSecret(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
-    let secret = '';
-    for (let i = 0; i < 16; i++) {
-        secret += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return secret;
+function setFormError(errorElement: HTMLElement, message: string | null) {
+  errorElement.textContent = message ?? '';
+  errorElement.classList.toggle('hidden', !message);
 }
 
-
 /**
- * Renders markdown content into a specific DOM element.
- * @param content The markdown string to render.
- * @param element The container element to render into.
- * @param className Optional CSS class for a wrapper div.
+ * Extracts a user-facing message from an authentication failure.
  */
-async function render(content: string, element: HTMLElement, className?: string) {
-  const wrapper = document.createElement('div');
-  if (className) {
-      wrapper.className = className;
+function getAuthErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    return error.message;
   }
-  wrapper.innerHTML = await marked.parse(content ?? '');
-  element.innerHTML = ''; // Clear previous content
-  element.append(wrapper);
+  logError(error, 'Authentication');
+  return 'Unable to reach the server. Please try again.';
 }
 
 /**
  * Sets up the authentication modal functionality.
+ * @param onSessionChange Called after the user signs in or out.
  */
-function setupAuthModal() {
+function setupAuthModal(onSessionChange: () => void) {
   const loginBtn = document.getElementById('cta-login-btn');
+  const logoutBtn = document.getElementById('logout-btn');
   const exploreBtn = document.getElementById('cta-explore-btn');
   const modalOverlay = document.getElementById('auth-modal-overlay');
   const closeModalBtn = document.getElementById('modal-close-btn');
@@ -86,6 +74,7 @@ function setupAuthModal() {
   const signupFormContainer = document.getElementById('signup-form-container');
   const forgotPasswordContainer = document.getElementById('forgot-password-container');
   const googleAuthContainer = document.getElementById('google-auth-container');
+  const resetPasswordContainer = document.getElementById('reset-password-container');
 
   // Links
   const showSignupLink = document.getElementById('show-signup-link');
@@ -93,24 +82,64 @@ function setupAuthModal() {
   const showForgotPasswordLink = document.getElementById('show-forgot-password-link');
   const backToLoginLink = document.getElementById('back-to-login-link');
   const backToLoginFromAuth = document.getElementById('back-to-login-from-auth');
+  const backToLoginFromReset = document.getElementById('back-to-login-from-reset');
 
   // Forms
   const loginForm = document.getElementById('login-form');
   const signupForm = document.getElementById('signup-form');
   const forgotPasswordForm = document.getElementById('forgot-password-form');
   const googleAuthForm = document.getElementById('google-auth-form');
+  const resetPasswordForm = document.getElementById('reset-password-form');
 
   // 2FA elements
   const copyAuthKeyBtn = document.getElementById('copy-auth-key-btn') as HTMLButtonElement;
   const authSetupKeySpan = document.getElementById('auth-setup-key');
   const authQrCodeImg = document.getElementById('auth-qr-code-img') as HTMLImageElement;
-
-
-  if (!loginBtn || !exploreBtn || !modalOverlay || !closeModalBtn || !loginFormContainer || !signupFormContainer || !forgotPasswordContainer || !googleAuthContainer || !showSignupLink || !showLoginLink || !showForgotPasswordLink || !backToLoginLink || !backToLoginFromAuth || !loginForm || !signupForm || !forgotPasswordForm || !googleAuthForm || !copyAuthKeyBtn || !authSetupKeySpan || !authQrCodeImg) {
+  const authSetupInfo = document.getElementById('auth-setup-info');
+  const authCodeInput = document.getElementById('auth-code') as HTMLInputElement;
+
+  // Inline error messages
+  const loginError = document.getElementById('login-error');
+  const loginSuccess = document.getElementById('login-success');
+  const signupError = document.getElementById('signup-error');
+  const forgotPasswordError = document.getElementById('forgot-password-error');
+  const forgotPasswordSuccess = document.getElementById('forgot-password-success');
+  const resetPasswordError = document.getElementById('reset-password-error');
+  const authCodeError = document.getElementById('auth-code-error');
+
+  if (!loginBtn || !logoutBtn || !exploreBtn || !modalOverlay || !closeModalBtn || !loginFormContainer || !signupFormContainer || !forgotPasswordContainer || !googleAuthContainer || !resetPasswordContainer || !showSignupLink || !showLoginLink || !showForgotPasswordLink || !backToLoginLink || !backToLoginFromAuth || !backToLoginFromReset || !loginForm || !signupForm || !forgotPasswordForm || !googleAuthForm || !resetPasswordForm || !copyAuthKeyBtn || !authSetupKeySpan || !authQrCodeImg || !authSetupInfo || !authCodeInput || !loginError || !loginSuccess || !signupError || !forgotPasswordError || !forgotPasswordSuccess || !resetPasswordError || !authCodeError) {
     console.error('One or more authentication modal elements were not found.');
     return;
   }
 
+  // The pre-auth token from the password step, exchanged for a session on 2FA success.
+  let pendingPreAuthToken: string | null = null;
+
+  const updateSessionUi = () => {
+    const loggedIn = isLoggedIn();
+    loginBtn.classList.toggle('hidden', loggedIn);
+    logoutBtn.classList.toggle('hidden', !loggedIn);
+  };
+
+  const showTwoFactorStep = (challenge: TwoFactorChallenge) => {
+    pendingPreAuthToken = challenge.preAuthToken;
+    authCodeInput.value = '';
+    setFormError(authCodeError, null);
+
+    if (challenge.totp) {
+      authSetupKeySpan.textContent = challenge.totp.secret;
+      // Encoded locally: the otpauth URL contains the TOTP secret and must not leave the browser.
+      authQrCodeImg.src = qrToDataUrl(encodeQr(challenge.totp.otpauthUrl, 'M'));
+      authQrCodeImg.alt = "New Authenticator QR Code";
+    }
+    authSetupInfo.classList.toggle('hidden', !challenge.twoFactorSetupRequired);
+
+    loginFormContainer.classList.add('hidden');
+    signupFormContainer.classList.add('hidden');
+    googleAuthContainer.classList.remove('hidden');
+    authCodeInput.focus();
+  };
+
   const openModal = () => {
     modalOverlay.classList.add('active');
   };
@@ -119,6 +148,8 @@ function setupAuthModal() {
     modalOverlay.classList.remove('active');
   };
 
+  updateSessionUi();
+
   loginBtn.addEventListener('click', openModal);
   exploreBtn.addEventListener('click', openModal);
 
@@ -153,34 +184,64 @@ function setupAuthModal() {
     loginFormContainer.classList.remove('hidden');
   });
 
+  backToLoginFromReset.addEventListener('click', (event) => {
+      event.preventDefault();
+      resetPasswordContainer.classList.add('hidden');
+      loginFormContainer.classList.remove('hidden');
+  });
+
   backToLoginFromAuth.addEventListener('click', (event) => {
       event.preventDefault();
       googleAuthContainer.classList.add('hidden');
       loginFormContainer.classList.remove('hidden');
   });
 
-  loginForm.addEventListener('submit', (event) => {
+  loginForm.addEventListener('submit', async (event) => {
       event.preventDefault();
-      console.log('Login form submitted. Proceeding to 2FA.');
-
-      // Dynamically generate 2FA secret and QR code
-      const newSecret = generateTotpSecret();
-      const userEmail = (document.getElementById('login-email') as HTMLInputElement)?.value || 'user@fulxerpro.com';
-      const otpAuthUrl = `otpauth://totp/FULXERPRO:${encodeURIComponent(userEmail)}?secret=${newSecret}&issuer=FULXERPRO`;
-
-      authSetupKeySpan.textContent = newSecret;
-      authQrCodeImg.src = `https://api.qrserver.com/v1/create-qr-code/?size=150x150&data=${encodeURIComponent(otpAuthUrl)}`;
-      authQrCodeImg.alt = "New Authenticator QR Code";
-      
-      // Instead of logging in, show the 2FA container
-      loginFormContainer.classList.add('hidden');
-      googleAuthContainer.classList.remove('hidden');
+      const email = (document.getElementById('login-email') as HTMLInputElement).value;
+      const password = (document.getElementById('login-password') as HTMLInputElement).value;
+      const submitButton = loginForm.querySelector('button[type="submit"]') as HTMLButtonElement;
+
+      setFormError(loginError, null);
+      setFormError(loginSuccess, null);
+      submitButton.disabled = true;
+      try {
+          showTwoFactorStep(await login(email, password));
+      } catch (error) {
+          setFormError(loginError, getAuthErrorMessage(error));
+      } finally {
+          submitButton.disabled = false;
+      }
   });
 
-  googleAuthForm.addEventListener('submit', (event) => {
+  googleAuthForm.addEventListener('submit', async (event) => {
       event.preventDefault();
-      console.log('2FA form submitted.');
-      // Add actual 2FA verification logic here
+      if (!pendingPreAuthToken) {
+          setFormError(authCodeError, 'Your session has expired. Please sign in again.');
+          return;
+      }
+
+      const submitButton = googleAuthForm.querySelector('button[type="submit"]') as HTMLButtonElement;
+      setFormError(authCodeError, null);
+      submitButton.disabled = true;
+      try {
+          await verifyTwoFactor(pendingPreAuthToken, authCodeInput.value.trim());
+      } catch (error) {
+          // The server revokes the pre-auth token on lockout, so the user must sign in again.
+          if (error instanceof ApiError && error.status === 429) {
+              pendingPreAuthToken = null;
+          }
+          setFormError(authCodeError, getAuthErrorMessage(error));
+          authCodeInput.select();
+          return;
+      } finally {
+          submitButton.disabled = false;
+      }
+
+      pendingPreAuthToken = null;
+      authCodeInput.value = '';
+      updateSessionUi();
+      onSessionChange();
       closeModal();
       
       // --- Ad Logic ---
@@ -221,18 +282,96 @@ function setupAuthModal() {
   });
 
 
-  signupForm.addEventListener('submit', (event) => {
+  signupForm.addEventListener('submit', async (event) => {
       event.preventDefault();
-      console.log('Signup form submitted.');
-      // Add actual signup logic here
-      closeModal();
+      const name = (document.getElementById('signup-name') as HTMLInputElement).value;
+      const email = (document.getElementById('signup-email') as HTMLInputElement).value;
+      const password = (document.getElementById('signup-password') as HTMLInputElement).value;
+      const submitButton = signupForm.querySelector('button[type="submit"]') as HTMLButtonElement;
+
+      setFormError(signupError, null);
+      submitButton.disabled = true;
+      try {
+          showTwoFactorStep(await register(name, email, password));
+      } catch (error) {
+          setFormError(signupError, getAuthErrorMessage(error));
+      } finally {
+          submitButton.disabled = false;
+      }
+  });
+
+  logoutBtn.addEventListener('click', async () => {
+      try {
+          await logout();
+      } catch (error) {
+          logError(error, 'Logout');
+      }
+      updateSessionUi();
+      onSessionChange();
   });
 
-  forgotPasswordForm.addEventListener('submit', (event) => {
+  forgotPasswordForm.addEventListener('submit', async (event) => {
       event.preventDefault();
-      console.log('Forgot password form submitted.');
-      // Add actual password reset logic here
-      closeModal();
+      const email = (document.getElementById('forgot-email') as HTMLInputElement).value;
+      const submitButton = forgotPasswordForm.querySelector('button[type="submit"]') as HTMLButtonElement;
+
+      setFormError(forgotPasswordError, null);
+      setFormError(forgotPasswordSuccess, null);
+      submitButton.disabled = true;
+      try {
+          setFormError(forgotPasswordSuccess, await requestPasswordReset(email));
+      } catch (error) {
+          setFormError(forgotPasswordError, getAuthErrorMessage(error));
+      } finally {
+          submitButton.disabled = false;
+      }
+  });
+
+  // A reset link from the email lands here with the token in the query string.
+  const resetToken = new URLSearchParams(window.location.search).get('reset_token');
+  if (resetToken) {
+      // Drop the token from the address bar so it does not linger in history.
+      const url = new URL(window.location.href);
+      url.searchParams.delete('reset_token');
+      window.history.replaceState(null, '', url.toString());
+
+      loginFormContainer.classList.add('hidden');
+      resetPasswordContainer.classList.remove('hidden');
+      openModal();
+  }
+
+  resetPasswordForm.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      const password = (document.getElementById('reset-password') as HTMLInputElement).value;
+      const confirmation = (document.getElementById('reset-password-confirm') as HTMLInputElement).value;
+      const submitButton = resetPasswordForm.querySelector('button[type="submit"]') as HTMLButtonElement;
+
+      if (password !== confirmation) {
+          setFormError(resetPasswordError, 'Passwords do not match.');
+          return;
+      }
+      if (!resetToken) {
+          setFormError(resetPasswordError, 'This reset link is invalid. Please request a new one.');
+          return;
+      }
+
+      setFormError(resetPasswordError, null);
+      submitButton.disabled = true;
+      try {
+          await resetPassword(resetToken, password);
+      } catch (error) {
+          setFormError(resetPasswordError, getAuthErrorMessage(error));
+          return;
+      } finally {
+          submitButton.disabled = false;
+      }
+
+      (resetPasswordForm as HTMLFormElement).reset();
+      updateSessionUi();
+      onSessionChange();
+      resetPasswordContainer.classList.add('hidden');
+      loginFormContainer.classList.remove('hidden');
+      setFormError(loginSuccess, 'Your password has been updated. Please sign in.');
   });
   
   copyAuthKeyBtn.addEventListener('click', async () => {
@@ -255,42 +394,6 @@ function setupAuthModal() {
   });
 }
 
-/**
- * Extracts text content from the landing page to provide context to the AI Co-pilot.
- * @returns A string containing the page's content.
- */
-function getLandingPageContext(): string {
-  const heroText = (document.querySelector('.hero') as HTMLElement)?.innerText;
-  const featuresText = (document.querySelector('.dashboard') as HTMLElement)?.innerText;
-  const awardsText = (document.querySelector('.awards-section') as HTMLElement)?.innerText;
-  const testimonialsText = (document.querySelector('.testimonials') as HTMLElement)?.innerText;
-
-  return `
-    You are the FULXERPRO AI Co-pilot, a helpful and knowledgeable assistant for a high-end investment platform.
-    Your goal is to answer user questions about the platform, its features, and its benefits for investors and clients.
-    You must be professional, concise, and helpful. Guide users towards signing up or requesting a demo when appropriate.
-    Use the following information about the FULXERPRO landing page as your primary knowledge base. Do not make up features.
-
-    --- START OF KNOWLEDGE BASE ---
-
-    ## HERO SECTION:
-    ${heroText}
-
-    ## FEATURES & DASHBOARD SECTION:
-    ${featuresText}
-
-    ## AWARDS & RECOGNITION SECTION:
-    ${awardsText}
-
-    ## INVESTOR TESTIMONIALS SECTION:
-    ${testimonialsText}
-
-    --- END OF KNOWLEDGE BASE ---
-
-    Now, begin the conversation by answering the user's questions.
-  `;
-}
-
 /**
  * Extracts text content from the dashboard to provide context for the Platform Guide.
  * @returns A string containing the dashboard's content.
@@ -300,10 +403,56 @@ function getDashboardContext(): string {
     return dashboardText ?? 'No dashboard context found.';
 }
 
+// Co-pilot messages that may be asking for a price alert.
+const ALERT_REQUEST_PATTERN = /\b(alert|notify|tell me|let me know|warn me|ping me)\b/i;
+
+// How the Co-pilot's data tools are named when citing them under an answer.
+const COPILOT_TOOL_LABELS: Record<string, string> = {
+  getHoldings: 'holdings',
+  getTransactions: 'transactions',
+  getAllocation: 'asset allocation',
+  getRiskMetrics: 'risk metrics',
+  getQuote: 'quote',
+};
+
+/** A note listing the user's data an answer was based on. */
+function renderToolSources(calls: ChatToolCall[]): HTMLElement {
+  const labels = calls.map(({ name, args }) => {
+    const label = COPILOT_TOOL_LABELS[name] ?? name;
+    return name === 'getQuote' && typeof args.symbol === 'string' ? `${args.symbol.toUpperCase()} ${label}` : label;
+  });
+  const note = document.createElement('p');
+  note.className = 'message-sources';
+  note.textContent = `Based on your ${[...new Set(labels)].join(', ')}`;
+  return note;
+}
+
+/** A knowledge base citation as it is listed under an answer, e.g. "[1] Platform Policies › Order Handling". */
+function formatKnowledgeSource({ citation, document: title, section }: KnowledgeSource): string {
+  return `[${citation}] ${title} › ${section}`;
+}
+
+/** The knowledge base excerpts a Co-pilot answer cites, noted under it. */
+function renderKnowledgeSources(sources: KnowledgeSource[]): HTMLElement {
+  const note = document.createElement('p');
+  note.className = 'message-sources';
+  note.textContent = `Sources: ${sources.map(formatKnowledgeSource).join('; ')}`;
+  return note;
+}
+
+// Shown for a saved conversation until it has a title.
+const UNTITLED_THREAD = 'New conversation';
+// Fallback title length when no title can be generated.
+const THREAD_TITLE_LENGTH = 60;
+// While the Co-pilot's messages are scrolled to within this distance of the bottom, streamed replies keep them there.
+const SCROLL_FOLLOW_THRESHOLD_PX = 24;
+
 /**
- * Sets up the AI Co-pilot functionality.
+ * Sets up the AI Co-pilot functionality, with conversations saved as threads.
+ * @returns A function to call after the user signs in or out, which switches
+ *   to that user's saved threads.
  */
-function setupCopilot() {
+function setupCopilot(): () => void {
     const fab = document.getElementById('copilot-fab');
     const window = document.getElementById('copilot-window');
     const closeBtn = document.getElementById('copilot-close-btn');
@@ -311,27 +460,40 @@ function setupCopilot() {
     const input = document.getElementById('copilot-input') as HTMLInputElement;
     const messagesContainer = document.getElementById('copilot-messages');
     const thinkingTemplate = document.getElementById('copilot-thinking-template') as HTMLTemplateElement;
-
-    if (!fab || !window || !closeBtn || !form || !input || !messagesContainer || !thinkingTemplate) {
+    const threadsToggle = document.getElementById('copilot-threads-toggle') as HTMLButtonElement | null;
+    const threadsPanel = document.getElementById('copilot-threads');
+    const threadList = document.getElementById('copilot-thread-list');
+    const newThreadBtn = document.getElementById('copilot-new-thread');
+    const threadsNote = document.getElementById('copilot-threads-note');
+    const stopButton = document.getElementById('copilot-stop');
+
+    if (!fab || !window || !closeBtn || !form || !input || !messagesContainer || !thinkingTemplate
+        || !threadsToggle || !threadsPanel || !threadList || !newThreadBtn || !threadsNote || !stopButton) {
         console.error('One or more co-pilot elements were not found.');
-        return;
+        return () => {};
     }
     
-    if (!API_KEY) {
-      console.error("API_KEY environment variable not set. Co-pilot disabled.");
-      fab.style.display = 'none'; // Hide the co-pilot if no API key
-      return;
-    }
-
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    const landingPageContext = getLandingPageContext();
-    const chat: Chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: landingPageContext
-        }
-    });
+    const greetingHtml = messagesContainer.innerHTML;
+    // The open conversation, sent with each message since the server keeps no chat state.
+    let history: ChatTurn[] = [];
+    let threadId: string | null = null;
+    let threadTitle: string | null = null;
+    let threads: ChatThreadSummary[] = [];
+    // Aborts the reply being streamed, if any.
+    let replyController: AbortController | null = null;
+    // Bumped when the user signs in or out, and when another conversation is
+    // shown, so a reply or save that finishes afterwards can tell it no longer
+    // belongs to the open conversation.
+    let session = 0;
+    let conversation = 0;
+
+    const isScrolledToBottom = () =>
+        messagesContainer.scrollHeight - messagesContainer.scrollTop - messagesContainer.clientHeight <= SCROLL_FOLLOW_THRESHOLD_PX;
     
+    /**
+     * Adds a message bubble. User messages are shown as typed; Co-pilot
+     * messages are markdown, rendered safely.
+     */
     const addMessage = (type: 'ai' | 'user', content: string, isError = false) => {
         const messageDiv = document.createElement('div');
         messageDiv.className = `message ${type}`;
@@ -340,12 +502,213 @@ function setupCopilot() {
         }
         const contentDiv = document.createElement('div');
         contentDiv.className = 'message-content';
-        contentDiv.innerHTML = content;
+        if (type === 'user') {
+            contentDiv.textContent = content;
+        } else {
+            setMarkdown(contentDiv, content);
+        }
         messageDiv.appendChild(contentDiv);
         messagesContainer.appendChild(messageDiv);
         messagesContainer.scrollTop = messagesContainer.scrollHeight;
+        return contentDiv;
+    };
+
+    const removeThinkingIndicator = () => {
+        const thinkingElement = messagesContainer.querySelector('.thinking');
+        if (thinkingElement) {
+            messagesContainer.removeChild(thinkingElement);
+        }
+    };
+
+    /**
+     * Creates a price alert when a signed-in user asks for one ("tell me if
+     * NVDA drops 5%").
+     * @returns Whether the message was handled as an alert request.
+     */
+    const tryCreateAlert = async (userMessage: string): Promise<boolean> => {
+        if (!isLoggedIn() || !ALERT_REQUEST_PATTERN.test(userMessage)) return false;
+
+        let reply: string;
+        try {
+            const result = await createAlertFromText(userMessage);
+            if (!result.alert) return false;
+            reply = result.reply;
+            loadAlerts();
+        } catch (error) {
+            if (!(error instanceof ApiError) || error.status >= 500) return false;
+            reply = `I couldn't create that alert: ${error.message}`;
+        }
+        removeThinkingIndicator();
+        addMessage('ai', '').textContent = reply;
+        history.push({ role: 'user', text: userMessage }, { role: 'model', text: reply });
+        saveConversation();
+        return true;
+    };
+
+    const renderThreads = () => {
+        threadsNote.textContent = isLoggedIn() ? 'Saved to your account.' : 'Saved in this browser.';
+        if (threads.length === 0) {
+            threadList.innerHTML = `<li class="copilot-thread-empty"><small>No saved conversations yet.</small></li>`;
+            return;
+        }
+        threadList.replaceChildren(...threads.map(thread => {
+            const item = document.createElement('li');
+            item.className = 'copilot-thread';
+            item.classList.toggle('active', thread.id === threadId);
+            item.dataset.threadId = thread.id;
+
+            const open = document.createElement('button');
+            open.type = 'button';
+            open.className = 'copilot-thread-open';
+            open.textContent = thread.title ?? UNTITLED_THREAD;
+            const time = document.createElement('small');
+            time.textContent = formatRelativeTime(thread.updatedAt);
+            open.appendChild(time);
+
+            const rename = document.createElement('button');
+            rename.type = 'button';
+            rename.className = 'copilot-thread-rename';
+            rename.textContent = '\u270e';
+            rename.setAttribute('aria-label', `Rename ${thread.title ?? UNTITLED_THREAD}`);
+
+            const remove = document.createElement('button');
+            remove.type = 'button';
+            remove.className = 'copilot-thread-delete';
+            remove.textContent = '\u00d7';
+            remove.setAttribute('aria-label', `Delete ${thread.title ?? UNTITLED_THREAD}`);
+
+            item.append(open, rename, remove);
+            return item;
+        }));
+    };
+
+    const loadThreads = async () => {
+        try {
+            threads = await listThreads();
+        } catch (error) {
+            logError(error, 'Co-pilot Threads');
+            threads = [];
+        }
+        renderThreads();
+    };
+
+    const setThreadsOpen = (open: boolean) => {
+        threadsPanel.hidden = !open;
+        threadsToggle.setAttribute('aria-expanded', String(open));
+        if (open) loadThreads();
+    };
+
+    /** Shows a saved conversation, or a new one, and makes it the one messages go to. */
+    const showConversation = async (thread: ChatThread | null) => {
+        conversation++;
+        threadId = thread?.id ?? null;
+        threadTitle = thread?.title ?? null;
+        history = thread ? [...thread.messages] : [];
+        messagesContainer.innerHTML = greetingHtml;
+        for (const turn of history) {
+            addMessage(turn.role === 'user' ? 'user' : 'ai', turn.text);
+        }
+        renderThreads();
+    };
+
+    /**
+     * Saves the open conversation, creating its thread on the first exchange,
+     * and titles it from that exchange unless it already has a title.
+     */
+    const saveConversation = async () => {
+        const messages = [...history];
+        const savedConversation = conversation;
+        try {
+            let id = threadId;
+            if (id) {
+                await updateThread(id, { messages });
+            } else {
+                id = (await createThread({ messages })).id;
+                if (conversation === savedConversation) threadId = id;
+            }
+            if (!threadTitle && messages.length >= 2) {
+                const title = await suggestChatTitle(messages[0].text, messages[1].text).catch(error => {
+                    logError(error, 'Co-pilot Threads');
+                    return messages[0].text.slice(0, THREAD_TITLE_LENGTH);
+                });
+                if (threadId === id) threadTitle = title;
+                await updateThread(id, { title });
+            }
+        } catch (error) {
+            logError(error, 'Co-pilot Threads');
+        }
+        if (!threadsPanel.hidden) loadThreads();
+    };
+
+    const renameThread = (item: HTMLElement, id: string) => {
+        const thread = threads.find(t => t.id === id);
+        const field = document.createElement('input');
+        field.type = 'text';
+        field.className = 'copilot-thread-title-input';
+        field.maxLength = 80;
+        field.value = thread?.title ?? '';
+        field.setAttribute('aria-label', 'Conversation title');
+        item.replaceChildren(field);
+        field.focus();
+        field.select();
+
+        let done = false;
+        const finish = async (save: boolean) => {
+            if (done) return;
+            done = true;
+            const title = field.value.trim();
+            if (save && title && title !== thread?.title) {
+                try {
+                    await updateThread(id, { title });
+                    if (threadId === id) threadTitle = title;
+                } catch (error) {
+                    logError(error, 'Co-pilot Threads');
+                }
+            }
+            loadThreads();
+        };
+        field.addEventListener('keydown', e => {
+            if (e.key === 'Enter') finish(true);
+            if (e.key === 'Escape') finish(false);
+        });
+        field.addEventListener('blur', () => finish(true));
     };
 
+    threadList.addEventListener('click', async (e) => {
+        const target = e.target as HTMLElement;
+        const item = target.closest<HTMLElement>('li[data-thread-id]');
+        const id = item?.dataset.threadId;
+        if (!item || !id) return;
+
+        if (target.closest('.copilot-thread-rename')) {
+            renameThread(item, id);
+        } else if (target.closest('.copilot-thread-delete')) {
+            try {
+                await deleteThread(id);
+                if (threadId === id) await showConversation(null);
+            } catch (error) {
+                logError(error, 'Co-pilot Threads');
+            }
+            loadThreads();
+        } else if (target.closest('.copilot-thread-open')) {
+            try {
+                await showConversation(await getThread(id));
+                setThreadsOpen(false);
+            } catch (error) {
+                logError(error, 'Co-pilot Threads');
+                loadThreads();
+            }
+        }
+    });
+
+    stopButton.addEventListener('click', () => replyController?.abort());
+    threadsToggle.addEventListener('click', () => setThreadsOpen(threadsPanel.hidden));
+    newThreadBtn.addEventListener('click', () => {
+        showConversation(null);
+        setThreadsOpen(false);
+        input.focus();
+    });
+
     fab.addEventListener('click', () => {
       window.classList.add('active');
     });
@@ -360,6 +723,9 @@ function setupCopilot() {
         input.value = '';
         const submitButton = form.querySelector('button[type="submit"]') as HTMLButtonElement;
         submitButton.disabled = true;
+        // The reply belongs to the open conversation, so threads can't be switched until it arrives.
+        setThreadsOpen(false);
+        threadsToggle.disabled = true;
 
         // Show thinking indicator
         const thinkingIndicator = thinkingTemplate.content.cloneNode(true) as HTMLElement;
@@ -367,66 +733,100 @@ function setupCopilot() {
         messagesContainer.scrollTop = messagesContainer.scrollHeight;
 
         let aiMessageContentElement: HTMLElement | null = null;
+        let fullResponseText = '';
+        // The reply is only kept if the same user still has the same conversation open.
+        const submittedSession = session;
+        const submittedConversation = conversation;
+        const isStillOpen = () => session === submittedSession && conversation === submittedConversation;
 
         try {
-            const stream = await chat.sendMessageStream({ message: userMessage });
-
-            let fullResponseText = '';
-            let isFirstChunk = true;
+            if (await tryCreateAlert(userMessage)) return;
+
+            // The user's data the model read, and the knowledge base excerpts it cited, listed under the answer.
+            const toolCalls: ChatToolCall[] = [];
+            let knowledgeSources: KnowledgeSource[] = [];
+            replyController = new AbortController();
+            submitButton.hidden = true;
+            stopButton.hidden = false;
+            const stream = streamChat(history, userMessage, {
+                signal: replyController.signal,
+                onToolCall: call => toolCalls.push(call),
+                onSources: sources => knowledgeSources = sources,
+            });
 
             for await (const chunk of stream) {
-                if (isFirstChunk) {
-                    // Remove thinking indicator and create the actual message bubble
-                    const thinkingElement = messagesContainer.querySelector('.thinking');
-                    if (thinkingElement) {
-                        messagesContainer.removeChild(thinkingElement);
-                    }
-                    
-                    const messageDiv = document.createElement('div');
-                    messageDiv.className = `message ai`;
-                    const contentDiv = document.createElement('div');
-                    contentDiv.className = 'message-content';
-                    messageDiv.appendChild(contentDiv);
-                    messagesContainer.appendChild(messageDiv);
-                    aiMessageContentElement = contentDiv;
-                    
-                    isFirstChunk = false;
+                if (!isStillOpen()) break;
+                if (!aiMessageContentElement) {
+                    // Replace the thinking indicator with the actual message bubble
+                    removeThinkingIndicator();
+                    aiMessageContentElement = addMessage('ai', '');
                 }
-                
-                fullResponseText += chunk.text;
-                if (aiMessageContentElement) {
-                    aiMessageContentElement.textContent = fullResponseText;
-                }
-                messagesContainer.scrollTop = messagesContainer.scrollHeight;
+
+                // Re-render the whole reply so far, following it only if the user hasn't scrolled up.
+                fullResponseText += chunk;
+                const following = isScrolledToBottom();
+                setMarkdown(aiMessageContentElement, completePartialMarkdown(fullResponseText));
+                if (following) messagesContainer.scrollTop = messagesContainer.scrollHeight;
             }
+            if (!isStillOpen()) return;
 
-            // Once streaming is complete, parse the full markdown content
             if (aiMessageContentElement) {
-                aiMessageContentElement.innerHTML = await marked.parse(fullResponseText);
-                messagesContainer.scrollTop = messagesContainer.scrollHeight;
+                const following = isScrolledToBottom();
+                setMarkdown(aiMessageContentElement, fullResponseText);
+                if (toolCalls.length) {
+                    aiMessageContentElement.appendChild(renderToolSources(toolCalls));
+                }
+                if (knowledgeSources.length) {
+                    aiMessageContentElement.appendChild(renderKnowledgeSources(knowledgeSources));
+                }
+                if (following) messagesContainer.scrollTop = messagesContainer.scrollHeight;
             }
+            history.push({ role: 'user', text: userMessage }, { role: 'model', text: fullResponseText });
+            saveConversation();
 
         } catch (error) {
-            logError(error, 'Co-pilot');
-            const thinkingElement = messagesContainer.querySelector('.thinking');
-             if (thinkingElement) {
-                messagesContainer.removeChild(thinkingElement);
+            if (!isStillOpen()) return;
+            removeThinkingIndicator();
+            if (isAbortError(error)) {
+                // Stopped by the user: keep what arrived, and keep it in the conversation.
+                const stoppedNote = document.createElement('p');
+                stoppedNote.className = 'message-stopped';
+                stoppedNote.textContent = 'Stopped';
+                if (!aiMessageContentElement) aiMessageContentElement = addMessage('ai', '');
+                setMarkdown(aiMessageContentElement, fullResponseText);
+                aiMessageContentElement.appendChild(stoppedNote);
+                if (fullResponseText) {
+                    history.push({ role: 'user', text: userMessage }, { role: 'model', text: fullResponseText });
+                    saveConversation();
+                }
+                return;
             }
             // If an error occurs after streaming has started, update the bubble
             if (aiMessageContentElement) {
-                const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+                const errorMessage = errorMessageHtml(error);
                 const userFriendlyError = `<p><strong>Sorry, I couldn't process that request.</strong></p><p><small>Details: ${errorMessage}</small></p>`;
-                aiMessageContentElement.innerHTML = userFriendlyError;
+                setMarkdown(aiMessageContentElement, userFriendlyError);
                 aiMessageContentElement.parentElement?.classList.add('error');
             } else { // Otherwise, add a new error message
-                const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+                const errorMessage = errorMessageHtml(error);
                 const userFriendlyError = `<p><strong>Sorry, I couldn't process that request.</strong></p><p><small>Details: ${errorMessage}</small></p>`;
                 addMessage('ai', userFriendlyError, true);
             }
         } finally {
+            replyController = null;
             submitButton.disabled = false;
+            submitButton.hidden = false;
+            stopButton.hidden = true;
+            threadsToggle.disabled = false;
         }
     });
+
+    return () => {
+        session++;
+        replyController?.abort();
+        showConversation(null);
+        if (!threadsPanel.hidden) loadThreads();
+    };
 }
 
 /**
@@ -439,50 +839,151 @@ async function setupGuideView() {
       return;
     }
 
+    if (!isLoggedIn()) {
+        guideContainer.innerHTML = `<small>Sign in to generate the Platform Guide.</small>`;
+        return;
+    }
+
     // Check if content is already loaded or is loading
-    if (guideContainer.innerHTML.trim() !== '' || guideContainer.querySelector('.loading')) {
+    if (guideContainer.querySelector('.loading, .guide-text')) {
         return;
     }
 
     guideContainer.innerHTML = `<div class="loading">Generating Platform Guide...</div>`;
 
     try {
-      if (!API_KEY) {
-        throw new Error("API_KEY environment variable not set.");
-      }
-
-      const ai = new GoogleGenAI({ apiKey: API_KEY });
-      const dashboardContext = getDashboardContext();
-
-      const prompt = `
-        Act as a senior technical writer for FULXERPRO, an elite investment platform. Your task is to create a comprehensive "Platform Features Guide" for new clients. This guide will be displayed on a dedicated page within the client dashboard.
+      const { text, sources } = await generateGuide(getDashboardContext());
+      await render(text, guideContainer, 'guide-text');
 
-        The guide should be structured logically, explaining each major feature of the platform. Use the context provided below from the live dashboard to inform your writing. The tone should be professional, confident, and highlight the value and sophistication of each tool.
+      // The knowledge base excerpts the guide cites.
+      if (sources.length > 0) {
+        const sourcesContainer = document.createElement('div');
+        sourcesContainer.className = 'ai-sources-container';
+        const sourcesTitle = document.createElement('h4');
+        sourcesTitle.textContent = 'Sources';
+        const sourcesList = document.createElement('ul');
+        sourcesList.className = 'ai-sources-list';
+        for (const source of sources) {
+          const listItem = document.createElement('li');
+          listItem.textContent = formatKnowledgeSource(source);
+          sourcesList.appendChild(listItem);
+        }
+        sourcesContainer.append(sourcesTitle, sourcesList);
+        guideContainer.appendChild(sourcesContainer);
+      }
+    } catch (error) {
+      const errorMessage = errorMessageHtml(error);
+      await render(`<h4>Error</h4><p>There was an issue generating the platform guide:</p><pre><code>${errorMessage}</code></pre>`, guideContainer, 'error-card');
+    }
+}
 
-        For each feature, provide a clear heading and a detailed paragraph explaining its purpose, what the user can see, and how it benefits them.
+/**
+ * Drops the guide generated for the previous user, regenerating it if the
+ * guide is on screen.
+ */
+function resetGuideView() {
+    document.getElementById('guide-content')?.replaceChildren();
+    document.getElementById('guide-deep-dive-content')?.replaceChildren();
+    if (document.getElementById('guide-view')?.style.display === 'block') {
+        setupGuideView();
+        renderGuideDeepDive();
+    }
+}
 
-        Format the output as clean markdown. Use level-3 headings (###) for each feature.
+/**
+ * Offers the in-depth research edition of the guide to plans with Priority
+ * Research Access, and an upgrade prompt to the rest.
+ */
+function renderGuideDeepDive() {
+    const container = document.getElementById('guide-deep-dive-content');
+    if (!container) return;
 
-        ---
-        DASHBOARD CONTEXT:
-        ${dashboardContext}
-        ---
-      `;
+    if (!hasEntitlement('priority-research')) {
+        renderLockedFeature(container, 'priority-research', 'Methodology, interpretation and limitations for every dashboard feature.');
+        return;
+    }
+    // Keep a deep-dive that is already shown or loading.
+    if (container.querySelector('.loading, .deep-dive-text')) return;
+
+    container.innerHTML = `<p>Methodology, interpretation and limitations for every dashboard feature, included with your plan.</p>`;
+    const button = document.createElement('button');
+    button.className = 'btn btn-primary';
+    button.textContent = 'Generate Deep-Dive';
+    button.addEventListener('click', async () => {
+        container.innerHTML = `<div class="loading">Generating research deep-dive...</div>`;
+        try {
+            await render(await generateGuideDeepDive(getDashboardContext()), container, 'deep-dive-text');
+        } catch (error) {
+            const errorMessage = errorMessageHtml(error);
+            await render(`<h4>Error</h4><p>There was an issue generating the deep-dive:</p><pre><code>${errorMessage}</code></pre>`, container, 'error-card');
+        }
+    });
+    container.appendChild(button);
+}
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-      });
+/**
+ * Loads off-market deals into the Deals view for plans with Direct
+ * Co-Investment Rights, and shows an upgrade prompt to the rest.
+ */
+async function loadDeals() {
+    const container = document.getElementById('deals-content');
+    if (!container) return;
 
-      await render(response.text, guideContainer);
+    if (!hasEntitlement('co-investment')) {
+        renderLockedFeature(container, 'co-investment', 'Off-market deals and direct co-investment opportunities.');
+        return;
+    }
 
+    container.innerHTML = `<div class="loading">Loading deals...</div>`;
+    try {
+        const deals = await getDeals();
+        container.innerHTML = '';
+        if (deals.length === 0) {
+            container.innerHTML = `<div class="locked-feature"><p>No deals are open right now.</p></div>`;
+            return;
+        }
+        const grid = document.createElement('div');
+        grid.className = 'deals-grid';
+        deals.forEach(deal => grid.appendChild(createDealCard(deal)));
+        container.appendChild(grid);
     } catch (error) {
-      logError(error, 'Platform Guide');
-      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-      await render(`<h4>Error</h4><p>There was an issue generating the platform guide:</p><pre><code>${errorMessage}</code></pre>`, guideContainer, 'error-card');
+        logError(error, 'Deals');
+        const errorMessage = errorMessageHtml(error);
+        container.innerHTML = `<div class="error-card-small"><p>Could not load deals.</p><small>${errorMessage}</small></div>`;
     }
 }
 
+function createDealCard(deal: Deal): HTMLElement {
+    const card = document.createElement('article');
+    card.className = 'deal-card';
+
+    const title = document.createElement('h3');
+    title.textContent = deal.name;
+    const sponsor = document.createElement('small');
+    sponsor.textContent = deal.sponsor;
+    const summary = document.createElement('p');
+    summary.textContent = deal.summary;
+
+    const details = document.createElement('dl');
+    const closesOn = new Date(deal.closesOn).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+    [
+        ['Sector', deal.sector],
+        ['Structure', deal.structure],
+        ['Minimum', formatMoney(deal.minimumCommitment, deal.currency)],
+        ['Target IRR', deal.targetIrr],
+        ['Closes', closesOn],
+    ].forEach(([term, description]) => {
+        const dt = document.createElement('dt');
+        dt.textContent = term;
+        const dd = document.createElement('dd');
+        dd.textContent = description;
+        details.append(dt, dd);
+    });
+
+    card.append(title, sponsor, summary, details);
+    return card;
+}
+
 /**
  * Renders the error log in the Admin view.
  */
@@ -504,7 +1005,7 @@ function renderAdminView() {
     clearButton.textContent = 'Clear Log';
     clearButton.className = 'btn btn-secondary';
     clearButton.onclick = () => {
-        errorLog = [];
+        clearErrorLog();
         renderAdminView();
     };
     controls.appendChild(clearButton);
@@ -514,13 +1015,14 @@ function renderAdminView() {
     const logContainer = document.createElement('div');
     logContainer.className = 'error-log-container';
     
+    const errorLog = getErrorLog();
     if (errorLog.length === 0) {
-        logContainer.innerHTML = `<div class="empty-log-message">No errors logged.</div>`;
+        logContainer.innerHTML = `<div class="empty-log-message">Nothing logged.</div>`;
     } else {
         // Render logs in reverse chronological order
         [...errorLog].reverse().forEach(entry => {
             const entryElement = document.createElement('details');
-            entryElement.className = 'error-log-entry';
+            entryElement.className = entry.level === 'info' ? 'error-log-entry log-info' : 'error-log-entry';
 
             const summary = document.createElement('summary');
             
@@ -534,7 +1036,9 @@ function renderAdminView() {
             
             const message = document.createElement('span');
             message.className = 'log-message';
-            message.textContent = entry.message;
+            message.textContent = entry.latencyMs === undefined
+                ? entry.message
+                : `${entry.message} (${entry.level === 'info' ? 'in' : 'after'} ${entry.latencyMs} ms)`;
 
             summary.appendChild(timestamp);
             summary.appendChild(context);
@@ -542,7 +1046,9 @@ function renderAdminView() {
 
             const details = document.createElement('div');
             details.className = 'log-details';
-            if (entry.stack) {
+            if (entry.level === 'info') {
+                details.textContent = 'Completed successfully.';
+            } else if (entry.stack) {
                 const pre = document.createElement('pre');
                 const code = document.createElement('code');
                 code.textContent = entry.stack;
@@ -606,6 +1112,10 @@ function setupNavigation() {
                 if (viewId === 'guide-view') {
                     // Lazily load the guide content on first click.
                     setupGuideView();
+                    renderGuideDeepDive();
+                }
+                if (viewId === 'deals-view') {
+                    loadDeals();
                 }
                 if (viewId === 'admin-view') {
                     renderAdminView();
@@ -640,6 +1150,8 @@ function fileToBase64(file: File): Promise<string> {
     });
 }
 
+// AI Studio generation is only available to signed-in users.
+const AI_STUDIO_SIGN_IN_MESSAGE = 'Sign in to use the AI Studio.';
 
 /**
  * Sets up the AI Studio functionality.
@@ -681,18 +1193,20 @@ function setupAiStudio() {
         return;
     }
     
-    if (!API_KEY) {
-      console.error("API_KEY environment variable not set. AI Studio disabled.");
-      const navStudio = document.getElementById('nav-link-studio');
-      if (navStudio) {
-          navStudio.style.display = 'none';
-      }
-      return;
-    }
-
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
     let currentImageBase64: string | null = null;
     let currentMode: 'image' | 'video' = 'image';
+    let activeRequest: AbortController | null = null;
+
+    // Only one studio request runs at a time; starting over or switching mode cancels it.
+    const startRequest = () => {
+        activeRequest?.abort();
+        activeRequest = new AbortController();
+        return activeRequest.signal;
+    };
+    const cancelRequest = () => {
+        activeRequest?.abort();
+        activeRequest = null;
+    };
 
     // --- Mode Switching Logic ---
     modeButtons.forEach(button => {
@@ -700,6 +1214,7 @@ function setupAiStudio() {
             const mode = button.getAttribute('data-mode') as 'image' | 'video';
             if (mode === currentMode) return;
 
+            cancelRequest();
             currentMode = mode;
             modeButtons.forEach(btn => btn.classList.remove('active'));
             button.classList.add('active');
@@ -718,6 +1233,7 @@ function setupAiStudio() {
 
     // --- Reset Logic ---
     const resetStudio = () => {
+        cancelRequest();
         outputContainer.innerHTML = '';
         placeholder.style.display = 'block';
         editControls.style.display = 'none';
@@ -734,6 +1250,10 @@ function setupAiStudio() {
     imageForm.addEventListener('submit', async (e) => {
         e.preventDefault();
         const userPrompt = promptInput.value.trim();
+        if (!isLoggedIn()) {
+            alert(AI_STUDIO_SIGN_IN_MESSAGE);
+            return;
+        }
         if (!userPrompt) {
             alert('Please describe the visualization you want to generate.');
             return;
@@ -749,26 +1269,8 @@ function setupAiStudio() {
         currentImageBase64 = null;
 
         try {
-            const fullPrompt = `
-                Generate a professional, high-fidelity financial visualization for an elite investment dashboard.
-                The style should be clean, modern, and data-rich, suitable for FULXERPRO INVESTORS.
-                Use a dark theme with highlights of blue and green for positive trends.
-                Visualization request: "${userPrompt}"
-            `;
-            
             const aspectRatio = aspectSelect.value as "1:1" | "16:9" | "9:16";
-
-            const response = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: fullPrompt,
-                config: {
-                    numberOfImages: 1,
-                    outputMimeType: 'image/png',
-                    aspectRatio: aspectRatio,
-                },
-            });
-            
-            const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
+            const base64ImageBytes = await generateImage(userPrompt, aspectRatio, { signal: startRequest() });
             currentImageBase64 = base64ImageBytes;
             const imageUrl = `data:image/png;base64,${base64ImageBytes}`;
             
@@ -781,8 +1283,8 @@ function setupAiStudio() {
             editControls.style.display = 'block';
 
         } catch (error) {
-            logError(error, 'AI Studio');
-            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            if (isAbortError(error)) return;
+            const errorMessage = errorMessageHtml(error);
             outputContainer.innerHTML = `<div class="error-card"><p><strong>Sorry, there was an issue generating your visualization.</strong></p><p><small>${errorMessage}</small></p></div>`;
         } finally {
             generateBtn.disabled = false;
@@ -796,6 +1298,10 @@ function setupAiStudio() {
         e.preventDefault();
         const editPrompt = editPromptInput.value.trim();
 
+        if (!isLoggedIn()) {
+            alert(AI_STUDIO_SIGN_IN_MESSAGE);
+            return;
+        }
         if (!editPrompt || !currentImageBase64) {
             alert('Please describe your edits. An image must be present to edit.');
             return;
@@ -807,46 +1313,19 @@ function setupAiStudio() {
         loadingOverlay.style.display = 'flex';
 
         try {
-            const imagePart = {
-                inlineData: {
-                    mimeType: 'image/png',
-                    data: currentImageBase64,
-                },
-            };
-            const textPart = { text: editPrompt };
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts: [imagePart, textPart] },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
+            const newBase64 = await editImage(currentImageBase64, editPrompt, { signal: startRequest() });
+            currentImageBase64 = newBase64; // Update the stored image
+            const newImageUrl = `data:image/png;base64,${newBase64}`;
 
-            let foundImage = false;
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    const newBase64 = part.inlineData.data;
-                    currentImageBase64 = newBase64; // Update the stored image
-                    const newImageUrl = `data:image/png;base64,${newBase64}`;
-                    
-                    const img = document.getElementById('studio-image') as HTMLImageElement;
-                    if (img) {
-                        img.src = newImageUrl;
-                    }
-                    foundImage = true;
-                    break;
-                }
-            }
-            
-            if (!foundImage) {
-                throw new Error("The AI did not return an edited image.");
+            const img = document.getElementById('studio-image') as HTMLImageElement;
+            if (img) {
+                img.src = newImageUrl;
             }
             
             editPromptInput.value = ''; // Clear input on success
 
         } catch (error) {
-            logError(error, 'AI Studio Edit');
+            if (isAbortError(error)) return;
             const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
             alert(`Sorry, there was an issue applying your edits: ${errorMessage}`);
         } finally {
@@ -860,13 +1339,17 @@ function setupAiStudio() {
     videoForm.addEventListener('submit', async (e) => {
         e.preventDefault();
         const userPrompt = videoPromptInput.value.trim();
+        if (!isLoggedIn()) {
+            alert(AI_STUDIO_SIGN_IN_MESSAGE);
+            return;
+        }
         if (!userPrompt) {
             alert('Please describe the video you want to generate.');
             return;
         }
 
         const file = videoImageInput.files?.[0];
-        let imageDetails;
+        let imageDetails: { imageBytes: string, mimeType: string } | undefined;
         if (file) {
             try {
                 const base64Data = await fileToBase64(file);
@@ -904,32 +1387,7 @@ function setupAiStudio() {
         }, 4000);
 
         try {
-            let operation = await ai.models.generateVideos({
-                model: 'veo-2.0-generate-001',
-                prompt: userPrompt,
-                image: imageDetails,
-                config: { numberOfVideos: 1 }
-            });
-
-            while (!operation.done) {
-                await new Promise(resolve => setTimeout(resolve, 10000)); // Poll every 10s
-                operation = await ai.operations.getVideosOperation({ operation: operation });
-            }
-
-            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-            if (!downloadLink) {
-                throw new Error("Video generation completed, but no download link was returned.");
-            }
-            
-            loadingMessage.textContent = 'Downloading generated video...';
-            
-            // The response.body contains the MP4 bytes. You must append an API key when fetching from the download link.
-            const videoResponse = await fetch(`${downloadLink}&key=${API_KEY}`);
-            if (!videoResponse.ok) {
-                throw new Error(`Failed to download video: ${videoResponse.statusText}`);
-            }
-
-            const videoBlob = await videoResponse.blob();
+            const videoBlob = await generateVideo(userPrompt, imageDetails, { signal: startRequest() });
             const videoUrl = URL.createObjectURL(videoBlob);
             
             const videoElement = document.createElement('video');
@@ -944,8 +1402,8 @@ function setupAiStudio() {
             outputContainer.appendChild(videoElement);
 
         } catch (error) {
-            logError(error, 'AI Studio Video');
-            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            if (isAbortError(error)) return;
+            const errorMessage = errorMessageHtml(error);
             outputContainer.innerHTML = `<div class="error-card"><p><strong>Sorry, there was an issue generating your video.</strong></p><p><small>${errorMessage}</small></p></div>`;
         } finally {
             clearInterval(messageInterval);
@@ -957,11 +1415,14 @@ function setupAiStudio() {
 
 }
 
+/** Cancels the in-flight trader analysis when the modal is closed or another trader is opened. */
+let traderAnalysisController: AbortController | null = null;
+
 /**
  * Shows an AI-generated analysis of a trader in a modal.
  * @param traderData The data object for the selected trader.
  */
-async function showTraderAnalysis(traderData: { name: string, rank: string, ytd: string, trades: string }) {
+async function showTraderAnalysis(traderData: TraderData) {
     const modalOverlay = document.getElementById('trader-analysis-modal-overlay');
     const modalTitle = document.getElementById('trader-analysis-modal-title');
     const modalContent = document.getElementById('trader-analysis-modal-content');
@@ -972,44 +1433,24 @@ async function showTraderAnalysis(traderData: { name: string, rank: string, ytd:
     }
 
     modalTitle.textContent = `AI Trader Analysis: ${traderData.name}`;
-    modalContent.innerHTML = `<div class="loading">Generating analysis...</div>`;
     modalOverlay.classList.add('active');
+    if (!isLoggedIn()) {
+        modalContent.innerHTML = `<small>Sign in to request an AI analysis of this trader.</small>`;
+        return;
+    }
+    modalContent.innerHTML = `<div class="loading">Generating analysis...</div>`;
 
-    try {
-        if (!API_KEY) {
-            throw new Error("API_KEY environment variable not set.");
-        }
-        const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-        const prompt = `
-            Act as a Senior Investment Analyst for FULXERPRO.
-            Your task is to provide a brief, professional analysis of a trader based on the following data.
-            The tone should be insightful, objective, and suitable for a sophisticated investor.
-
-            **Trader Data:**
-            - **Name:** ${traderData.name}
-            - **Rank:** ${traderData.rank}
-            - **Year-to-Date Performance:** ${traderData.ytd}
-            - **Mock Recent Trades:** ${traderData.trades}
-
-            **Analysis Required:**
-            1.  **Trading Strategy:** Based on their rank, performance, and recent trades, what is their likely trading style? (e.g., Aggressive Growth, Value Investing, Momentum Trading, etc.)
-            2.  **Risk Profile:** Briefly assess their likely risk profile.
-            3.  **Key Holdings Insight:** Comment on one or two of their key holdings from the recent trades.
-
-            Format the output as clean markdown. Use level-4 headings (####) for each section of the analysis.
-        `;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
+    traderAnalysisController?.abort();
+    const controller = new AbortController();
+    traderAnalysisController = controller;
 
-        await render(response.text, modalContent);
+    try {
+        const analysis = await analyzeTrader(traderData, { signal: controller.signal });
+        await render(analysis, modalContent);
 
     } catch (error) {
-        logError(error, 'Trader Analysis');
-        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+        if (isAbortError(error)) return;
+        const errorMessage = errorMessageHtml(error);
         await render(`<h4>Error</h4><p>Could not generate trader analysis:</p><pre><code>${errorMessage}</code></pre>`, modalContent, 'error-card');
     }
 }
@@ -1037,31 +1478,49 @@ function setupSocialTrading() {
       });
   }
   
-  // Setup follow button functionality
+  // Setup follow button functionality: following copies the trader's trades.
   if (followButtons.length === 0) {
     console.warn('No follow buttons found.');
   }
+  const copyForm = document.getElementById('copy-settings-form') as HTMLFormElement | null;
+  const copyError = document.getElementById('copy-error');
+  if (!copyForm || !copyError) {
+    console.error('Copy trading elements not found.');
+    return;
+  }
 
   followButtons.forEach(button => {
-    const traderInfo = button.previousElementSibling as HTMLElement;
-    const traderName = traderInfo?.querySelector('.trader-name')?.textContent || 'trader';
-    
-    // Set initial ARIA label
-    button.setAttribute('aria-label', `Follow ${traderName}`);
+    const item = button.closest<HTMLElement>('li');
+    const traderId = item?.dataset.traderId;
+    const traderName = item?.querySelector('.trader-name')?.textContent || 'trader';
+    renderFollowButton(button as HTMLButtonElement, traderName, null);
+    if (!traderId) return;
 
-    button.addEventListener('click', (e) => {
+    button.addEventListener('click', async (e) => {
       e.stopPropagation(); // Prevent the modal from opening when clicking the button
-      const isFollowing = button.classList.toggle('following');
-      
-      if (isFollowing) {
-        button.textContent = 'Following';
-        button.setAttribute('aria-label', `Unfollow ${traderName}`);
-      } else {
-        button.textContent = '+';
-        button.setAttribute('aria-label', `Follow ${traderName}`);
+      setFormError(copyError, null);
+      if (!isLoggedIn()) {
+        setFormError(copyError, 'Sign in to copy traders into your paper portfolio.');
+        return;
+      }
+      const follow = copyTraders.get(traderId)?.follow ?? null;
+      if (follow?.status !== 'active') {
+        openCopySettings(traderId, traderName, follow);
+        return;
+      }
+      (button as HTMLButtonElement).disabled = true;
+      try {
+        await unfollowTrader(traderId);
+      } catch (error) {
+        if (!(error instanceof ApiError)) logError(error, 'Copy Trading');
+        setFormError(copyError, error instanceof ApiError ? error.message : 'Could not stop copying. Please try again.');
+      } finally {
+        (button as HTMLButtonElement).disabled = false;
       }
+      loadCopyTrading();
     });
   });
+  setupCopySettings(copyForm, copyError);
 
   // Setup AI Analysis Modal
     traderListItems.forEach(item => {
@@ -1082,7 +1541,10 @@ function setupSocialTrading() {
     const closeModalBtn = document.getElementById('trader-analysis-modal-close-btn');
 
     if(modalOverlay && closeModalBtn) {
-        const closeModal = () => modalOverlay.classList.remove('active');
+        const closeModal = () => {
+            modalOverlay.classList.remove('active');
+            traderAnalysisController?.abort();
+        };
         closeModalBtn.addEventListener('click', closeModal);
         modalOverlay.addEventListener('click', (e) => {
             if (e.target === modalOverlay) {
@@ -1092,6 +1554,145 @@ function setupSocialTrading() {
     }
 }
 
+// Each trader's copy-trading state from the last load, by trader id.
+const copyTraders = new Map<string, Trader>();
+
+function renderFollowButton(button: HTMLButtonElement, traderName: string, follow: Follow | null) {
+  const label = follow?.status === 'active' ? 'Following' : follow ? 'Stopped' : '+';
+  button.classList.toggle('following', Boolean(follow));
+  button.textContent = label;
+  button.setAttribute('aria-label', follow?.status === 'active'
+    ? `Stop copying ${traderName}`
+    : follow ? `Resume copying ${traderName}` : `Follow and copy ${traderName}`);
+}
+
+/** Updates each trader's follow button and copy status line. */
+function renderCopyTrading() {
+  document.querySelectorAll<HTMLElement>('.trader-list li[data-trader-id]').forEach(item => {
+    const follow = copyTraders.get(item.dataset.traderId ?? '')?.follow ?? null;
+    const button = item.querySelector<HTMLButtonElement>('.follow-button');
+    const status = item.querySelector<HTMLElement>('.trader-copy-status');
+    const traderName = item.querySelector('.trader-name')?.textContent || 'trader';
+    if (button) renderFollowButton(button, traderName, follow);
+    if (!status) return;
+
+    status.hidden = !follow;
+    if (!follow) return;
+    status.classList.toggle('stopped', follow.status === 'stopped');
+    if (follow.status === 'stopped') {
+      status.textContent = follow.stoppedReason ?? 'Copying stopped.';
+      return;
+    }
+    const change = follow.allocation ? ((follow.equity - follow.allocation) / follow.allocation) * 100 : 0;
+    status.textContent = `Copying ${formatMoney(follow.allocation, follow.currency)} \u00b7 ${formatMoney(follow.invested, follow.currency)} invested \u00b7 ${formatSignedPercent(change)}`;
+  });
+}
+
+function renderCopyTrades(trades: MirroredTrade[]) {
+  const history = document.getElementById('copy-history');
+  const list = document.getElementById('copy-trade-list');
+  if (!history || !list) return;
+
+  history.hidden = trades.length === 0;
+  list.replaceChildren(...trades.map(trade => {
+    const item = document.createElement('li');
+    item.classList.toggle('skipped', trade.status === 'skipped');
+    const summary = document.createElement('span');
+    const action = trade.side === 'buy' ? 'Bought' : 'Sold';
+    summary.textContent = trade.status === 'copied' && trade.quantity !== null && trade.price !== null
+      ? `${action} ${trade.quantity.toLocaleString()} ${trade.symbol} at ${trade.price.toLocaleString(undefined, { maximumFractionDigits: 2 })}, copying ${trade.traderName}`
+      : `Skipped ${trade.side} ${trade.symbol} from ${trade.traderName}: ${trade.reason ?? 'not copied'}`;
+    const time = document.createElement('small');
+    time.textContent = formatRelativeTime(trade.executedAt);
+    item.append(summary, time);
+    return item;
+  }));
+}
+
+/**
+ * Loads which traders the user copies and their mirrored trades, or clears
+ * them when signed out.
+ */
+async function loadCopyTrading() {
+  copyTraders.clear();
+  if (!isLoggedIn()) {
+    const form = document.getElementById('copy-settings-form');
+    if (form) form.hidden = true;
+    renderCopyTrading();
+    renderCopyTrades([]);
+    return;
+  }
+  try {
+    const [traders, trades] = await Promise.all([getTraders(), getCopyTrades()]);
+    traders.forEach(trader => copyTraders.set(trader.id, trader));
+    renderCopyTrading();
+    renderCopyTrades(trades);
+  } catch (error) {
+    logError(error, 'Copy Trading');
+  }
+}
+
+/** Shows the copy settings form for a trader, prefilled from an existing copy. */
+function openCopySettings(traderId: string, traderName: string, follow: Follow | null) {
+  const form = document.getElementById('copy-settings-form') as HTMLFormElement | null;
+  const title = document.getElementById('copy-settings-title');
+  const submit = document.getElementById('copy-settings-submit');
+  const allocation = document.getElementById('copy-allocation') as HTMLInputElement | null;
+  const maxTrade = document.getElementById('copy-max-trade') as HTMLInputElement | null;
+  const stopLoss = document.getElementById('copy-stop-loss') as HTMLInputElement | null;
+  if (!form || !title || !submit || !allocation || !maxTrade || !stopLoss) return;
+
+  form.dataset.traderId = traderId;
+  title.textContent = `${follow ? 'Resume copying' : 'Copy'} ${traderName} into your paper portfolio`;
+  submit.textContent = follow ? 'Resume Copying' : 'Start Copying';
+  allocation.value = follow ? String(follow.allocation) : '';
+  maxTrade.value = follow ? String(follow.maxTradeValue) : '';
+  stopLoss.value = String(follow?.stopLossPercent ?? 15);
+  form.hidden = false;
+  allocation.focus();
+}
+
+function setupCopySettings(form: HTMLFormElement, errorEl: HTMLElement) {
+  const allocation = document.getElementById('copy-allocation') as HTMLInputElement | null;
+  const maxTrade = document.getElementById('copy-max-trade') as HTMLInputElement | null;
+  const stopLoss = document.getElementById('copy-stop-loss') as HTMLInputElement | null;
+  const submit = document.getElementById('copy-settings-submit') as HTMLButtonElement | null;
+  const cancel = document.getElementById('copy-settings-cancel');
+  if (!allocation || !maxTrade || !stopLoss || !submit || !cancel) {
+    console.error('Copy settings elements not found.');
+    return;
+  }
+
+  cancel.addEventListener('click', () => {
+    form.hidden = true;
+    setFormError(errorEl, null);
+  });
+
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const traderId = form.dataset.traderId;
+    if (!traderId) return;
+    setFormError(errorEl, null);
+    // Without a per-trade limit, a single copied trade may use the whole allocation.
+    const settings: CopySettings = {
+      allocation: Number(allocation.value),
+      maxTradeValue: Number(maxTrade.value || allocation.value),
+      stopLossPercent: Number(stopLoss.value),
+    };
+    submit.disabled = true;
+    try {
+      await followTrader(traderId, settings);
+      form.hidden = true;
+      loadCopyTrading();
+    } catch (error) {
+      if (!(error instanceof ApiError)) logError(error, 'Copy Trading');
+      setFormError(errorEl, error instanceof ApiError ? error.message : 'Could not start copying. Please try again.');
+    } finally {
+      submit.disabled = false;
+    }
+  });
+}
+
 /**
  * Sets up staggered entrance animations for dashboard widgets.
  */
@@ -1157,12 +1758,18 @@ function setupUserCounterAnimation() {
 function setupWallet() {
   const copyBtn = document.getElementById('copy-wallet-btn') as HTMLButtonElement;
   const addressSpan = document.getElementById('wallet-address');
+  const qrImg = document.getElementById('wallet-qr-img') as HTMLImageElement;
 
-  if (!copyBtn || !addressSpan) {
+  if (!copyBtn || !addressSpan || !qrImg) {
     console.warn('Wallet widget elements not found.');
     return;
   }
 
+  const walletAddress = addressSpan.textContent?.trim();
+  if (walletAddress) {
+    qrImg.src = qrToDataUrl(encodeQr(walletAddress, 'M'));
+  }
+
   copyBtn.addEventListener('click', async () => {
     const address = addressSpan.textContent;
     if (!address) return;
@@ -1183,181 +1790,2060 @@ function setupWallet() {
   });
 }
 
+const ALLOCATION_COLORS = ['#007aff', '#34c759', '#ff9500', '#ff3b30', '#af52de', '#5856d6', '#5ac8fa'];
+// The donut's circle has a circumference of 100, so dash lengths are percentages.
+const DONUT_RADIUS = 15.9155;
+
+/**
+ * Draws the allocation donut: one arc per asset class, starting at 12 o'clock.
+ */
+function renderAllocationDonut(donut: Element, allocations: AllocationEntry[], selectedIndex: number | null) {
+  let offset = 25;
+  const arcs = allocations.map((entry, index) => {
+    const arc = `<circle cx="21" cy="21" r="${DONUT_RADIUS}" fill="none" stroke="${ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]}"
+      stroke-width="${index === selectedIndex ? 7 : 5}" stroke-dasharray="${entry.percentage} ${100 - entry.percentage}"
+      stroke-dashoffset="${offset}" opacity="${selectedIndex === null || index === selectedIndex ? 1 : 0.35}"></circle>`;
+    offset -= entry.percentage;
+    return arc;
+  });
+  donut.innerHTML = `<circle cx="21" cy="21" r="${DONUT_RADIUS}" fill="none" stroke="var(--neutral-100)" stroke-width="5"></circle>${arcs.join('')}`;
+}
+
+/**
+ * Lists one asset class's holdings beneath the legend.
+ */
+function renderAllocationHoldings(panel: HTMLElement, entry: AllocationEntry, currency: string) {
+  const title = document.createElement('h4');
+  title.textContent = `${entry.assetClass} · ${formatMoney(entry.value, currency)}`;
+
+  const list = document.createElement('ul');
+  entry.holdings.forEach(holding => {
+    const item = document.createElement('li');
+    const label = document.createElement('span');
+    label.textContent = holding.symbol ?? holding.name;
+    label.title = holding.currency === currency ? holding.name : `${holding.name} · priced in ${holding.currency}`;
+    const value = document.createElement('span');
+    value.textContent = formatMoney(holding.value, currency);
+    const share = document.createElement('span');
+    share.textContent = `${holding.percentage}%`;
+    item.append(label, value, share);
+    list.appendChild(item);
+  });
+
+  panel.replaceChildren(title, list);
+  panel.hidden = false;
+}
+
 /**
- * Generates a dynamic, AI-powered asset allocation.
+ * Renders the allocation computed from the user's holdings as a donut and a
+ * legend. Selecting a legend row drills down into that asset class's holdings.
  */
-async function setupAssetAllocation() {
+function renderAllocation(data: PortfolioAllocations) {
+  const donut = document.getElementById('allocation-donut');
+  const allocationGrid = document.querySelector('.allocation-grid');
+  const holdingsPanel = document.getElementById('allocation-holdings');
+  if (!donut || !allocationGrid || !holdingsPanel) return;
+
+  let selectedIndex: number | null = null;
+  const rows: HTMLButtonElement[] = [];
+
+  const select = (index: number | null) => {
+    selectedIndex = index;
+    renderAllocationDonut(donut, data.allocations, selectedIndex);
+    rows.forEach((row, i) => row.setAttribute('aria-expanded', String(i === selectedIndex)));
+    if (selectedIndex === null) {
+      holdingsPanel.hidden = true;
+    } else {
+      renderAllocationHoldings(holdingsPanel, data.allocations[selectedIndex], data.currency);
+    }
+  };
+
+  allocationGrid.innerHTML = '';
+  data.allocations.forEach((entry, index) => {
+    const row = document.createElement('button');
+    row.type = 'button';
+    row.className = 'allocation-item';
+    row.style.setProperty('--color', ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]);
+    row.setAttribute('aria-controls', 'allocation-holdings');
+
+    const categorySpan = document.createElement('span');
+    categorySpan.textContent = entry.assetClass;
+
+    const percentageSpan = document.createElement('span');
+    percentageSpan.textContent = `${entry.percentage}%`;
+
+    row.append(categorySpan, percentageSpan);
+    row.addEventListener('click', () => select(index === selectedIndex ? null : index));
+    rows.push(row);
+    allocationGrid.appendChild(row);
+  });
+
+  donut.setAttribute('aria-label', `Asset allocation: ${data.allocations.map(entry => `${entry.assetClass} ${entry.percentage}%`).join(', ')}`);
+  select(null);
+}
+
+function renderSignedOutAllocation() {
+  const donut = document.getElementById('allocation-donut');
   const allocationGrid = document.querySelector('.allocation-grid');
+  const holdingsPanel = document.getElementById('allocation-holdings');
+  const commentary = document.getElementById('allocation-commentary');
+
+  if (donut) renderAllocationDonut(donut, [], null);
+  if (allocationGrid) allocationGrid.innerHTML = `<small>Sign in to see your asset allocation.</small>`;
+  if (holdingsPanel) holdingsPanel.hidden = true;
+  if (commentary) commentary.hidden = true;
+}
+
+/**
+ * Wires up the optional AI commentary on the allocation. It is only requested
+ * on demand and shown apart from the computed figures.
+ */
+function setupAllocationCommentary() {
+  const commentary = document.getElementById('allocation-commentary');
+  const button = document.getElementById('allocation-commentary-btn') as HTMLButtonElement;
+  const content = document.getElementById('allocation-commentary-content');
+  if (!commentary || !button || !content) {
+    console.error('Allocation commentary elements not found.');
+    return;
+  }
+
+  button.addEventListener('click', async () => {
+    button.disabled = true;
+    content.innerHTML = `<div class="loading-small">Generating commentary...</div>`;
+    try {
+      await render(await commentOnAllocation(), content);
+      button.textContent = 'Regenerate';
+    } catch (error) {
+      const errorMessage = errorMessageHtml(error);
+      content.innerHTML = `<div class="error-card-small"><p>Could not generate commentary.</p><small>${errorMessage}</small></div>`;
+    } finally {
+      button.disabled = false;
+    }
+  });
+}
+
+function resetAllocationCommentary() {
+  const commentary = document.getElementById('allocation-commentary');
+  const button = document.getElementById('allocation-commentary-btn');
+  const content = document.getElementById('allocation-commentary-content');
+  if (!commentary || !button || !content) return;
+
+  commentary.hidden = false;
+  button.textContent = 'Generate';
+  content.innerHTML = `<small>Optional. Ask the AI to comment on your allocation; the figures above are always computed from your holdings.</small>`;
+}
+
+// Numbers are formatted for the browser's locale.
+const moneyFormatters = new Map<string, Intl.NumberFormat>();
+const quantityFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 8 });
+
+function formatMoney(value: number, currency: string): string {
+  let formatter = moneyFormatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency });
+    moneyFormatters.set(currency, formatter);
+  }
+  return formatter.format(value);
+}
+
+function formatQuantity(value: number): string {
+  return quantityFormat.format(value);
+}
+
+function formatSignedMoney(value: number, currency: string): string {
+  return `${value < 0 ? '-' : '+'} ${formatMoney(Math.abs(value), currency)}`;
+}
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+
+/**
+ * Formats a timestamp relative to now, e.g. "2 hours ago" or "yesterday".
+ */
+function formatRelativeTime(isoTimestamp: string): string {
+  const elapsedMinutes = Math.round((Date.now() - new Date(isoTimestamp).getTime()) / 60000);
+  if (elapsedMinutes < 60) return relativeTimeFormat.format(-elapsedMinutes, 'minute');
+  const elapsedHours = Math.round(elapsedMinutes / 60);
+  if (elapsedHours < 24) return relativeTimeFormat.format(-elapsedHours, 'hour');
+  return relativeTimeFormat.format(-Math.round(elapsedHours / 24), 'day');
+}
+
+function formatSignedPercent(value: number): string {
+  return `${value < 0 ? '' : '+'}${value.toFixed(2)}%`;
+}
+
+// Matches the viewBox of the performance chart's SVG in index.html.
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 150;
+const CHART_PADDING = 10;
+const PERFORMANCE_BENCHMARK = 'SPX';
+
+type ChartPoint = [x: number, y: number];
+
+/**
+ * Maps values to SVG coordinates spread evenly across the chart, on a vertical
+ * scale from min to max with a little padding.
+ */
+function toChartPoints(values: number[], min: number, max: number): ChartPoint[] {
+  const range = max - min || 1;
+  return values.map((value, index) => [
+    values.length > 1 ? (index / (values.length - 1)) * CHART_WIDTH : CHART_WIDTH / 2,
+    CHART_HEIGHT - CHART_PADDING - ((value - min) / range) * (CHART_HEIGHT - CHART_PADDING * 2),
+  ]);
+}
+
+function buildChartPath(points: ChartPoint[]): string {
+  return points.map(([x, y], index) => `${index === 0 ? 'M' : 'L'} ${x.toFixed(1)} ${y.toFixed(1)}`).join(' ');
+}
+
+interface PerformanceSeries {
+  data: PortfolioPerformance;
+  values: number[];
+  /** Benchmark levels rebased to the portfolio's starting value, or null. */
+  benchmark: number[] | null;
+  /** Highest value so far at each point, for drawdowns. */
+  peaks: number[];
+  /** Vertical scale shared by every line, so they stay comparable. */
+  min: number;
+  max: number;
+  points: ChartPoint[];
+}
+
+const performanceChart = {
+  range: '1M' as PerformanceRange,
+  series: null as PerformanceSeries | null,
+  /** Index of the point under the crosshair, or null when hidden. */
+  activeIndex: null as number | null,
+  request: null as AbortController | null,
+};
+
+function buildPerformanceSeries(data: PortfolioPerformance): PerformanceSeries {
+  const values = data.points.map(point => point.value);
+  const benchmarkStart = data.points[0]?.benchmark;
+  const benchmark = data.benchmark && benchmarkStart
+    ? data.points.map(point => (point.benchmark / benchmarkStart) * values[0])
+    : null;
+  const peaks: number[] = [];
+  values.forEach((value, index) => peaks.push(Math.max(value, peaks[index - 1] ?? value)));
+
+  const scaled = benchmark ? [...values, ...benchmark] : values;
+  const min = Math.min(...scaled);
+  const max = Math.max(...scaled);
+  return { data, values, benchmark, peaks, min, max, points: toChartPoints(values, min, max) };
+}
+
+function formatChartTime(time: string, interval: PortfolioPerformance['interval']): string {
+  if (interval === 'intraday') {
+    return new Date(time).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+  }
+  // Daily points are calendar dates, which parse as UTC midnight.
+  return new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Draws the portfolio line, the benchmark overlay and drawdown shading from
+ * the loaded series, honouring the chart's toggles.
+ */
+function renderPerformanceChart() {
+  const chart = document.getElementById('performance-chart');
+  const linePath = document.getElementById('performance-chart-path');
+  const benchmarkPath = document.getElementById('performance-benchmark-path');
+  const drawdownArea = document.getElementById('performance-drawdown-area');
+  const benchmarkToggle = document.getElementById('chart-benchmark-toggle') as HTMLInputElement;
+  const drawdownToggle = document.getElementById('chart-drawdown-toggle') as HTMLInputElement;
+  if (!chart || !linePath || !benchmarkPath || !drawdownArea || !benchmarkToggle || !drawdownToggle) return;
+
+  const series = performanceChart.series;
+  if (!series || series.points.length < 2) {
+    [linePath, benchmarkPath, drawdownArea].forEach(path => path.setAttribute('d', ''));
+    return;
+  }
+
+  const { data, values, benchmark, peaks, min, max, points } = series;
+  linePath.setAttribute('d', buildChartPath(points));
+  benchmarkPath.setAttribute('d', benchmark && benchmarkToggle.checked ? buildChartPath(toChartPoints(benchmark, min, max)) : '');
+  if (drawdownToggle.checked) {
+    // The area between the running peak and the value, closed back along the value line.
+    const peakPoints = toChartPoints(peaks, min, max);
+    const back = [...points].reverse().map(([x, y]) => `L ${x.toFixed(1)} ${y.toFixed(1)}`).join(' ');
+    drawdownArea.setAttribute('d', `${buildChartPath(peakPoints)} ${back} Z`);
+  } else {
+    drawdownArea.setAttribute('d', '');
+  }
+
+  const first = values[0];
+  const last = values[values.length - 1];
+  chart.setAttribute('aria-label', `Portfolio value over ${data.range}: ${formatMoney(first, data.currency)} to ${formatMoney(last, data.currency)} (${formatSignedPercent(((last - first) / first) * 100)}). Use the arrow keys to inspect points.`);
+}
 
-  if (!allocationGrid) {
-    console.error('Asset allocation grid not found.');
+/**
+ * Moves the crosshair, marker and tooltip to a point, or hides them for null.
+ */
+function showPerformancePoint(index: number | null) {
+  const crosshair = document.getElementById('performance-crosshair');
+  const marker = document.getElementById('performance-marker');
+  const tooltip = document.getElementById('performance-tooltip');
+  const benchmarkToggle = document.getElementById('chart-benchmark-toggle') as HTMLInputElement;
+  if (!crosshair || !marker || !tooltip || !benchmarkToggle) return;
+
+  const series = performanceChart.series;
+  if (!series || index === null || !series.points[index]) {
+    performanceChart.activeIndex = null;
+    crosshair.setAttribute('visibility', 'hidden');
+    marker.hidden = true;
+    tooltip.hidden = true;
     return;
   }
 
-  // Show loading state
-  allocationGrid.innerHTML = `<div class="loading-small">Generating AI allocation...</div>`;
+  performanceChart.activeIndex = index;
+  const { data, values, benchmark, peaks, points } = series;
+  const [x, y] = points[index];
+  const left = (x / CHART_WIDTH) * 100;
+  crosshair.setAttribute('x1', String(x));
+  crosshair.setAttribute('x2', String(x));
+  crosshair.setAttribute('visibility', 'visible');
+  marker.style.left = `${left}%`;
+  marker.style.top = `${(y / CHART_HEIGHT) * 100}%`;
+  marker.hidden = false;
+
+  const value = values[index];
+  const change = value - values[0];
+  const lines = [
+    `<small>${formatChartTime(data.points[index].time, data.interval)}</small>`,
+    `<strong>${formatMoney(value, data.currency)}</strong>`,
+    `<span class="${change < 0 ? 'negative' : 'positive'}">${formatSignedMoney(change, data.currency)} (${formatSignedPercent((change / values[0]) * 100)})</span>`,
+  ];
+  if (benchmark && benchmarkToggle.checked) {
+    lines.push(`<small>${data.benchmark.name}: ${formatSignedPercent((benchmark[index] / benchmark[0] - 1) * 100)}</small>`);
+  }
+  const drawdown = (value / peaks[index] - 1) * 100;
+  lines.push(`<small>Drawdown: ${drawdown < 0 ? drawdown.toFixed(2) : '0.00'}%</small>`);
+  tooltip.innerHTML = lines.join('');
+  tooltip.hidden = false;
+  // Keep the tooltip inside the card by opening it away from the nearer edge.
+  tooltip.style.left = `${left}%`;
+  tooltip.style.transform = left > 50 ? 'translateX(calc(-100% - 12px))' : 'translateX(12px)';
+}
+
+/**
+ * Fetches the selected range with its benchmark and redraws the chart,
+ * cancelling any load still in flight.
+ */
+async function loadPerformance() {
+  const message = document.getElementById('performance-message');
+  performanceChart.request?.abort();
+  const request = new AbortController();
+  performanceChart.request = request;
+
+  if (message) {
+    message.textContent = 'Loading performance...';
+    message.hidden = false;
+  }
+  showPerformancePoint(null);
 
   try {
-    if (!API_KEY) {
-      throw new Error("API_KEY environment variable not set.");
-    }
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-    const schema = {
-      type: Type.OBJECT,
-      properties: {
-        allocations: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              category: {
-                type: Type.STRING,
-                description: "The name of the investment category."
-              },
-              percentage: {
-                type: Type.NUMBER,
-                description: "The percentage of the portfolio allocated to this category."
-              }
-            },
-            required: ["category", "percentage"]
-          }
-        }
-      },
-      required: ["allocations"]
-    };
+    const data = await getPerformance(performanceChart.range, { benchmark: PERFORMANCE_BENCHMARK, signal: request.signal });
+    performanceChart.series = buildPerformanceSeries(data);
+    if (message) message.hidden = true;
+  } catch (error) {
+    if (isAbortError(error)) return;
+    logError(error, 'Portfolio Performance');
+    performanceChart.series = null;
+    if (message) message.textContent = 'Could not load performance data.';
+  }
+  renderPerformanceChart();
+}
+
+function clearPerformanceChart() {
+  performanceChart.request?.abort();
+  performanceChart.series = null;
+  showPerformancePoint(null);
+  renderPerformanceChart();
+  const message = document.getElementById('performance-message');
+  if (message) {
+    message.textContent = 'Sign in to see your portfolio\'s performance.';
+    message.hidden = false;
+  }
+}
+
+/**
+ * Wires up the performance chart's range buttons, overlay toggles, hover
+ * crosshair and keyboard navigation.
+ */
+function setupPerformanceChart() {
+  const chart = document.getElementById('performance-chart');
+  const rangeButtons = document.querySelectorAll<HTMLButtonElement>('.chart-range-btn');
+  const benchmarkToggle = document.getElementById('chart-benchmark-toggle') as HTMLInputElement;
+  const drawdownToggle = document.getElementById('chart-drawdown-toggle') as HTMLInputElement;
+  if (!chart || rangeButtons.length === 0 || !benchmarkToggle || !drawdownToggle) {
+    console.error('Performance chart elements not found.');
+    return;
+  }
 
-    const portfolioValue = document.querySelector('.metric-value')?.textContent || '$12M';
-
-    const prompt = `
-      Based on a high-net-worth individual's portfolio valued at approximately ${portfolioValue}, generate a plausible and diversified asset allocation strategy suitable for a 'Nexus Growth' (accelerated, diversified returns) risk profile.
-      Provide 5 to 7 allocation categories.
-      The total percentages should sum up to exactly 100.
-      Return the data according to the provided JSON schema.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      },
+  rangeButtons.forEach(button => {
+    button.addEventListener('click', () => {
+      const range = button.dataset.range as PerformanceRange;
+      if (range === performanceChart.range) return;
+      performanceChart.range = range;
+      rangeButtons.forEach(other => {
+        other.classList.toggle('active', other === button);
+        other.setAttribute('aria-pressed', String(other === button));
+      });
+      if (isLoggedIn()) loadPerformance();
     });
-    
-    // Clear loading state
-    allocationGrid.innerHTML = '';
-    
-    const jsonResponse = JSON.parse(response.text);
-    const allocations = jsonResponse.allocations;
+  });
 
-    if (!allocations || !Array.isArray(allocations)) {
-      throw new Error('Invalid allocation data received from AI.');
+  [benchmarkToggle, drawdownToggle].forEach(toggle => {
+    toggle.addEventListener('change', () => {
+      renderPerformanceChart();
+      showPerformancePoint(performanceChart.activeIndex);
+    });
+  });
+
+  chart.addEventListener('pointermove', (e) => {
+    const count = performanceChart.series?.points.length ?? 0;
+    if (count === 0) return;
+    const rect = chart.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    showPerformancePoint(Math.round(fraction * (count - 1)));
+  });
+  chart.addEventListener('pointerleave', () => showPerformancePoint(null));
+  chart.addEventListener('blur', () => showPerformancePoint(null));
+
+  chart.addEventListener('keydown', (e) => {
+    const count = performanceChart.series?.points.length ?? 0;
+    if (count === 0) return;
+    const current = performanceChart.activeIndex ?? count - 1;
+    const next = {
+      ArrowLeft: current - 1,
+      ArrowRight: current + 1,
+      Home: 0,
+      End: count - 1,
+    }[e.key];
+    if (e.key === 'Escape') {
+      showPerformancePoint(null);
+    } else if (next !== undefined) {
+      e.preventDefault();
+      showPerformancePoint(Math.min(Math.max(next, 0), count - 1));
     }
-    
-    const colors = ['#007aff', '#34c759', '#ff9500', '#ff3b30', '#af52de', '#5856d6', '#5ac8fa'];
+  });
+}
+
+/**
+ * Builds a simple data table. Cells are set as text, so values from the API
+ * are never parsed as HTML.
+ */
+function createTable(headers: string[], rows: { cells: string[], className?: string[] }[], caption?: string): HTMLTableElement {
+  const table = document.createElement('table');
+  table.className = 'data-table';
+  if (caption) table.createCaption().textContent = caption;
+
+  const headRow = table.createTHead().insertRow();
+  headers.forEach(header => {
+    const th = document.createElement('th');
+    th.scope = 'col';
+    th.textContent = header;
+    headRow.appendChild(th);
+  });
+
+  const body = table.createTBody();
+  rows.forEach(({ cells, className = [] }) => {
+    const row = body.insertRow();
+    cells.forEach((text, index) => {
+      const cell = row.insertCell();
+      cell.textContent = text;
+      if (className[index]) cell.className = className[index];
+    });
+  });
+  return table;
+}
+
+function formatDrift(drift: number): string {
+  return `${drift > 0 ? '+' : ''}${drift.toFixed(2)} pts`;
+}
+
+const DRIFT_STATUS_CLASSES: Record<DriftStatus, string> = {
+  within: '',
+  over: 'drift-over',
+  under: 'drift-under',
+};
+
+/**
+ * Renders drift against the tier's targets and, when any class is outside
+ * its band, the proposed trades.
+ */
+function renderRebalancing(container: HTMLElement, data: Rebalancing) {
+  const { currency, proposal } = data;
+  const projected = new Map(proposal.projected.map(entry => [entry.assetClass, entry]));
+
+  const driftTable = createTable(
+    ['Asset class', 'Current', 'Target', 'Drift', 'After trades'],
+    data.drift.map(entry => {
+      const after = projected.get(entry.assetClass);
+      return {
+        cells: [
+          entry.assetClass,
+          `${entry.currentPercentage.toFixed(2)}%`,
+          `${entry.targetPercentage}%`,
+          formatDrift(entry.drift),
+          after ? `${after.percentage.toFixed(2)}%` : '',
+        ],
+        className: ['', '', '', DRIFT_STATUS_CLASSES[entry.status], after ? DRIFT_STATUS_CLASSES[after.status] : ''],
+      };
+    }),
+    `Drift from the ${data.tier.name} model portfolio (tolerance ±${data.tolerance} pts)`,
+  );
 
-    allocations.forEach((item: { category: string, percentage: number }, index: number) => {
-      const allocationItem = document.createElement('div');
-      allocationItem.className = 'allocation-item';
-      allocationItem.style.setProperty('--color', colors[index % colors.length]);
+  const summary = document.createElement('p');
+  summary.className = 'rebalancing-summary';
 
-      const categorySpan = document.createElement('span');
-      categorySpan.textContent = item.category;
+  container.replaceChildren(driftTable, summary);
+
+  if (!data.needsRebalancing) {
+    summary.textContent = `Every asset class is within ±${data.tolerance} pts of its target. No trades are needed.`;
+    return;
+  }
 
-      const percentageSpan = document.createElement('span');
-      percentageSpan.textContent = `${item.percentage}%`;
+  summary.textContent = proposal.trades.length
+    ? `${proposal.trades.length} trade${proposal.trades.length === 1 ? '' : 's'} · turnover ${formatMoney(proposal.turnover, currency)} (${proposal.turnoverPercentage.toFixed(2)}% of the portfolio) · cash ${formatMoney(proposal.cashBefore, currency)} → ${formatMoney(proposal.cashAfter, currency)}`
+    : 'No trades can be proposed with the current holdings and cash.';
+
+  if (proposal.trades.length) {
+    container.appendChild(createTable(
+      ['Side', 'Symbol', 'Quantity', 'Price', 'Amount'],
+      proposal.trades.map(trade => ({
+        cells: [
+          trade.side === 'buy' ? 'Buy' : 'Sell',
+          trade.symbol,
+          formatQuantity(trade.quantity),
+          formatMoney(trade.price, trade.currency),
+          formatMoney(trade.amount, currency),
+        ],
+        className: [trade.side === 'buy' ? 'positive' : 'negative'],
+      })),
+      'Proposed trades',
+    ));
+  }
 
-      allocationItem.appendChild(categorySpan);
-      allocationItem.appendChild(percentageSpan);
-      allocationGrid.appendChild(allocationItem);
+  if (proposal.warnings.length) {
+    const warnings = document.createElement('ul');
+    warnings.className = 'rebalancing-warnings';
+    proposal.warnings.forEach(warning => {
+      const item = document.createElement('li');
+      item.textContent = warning;
+      warnings.appendChild(item);
     });
+    container.appendChild(warnings);
+  }
+}
+
+let rebalancingRequest = 0;
+
+async function loadRebalancing() {
+  const content = document.getElementById('rebalancing-content');
+  const tierSelect = document.getElementById('rebalancing-tier') as HTMLSelectElement;
+  const toleranceInput = document.getElementById('rebalancing-tolerance') as HTMLInputElement;
+  if (!content || !tierSelect || !toleranceInput) return;
+
+  if (!isLoggedIn()) {
+    content.innerHTML = `<small>Sign in to compare your holdings with your tier's target allocation.</small>`;
+    return;
+  }
 
+  // Ignore responses to requests superseded by a newer tier or tolerance.
+  const requestId = ++rebalancingRequest;
+  content.innerHTML = `<div class="loading-small">Calculating drift...</div>`;
+  try {
+    const tolerance = toleranceInput.value ? Number(toleranceInput.value) : undefined;
+    const data = await getRebalancing(tierSelect.value, tolerance);
+    if (requestId === rebalancingRequest) renderRebalancing(content, data);
   } catch (error) {
-    logError(error, 'Asset Allocation');
-    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-    allocationGrid.innerHTML = `<div class="error-card-small"><p>Could not load allocation data.</p><small>${errorMessage}</small></div>`;
+    if (requestId !== rebalancingRequest) return;
+    logError(error, 'Rebalancing');
+    const errorMessage = errorMessageHtml(error);
+    content.innerHTML = `<div class="error-card-small"><p>Could not calculate rebalancing.</p><small>${errorMessage}</small></div>`;
+  }
+}
+
+function setupRebalancing() {
+  const tierSelect = document.getElementById('rebalancing-tier');
+  const toleranceInput = document.getElementById('rebalancing-tolerance');
+  if (!tierSelect || !toleranceInput) {
+    console.error('Rebalancing controls not found.');
+    return;
   }
+  tierSelect.addEventListener('change', loadRebalancing);
+  toleranceInput.addEventListener('change', loadRebalancing);
+}
+
+// The signed-in user's plan; null when signed out or if it could not be loaded.
+let subscription: Subscription | null = null;
+let latestOverview: PortfolioOverview | null = null;
+
+function hasEntitlement(entitlement: string): boolean {
+  return subscription?.entitlements.includes(entitlement) ?? false;
 }
 
+/** A tier's features together with those of every lower tier. */
+function tierFeatures(tier: Tier, tiers: Tier[]): TierFeature[] {
+  return tiers.filter(other => other.rank <= tier.rank).flatMap(other => other.features);
+}
 
 /**
- * Main application function.
+ * Shows an upgrade prompt in place of a feature the user's plan does not
+ * include, naming the lowest plan that unlocks it.
  */
-async function main() {
-  setupAuthModal();
-  setupCopilot();
-  setupNavigation();
-  setupAiStudio();
-  setupSocialTrading();
-  setupDashboardAnimations();
-  setupUserCounterAnimation();
-  setupWallet();
-  setupAssetAllocation();
-
-  const insightsContainer = document.getElementById('ai-insights-content');
-  if (!insightsContainer) {
-    console.error('AI insights container not found');
+function renderLockedFeature(container: HTMLElement, entitlement: string, title: string) {
+  if (!subscription) {
+    container.innerHTML = `<div class="locked-feature"><p>${title}</p><small>Sign in to check whether your plan includes this feature.</small></div>`;
     return;
   }
+  const tier = subscription.tiers.find(candidate => candidate.features.some(feature => feature.id === entitlement));
+  container.innerHTML = `<div class="locked-feature"><p>${title}</p><small>Available on the ${tier?.name ?? 'higher'} plan and above.</small></div>`;
+
+  const button = document.createElement('button');
+  button.className = 'btn btn-primary btn-sm';
+  button.textContent = 'View Plans';
+  button.addEventListener('click', () => {
+    (document.querySelector('.nav a[data-view="dashboard-view"]') as HTMLElement | null)?.click();
+    document.querySelector('.plans-grid')?.scrollIntoView({ behavior: 'smooth' });
+  });
+  container.querySelector('.locked-feature')?.appendChild(button);
+}
 
-  insightsContainer.innerHTML = `<div class="loading">Initializing AI analysis...</div>`;
+/**
+ * Marks the current plan on the plan cards and lists which features it
+ * unlocks.
+ */
+function renderSubscription() {
+  const panel = document.getElementById('subscription-panel');
+  const tierName = document.getElementById('subscription-tier-name');
+  const entitlementList = document.getElementById('entitlement-list');
+  const myPlanOption = document.querySelector('#rebalancing-tier option[value=""]');
+  if (!panel || !tierName || !entitlementList) return;
+
+  const current = subscription?.tiers.find(tier => tier.id === subscription?.tier);
+  document.querySelectorAll<HTMLElement>('.plan-card[data-tier]').forEach(card => {
+    const button = card.querySelector<HTMLButtonElement>('.plan-select-btn');
+    const tier = subscription?.tiers.find(candidate => candidate.id === card.dataset.tier);
+    const isCurrent = !!current && tier === current;
+    card.classList.toggle('current-plan', isCurrent);
+    if (!button) return;
+    button.disabled = isCurrent;
+    if (!current || !tier) {
+      button.textContent = 'Select Plan';
+    } else {
+      button.textContent = isCurrent ? 'Current Plan' : tier.rank > current.rank ? 'Upgrade' : 'Downgrade';
+    }
+  });
+  if (myPlanOption) myPlanOption.textContent = current ? `My plan (${current.name})` : 'My plan';
 
-  try {
-    if (!API_KEY) {
-      throw new Error("API_KEY environment variable not set.");
+  if (!subscription || !current) {
+    panel.hidden = true;
+    return;
+  }
+
+  tierName.textContent = current.name;
+  entitlementList.innerHTML = '';
+  subscription.tiers.forEach(tier => tier.features.forEach(feature => {
+    const item = document.createElement('li');
+    item.textContent = feature.label;
+    if (!subscription?.entitlements.includes(feature.id)) {
+      item.className = 'locked';
+      const requirement = document.createElement('small');
+      requirement.textContent = tier.name;
+      item.appendChild(requirement);
     }
+    entitlementList.appendChild(item);
+  }));
+  panel.hidden = false;
+}
 
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
+function resetModelAllocation() {
+  const button = document.getElementById('model-allocation-btn');
+  const content = document.getElementById('model-allocation-content');
+  if (!button || !content) return;
 
-    const prompt = `
-      Act as the Chief Investment Officer for FULXERPRO, an elite, futuristic investment firm. Your task is to generate compelling content for a client's "AI-Powered Strategic Opportunities" dashboard widget.
+  button.textContent = 'Generate';
+  content.innerHTML = `<small>An illustrative allocation suggested by AI for your plan. It is not computed from your holdings.</small>`;
+}
 
-      Analyze the current global financial market using your real-time web search capabilities.
-      
-      Based on your analysis, identify and describe **three exclusive, next-generation investment opportunities** we are currently exploring. These should sound cutting-edge, proprietary, and highly desirable to sophisticated investors.
+async function loadSubscription() {
+  if (!isLoggedIn()) {
+    subscription = null;
+  } else {
+    try {
+      subscription = await getSubscription();
+    } catch (error) {
+      logError(error, 'Subscription');
+      subscription = null;
+    }
+  }
+  renderSubscription();
+  resetModelAllocation();
+}
 
-      For each opportunity, provide:
-      1. A compelling name (as a bolded list item).
-      2. A brief, powerful one-sentence description of the opportunity.
+/**
+ * Wires up the AI model allocation for the user's plan. It is requested on
+ * demand and shown apart from the allocation computed from holdings.
+ */
+function setupModelAllocation() {
+  const button = document.getElementById('model-allocation-btn') as HTMLButtonElement;
+  const content = document.getElementById('model-allocation-content');
+  if (!button || !content) {
+    console.error('Model allocation elements not found.');
+    return;
+  }
 
-      Format the output as a clean markdown list.
-    `;
+  button.addEventListener('click', async () => {
+    if (!subscription) return;
+    button.disabled = true;
+    content.innerHTML = `<div class="loading-small">Generating AI allocation...</div>`;
+    try {
+      const portfolioValue = latestOverview ? formatMoney(latestOverview.totalValue, latestOverview.currency) : undefined;
+      const slices = await generateAllocation(subscription.tier, portfolioValue);
+      content.innerHTML = '';
+      slices.forEach((slice, index) => {
+        const row = document.createElement('div');
+        row.className = 'allocation-item';
+        row.style.setProperty('--color', ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]);
+        const categorySpan = document.createElement('span');
+        categorySpan.textContent = slice.category;
+        const percentageSpan = document.createElement('span');
+        percentageSpan.textContent = `${slice.percentage}%`;
+        row.append(categorySpan, percentageSpan);
+        content.appendChild(row);
+      });
+      button.textContent = 'Regenerate';
+    } catch (error) {
+      const errorMessage = errorMessageHtml(error);
+      content.innerHTML = `<div class="error-card-small"><p>Could not generate a model allocation.</p><small>${errorMessage}</small></div>`;
+    } finally {
+      button.disabled = false;
+    }
+  });
+}
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
+/**
+ * Lists the features a plan change adds and removes.
+ */
+function renderPlanChange(container: HTMLElement, current: Tier, target: Tier, tiers: Tier[]) {
+  const currentIds = new Set(tierFeatures(current, tiers).map(feature => feature.id));
+  const targetFeatures = tierFeatures(target, tiers);
+  const targetIds = new Set(targetFeatures.map(feature => feature.id));
+  const gained = targetFeatures.filter(feature => !currentIds.has(feature.id));
+  const lost = tierFeatures(current, tiers).filter(feature => !targetIds.has(feature.id));
+
+  const intro = document.createElement('p');
+  intro.textContent = `Move from ${current.name} to ${target.name}?`;
+  container.replaceChildren(intro);
+
+  const addList = (heading: string, features: TierFeature[]) => {
+    if (features.length === 0) return;
+    const title = document.createElement('h4');
+    title.textContent = heading;
+    const list = document.createElement('ul');
+    list.className = 'plan-change-list';
+    features.forEach(feature => {
+      const item = document.createElement('li');
+      item.textContent = feature.label;
+      list.appendChild(item);
     });
+    container.append(title, list);
+  };
+  addList('You will gain', gained);
+  addList('You will lose', lost);
+}
 
-    await render(response.text, insightsContainer);
-    
-    // Render sources from grounding metadata
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (sources && sources.length > 0) {
-        const sourcesContainer = document.createElement('div');
-        sourcesContainer.className = 'ai-sources-container';
-
-        const sourcesTitle = document.createElement('h4');
-        sourcesTitle.textContent = 'Sources';
-        sourcesContainer.appendChild(sourcesTitle);
+/**
+ * Sets up the plan cards' Select Plan buttons. Changing plan is confirmed in
+ * a modal that lists the features gained and lost.
+ */
+function setupPlanSelection() {
+  const modalOverlay = document.getElementById('plan-change-modal-overlay');
+  const closeModalBtn = document.getElementById('plan-change-modal-close-btn');
+  const cancelBtn = document.getElementById('plan-change-cancel-btn');
+  const confirmBtn = document.getElementById('plan-change-confirm-btn') as HTMLButtonElement;
+  const modalTitle = document.getElementById('plan-change-modal-title');
+  const modalContent = document.getElementById('plan-change-modal-content');
+  const changeError = document.getElementById('plan-change-error');
+  if (!modalOverlay || !closeModalBtn || !cancelBtn || !confirmBtn || !modalTitle || !modalContent || !changeError) {
+    console.error('Plan change modal elements not found.');
+    return;
+  }
 
-        const sourcesList = document.createElement('ul');
-        sourcesList.className = 'ai-sources-list';
+  let pendingTier: Tier | null = null;
+
+  const closeModal = () => {
+    modalOverlay.classList.remove('active');
+    pendingTier = null;
+  };
+
+  document.querySelectorAll<HTMLButtonElement>('.plan-select-btn').forEach(button => {
+    button.addEventListener('click', () => {
+      if (!subscription) {
+        document.getElementById('cta-login-btn')?.click();
+        return;
+      }
+      const current = subscription.tiers.find(tier => tier.id === subscription?.tier);
+      const target = subscription.tiers.find(tier => tier.id === button.dataset.tier);
+      if (!current || !target || target === current) return;
+
+      pendingTier = target;
+      modalTitle.textContent = target.rank > current.rank ? `Upgrade to ${target.name}` : `Downgrade to ${target.name}`;
+      renderPlanChange(modalContent, current, target, subscription.tiers);
+      setFormError(changeError, null);
+      modalOverlay.classList.add('active');
+    });
+  });
+
+  confirmBtn.addEventListener('click', async () => {
+    if (!pendingTier) return;
+    confirmBtn.disabled = true;
+    try {
+      subscription = await changeTier(pendingTier.id);
+      renderSubscription();
+      resetModelAllocation();
+      loadRebalancing();
+      closeModal();
+    } catch (error) {
+      if (!(error instanceof ApiError)) logError(error, 'Plan Change');
+      setFormError(changeError, error instanceof ApiError ? error.message : 'Could not change your plan. Please try again.');
+    } finally {
+      confirmBtn.disabled = false;
+    }
+  });
+
+  closeModalBtn.addEventListener('click', closeModal);
+  cancelBtn.addEventListener('click', closeModal);
+  modalOverlay.addEventListener('click', (event) => {
+    if (event.target === modalOverlay) {
+      closeModal();
+    }
+  });
+}
+
+
+function formatPercent(fraction: number, digits = 2): string {
+  return `${(fraction * 100).toFixed(digits)}%`;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null || Number.isNaN(value) ? 'n/a' : value.toFixed(2);
+}
+
+function formatHistoryDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Renders risk metrics computed from a year of daily closes.
+ */
+function renderRisk(container: HTMLElement, data: PortfolioPerformance) {
+  const values = data.points.map(point => point.value);
+  const benchmark = data.benchmark ? data.points.map(point => point.benchmark) : undefined;
+  // The Co-pilot's getRiskMetrics tool computes the same figures, with the same settings, on the server.
+  const metrics = computeRiskMetrics(values, benchmark, riskSettings);
+  const currentValue = values[values.length - 1];
+  const confidence = formatPercent(metrics.confidence, 0);
+  const { drawdown } = metrics;
+  const dateAt = (index: number) => formatHistoryDate(data.points[index].time);
+
+  const rows: [string, string, string?][] = [
+    ['Volatility (annualised)', formatPercent(metrics.annualisedVolatility)],
+    [`1-day VaR ${confidence}, historical`, formatPercent(metrics.historicalVaR), formatMoney(metrics.historicalVaR * currentValue, data.currency)],
+    [`1-day VaR ${confidence}, parametric`, formatPercent(metrics.parametricVaR), formatMoney(metrics.parametricVaR * currentValue, data.currency)],
+    [`1-day CVaR ${confidence}, historical`, formatPercent(metrics.historicalCVaR), formatMoney(metrics.historicalCVaR * currentValue, data.currency)],
+    [`1-day CVaR ${confidence}, parametric`, formatPercent(metrics.parametricCVaR), formatMoney(metrics.parametricCVaR * currentValue, data.currency)],
+    [`Beta vs ${data.benchmark?.name ?? 'benchmark'}`, formatRatio(metrics.beta)],
+    ['Sharpe ratio', formatRatio(metrics.sharpeRatio)],
+    ['Sortino ratio', formatRatio(metrics.sortinoRatio)],
+    [
+      'Max drawdown',
+      formatPercent(-drawdown.maxDrawdown),
+      drawdown.maxDrawdown > 0
+        ? `${dateAt(drawdown.peakIndex)} – ${dateAt(drawdown.troughIndex)}, ${drawdown.recoveryIndex === null ? 'not yet recovered' : `recovered ${dateAt(drawdown.recoveryIndex)}`}`
+        : undefined,
+    ],
+  ];
+
+  const list = document.createElement('dl');
+  list.className = 'risk-metrics';
+  rows.forEach(([label, value, detail]) => {
+    const term = document.createElement('dt');
+    term.textContent = label;
+    const description = document.createElement('dd');
+    description.textContent = value;
+    if (detail) {
+      const small = document.createElement('small');
+      small.textContent = detail;
+      description.appendChild(small);
+    }
+    list.append(term, description);
+  });
+
+  const footnote = document.createElement('p');
+  footnote.className = 'risk-footnote';
+  footnote.textContent = `Based on ${metrics.observations} daily returns over the last year, with a ${formatPercent(riskSettings.riskFreeRate, 0)} risk-free rate. VaR and CVaR are losses in a single day.`;
+  container.replaceChildren(list, footnote);
+}
+
+async function loadRisk() {
+  const content = document.getElementById('risk-content');
+  if (!content) return;
+
+  if (!isLoggedIn()) {
+    content.innerHTML = `<small>Sign in to see your portfolio's risk metrics.</small>`;
+    return;
+  }
+
+  content.innerHTML = `<div class="loading-small">Calculating risk metrics...</div>`;
+  try {
+    renderRisk(content, await getPerformance('1Y', { benchmark: PERFORMANCE_BENCHMARK }));
+  } catch (error) {
+    logError(error, 'Risk Analytics');
+    const errorMessage = errorMessageHtml(error);
+    content.innerHTML = `<div class="error-card-small"><p>Could not calculate risk metrics.</p><small>${errorMessage}</small></div>`;
+  }
+}
+
+// The watchlist's symbols and their latest quotes, kept moving by the price stream.
+const watchlist = {
+  symbols: [] as string[],
+  quotes: new Map<string, Quote>(),
+};
+
+function renderWatchlistQuote(row: HTMLElement, quote: Quote | undefined) {
+  const priceEl = row.querySelector<HTMLElement>('.watchlist-price');
+  if (!priceEl) return;
+  if (!quote) {
+    priceEl.textContent = '\u2014';
+    return;
+  }
+  priceEl.replaceChildren(
+    document.createTextNode(formatMoney(quote.price, quote.currency)),
+    document.createElement('br'),
+  );
+  const change = document.createElement('small');
+  change.className = quote.change < 0 ? 'negative' : 'positive';
+  change.textContent = formatSignedPercent(quote.changePercent);
+  priceEl.appendChild(change);
+}
+
+function renderWatchlist() {
+  const content = document.getElementById('watchlist-content');
+  if (!content) return;
+
+  if (watchlist.symbols.length === 0) {
+    content.innerHTML = `<small>Add symbols to track prices you don't hold.</small>`;
+    return;
+  }
+  const list = document.createElement('ul');
+  list.className = 'watchlist-list';
+  watchlist.symbols.forEach(symbol => {
+    const quote = watchlist.quotes.get(symbol);
+    const row = document.createElement('li');
+    row.dataset.symbol = symbol;
+
+    const symbolEl = document.createElement('span');
+    symbolEl.className = 'watchlist-symbol';
+    symbolEl.textContent = symbol;
+    if (quote && quote.name !== symbol) symbolEl.title = quote.name;
+
+    const priceEl = document.createElement('span');
+    priceEl.className = 'watchlist-price';
+
+    const alertButton = document.createElement('button');
+    alertButton.type = 'button';
+    alertButton.className = 'btn btn-secondary btn-sm';
+    alertButton.dataset.action = 'alert';
+    alertButton.textContent = 'Alert';
+    alertButton.setAttribute('aria-label', `Create an alert for ${symbol}`);
+
+    const removeButton = document.createElement('button');
+    removeButton.type = 'button';
+    removeButton.className = 'btn btn-secondary btn-sm';
+    removeButton.dataset.action = 'remove';
+    removeButton.textContent = '\u00d7';
+    removeButton.setAttribute('aria-label', `Remove ${symbol} from the watchlist`);
+
+    row.append(symbolEl, priceEl, alertButton, removeButton);
+    renderWatchlistQuote(row, quote);
+    list.appendChild(row);
+  });
+  content.replaceChildren(list);
+}
+
+/**
+ * Updates watchlist prices in place from streamed quotes, so buttons keep focus.
+ */
+function applyWatchlistQuotes(quotes: Quote[]) {
+  const content = document.getElementById('watchlist-content');
+  quotes.forEach(quote => {
+    if (!watchlist.symbols.includes(quote.symbol)) return;
+    watchlist.quotes.set(quote.symbol, quote);
+    const row = content?.querySelector<HTMLElement>(`li[data-symbol="${CSS.escape(quote.symbol)}"]`);
+    if (row) renderWatchlistQuote(row, quote);
+  });
+}
+
+function setWatchlist(symbols: string[], quotes: Quote[]) {
+  watchlist.symbols = symbols;
+  watchlist.quotes = new Map(quotes.map(quote => [quote.symbol, quote]));
+  renderWatchlist();
+  priceStream?.subscribe(symbols);
+}
+
+function renderAlerts(alerts: AlertRule[]) {
+  const list = document.getElementById('alert-list');
+  if (!list) return;
+
+  list.replaceChildren(...alerts.map(alert => {
+    const item = document.createElement('li');
+    const description = document.createElement('span');
+    description.textContent = alert.description;
+    const status = document.createElement('span');
+    status.className = `alert-status ${alert.status}`;
+    status.textContent = alert.status === 'triggered' ? `Fired ${formatRelativeTime(alert.triggeredAt ?? alert.createdAt)}` : 'Active';
+    const deleteButton = document.createElement('button');
+    deleteButton.type = 'button';
+    deleteButton.className = 'btn btn-secondary btn-sm';
+    deleteButton.dataset.alertId = alert.id;
+    deleteButton.textContent = '\u00d7';
+    deleteButton.setAttribute('aria-label', `Delete the alert "${alert.description}"`);
+    item.append(description, status, deleteButton);
+    return item;
+  }));
+}
+
+async function loadAlerts() {
+  try {
+    renderAlerts(await getAlerts());
+  } catch (error) {
+    logError(error, 'Price Alerts');
+  }
+}
+
+/**
+ * Loads the watchlist and alert rules, or shows the card's signed-out state.
+ */
+async function loadWatchlist() {
+  const content = document.getElementById('watchlist-content');
+  const form = document.getElementById('watchlist-form');
+  const alertForm = document.getElementById('alert-form');
+  if (!content || !form || !alertForm) return;
+
+  const signedIn = isLoggedIn();
+  form.hidden = !signedIn;
+  alertForm.hidden = !signedIn;
+  if (!signedIn) {
+    watchlist.symbols = [];
+    watchlist.quotes.clear();
+    content.innerHTML = `<small>Sign in to build a watchlist.</small>`;
+    renderAlerts([]);
+    return;
+  }
+
+  content.innerHTML = `<div class="loading-small">Loading watchlist...</div>`;
+  try {
+    const { symbols, quotes } = await getWatchlist();
+    setWatchlist(symbols, quotes);
+  } catch (error) {
+    logError(error, 'Watchlist');
+    content.innerHTML = `<div class="error-card-small"><p>Could not load your watchlist.</p></div>`;
+  }
+  loadAlerts();
+}
+
+function setupWatchlist() {
+  const form = document.getElementById('watchlist-form') as HTMLFormElement | null;
+  const symbolInput = document.getElementById('watchlist-symbol') as HTMLInputElement | null;
+  const content = document.getElementById('watchlist-content');
+  const alertForm = document.getElementById('alert-form') as HTMLFormElement | null;
+  const alertSymbol = document.getElementById('alert-symbol') as HTMLInputElement | null;
+  const alertCondition = document.getElementById('alert-condition') as HTMLSelectElement | null;
+  const alertThreshold = document.getElementById('alert-threshold') as HTMLInputElement | null;
+  const alertList = document.getElementById('alert-list');
+  const errorEl = document.getElementById('watchlist-error');
+  if (!form || !symbolInput || !content || !alertForm || !alertSymbol || !alertCondition || !alertThreshold || !alertList || !errorEl) {
+    console.error('Watchlist elements not found.');
+    return;
+  }
+
+  const showError = (error: unknown, context: string) => {
+    if (!(error instanceof ApiError)) logError(error, context);
+    setFormError(errorEl, error instanceof ApiError ? error.message : 'Something went wrong. Please try again.');
+  };
+
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    setFormError(errorEl, null);
+    try {
+      const { symbols, quotes } = await addToWatchlist(symbolInput.value.trim());
+      setWatchlist(symbols, quotes);
+      form.reset();
+    } catch (error) {
+      showError(error, 'Watchlist');
+    }
+  });
+
+  content.addEventListener('click', async (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+    const symbol = button?.closest<HTMLElement>('li')?.dataset.symbol;
+    if (!button || !symbol) return;
+
+    if (button.dataset.action === 'alert') {
+      alertSymbol.value = symbol;
+      alertThreshold.focus();
+      return;
+    }
+    setFormError(errorEl, null);
+    button.disabled = true;
+    try {
+      const { symbols, quotes } = await removeFromWatchlist(symbol);
+      setWatchlist(symbols, quotes);
+    } catch (error) {
+      button.disabled = false;
+      showError(error, 'Watchlist');
+    }
+  });
+
+  alertForm.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    setFormError(errorEl, null);
+    try {
+      await createAlert(alertSymbol.value.trim(), alertCondition.value as AlertCondition, Number(alertThreshold.value));
+      alertThreshold.value = '';
+      loadAlerts();
+    } catch (error) {
+      showError(error, 'Price Alerts');
+    }
+  });
+
+  alertList.addEventListener('click', async (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-alert-id]');
+    const id = button?.dataset.alertId;
+    if (!button || !id) return;
+    button.disabled = true;
+    try {
+      await deleteAlert(id);
+      loadAlerts();
+    } catch (error) {
+      button.disabled = false;
+      showError(error, 'Price Alerts');
+    }
+  });
+}
+
+// The notification centre's contents; null when signed out.
+let notifications: Notifications | null = null;
+
+function renderNotifications() {
+  const centre = document.getElementById('notification-centre');
+  const badge = document.getElementById('notification-badge');
+  const bell = document.getElementById('notification-bell');
+  const list = document.getElementById('notification-list');
+  if (!centre || !badge || !bell || !list) return;
+
+  centre.classList.toggle('hidden', !notifications);
+  if (!notifications) return;
+
+  const { unread } = notifications;
+  badge.hidden = unread === 0;
+  badge.textContent = unread > 99 ? '99+' : String(unread);
+  bell.setAttribute('aria-label', unread ? `Notifications (${unread} unread)` : 'Notifications');
+
+  if (notifications.notifications.length === 0) {
+    list.innerHTML = `<li><small>No alerts have fired yet.</small></li>`;
+    return;
+  }
+  list.replaceChildren(...notifications.notifications.map(notification => {
+    const item = document.createElement('li');
+    item.classList.toggle('unread', !notification.read);
+    const message = document.createElement('span');
+    message.textContent = notification.message;
+    const time = document.createElement('small');
+    time.textContent = formatRelativeTime(notification.createdAt);
+    item.append(message, time);
+    return item;
+  }));
+}
+
+async function loadNotifications() {
+  if (!isLoggedIn()) {
+    notifications = null;
+    renderNotifications();
+    return;
+  }
+  try {
+    notifications = await getNotifications();
+  } catch (error) {
+    logError(error, 'Notifications');
+    notifications = null;
+  }
+  renderNotifications();
+}
+
+/** Adds an alert pushed over the price stream to the notification centre. */
+function addNotification(notification: AlertNotification) {
+  if (!notifications) return;
+  notifications = {
+    unread: notifications.unread + 1,
+    notifications: [notification, ...notifications.notifications],
+  };
+  renderNotifications();
+  // Notifications come from fired alerts, or copy-trading being stopped.
+  loadAlerts();
+  loadCopyTrading();
+}
+
+function setupNotifications() {
+  const bell = document.getElementById('notification-bell');
+  const panel = document.getElementById('notification-panel');
+  const readButton = document.getElementById('notification-read-btn') as HTMLButtonElement | null;
+  if (!bell || !panel || !readButton) {
+    console.error('Notification centre elements not found.');
+    return;
+  }
+
+  const setOpen = (open: boolean) => {
+    panel.hidden = !open;
+    bell.setAttribute('aria-expanded', String(open));
+  };
+
+  bell.addEventListener('click', (e) => {
+    e.stopPropagation();
+    setOpen(panel.hidden);
+  });
+  panel.addEventListener('click', (e) => e.stopPropagation());
+  document.addEventListener('click', () => setOpen(false));
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && !panel.hidden) {
+      setOpen(false);
+      bell.focus();
+    }
+  });
+
+  readButton.addEventListener('click', async () => {
+    readButton.disabled = true;
+    try {
+      notifications = await markNotificationsRead();
+      renderNotifications();
+    } catch (error) {
+      logError(error, 'Notifications');
+    } finally {
+      readButton.disabled = false;
+    }
+  });
+}
+
+// The latest streamed quote for each symbol, used to estimate order values.
+const marketQuotes = new Map<string, Quote>();
+
+const ORDER_STATUS_LABELS: Record<Order['status'], string> = {
+  open: 'Open',
+  filled: 'Filled',
+  cancelled: 'Cancelled',
+  rejected: 'Rejected',
+  expired: 'Expired',
+};
+
+function describeOrderOutcome(order: Order): string {
+  if (order.status === 'filled' && order.fillPrice !== null) {
+    return `Filled at ${formatMoney(order.fillPrice, order.currency)} ${formatRelativeTime(order.closedAt ?? order.createdAt)}`;
+  }
+  if (order.reason) return order.reason;
+  if (order.status === 'open') {
+    return order.expiresAt ? `Open until ${new Date(order.expiresAt).toLocaleString()}` : 'Open until cancelled';
+  }
+  return formatRelativeTime(order.closedAt ?? order.createdAt);
+}
+
+function renderOrders(orders: Order[]) {
+  const content = document.getElementById('order-content');
+  if (!content) return;
+
+  if (orders.length === 0) {
+    content.innerHTML = `<small>No orders yet. Orders fill against the simulated market and are recorded in your ledger.</small>`;
+    return;
+  }
+  const list = document.createElement('ul');
+  list.className = 'order-list';
+  list.replaceChildren(...orders.map(order => {
+    const item = document.createElement('li');
+    const details = document.createElement('div');
+    details.className = 'order-details';
+    const description = document.createElement('span');
+    description.textContent = order.description;
+    const outcome = document.createElement('small');
+    outcome.textContent = describeOrderOutcome(order);
+    details.append(description, outcome);
+
+    const status = document.createElement('span');
+    status.className = `order-status ${order.status}`;
+    status.textContent = ORDER_STATUS_LABELS[order.status];
+    item.append(details, status);
+
+    if (order.status === 'open') {
+      const cancelButton = document.createElement('button');
+      cancelButton.type = 'button';
+      cancelButton.className = 'btn btn-secondary btn-sm';
+      cancelButton.dataset.orderId = order.id;
+      cancelButton.textContent = 'Cancel';
+      cancelButton.setAttribute('aria-label', `Cancel the order "${order.description}"`);
+      item.appendChild(cancelButton);
+    }
+    return item;
+  }));
+  content.replaceChildren(list);
+}
+
+// Buying power from the last orders load, for the ticket's summary line.
+let buyingPower: { currency: string, available: number } | null = null;
+
+/**
+ * Summarises the ticket: the estimated order value against the buying power
+ * left. Market orders are estimated at the latest streamed price, if any.
+ */
+function renderOrderSummary() {
+  const summary = document.getElementById('order-summary');
+  const side = (document.getElementById('order-side') as HTMLSelectElement | null)?.value as OrderSide | undefined;
+  const symbol = (document.getElementById('order-symbol') as HTMLInputElement | null)?.value.trim().toUpperCase() ?? '';
+  const quantity = Number((document.getElementById('order-quantity') as HTMLInputElement | null)?.value);
+  const type = (document.getElementById('order-type') as HTMLSelectElement | null)?.value as OrderType | undefined;
+  if (!summary) return;
+
+  summary.hidden = !buyingPower;
+  if (!buyingPower) return;
+
+  const parts = [`Buying power: ${formatMoney(buyingPower.available, buyingPower.currency)}`];
+  const quote = marketQuotes.get(symbol) ?? watchlist.quotes.get(symbol);
+  const priceInput = type === 'limit' ? 'order-limit-price' : type === 'stop' ? 'order-stop-price' : null;
+  const price = priceInput ? Number((document.getElementById(priceInput) as HTMLInputElement).value) : quote?.price;
+  if (quote) parts.unshift(`${symbol} ${formatMoney(quote.price, quote.currency)}`);
+  if (price && quantity > 0) {
+    parts.push(`Estimated ${side === 'sell' ? 'proceeds' : 'cost'}: ${formatMoney(price * quantity, quote?.currency ?? buyingPower.currency)}`);
+  }
+  summary.textContent = parts.join(' \u00b7 ');
+}
+
+/**
+ * Loads the order history and buying power, or shows the ticket's signed-out
+ * state.
+ */
+async function loadOrders() {
+  const content = document.getElementById('order-content');
+  const form = document.getElementById('order-form');
+  if (!content || !form) return;
+
+  form.hidden = !isLoggedIn();
+  if (!isLoggedIn()) {
+    buyingPower = null;
+    renderOrderSummary();
+    content.innerHTML = `<small>Sign in to place paper trades against the simulated market.</small>`;
+    return;
+  }
+
+  try {
+    const result = await getOrders();
+    buyingPower = result.buyingPower;
+    renderOrderSummary();
+    renderOrders(result.orders);
+  } catch (error) {
+    logError(error, 'Order Ticket');
+    content.innerHTML = `<div class="error-card-small"><p>Could not load your orders.</p></div>`;
+  }
+}
+
+/**
+ * Handles an order update pushed over the price stream. Fills change the
+ * cash balance, holdings and ledger, so the portfolio is reloaded.
+ */
+function applyOrderUpdate(order: Order) {
+  if (order.status === 'filled') {
+    loadPortfolio();
+  } else {
+    loadOrders();
+  }
+}
+
+function setupOrderTicket() {
+  const form = document.getElementById('order-form') as HTMLFormElement | null;
+  const symbolInput = document.getElementById('order-symbol') as HTMLInputElement | null;
+  const sideSelect = document.getElementById('order-side') as HTMLSelectElement | null;
+  const quantityInput = document.getElementById('order-quantity') as HTMLInputElement | null;
+  const typeSelect = document.getElementById('order-type') as HTMLSelectElement | null;
+  const limitField = document.getElementById('order-limit-field');
+  const limitInput = document.getElementById('order-limit-price') as HTMLInputElement | null;
+  const stopField = document.getElementById('order-stop-field');
+  const stopInput = document.getElementById('order-stop-price') as HTMLInputElement | null;
+  const timeInForceSelect = document.getElementById('order-time-in-force') as HTMLSelectElement | null;
+  const submitButton = document.getElementById('order-submit-btn') as HTMLButtonElement | null;
+  const content = document.getElementById('order-content');
+  const errorEl = document.getElementById('order-error');
+  if (!form || !symbolInput || !sideSelect || !quantityInput || !typeSelect || !limitField || !limitInput || !stopField || !stopInput
+    || !timeInForceSelect || !submitButton || !content || !errorEl) {
+    console.error('Order ticket elements not found.');
+    return;
+  }
+
+  const showOrderType = () => {
+    const type = typeSelect.value as OrderType;
+    limitField.hidden = type !== 'limit';
+    limitInput.required = type === 'limit';
+    stopField.hidden = type !== 'stop';
+    stopInput.required = type === 'stop';
+  };
+  typeSelect.addEventListener('change', () => {
+    showOrderType();
+    renderOrderSummary();
+  });
+  form.addEventListener('input', renderOrderSummary);
+  showOrderType();
+
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    setFormError(errorEl, null);
+    const type = typeSelect.value as OrderType;
+    submitButton.disabled = true;
+    try {
+      const order = await placeOrder({
+        symbol: symbolInput.value.trim(),
+        side: sideSelect.value as OrderSide,
+        type,
+        quantity: Number(quantityInput.value),
+        ...(type === 'limit' && { limitPrice: Number(limitInput.value) }),
+        ...(type === 'stop' && { stopPrice: Number(stopInput.value) }),
+        timeInForce: timeInForceSelect.value as TimeInForce,
+      });
+      quantityInput.value = '';
+      limitInput.value = '';
+      stopInput.value = '';
+      applyOrderUpdate(order);
+    } catch (error) {
+      if (!(error instanceof ApiError)) logError(error, 'Order Ticket');
+      setFormError(errorEl, error instanceof ApiError ? error.message : 'Could not place the order. Please try again.');
+    } finally {
+      submitButton.disabled = false;
+    }
+  });
+
+  content.addEventListener('click', async (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-order-id]');
+    const id = button?.dataset.orderId;
+    if (!button || !id) return;
+    setFormError(errorEl, null);
+    button.disabled = true;
+    try {
+      await cancelOrder(id);
+    } catch (error) {
+      if (!(error instanceof ApiError)) logError(error, 'Order Ticket');
+      setFormError(errorEl, error instanceof ApiError ? error.message : 'Could not cancel the order. Please try again.');
+    }
+    loadOrders();
+  });
+}
+
+function renderPortfolioOverview(overview: PortfolioOverview) {
+  const valueEl = document.getElementById('portfolio-value');
+  const changeEl = document.getElementById('portfolio-change');
+  if (!valueEl || !changeEl) return;
+
+  valueEl.textContent = formatMoney(overview.totalValue, overview.currency);
+  changeEl.textContent = `${formatSignedMoney(overview.dayChange, overview.currency)} (${formatSignedPercent(overview.dayChangePercent)}) Today`;
+  changeEl.className = `metric-change ${overview.dayChange < 0 ? 'negative' : 'positive'}`;
+}
+
+// Streamed intraday values closer together than this update the chart's last point instead of adding one.
+const LIVE_POINT_SPACING_MS = 60 * 1000;
+const INTRADAY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// The live price stream while signed in; null when signed out.
+let priceStream: PriceStream | null = null;
+
+/**
+ * Moves the performance chart to a streamed value. Intraday charts gain a
+ * point and drop those older than 24 hours; daily charts update today's close.
+ */
+function applyLivePerformance(overview: PortfolioOverview) {
+  const series = performanceChart.series;
+  if (!series || series.data.currency !== overview.currency) return;
+
+  const {data} = series;
+  const points = [...data.points];
+  const last = points[points.length - 1];
+  if (data.interval === 'intraday') {
+    const previous = points[points.length - 2];
+    const point = { time: overview.asOf, value: overview.totalValue, ...(data.benchmark && { benchmark: last?.benchmark }) };
+    if (previous && Date.parse(overview.asOf) - Date.parse(previous.time) < LIVE_POINT_SPACING_MS) {
+      points[points.length - 1] = point;
+    } else {
+      points.push(point);
+    }
+    const cutoff = Date.parse(overview.asOf) - INTRADAY_WINDOW_MS;
+    while (points.length > 2 && Date.parse(points[0].time) < cutoff) points.shift();
+  } else {
+    const today = overview.asOf.slice(0, 10);
+    if (last?.time === today) {
+      points[points.length - 1] = { ...last, value: overview.totalValue };
+    } else {
+      points.push({ time: today, value: overview.totalValue, ...(data.benchmark && { benchmark: last?.benchmark }) });
+    }
+  }
+
+  performanceChart.series = buildPerformanceSeries({ ...data, points });
+  renderPerformanceChart();
+  showPerformancePoint(performanceChart.activeIndex);
+}
+
+function renderStreamStatus(status: StreamStatus) {
+  const statusEl = document.getElementById('stream-status');
+  const valueEl = document.getElementById('portfolio-value');
+  const changeEl = document.getElementById('portfolio-change');
+  if (!statusEl) return;
+
+  const stale = status === 'stale';
+  statusEl.hidden = status !== 'live' && !stale;
+  statusEl.classList.toggle('stale', stale);
+  statusEl.textContent = stale ? 'Reconnecting' : 'Live';
+  statusEl.title = stale
+    ? 'The live price feed dropped. Values may be out of date until it reconnects.'
+    : 'Values update as prices move.';
+  valueEl?.classList.toggle('stale', stale);
+  changeEl?.classList.toggle('stale', stale);
+}
+
+/**
+ * Opens the live price stream, if it is not already open, to keep the
+ * Portfolio Overview value, change and chart moving.
+ */
+function startPriceStream() {
+  if (priceStream) return;
+  priceStream = openPriceStream({
+    onQuotes: (quotes) => {
+      quotes.forEach(quote => marketQuotes.set(quote.symbol, quote));
+      applyWatchlistQuotes(quotes);
+    },
+    onNotification: addNotification,
+    onOrder: applyOrderUpdate,
+    onPortfolio: (overview) => {
+      latestOverview = overview;
+      renderPortfolioOverview(overview);
+      applyLivePerformance(overview);
+    },
+    onStatus: (status) => {
+      renderStreamStatus(status);
+      // The server rejected the session; a later sign-in opens a new stream.
+      if (status === 'closed') priceStream = null;
+    },
+  });
+}
+
+function stopPriceStream() {
+  priceStream?.close();
+  priceStream = null;
+  marketQuotes.clear();
+}
+
+/**
+ * Lists the latest transactions in the wallet. Trades show the change in the
+ * holding with its value; amounts are shown in the base currency when rates
+ * are available.
+ */
+function renderActivity(activityList: HTMLElement, transactions: Transaction[], baseCurrency: string, fx: FxRates | null) {
+  activityList.innerHTML = '';
+  if (transactions.length === 0) {
+    activityList.innerHTML = `<li><small>No recent activity.</small></li>`;
+    return;
+  }
+
+  transactions.forEach(transaction => {
+    const isTrade = (transaction.type === 'buy' || transaction.type === 'sell') && transaction.symbol && transaction.quantity !== null;
+    const isInflow = isTrade ? transaction.type === 'buy' : transaction.amount >= 0;
+    const currency = fx ? baseCurrency : transaction.currency;
+    const amount = fx ? convertCurrency(fx, transaction.amount, transaction.currency, baseCurrency) : transaction.amount;
+
+    const item = document.createElement('li');
+    item.title = transaction.description;
+
+    const label = document.createElement('span');
+    label.className = isInflow ? 'positive' : 'negative';
+    if (isTrade) {
+      const valuation = document.createElement('span');
+      valuation.className = 'activity-valuation';
+      valuation.textContent = formatMoney(Math.abs(amount), currency);
+      label.append(`${isInflow ? '+' : '-'}${formatQuantity(transaction.quantity)} ${transaction.symbol}`, valuation);
+    } else {
+      label.textContent = formatSignedMoney(amount, currency);
+    }
+
+    const time = document.createElement('small');
+    time.textContent = formatRelativeTime(transaction.executedAt);
+
+    item.append(label, time);
+    activityList.appendChild(item);
+  });
+}
+
+const LEDGER_PAGE_SIZE = 25;
+
+const ledger = {
+  filters: {} as ActivityFilters,
+  entries: [] as LedgerEntry[],
+  currency: 'USD',
+  nextCursor: null as string | null,
+  // Ignores responses to requests superseded by newer filters.
+  requestId: 0,
+};
+
+function readLedgerFilters(): ActivityFilters {
+  const type = (document.getElementById('ledger-type') as HTMLSelectElement | null)?.value as TransactionType | '';
+  const symbol = (document.getElementById('ledger-symbol') as HTMLInputElement | null)?.value.trim();
+  const from = (document.getElementById('ledger-from') as HTMLInputElement | null)?.value;
+  const to = (document.getElementById('ledger-to') as HTMLInputElement | null)?.value;
+  return {
+    types: type ? [type] : undefined,
+    symbol: symbol || undefined,
+    from: from || undefined,
+    to: to || undefined,
+  };
+}
+
+function renderLedger() {
+  const content = document.getElementById('ledger-content');
+  const moreButton = document.getElementById('ledger-more-btn');
+  if (!content || !moreButton) return;
+
+  moreButton.hidden = !ledger.nextCursor;
+  if (ledger.entries.length === 0) {
+    content.innerHTML = `<small>No transactions match these filters.</small>`;
+    return;
+  }
+
+  const rows = ledger.entries.map(entry => ({
+    cells: [
+      formatHistoryDate(entry.executedAt),
+      entry.type.toUpperCase(),
+      entry.description,
+      entry.symbol ?? '',
+      entry.quantity === null ? '' : formatQuantity(entry.quantity),
+      entry.price === null ? '' : formatMoney(entry.price, entry.currency),
+      formatSignedMoney(entry.amount, entry.currency),
+      formatMoney(entry.balance, ledger.currency),
+    ],
+    className: ['', 'ledger-type', 'ledger-description', '', '', '', entry.amount >= 0 ? 'positive' : 'negative', ''],
+  }));
+  content.replaceChildren(createTable(['Date', 'Type', 'Description', 'Symbol', 'Quantity', 'Price', 'Amount', 'Balance'], rows));
+}
+
+/**
+ * Loads the first page of the ledger for the current filters, or the next
+ * page when `append` is set.
+ */
+async function loadLedger(append = false) {
+  const content = document.getElementById('ledger-content');
+  const moreButton = document.getElementById('ledger-more-btn') as HTMLButtonElement;
+  if (!content || !moreButton) return;
+
+  if (!isLoggedIn()) {
+    ledger.entries = [];
+    ledger.nextCursor = null;
+    moreButton.hidden = true;
+    content.innerHTML = `<small>Sign in to see your transactions.</small>`;
+    return;
+  }
+
+  const requestId = ++ledger.requestId;
+  if (append) {
+    moreButton.disabled = true;
+  } else {
+    ledger.filters = readLedgerFilters();
+    ledger.entries = [];
+    ledger.nextCursor = null;
+    moreButton.hidden = true;
+    content.innerHTML = `<div class="loading-small">Loading transactions...</div>`;
+  }
+
+  try {
+    const page = await getActivity({ ...ledger.filters, limit: LEDGER_PAGE_SIZE, cursor: append ? ledger.nextCursor ?? undefined : undefined });
+    if (requestId !== ledger.requestId) return;
+    ledger.currency = page.currency;
+    ledger.entries = [...ledger.entries, ...page.transactions];
+    ledger.nextCursor = page.nextCursor;
+    renderLedger();
+  } catch (error) {
+    if (requestId !== ledger.requestId) return;
+    logError(error, 'Transaction Ledger');
+    const errorMessage = errorMessageHtml(error);
+    content.innerHTML = `<div class="error-card-small"><p>Could not load transactions.</p><small>${errorMessage}</small></div>`;
+  } finally {
+    moreButton.disabled = false;
+  }
+}
+
+/** Saves a downloaded file through a temporary link. */
+function saveFile(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+function setupLedger() {
+  const filtersForm = document.getElementById('ledger-filters');
+  const moreButton = document.getElementById('ledger-more-btn');
+  if (!filtersForm || !moreButton) {
+    console.error('Transaction ledger elements not found.');
+    return;
+  }
+
+  filtersForm.addEventListener('change', () => loadLedger());
+  filtersForm.addEventListener('submit', (event) => {
+    event.preventDefault();
+    loadLedger();
+  });
+  moreButton.addEventListener('click', () => loadLedger(true));
+
+  filtersForm.querySelectorAll<HTMLButtonElement>('[data-export-format]').forEach(button => {
+    button.addEventListener('click', async () => {
+      const format = button.dataset.exportFormat as ActivityExportFormat;
+      if (!isLoggedIn()) {
+        document.getElementById('cta-login-btn')?.click();
+        return;
+      }
+      button.disabled = true;
+      try {
+        const blob = await exportActivity(format, readLedgerFilters());
+        saveFile(blob, `fulxerpro-ledger-${new Date().toISOString().slice(0, 10)}.${format}`);
+      } catch (error) {
+        logError(error, 'Ledger Export');
+        alert(error instanceof ApiError ? error.message : 'Could not export transactions. Please try again.');
+      } finally {
+        button.disabled = false;
+      }
+    });
+  });
+}
+
+// Tax years offered in the report, counting back from the current one.
+const TAX_YEARS = 5;
+const TERM_LABELS: Record<HoldingTerm, string> = { short: 'Short-term', long: 'Long-term' };
+
+let taxReportRequest = 0;
+
+function gainClass(value: number): string {
+  return value >= 0 ? 'positive' : 'negative';
+}
+
+/**
+ * Renders the realized gains summary and disposals for the tax year, and
+ * the open lots with their unrealized gains.
+ */
+function renderTaxReport(container: HTMLElement, gains: RealizedGains, taxLots: TaxLots) {
+  const { currency } = gains;
+  const summaryRows = ([['Short-term', gains.summary.shortTerm], ['Long-term', gains.summary.longTerm], ['Total', gains.summary.total]] as [string, GainTotals][])
+    .map(([label, totals]) => ({
+      cells: [label, formatMoney(totals.proceeds, currency), formatMoney(totals.costBasis, currency), formatMoney(totals.washSaleDisallowed, currency), formatSignedMoney(totals.gain, currency)],
+      className: ['', '', '', '', gainClass(totals.gain)],
+    }));
+  container.replaceChildren(createTable(['Term', 'Proceeds', 'Cost Basis', 'Wash Sale Disallowed', 'Gain / Loss'], summaryRows, `Realized gains, ${gains.year}`));
+
+  if (gains.disposals.length === 0) {
+    const empty = document.createElement('p');
+    empty.innerHTML = `<small>No sales in ${gains.year}.</small>`;
+    container.appendChild(empty);
+  } else {
+    const disposalRows = gains.disposals.map(disposal => ({
+      cells: [
+        disposal.symbol,
+        formatQuantity(disposal.quantity),
+        formatHistoryDate(disposal.acquiredAt),
+        formatHistoryDate(disposal.soldAt),
+        TERM_LABELS[disposal.term],
+        formatMoney(disposal.proceeds, disposal.currency),
+        formatMoney(disposal.costBasis, disposal.currency),
+        disposal.washSaleDisallowed ? formatMoney(disposal.washSaleDisallowed, disposal.currency) : '',
+        formatSignedMoney(disposal.gain, disposal.currency),
+      ],
+      className: ['', '', '', '', '', '', '', '', gainClass(disposal.gain)],
+    }));
+    container.appendChild(createTable(['Symbol', 'Quantity', 'Acquired', 'Sold', 'Term', 'Proceeds', 'Cost Basis', 'Wash Sale', 'Gain / Loss'], disposalRows, 'Disposals'));
+  }
+
+  const openLots = document.createElement('details');
+  const summary = document.createElement('summary');
+  const { unrealizedGain } = taxLots;
+  summary.textContent = `Open lots (${taxLots.lots.length}) · unrealized ${formatSignedMoney(unrealizedGain.total, currency)}: short-term ${formatSignedMoney(unrealizedGain.shortTerm, currency)}, long-term ${formatSignedMoney(unrealizedGain.longTerm, currency)}`;
+  const lotRows = taxLots.lots.map(lot => ({
+    cells: [
+      lot.symbol,
+      formatQuantity(lot.quantity),
+      formatHistoryDate(lot.acquiredAt),
+      TERM_LABELS[lot.term],
+      formatMoney(lot.costBasis, lot.currency),
+      lot.washSaleAdjustment ? formatMoney(lot.washSaleAdjustment, lot.currency) : '',
+      lot.marketValue === null ? '—' : formatMoney(lot.marketValue, lot.currency),
+      lot.unrealizedGain === null ? '—' : formatSignedMoney(lot.unrealizedGain, lot.currency),
+    ],
+    className: ['', '', '', '', '', '', '', lot.unrealizedGain === null ? '' : gainClass(lot.unrealizedGain)],
+  }));
+  openLots.append(summary, createTable(['Symbol', 'Quantity', 'Acquired', 'Term', 'Cost Basis', 'Wash Sale Adj.', 'Market Value', 'Unrealized'], lotRows));
+  container.appendChild(openLots);
+
+  const footnote = document.createElement('p');
+  footnote.className = 'risk-footnote';
+  footnote.textContent = `Lots and sales are shown in each instrument's currency and totals in ${currency} at today's exchange rates. Losses disallowed by the wash sale rule are added to the cost basis of the replacement shares. Specific lots uses the lots chosen when selling and FIFO for sales without a choice. For information only; not tax advice.`;
+  container.appendChild(footnote);
+}
+
+async function loadTaxReport() {
+  const content = document.getElementById('tax-content');
+  const yearSelect = document.getElementById('tax-year') as HTMLSelectElement;
+  const methodSelect = document.getElementById('tax-method') as HTMLSelectElement;
+  if (!content || !yearSelect || !methodSelect) return;
+
+  if (!isLoggedIn()) {
+    content.innerHTML = `<small>Sign in to see your tax lots and realized gains.</small>`;
+    return;
+  }
+
+  const requestId = ++taxReportRequest;
+  content.innerHTML = `<div class="loading-small">Matching tax lots...</div>`;
+  try {
+    const method = methodSelect.value as LotMethod;
+    const [gains, taxLots] = await Promise.all([getRealizedGains(Number(yearSelect.value), method), getTaxLots(method)]);
+    if (requestId === taxReportRequest) renderTaxReport(content, gains, taxLots);
+  } catch (error) {
+    if (requestId !== taxReportRequest) return;
+    logError(error, 'Tax Report');
+    const errorMessage = errorMessageHtml(error);
+    content.innerHTML = `<div class="error-card-small"><p>Could not build the tax report.</p><small>${errorMessage}</small></div>`;
+  }
+}
+
+function setupTaxReport() {
+  const yearSelect = document.getElementById('tax-year') as HTMLSelectElement;
+  const methodSelect = document.getElementById('tax-method');
+  if (!yearSelect || !methodSelect) {
+    console.error('Tax report controls not found.');
+    return;
+  }
+
+  const currentYear = new Date().getUTCFullYear();
+  for (let year = currentYear; year > currentYear - TAX_YEARS; year--) {
+    yearSelect.add(new Option(String(year), String(year)));
+  }
+  yearSelect.addEventListener('change', loadTaxReport);
+  methodSelect.addEventListener('change', loadTaxReport);
+}
+
+/**
+ * Fills the header's base currency picker with the currencies rates are
+ * quoted for, or hides it when there is nothing to choose from.
+ */
+function renderBaseCurrencySelect(overview: PortfolioOverview | null, fx: FxRates | null) {
+  const select = document.getElementById('base-currency-select') as HTMLSelectElement | null;
+  if (!select) return;
+
+  const currencies = fx ? Object.keys(fx.rates).sort() : [];
+  select.classList.toggle('hidden', !overview || currencies.length === 0);
+  if (!overview || currencies.length === 0) return;
+  select.replaceChildren(...currencies.map(currency => new Option(currency, currency)));
+  select.value = overview.currency;
+  select.disabled = false;
+}
+
+function setupBaseCurrency() {
+  const select = document.getElementById('base-currency-select') as HTMLSelectElement | null;
+  if (!select) {
+    console.error('Base currency picker not found.');
+    return;
+  }
+
+  select.addEventListener('change', async () => {
+    select.disabled = true;
+    try {
+      await setBaseCurrency(select.value);
+      await loadPortfolio();
+    } catch (error) {
+      logError(error, 'Base Currency');
+      if (latestOverview) select.value = latestOverview.currency;
+    } finally {
+      select.disabled = false;
+    }
+  });
+}
+
+function renderSignedOutPortfolio() {
+  const valueEl = document.getElementById('portfolio-value');
+  const changeEl = document.getElementById('portfolio-change');
+  const activityList = document.getElementById('activity-list');
+
+  if (valueEl) valueEl.textContent = '\u2014';
+  if (changeEl) {
+    changeEl.textContent = 'Sign in to view your portfolio.';
+    changeEl.className = 'metric-change';
+  }
+  clearPerformanceChart();
+  if (activityList) activityList.innerHTML = `<li><small>Sign in to see your recent activity.</small></li>`;
+}
+
+/**
+ * Populates the Portfolio Overview, Asset Allocation and Recent Activity
+ * widgets from the portfolio API, or shows their signed-out state.
+ */
+async function loadPortfolio() {
+  loadSubscription();
+  if (!isLoggedIn()) {
+    stopPriceStream();
+    latestOverview = null;
+    renderBaseCurrencySelect(null, null);
+    renderSignedOutPortfolio();
+    renderSignedOutAllocation();
+    loadRebalancing();
+    loadRisk();
+    loadLedger();
+    loadTaxReport();
+    loadWatchlist();
+    loadNotifications();
+    loadOrders();
+    loadCopyTrading();
+    return;
+  }
+
+  const changeEl = document.getElementById('portfolio-change');
+  const allocationGrid = document.querySelector('.allocation-grid');
+  const activityList = document.getElementById('activity-list');
+  if (changeEl) changeEl.textContent = 'Loading portfolio...';
+  if (allocationGrid) allocationGrid.innerHTML = `<div class="loading-small">Loading allocation...</div>`;
+  resetAllocationCommentary();
+
+  loadPerformance();
+  loadRebalancing();
+  loadRisk();
+  loadLedger();
+  loadTaxReport();
+  startPriceStream();
+  loadWatchlist();
+  loadNotifications();
+  loadOrders();
+  loadCopyTrading();
+  const [overview, allocations, activity, rates] = await Promise.allSettled([getOverview(), getAllocations(), getActivity({ limit: 5 }), getFxRates()]);
+  const fx = rates.status === 'fulfilled' ? rates.value : null;
+  if (rates.status === 'rejected') logError(rates.reason, 'Exchange Rates');
+
+  if (overview.status === 'fulfilled') {
+    latestOverview = overview.value;
+    renderPortfolioOverview(overview.value);
+    renderBaseCurrencySelect(overview.value, fx);
+  } else {
+    logError(overview.reason, 'Portfolio Overview');
+    if (changeEl) changeEl.textContent = 'Could not load portfolio data.';
+  }
+
+  if (allocationGrid) {
+    if (allocations.status === 'fulfilled') {
+      renderAllocation(allocations.value);
+    } else {
+      logError(allocations.reason, 'Portfolio Allocations');
+      allocationGrid.innerHTML = `<div class="error-card-small"><p>Could not load allocation data.</p></div>`;
+    }
+  }
+
+  if (activityList) {
+    if (activity.status === 'fulfilled') {
+      renderActivity(activityList, activity.value.transactions, latestOverview?.currency ?? activity.value.currency, fx);
+    } else {
+      logError(activity.reason, 'Portfolio Activity');
+      activityList.innerHTML = `<li><small>Could not load recent activity.</small></li>`;
+    }
+  }
+}
+
+
+/**
+ * Main application function.
+ */
+async function main() {
+  const onCopilotSessionChange = setupCopilot();
+  setupAuthModal(() => {
+    onCopilotSessionChange();
+    loadPortfolio();
+    loadStrategicInsights();
+    resetGuideView();
+  });
+  setupNavigation();
+  setupAiStudio();
+  setupSocialTrading();
+  setupDashboardAnimations();
+  setupUserCounterAnimation();
+  setupWallet();
+  setupBaseCurrency();
+  setupPerformanceChart();
+  setupAllocationCommentary();
+  setupRebalancing();
+  setupPlanSelection();
+  setupLedger();
+  setupTaxReport();
+  setupWatchlist();
+  setupNotifications();
+  setupOrderTicket();
+  setupModelAllocation();
+  loadPortfolio();
+  loadStrategicInsights();
+}
+
+/**
+ * Loads the AI-Powered Strategic Opportunities widget, which needs a
+ * signed-in user.
+ */
+async function loadStrategicInsights() {
+  const insightsContainer = document.getElementById('ai-insights-content');
+  if (!insightsContainer) {
+    console.error('AI insights container not found');
+    return;
+  }
+
+  if (!isLoggedIn()) {
+    insightsContainer.innerHTML = `<small>Sign in to see the opportunities our research team is tracking.</small>`;
+    return;
+  }
+
+  insightsContainer.innerHTML = `<div class="loading">Initializing AI analysis...</div>`;
+
+  try {
+    const { text, sources } = await getStrategicInsights();
+    await render(text, insightsContainer);
+    
+    // Render sources from grounding metadata
+    if (sources && sources.length > 0) {
+        const sourcesContainer = document.createElement('div');
+        sourcesContainer.className = 'ai-sources-container';
+
+        const sourcesTitle = document.createElement('h4');
+        sourcesTitle.textContent = 'Sources';
+        sourcesContainer.appendChild(sourcesTitle);
+
+        const sourcesList = document.createElement('ul');
+        sourcesList.className = 'ai-sources-list';
 
         sources.forEach(source => {
-            if (source.web) {
-                const listItem = document.createElement('li');
+            const listItem = document.createElement('li');
+            // Grounding URIs come from the model's search results: link only to safe schemes.
+            if (isSafeLinkUrl(source.uri)) {
                 const link = document.createElement('a');
-                link.href = source.web.uri;
-                link.textContent = source.web.title;
+                link.href = source.uri;
+                link.textContent = source.title;
                 link.target = '_blank';
                 link.rel = 'noopener noreferrer';
                 listItem.appendChild(link);
-                sourcesList.appendChild(listItem);
+            } else {
+                listItem.textContent = source.title;
             }
+            sourcesList.appendChild(listItem);
         });
 
         sourcesContainer.appendChild(sourcesList);
@@ -1366,8 +3852,7 @@ async function main() {
 
 
   } catch (error) {
-    logError(error, 'AI Insights');
-    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    const errorMessage = errorMessageHtml(error);
     await render(`<h4>Error</h4><p>There was an issue generating strategic insights:</p><pre><code>${errorMessage}</code></pre>`, insightsContainer, 'error-card');
   }
 }
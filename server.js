@@ -1,15 +1,45 @@
 const express = require('express');
 const path = require('path');
+const authController = require('./server/controllers/authController');
+const userController = require('./server/controllers/userController');
+const portfolioController = require('./server/controllers/portfolioController');
+const subscriptionController = require('./server/controllers/subscriptionController');
+const dealsController = require('./server/controllers/dealsController');
+const reportsController = require('./server/controllers/reportsController');
+const fxController = require('./server/controllers/fxController');
+const insightsController = require('./server/controllers/insightsController');
+const aiStudioController = require('./server/controllers/aiStudioController');
+const copilotController = require('./server/controllers/copilotController');
+const streamController = require('./server/controllers/streamController');
+const watchlistController = require('./server/controllers/watchlistController');
+const alertsController = require('./server/controllers/alertsController');
+const notificationsController = require('./server/controllers/notificationsController');
+const ordersController = require('./server/controllers/ordersController');
+const socialController = require('./server/controllers/socialController');
+const chatThreadsController = require('./server/controllers/chatThreadsController');
+const aiService = require('./server/services/aiService');
+const fxService = require('./server/services/fxService');
+const alertService = require('./server/services/alertService');
+const paperTradingService = require('./server/services/paperTradingService');
+const copyTradingService = require('./server/services/copyTradingService');
+const { rateLimit } = require('./server/middleware/rateLimit');
+const { requireAuth } = require('./server/middleware/auth');
+const { HttpError } = require('./server/utils/httpError');
+const { attachWebSocketServer } = require('./server/utils/websocket');
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(express.json());
-app.use(express.static('public'));
+app.use(express.json({ limit: '15mb' })); // AI Studio uploads carry base64 images
+
+// The frontend is served from the Vite build (`npm run build`), which talks to
+// the AI provider only through the API below
+const CLIENT_DIR = path.join(__dirname, 'dist');
+app.use(express.static(CLIENT_DIR));
 
 // Main route to serve the frontend application
 app.get('/', (req, res) => {
-    res.sendFile(path.join(__dirname, 'public', 'index.html'));
+    res.sendFile(path.join(CLIENT_DIR, 'index.html'));
 });
 
 // Health check endpoint
@@ -33,10 +63,51 @@ app.get('/api/status', (req, res) => {
     });
 });
 
+// Authentication & user routes
+app.use('/auth', authController);
+app.use('/api/v1/user', userController);
+app.use('/api/v1/portfolio', portfolioController);
+app.use('/api/v1/subscription', subscriptionController);
+app.use('/api/v1/deals', dealsController);
+app.use('/api/v1/reports', reportsController);
+app.use('/api/v1/fx', fxController);
+app.use('/api/v1/watchlist', watchlistController);
+app.use('/api/v1/alerts', alertsController);
+app.use('/api/v1/notifications', notificationsController);
+app.use('/api/v1/orders', ordersController);
+app.use('/api/v1/social', socialController);
+app.use('/api/v1/copilot/threads', chatThreadsController);
+
+// AI routes: the AI provider is only ever called from the server. Insights
+// and AI Studio need a signed-in user; the Co-pilot is open to visitors.
+const aiRateLimit = rateLimit({ windowMs: 60 * 1000, max: 30 });
+app.use('/api/v1/insights', aiRateLimit, requireAuth, insightsController);
+app.use('/api/v1/ai-studio', aiRateLimit, requireAuth, aiStudioController);
+app.use('/api/v1/copilot', aiRateLimit, copilotController);
+
+// Error handler: report HttpErrors with their status, hide everything else
+app.use((err, req, res, next) => {
+    if (err instanceof HttpError || err.expose) {
+        return res.status(err.status).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Internal server error.' });
+});
+
 // Start server
-app.listen(PORT, '0.0.0.0', () => {
+fxService.startRefreshing();
+alertService.startMonitoring();
+paperTradingService.startMatching();
+copyTradingService.startCopying();
+const server = app.listen(PORT, '0.0.0.0', () => {
     console.log(`🚀 FulxerPro server is running!`);
     console.log(`🌐 Local: http://localhost:${PORT}`);
     console.log(`🌐 Network: http://0.0.0.0:${PORT}`);
     console.log(`📅 Started at: ${new Date().toLocaleString()}`);
+    console.log(`🤖 AI provider: ${aiService.getProviderName()}`);
+});
+
+// WebSocket endpoints share the HTTP server
+attachWebSocketServer(server, {
+    ...streamController.routes,
 });
@@ -0,0 +1,36 @@
+/**
+ * The Gemini model used by each AI feature. Each can be overridden with an
+ * environment variable, e.g. `GEMINI_MODEL_CHAT=gemini-2.5-pro`.
+ */
+const DEFAULT_MODELS = {
+    insights: 'gemini-2.5-flash',
+    guide: 'gemini-2.5-flash',
+    guideDeepDive: 'gemini-2.5-pro',
+    allocation: 'gemini-2.5-flash',
+    allocationCommentary: 'gemini-2.5-flash',
+    traderAnalysis: 'gemini-2.5-flash',
+    chat: 'gemini-2.5-flash',
+    chatTitle: 'gemini-2.5-flash',
+    alertParsing: 'gemini-2.5-flash',
+    image: 'imagen-4.0-generate-001',
+    imageEdit: 'gemini-2.5-flash-image-preview',
+    video: 'veo-2.0-generate-001',
+};
+
+function toEnvName(feature) {
+    return `GEMINI_MODEL_${feature.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+const AI_MODELS = Object.fromEntries(
+    Object.entries(DEFAULT_MODELS).map(([feature, model]) => [feature, process.env[toEnvName(feature)] || model])
+);
+
+/**
+ * Per-call timeouts, in milliseconds. Image and video work is slower than text.
+ */
+const AI_TIMEOUTS = {
+    text: Number(process.env.GEMINI_TIMEOUT_MS) || 60 * 1000,
+    image: Number(process.env.GEMINI_IMAGE_TIMEOUT_MS) || 120 * 1000,
+};
+
+module.exports = { AI_MODELS, AI_TIMEOUTS };
@@ -0,0 +1,31 @@
+const express = require('express');
+const { Readable } = require('stream');
+const aiService = require('../services/aiService');
+const { asyncHandler } = require('../utils/httpError');
+const { requestSignal } = require('../utils/abort');
+
+const router = express.Router();
+
+router.post('/generate/image', asyncHandler(async (req, res) => {
+    res.json(await aiService.generateImage(req.body || {}, { signal: requestSignal(res) }));
+}));
+
+router.post('/edit/image', asyncHandler(async (req, res) => {
+    res.json(await aiService.editImage(req.body || {}, { signal: requestSignal(res) }));
+}));
+
+router.post('/generate/video', asyncHandler(async (req, res) => {
+    res.status(202).json(await aiService.startVideoGeneration(req.body || {}, { signal: requestSignal(res) }));
+}));
+
+router.get('/videos/:id', asyncHandler(async (req, res) => {
+    res.json(await aiService.getVideoStatus(req.params.id, { signal: requestSignal(res) }));
+}));
+
+router.get('/videos/:id/content', asyncHandler(async (req, res) => {
+    const upstream = await aiService.downloadVideo(req.params.id, { signal: requestSignal(res) });
+    res.set('Content-Type', upstream.headers.get('content-type') || 'video/mp4');
+    Readable.fromWeb(upstream.body).pipe(res);
+}));
+
+module.exports = router;
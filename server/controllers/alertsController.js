@@ -0,0 +1,35 @@
+const express = require('express');
+const alertService = require('../services/alertService');
+const { requireAuth } = require('../middleware/auth');
+const { rateLimit } = require('../middleware/rateLimit');
+const { asyncHandler } = require('../utils/httpError');
+const { requestSignal } = require('../utils/abort');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/', (req, res) => {
+    res.json(alertService.listAlerts(req.auth.sub));
+});
+
+router.post('/', asyncHandler(async (req, res) => {
+    res.status(201).json(await alertService.createAlert(req.auth.sub, {
+        symbol: req.body?.symbol,
+        condition: req.body?.condition,
+        threshold: req.body?.threshold,
+    }));
+}));
+
+// Parsing calls the AI provider, so it is rate-limited like the AI routes.
+router.post('/from-text', rateLimit({ windowMs: 60 * 1000, max: 30 }), asyncHandler(async (req, res) => {
+    const result = await alertService.createAlertFromText(req.auth.sub, req.body?.text, { signal: requestSignal(res) });
+    res.status(result.alert ? 201 : 200).json(result);
+}));
+
+router.delete('/:id', (req, res) => {
+    alertService.deleteAlert(req.auth.sub, req.params.id);
+    res.status(204).end();
+});
+
+module.exports = router;
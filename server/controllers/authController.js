@@ -0,0 +1,35 @@
+const express = require('express');
+const authService = require('../services/authService');
+const { requireAuth, requirePreAuth } = require('../middleware/auth');
+const { asyncHandler } = require('../utils/httpError');
+
+const router = express.Router();
+
+router.post('/register', asyncHandler(async (req, res) => {
+    res.status(201).json(await authService.register(req.body || {}));
+}));
+
+router.post('/login', asyncHandler(async (req, res) => {
+    res.json(await authService.login(req.body || {}));
+}));
+
+router.post('/logout', requireAuth, (req, res) => {
+    authService.logout(req.auth);
+    res.status(204).end();
+});
+
+router.post('/2fa/verify', requirePreAuth, asyncHandler(async (req, res) => {
+    res.json(await authService.verifyTwoFactor(req.auth, req.body?.code));
+}));
+
+router.post('/password/forgot', asyncHandler(async (req, res) => {
+    await authService.requestPasswordReset(req.body?.email);
+    res.status(202).json({ message: 'If an account exists for that email, a reset link has been sent.' });
+}));
+
+router.post('/password/reset', asyncHandler(async (req, res) => {
+    await authService.resetPassword(req.body?.token, req.body?.password);
+    res.status(204).end();
+}));
+
+module.exports = router;
@@ -0,0 +1,36 @@
+const express = require('express');
+const chatThreadService = require('../services/chatThreadService');
+const { requireAuth } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/', (req, res) => {
+    res.json(chatThreadService.listThreads(req.auth.sub));
+});
+
+router.post('/', (req, res) => {
+    res.status(201).json(chatThreadService.createThread(req.auth.sub, {
+        title: req.body?.title,
+        messages: req.body?.messages,
+    }));
+});
+
+router.get('/:id', (req, res) => {
+    res.json(chatThreadService.getThread(req.auth.sub, req.params.id));
+});
+
+router.patch('/:id', (req, res) => {
+    res.json(chatThreadService.updateThread(req.auth.sub, req.params.id, {
+        title: req.body?.title,
+        messages: req.body?.messages,
+    }));
+});
+
+router.delete('/:id', (req, res) => {
+    chatThreadService.deleteThread(req.auth.sub, req.params.id);
+    res.status(204).end();
+});
+
+module.exports = router;
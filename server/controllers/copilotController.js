@@ -0,0 +1,61 @@
+const express = require('express');
+const aiService = require('../services/aiService');
+const copilotToolService = require('../services/copilotToolService');
+const knowledgeService = require('../services/knowledgeService');
+const { optionalAuth } = require('../middleware/auth');
+const { asyncHandler } = require('../utils/httpError');
+const { requestSignal } = require('../utils/abort');
+
+const router = express.Router();
+
+/**
+ * Streams the reply as newline-delimited JSON: `{"text": "..."}` per chunk,
+ * `{"tool": {"name": "...", "args": {...}}}` whenever the model reads the
+ * signed-in user's data, `{"sources": [...]}` with the knowledge base
+ * excerpts the finished reply cites, and a final `{"error": "..."}` line if
+ * the stream fails part-way through. Signed-out users get a chat without
+ * tools.
+ */
+router.post('/chat', optionalAuth, async (req, res, next) => {
+    const signal = requestSignal(res);
+    const send = event => {
+        if (!res.headersSent) {
+            res.status(200).set('Content-Type', 'application/x-ndjson');
+        }
+        res.write(`${JSON.stringify(event)}\n`);
+    };
+    const tools = req.auth && copilotToolService.forUser(req.auth.sub, {
+        onCall: tool => {
+            if (!signal.aborted) send({ tool });
+        },
+    });
+    const knowledge = typeof req.body?.message === 'string' ? knowledgeService.retrieve(req.body.message) : null;
+    const stream = aiService.streamChat({
+        history: req.body?.history,
+        message: req.body?.message,
+    }, { signal, tools, knowledge });
+
+    try {
+        let reply = '';
+        for await (const text of stream) {
+            if (signal.aborted) break;
+            reply += text;
+            send({ text });
+        }
+        const sources = knowledgeService.citedSources(knowledge, reply);
+        if (sources.length && !signal.aborted) send({ sources });
+        res.end();
+    } catch (error) {
+        if (!res.headersSent) return next(error);
+        res.end(`${JSON.stringify({ error: error.status ? error.message : 'The AI service failed to respond.' })}\n`);
+    }
+});
+
+router.post('/title', asyncHandler(async (req, res) => {
+    res.json(await aiService.titleConversation({
+        message: req.body?.message,
+        reply: req.body?.reply,
+    }, { signal: requestSignal(res) }));
+}));
+
+module.exports = router;
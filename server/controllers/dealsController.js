@@ -0,0 +1,14 @@
+const express = require('express');
+const dealsService = require('../services/dealsService');
+const { requireAuth } = require('../middleware/auth');
+const { requireEntitlement } = require('../middleware/entitlements');
+
+const router = express.Router();
+
+router.use(requireAuth, requireEntitlement('co-investment'));
+
+router.get('/', (req, res) => {
+    res.json(dealsService.listDeals());
+});
+
+module.exports = router;
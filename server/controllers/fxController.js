@@ -0,0 +1,10 @@
+const express = require('express');
+const fxService = require('../services/fxService');
+
+const router = express.Router();
+
+router.get('/rates', (req, res) => {
+    res.json(fxService.getRates(req.query.base || undefined));
+});
+
+module.exports = router;
@@ -0,0 +1,39 @@
+const express = require('express');
+const aiService = require('../services/aiService');
+const knowledgeService = require('../services/knowledgeService');
+const { asyncHandler } = require('../utils/httpError');
+const { requestSignal } = require('../utils/abort');
+const { requireEntitlement } = require('../middleware/entitlements');
+
+const GUIDE_EXCERPTS = 6;
+
+const router = express.Router();
+
+router.get('/strategic', asyncHandler(async (req, res) => {
+    res.json(await aiService.getStrategicInsights({ signal: requestSignal(res) }));
+}));
+
+// The guide draws on the knowledge base and lists the excerpts it cites as `sources`.
+router.post('/guide', asyncHandler(async (req, res) => {
+    const context = req.body?.context;
+    const knowledge = typeof context === 'string' ? knowledgeService.retrieve(context, { limit: GUIDE_EXCERPTS }) : null;
+    const guide = await aiService.generateGuide(context, { signal: requestSignal(res), knowledge });
+    res.json({ ...guide, sources: knowledgeService.citedSources(knowledge, guide.text) });
+}));
+
+router.post('/guide/deep-dive', requireEntitlement('priority-research'), asyncHandler(async (req, res) => {
+    res.json(await aiService.generateGuideDeepDive(req.body?.context, { signal: requestSignal(res) }));
+}));
+
+router.post('/allocation', asyncHandler(async (req, res) => {
+    res.json(await aiService.generateAllocation({
+        portfolioValue: req.body?.portfolioValue,
+        tier: req.body?.tier || undefined,
+    }, { signal: requestSignal(res) }));
+}));
+
+router.post('/trader-analysis', asyncHandler(async (req, res) => {
+    res.json(await aiService.analyzeTrader(req.body?.trader, { signal: requestSignal(res) }));
+}));
+
+module.exports = router;
@@ -0,0 +1,17 @@
+const express = require('express');
+const alertService = require('../services/alertService');
+const { requireAuth } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/', (req, res) => {
+    res.json(alertService.listNotifications(req.auth.sub));
+});
+
+router.post('/read', (req, res) => {
+    res.json(alertService.markNotificationsRead(req.auth.sub, req.body?.ids));
+});
+
+module.exports = router;
@@ -0,0 +1,31 @@
+const express = require('express');
+const paperTradingService = require('../services/paperTradingService');
+const { requireAuth } = require('../middleware/auth');
+const { asyncHandler } = require('../utils/httpError');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/', (req, res) => {
+    res.json(paperTradingService.listOrders(req.auth.sub));
+});
+
+router.post('/', asyncHandler(async (req, res) => {
+    const body = req.body || {};
+    res.status(201).json(await paperTradingService.placeOrder(req.auth.sub, {
+        symbol: body.symbol,
+        side: body.side,
+        type: body.type,
+        quantity: body.quantity,
+        limitPrice: body.limitPrice,
+        stopPrice: body.stopPrice,
+        timeInForce: body.timeInForce,
+    }));
+}));
+
+router.delete('/:id', (req, res) => {
+    res.json(paperTradingService.cancelOrder(req.auth.sub, req.params.id));
+});
+
+module.exports = router;
@@ -0,0 +1,63 @@
+const express = require('express');
+const portfolioService = require('../services/portfolioService');
+const rebalancingService = require('../services/rebalancingService');
+const ledgerService = require('../services/ledgerService');
+const { requireAuth } = require('../middleware/auth');
+const { asyncHandler } = require('../utils/httpError');
+const { requestSignal } = require('../utils/abort');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/overview', (req, res) => {
+    res.json(portfolioService.getOverview(req.auth.sub));
+});
+
+router.put('/base-currency', (req, res) => {
+    res.json(portfolioService.setBaseCurrency(req.auth.sub, (req.body || {}).currency));
+});
+
+router.get('/performance', (req, res) => {
+    res.json(portfolioService.getPerformance(req.auth.sub, {
+        range: req.query.range || undefined,
+        benchmark: req.query.benchmark || undefined,
+    }));
+});
+
+router.get('/allocations', (req, res) => {
+    res.json(portfolioService.getAllocations(req.auth.sub));
+});
+
+router.post('/allocations/commentary', asyncHandler(async (req, res) => {
+    res.json(await portfolioService.getAllocationCommentary(req.auth.sub, { signal: requestSignal(res) }));
+}));
+
+router.get('/rebalancing', (req, res) => {
+    res.json(rebalancingService.getRebalancing(req.auth.sub, {
+        tier: req.query.tier || undefined,
+        tolerance: req.query.tolerance ? Number(req.query.tolerance) : undefined,
+    }));
+});
+
+const ledgerFilters = query => ({
+    type: query.type || undefined,
+    symbol: query.symbol || undefined,
+    from: query.from || undefined,
+    to: query.to || undefined,
+});
+
+router.get('/activity', (req, res) => {
+    res.json(ledgerService.listActivity(req.auth.sub, {
+        ...ledgerFilters(req.query),
+        limit: Number(req.query.limit) || undefined,
+        cursor: req.query.cursor || undefined,
+    }));
+});
+
+router.get('/activity/export', (req, res) => {
+    const { fileName, contentType, body } = ledgerService.exportActivity(req.auth.sub, req.query.format, ledgerFilters(req.query));
+    res.attachment(fileName).type(contentType).send(body);
+});
+
+module.exports = router;
@@ -0,0 +1,20 @@
+const express = require('express');
+const reportingService = require('../services/reportingService');
+const { requireAuth } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/tax-lots', (req, res) => {
+    res.json(reportingService.getTaxLots(req.auth.sub, { method: req.query.method || undefined }));
+});
+
+router.get('/realized-gains', (req, res) => {
+    res.json(reportingService.getRealizedGains(req.auth.sub, {
+        year: req.query.year ? Number(req.query.year) : undefined,
+        method: req.query.method || undefined,
+    }));
+});
+
+module.exports = router;
@@ -0,0 +1,34 @@
+const express = require('express');
+const copyTradingService = require('../services/copyTradingService');
+const { requireAuth } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/traders', (req, res) => {
+    res.json(copyTradingService.listTraders(req.auth.sub));
+});
+
+// Follows a trader, or updates the copy settings of an existing follow.
+router.post('/traders/:id/follow', (req, res) => {
+    const body = req.body || {};
+    res.json(copyTradingService.follow(req.auth.sub, req.params.id, {
+        allocation: body.allocation,
+        maxTradeValue: body.maxTradeValue,
+        stopLossPercent: body.stopLossPercent,
+    }));
+});
+
+router.delete('/traders/:id/follow', (req, res) => {
+    copyTradingService.unfollow(req.auth.sub, req.params.id);
+    res.status(204).end();
+});
+
+router.get('/copy-trades', (req, res) => {
+    res.json(copyTradingService.listMirroredTrades(req.auth.sub, {
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+    }));
+});
+
+module.exports = router;
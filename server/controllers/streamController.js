@@ -0,0 +1,115 @@
+const marketDataService = require('../services/marketDataService');
+const portfolioService = require('../services/portfolioService');
+const alertService = require('../services/alertService');
+const paperTradingService = require('../services/paperTradingService');
+const { authenticate } = require('../middleware/auth');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * WebSocket endpoint streaming quotes and portfolio value ticks.
+ *
+ * Browsers cannot send an Authorization header with a WebSocket, so the first
+ * message must be `{ "type": "auth", "token": "<access token>" }`. The server
+ * answers `{ "type": "ready", "intervalMs" }` and then, on every tick of the
+ * quote feed, sends `{ "type": "quotes", "quotes" }` for the held and
+ * subscribed symbols followed by `{ "type": "portfolio", "overview" }`.
+ * Fired price alerts are pushed as `{ "type": "notification", "notification" }`,
+ * and orders that fill, expire or are rejected as `{ "type": "order", "order" }`.
+ * `{ "type": "subscribe", "symbols": [...] }` replaces the extra symbols to
+ * quote, e.g. the watchlist. Errors are reported as `{ "type": "error", "error" }`.
+ */
+
+const PATH = '/api/v1/stream';
+const AUTH_TIMEOUT_MS = 10 * 1000;
+const PING_INTERVAL_MS = 30 * 1000;
+const MAX_EXTRA_SYMBOLS = 50;
+// Application close codes (4000-4999 are reserved for applications).
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+function handleConnection(connection) {
+    let token = null;
+    let userId = null;
+    let subscription = null;
+    let stopNotifications = null;
+    let stopOrders = null;
+    let extraSymbols = [];
+
+    const send = message => connection.send(JSON.stringify(message));
+    const heldSymbols = () => portfolioService.getPortfolio(userId).positions.map(position => position.symbol);
+    const streamedSymbols = () => [...new Set([...heldSymbols(), ...extraSymbols])];
+
+    const authTimer = setTimeout(() => connection.close(UNAUTHORIZED_CLOSE_CODE, 'Authentication required.'), AUTH_TIMEOUT_MS);
+    const pingTimer = setInterval(() => connection.ping(), PING_INTERVAL_MS);
+
+    const onTick = quotes => {
+        // Sessions can end while the socket is open: sign-out, expiry or a password reset.
+        if (!authenticate(token, 'access')) {
+            return connection.close(UNAUTHORIZED_CLOSE_CODE, 'Session expired.');
+        }
+        try {
+            send({ type: 'quotes', quotes });
+            send({ type: 'portfolio', overview: portfolioService.getOverview(userId) });
+            // Positions change as trades are recorded.
+            subscription.setSymbols(streamedSymbols());
+        } catch (error) {
+            console.error('Price stream tick failed:', error);
+            send({ type: 'error', error: 'Could not update the portfolio.' });
+        }
+    };
+
+    const handlers = {
+        auth(message) {
+            if (userId) return;
+            const payload = authenticate(message.token, 'access');
+            if (!payload) return connection.close(UNAUTHORIZED_CLOSE_CODE, 'Authentication required.');
+            clearTimeout(authTimer);
+            token = message.token;
+            userId = payload.sub;
+            subscription = marketDataService.subscribe(heldSymbols(), onTick);
+            stopNotifications = alertService.subscribeToNotifications(userId, notification => send({ type: 'notification', notification }));
+            stopOrders = paperTradingService.subscribeToOrders(userId, order => send({ type: 'order', order }));
+            send({ type: 'ready', intervalMs: marketDataService.INTERVAL_MS });
+        },
+        subscribe(message) {
+            if (!userId) throw new HttpError(401, 'Authentication required.');
+            if (!Array.isArray(message.symbols)) throw new HttpError(400, 'symbols must be an array.');
+            if (message.symbols.length > MAX_EXTRA_SYMBOLS) {
+                throw new HttpError(400, `At most ${MAX_EXTRA_SYMBOLS} symbols can be subscribed to.`);
+            }
+            extraSymbols = message.symbols.map(marketDataService.requireSymbol);
+            subscription.setSymbols(streamedSymbols());
+        },
+    };
+
+    connection.on('message', text => {
+        let message;
+        try {
+            message = JSON.parse(text);
+        } catch {
+            return send({ type: 'error', error: 'Messages must be JSON.' });
+        }
+        const handler = message && Object.prototype.hasOwnProperty.call(handlers, message.type) ? handlers[message.type] : null;
+        if (!handler) return send({ type: 'error', error: 'Unknown message type.' });
+        try {
+            handler(message);
+        } catch (error) {
+            if (!(error instanceof HttpError)) console.error(error);
+            send({ type: 'error', error: error instanceof HttpError ? error.message : 'Internal server error.' });
+        }
+    });
+
+    connection.on('close', () => {
+        clearTimeout(authTimer);
+        clearInterval(pingTimer);
+        subscription?.unsubscribe();
+        stopNotifications?.();
+        stopOrders?.();
+    });
+
+    // Socket errors (e.g. resets) are followed by 'close', which cleans up.
+    connection.on('error', () => {});
+}
+
+module.exports = {
+    routes: { [PATH]: handleConnection },
+};
@@ -0,0 +1,17 @@
+const express = require('express');
+const subscriptionService = require('../services/subscriptionService');
+const { requireAuth } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/', (req, res) => {
+    res.json(subscriptionService.getSubscription(req.auth.sub));
+});
+
+router.put('/', (req, res) => {
+    res.json(subscriptionService.changeTier(req.auth.sub, req.body?.tier));
+});
+
+module.exports = router;
@@ -0,0 +1,11 @@
+const express = require('express');
+const authService = require('../services/authService');
+const { requireAuth } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.get('/profile', requireAuth, (req, res) => {
+    res.json(authService.getProfile(req.auth));
+});
+
+module.exports = router;
@@ -0,0 +1,22 @@
+const express = require('express');
+const watchlistService = require('../services/watchlistService');
+const { requireAuth } = require('../middleware/auth');
+const { asyncHandler } = require('../utils/httpError');
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/', asyncHandler(async (req, res) => {
+    res.json(await watchlistService.getWatchlist(req.auth.sub));
+}));
+
+router.post('/symbols', asyncHandler(async (req, res) => {
+    res.json(await watchlistService.addSymbol(req.auth.sub, req.body?.symbol));
+}));
+
+router.delete('/symbols/:symbol', asyncHandler(async (req, res) => {
+    res.json(await watchlistService.removeSymbol(req.auth.sub, req.params.symbol));
+}));
+
+module.exports = router;
@@ -0,0 +1,63 @@
+const tokenService = require('../services/tokenService');
+const userRepository = require('../repositories/userRepository');
+
+function readBearerToken(req) {
+    const header = req.get('Authorization') || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * Verifies a token of the given type and checks that its user still exists.
+ * @param {'access' | 'pre-auth'} type
+ * @returns The decoded payload, or null if the token is not valid.
+ */
+function authenticate(token, type) {
+    const payload = token && tokenService.verify(token, type);
+    const user = payload && userRepository.findById(payload.sub);
+    // Tokens issued before a password reset are no longer honoured.
+    if (!user || (user.sessionsValidAfter && payload.iat <= user.sessionsValidAfter)) {
+        return null;
+    }
+    return payload;
+}
+
+/**
+ * Builds middleware that only lets requests through with a valid token of the given type.
+ * The decoded payload is exposed as `req.auth` and the raw token as `req.token`.
+ * @param {'access' | 'pre-auth'} type
+ */
+function requireToken(type) {
+    return (req, res, next) => {
+        const token = readBearerToken(req);
+        const payload = authenticate(token, type);
+        if (!payload) {
+            return res.status(401).json({ error: 'Authentication required.' });
+        }
+        req.auth = payload;
+        req.token = token;
+        next();
+    };
+}
+
+/**
+ * Sets `req.auth` and `req.token` when the request carries a valid access
+ * token, and lets it through either way. For endpoints that do more for
+ * signed-in users.
+ */
+function optionalAuth(req, res, next) {
+    const token = readBearerToken(req);
+    const payload = authenticate(token, 'access');
+    if (payload) {
+        req.auth = payload;
+        req.token = token;
+    }
+    next();
+}
+
+module.exports = {
+    authenticate,
+    optionalAuth,
+    requireAuth: requireToken('access'),
+    requirePreAuth: requireToken('pre-auth'),
+};
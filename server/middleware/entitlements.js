@@ -0,0 +1,21 @@
+const subscriptionService = require('../services/subscriptionService');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Only lets requests through when the signed-in user's tier grants the
+ * entitlement. Must run after `requireAuth`.
+ * @param {string} entitlement A feature id from `models/investmentTiers`.
+ */
+function requireEntitlement(entitlement) {
+    return (req, res, next) => {
+        if (subscriptionService.hasEntitlement(req.auth.sub, entitlement)) {
+            return next();
+        }
+        const tier = subscriptionService.tierGranting(entitlement);
+        next(new HttpError(403, tier
+            ? `This feature requires the ${tier.name} plan or higher.`
+            : 'Your plan does not include this feature.'));
+    };
+}
+
+module.exports = { requireEntitlement };
@@ -0,0 +1,33 @@
+/**
+ * A fixed-window, in-memory rate limiter keyed by client IP.
+ * @param {{ windowMs: number, max: number }} options
+ */
+function rateLimit({ windowMs, max }) {
+    const hits = new Map();
+
+    return (req, res, next) => {
+        const now = Date.now();
+        const key = req.ip;
+        let entry = hits.get(key);
+        if (!entry || entry.resetAt <= now) {
+            entry = { count: 0, resetAt: now + windowMs };
+            hits.set(key, entry);
+        }
+        entry.count++;
+
+        if (entry.count > max) {
+            res.set('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)));
+            return res.status(429).json({ error: 'Too many requests. Please slow down.' });
+        }
+
+        // Drop expired entries occasionally so the map does not grow without bound.
+        if (hits.size > 10000) {
+            for (const [k, v] of hits) {
+                if (v.resetAt <= now) hits.delete(k);
+            }
+        }
+        next();
+    };
+}
+
+module.exports = { rateLimit };
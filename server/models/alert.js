@@ -0,0 +1,52 @@
+/**
+ * Price alert domain model. Documents are plain JSON objects persisted by
+ * alertRepository; these typedefs describe their shape.
+ *
+ * @typedef {object} AlertRule
+ * @property {string} id
+ * @property {string} userId
+ * @property {string} symbol
+ * @property {string} condition One of ALERT_CONDITIONS.
+ * @property {number} threshold A price for `price-above`/`price-below`, a signed
+ *   percentage for `percent-move` (negative for drops) and a multiple of the
+ *   average volume for `volume-spike`.
+ * @property {number} referencePrice The price when the rule was created; percent moves are measured from it.
+ * @property {'active' | 'triggered'} status Rules fire once, then stay as a record.
+ * @property {'manual' | 'copilot'} source
+ * @property {string} createdAt
+ * @property {string | null} triggeredAt
+ *
+ * @typedef {object} Notification
+ * @property {string} id
+ * @property {string} userId
+ * @property {string | null} alertId Null for notifications not raised by an
+ *   alert rule, e.g. copy-trading being stopped.
+ * @property {string | null} symbol
+ * @property {string} message
+ * @property {number | null} price The price when the alert fired.
+ * @property {string} createdAt
+ * @property {boolean} read
+ */
+
+const ALERT_CONDITIONS = ['price-above', 'price-below', 'percent-move', 'volume-spike'];
+
+/** A short description of a rule, e.g. "NVDA drops 5%". */
+function describeAlert({ symbol, condition, threshold }) {
+    switch (condition) {
+        case 'price-above':
+            return `${symbol} rises above ${threshold}`;
+        case 'price-below':
+            return `${symbol} falls below ${threshold}`;
+        case 'percent-move':
+            return `${symbol} ${threshold < 0 ? 'drops' : 'rises'} ${Math.abs(threshold)}%`;
+        case 'volume-spike':
+            return `${symbol} trades ${threshold}× its average volume`;
+        default:
+            return symbol;
+    }
+}
+
+module.exports = {
+    ALERT_CONDITIONS,
+    describeAlert,
+};
@@ -0,0 +1,25 @@
+/**
+ * Co-pilot conversation model. Documents are plain JSON objects persisted by
+ * chatThreadRepository; these typedefs describe their shape. Signed-out
+ * users' threads are kept in the browser (IndexedDB) in the same shape,
+ * without `userId`.
+ *
+ * @typedef {object} ChatMessage
+ * @property {'user' | 'model'} role
+ * @property {string} text Markdown for model replies.
+ *
+ * @typedef {object} ChatThread
+ * @property {string} id
+ * @property {string} userId
+ * @property {string | null} title Set by the user, or generated from the first
+ *   exchange; null until then.
+ * @property {ChatMessage[]} messages Oldest first.
+ * @property {string} createdAt
+ * @property {string} updatedAt When a message was last added or the thread renamed.
+ */
+
+const CHAT_ROLES = ['user', 'model'];
+
+module.exports = {
+    CHAT_ROLES,
+};
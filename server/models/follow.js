@@ -0,0 +1,52 @@
+/**
+ * Copy-trading domain model. Documents are plain JSON objects persisted by
+ * followRepository; these typedefs describe their shape. Amounts are in the
+ * follower's account currency.
+ *
+ * @typedef {object} CopiedPosition
+ * @property {number} quantity Units bought by copying and not yet sold by copying.
+ * @property {number} cost Cost of those units.
+ * @property {string} currency The currency the instrument is priced in.
+ *
+ * @typedef {object} Follow
+ * @property {string} id
+ * @property {string} userId
+ * @property {string} traderId
+ * @property {number} allocation Capital set aside for the copy; copied holdings may not cost more.
+ * @property {number} maxTradeValue The most a single copied trade may be worth.
+ * @property {number} stopLossPercent Copying stops when the copy's value falls this far below its peak.
+ * @property {'active' | 'stopped'} status
+ * @property {string | null} stoppedReason
+ * @property {Object<string, CopiedPosition>} positions Copied holdings by symbol.
+ * @property {number} realizedGain Gains on copied holdings sold by copying.
+ * @property {number} peakEquity Highest value the copy has had: allocation plus gains.
+ * @property {string} createdAt
+ * @property {string} updatedAt
+ *
+ * @typedef {object} MirroredTrade
+ * @property {string} id
+ * @property {string} userId
+ * @property {string} followId
+ * @property {string} traderId
+ * @property {string} traderTradeId
+ * @property {string} symbol
+ * @property {'buy' | 'sell'} side
+ * @property {'copied' | 'skipped'} status
+ * @property {string | null} reason Why the trade was skipped.
+ * @property {number | null} quantity
+ * @property {number | null} price Fill price, in the instrument's currency.
+ * @property {number | null} value Fill value, in the account currency.
+ * @property {string | null} orderId
+ * @property {string} executedAt
+ */
+
+/** The copy's value: its allocation plus realized and unrealized gains. */
+function copyEquity(follow, valueOf) {
+    return Object.entries(follow.positions).reduce(
+        (sum, [symbol, position]) => sum + valueOf(symbol, position) - position.cost,
+        follow.allocation + follow.realizedGain);
+}
+
+module.exports = {
+    copyEquity,
+};
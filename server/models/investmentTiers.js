@@ -0,0 +1,90 @@
+/**
+ * Investment tiers, the features each one adds and the model portfolio it
+ * implies. Tiers are ordered by `rank`; a tier is entitled to its own features
+ * and those of every lower tier. Targets are percentages of total portfolio
+ * value per asset class (see ASSET_CLASSES in ./portfolio) and sum to 100.
+ * `toleranceBand` is how far, in percentage points, a class may drift from its
+ * target before it needs rebalancing.
+ *
+ * @typedef {object} TierFeature
+ * @property {string} id Entitlement id, checked by `requireEntitlement`.
+ * @property {string} label
+ *
+ * @typedef {object} InvestmentTier
+ * @property {string} name
+ * @property {number} rank
+ * @property {string} description
+ * @property {TierFeature[]} features
+ * @property {Record<string, number>} targets
+ * @property {number} toleranceBand
+ */
+
+/** @type {Record<string, InvestmentTier>} */
+const INVESTMENT_TIERS = {
+    'apex-ascent': {
+        name: 'Apex Ascent',
+        rank: 1,
+        description: 'For the ambitious investor beginning their journey to significant wealth.',
+        features: [
+            { id: 'market-access', label: 'Strategic Market Access' },
+            { id: 'ai-curated-portfolio', label: 'AI-Curated Portfolio' },
+            { id: 'core-growth-assets', label: 'Core Growth Assets' },
+        ],
+        targets: {
+            'US Equities': 45,
+            'Int\'l Equities': 20,
+            'Fixed Income': 20,
+            'Alternatives': 10,
+            'Private Equity': 0,
+            'Cash': 5,
+        },
+        toleranceBand: 5,
+    },
+    'nexus-growth': {
+        name: 'Nexus Growth',
+        rank: 2,
+        description: 'For the established investor seeking accelerated, diversified returns.',
+        features: [
+            { id: 'alpha-strategies', label: 'Diversified Alpha Strategies' },
+            { id: 'emerging-sectors', label: 'Emerging Sector Exposure' },
+            { id: 'priority-research', label: 'Priority Research Access' },
+        ],
+        targets: {
+            'US Equities': 50,
+            'Int\'l Equities': 20,
+            'Fixed Income': 12,
+            'Alternatives': 10,
+            'Private Equity': 5,
+            'Cash': 3,
+        },
+        toleranceBand: 2,
+    },
+    'celestial-mandate': {
+        name: 'Celestial Mandate',
+        rank: 3,
+        description: 'For the visionary investor focused on building a generational legacy.',
+        features: [
+            { id: 'generational-wealth', label: 'Generational Wealth Architecture' },
+            { id: 'off-market-deals', label: 'Exclusive Off-Market Deals' },
+            { id: 'co-investment', label: 'Direct Co-Investment Rights' },
+        ],
+        targets: {
+            'US Equities': 35,
+            'Int\'l Equities': 15,
+            'Fixed Income': 20,
+            'Alternatives': 10,
+            'Private Equity': 15,
+            'Cash': 5,
+        },
+        toleranceBand: 3,
+    },
+};
+
+// Users who have never chosen a plan are on the lowest tier, so no gated
+// feature is open until they upgrade to a plan that includes it.
+const DEFAULT_TIER = 'apex-ascent';
+
+module.exports = {
+    INVESTMENT_TIERS,
+    DEFAULT_TIER,
+};
@@ -0,0 +1,61 @@
+/**
+ * Paper-trading order model. Documents are plain JSON objects persisted by
+ * orderRepository; these typedefs describe their shape.
+ *
+ * @typedef {object} Order
+ * @property {string} id
+ * @property {string} userId
+ * @property {string} symbol
+ * @property {'buy' | 'sell'} side
+ * @property {string} type One of ORDER_TYPES.
+ * @property {number} quantity
+ * @property {number | null} limitPrice For limit orders, the worst price to fill at, in the instrument's currency.
+ * @property {number | null} stopPrice For stop orders, the price that triggers a market order.
+ * @property {string} currency ISO 4217 code the instrument, and so the order's prices, are in.
+ * @property {string} timeInForce One of TIME_IN_FORCE.
+ * @property {string} status One of ORDER_STATUSES.
+ * @property {string | null} reason Why the order was rejected, cancelled or expired.
+ * @property {number | null} fillPrice
+ * @property {string | null} transactionId The transaction recording the fill.
+ * @property {string} createdAt
+ * @property {string | null} expiresAt When a day order lapses; null for GTC and IOC orders.
+ * @property {string | null} closedAt When the order was filled, cancelled, rejected or expired.
+ */
+
+const ORDER_SIDES = ['buy', 'sell'];
+
+/**
+ * `market` fills at the next price; `limit` fills at the limit price or
+ * better; `stop` becomes a market order once the price reaches the stop
+ * (at or above it for buys, at or below it for sells).
+ */
+const ORDER_TYPES = ['market', 'limit', 'stop'];
+
+/**
+ * `day` lapses at the end of the UTC day, `gtc` stays open until filled or
+ * cancelled, and `ioc` is cancelled unless it fills as soon as it is placed.
+ */
+const TIME_IN_FORCE = ['day', 'gtc', 'ioc'];
+
+const ORDER_STATUSES = ['open', 'filled', 'cancelled', 'rejected', 'expired'];
+
+/** A short description of an order, e.g. "Buy 10 NVDA limit 120". */
+function describeOrder({ side, quantity, symbol, type, limitPrice, stopPrice }) {
+    const action = `${side === 'buy' ? 'Buy' : 'Sell'} ${quantity.toLocaleString('en-US')} ${symbol}`;
+    switch (type) {
+        case 'limit':
+            return `${action} limit ${limitPrice}`;
+        case 'stop':
+            return `${action} stop ${stopPrice}`;
+        default:
+            return `${action} at market`;
+    }
+}
+
+module.exports = {
+    ORDER_SIDES,
+    ORDER_TYPES,
+    TIME_IN_FORCE,
+    ORDER_STATUSES,
+    describeOrder,
+};
@@ -0,0 +1,105 @@
+/**
+ * Portfolio domain model. Documents are plain JSON objects persisted by
+ * portfolioRepository; these typedefs describe their shape.
+ *
+ * @typedef {object} Position
+ * @property {string} symbol Ticker or instrument code, e.g. `AAPL` or `ETH-USD`.
+ * @property {string} name
+ * @property {string} assetClass One of ASSET_CLASSES; anything else is reported as OTHER_ASSET_CLASS.
+ * @property {string} currency ISO 4217 code the instrument is priced in.
+ * @property {number} quantity
+ * @property {number} averageCost Average cost per unit, in `currency`.
+ * @property {number} price Latest price per unit, in `currency`.
+ * @property {number} previousClose Price per unit at the previous close.
+ * @property {boolean} [fractional] Whether the instrument trades in fractional units (e.g. crypto).
+ *
+ * @typedef {object} ValuationPoint
+ * @property {string} date Calendar date, `YYYY-MM-DD`.
+ * @property {number} value Total portfolio value at that day's close, in the account currency.
+ *
+ * @typedef {object} Portfolio
+ * @property {string} id
+ * @property {string} userId
+ * @property {string} name
+ * @property {string} accountCurrency ISO 4217 code of the cash balance, transactions and valuation history.
+ * @property {string} baseCurrency ISO 4217 code that values are reported in; chosen by the user.
+ * @property {number} cashBalance In the account currency.
+ * @property {Position[]} positions
+ * @property {ValuationPoint[]} history Daily closing values, oldest first.
+ * @property {OpeningLot[]} openingLots Lots held before the first recorded transaction.
+ * @property {string} createdAt
+ *
+ * @typedef {object} OpeningLot
+ * @property {string} id
+ * @property {string} symbol
+ * @property {number} quantity
+ * @property {number} costPerUnit
+ * @property {string} acquiredAt
+ *
+ * @typedef {object} Transaction
+ * @property {string} id
+ * @property {string} portfolioId
+ * @property {string} type One of TRANSACTION_TYPES.
+ * @property {string | null} symbol
+ * @property {number | null} quantity
+ * @property {number | null} price In the instrument's currency.
+ * @property {number} amount Signed effect on cash: negative for buys, fees and withdrawals.
+ * @property {string} currency The account currency `amount` is in.
+ * @property {string} description
+ * @property {string} executedAt
+ * @property {{ lotId: string, quantity: number }[]} [lots] For sells, the lots chosen by specific identification.
+ */
+
+/**
+ * Allocation taxonomy: the categories holdings are grouped into, in display
+ * order. Cash balances are reported under `Cash`.
+ */
+const ASSET_CLASSES = [
+    'US Equities',
+    'Int\'l Equities',
+    'Fixed Income',
+    'Alternatives',
+    'Private Equity',
+    'Cash',
+];
+
+const OTHER_ASSET_CLASS = 'Other';
+
+const TRANSACTION_TYPES = ['buy', 'sell', 'deposit', 'withdrawal', 'dividend', 'fee'];
+
+function roundMoney(value) {
+    return Math.round(value * 100) / 100;
+}
+
+function marketValue(position) {
+    return position.quantity * position.price;
+}
+
+/**
+ * The currency of the cash balance and transactions. Portfolios stored before
+ * multi-currency support only have `baseCurrency`.
+ */
+function accountCurrency(portfolio) {
+    return portfolio.accountCurrency || portfolio.baseCurrency;
+}
+
+/** The currency a position is priced in; the account currency if not recorded. */
+function positionCurrency(portfolio, position) {
+    return position.currency || accountCurrency(portfolio);
+}
+
+/** The taxonomy category a position is reported under. */
+function classifyPosition(position) {
+    return ASSET_CLASSES.includes(position.assetClass) ? position.assetClass : OTHER_ASSET_CLASS;
+}
+
+module.exports = {
+    ASSET_CLASSES,
+    OTHER_ASSET_CLASS,
+    TRANSACTION_TYPES,
+    roundMoney,
+    marketValue,
+    accountCurrency,
+    positionCurrency,
+    classifyPosition,
+};
@@ -0,0 +1,113 @@
+const crypto = require('crypto');
+const { createJsonStore } = require('./jsonStore');
+
+const store = createJsonStore('alerts.json', () => ({ alerts: [], notifications: [] }));
+
+// Older notifications are dropped so the store does not grow without bound.
+const MAX_NOTIFICATIONS_PER_USER = 100;
+
+/** A user's alert rules, newest first. */
+function listByUserId(userId) {
+    return store.read().alerts
+        .filter(alert => alert.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function listActive() {
+    return store.read().alerts.filter(alert => alert.status === 'active');
+}
+
+function create(fields) {
+    const alert = {
+        id: crypto.randomUUID(),
+        ...fields,
+        status: 'active',
+        createdAt: new Date().toISOString(),
+        triggeredAt: null,
+    };
+    return store.update(doc => {
+        doc.alerts.push(alert);
+        return alert;
+    });
+}
+
+/**
+ * Deletes one of a user's alert rules.
+ * @returns Whether a rule was deleted.
+ */
+function remove(userId, id) {
+    return store.update(doc => {
+        const index = doc.alerts.findIndex(alert => alert.id === id && alert.userId === userId);
+        if (index === -1) return false;
+        doc.alerts.splice(index, 1);
+        return true;
+    });
+}
+
+function pushNotification(doc, fields, now) {
+    const notification = { id: crypto.randomUUID(), ...fields, createdAt: now, read: false };
+    doc.notifications.push(notification);
+    const own = doc.notifications.filter(n => n.userId === fields.userId);
+    if (own.length > MAX_NOTIFICATIONS_PER_USER) {
+        const dropped = new Set(own.slice(0, own.length - MAX_NOTIFICATIONS_PER_USER));
+        doc.notifications = doc.notifications.filter(n => !dropped.has(n));
+    }
+    return notification;
+}
+
+/**
+ * Marks a rule as triggered and records the notification for its owner, in
+ * one write.
+ * @returns The notification, or null if the rule is gone or already triggered.
+ */
+function trigger(id, { message, price }) {
+    return store.update(doc => {
+        const alert = doc.alerts.find(a => a.id === id);
+        if (!alert || alert.status !== 'active') return null;
+        const now = new Date().toISOString();
+        alert.status = 'triggered';
+        alert.triggeredAt = now;
+        return pushNotification(doc, { userId: alert.userId, alertId: alert.id, symbol: alert.symbol, message, price }, now);
+    });
+}
+
+/**
+ * Records a notification that is not raised by an alert rule.
+ * @param {{ userId: string, message: string, symbol?: string | null }} fields
+ */
+function addNotification({ userId, message, symbol = null }) {
+    return store.update(doc => pushNotification(doc, { userId, alertId: null, symbol, message, price: null }, new Date().toISOString()));
+}
+
+/** A user's notifications, newest first. */
+function listNotifications(userId) {
+    return store.read().notifications
+        .filter(notification => notification.userId === userId)
+        .reverse();
+}
+
+/**
+ * Marks a user's notifications as read: those with the given ids, or all of
+ * them when `ids` is omitted.
+ */
+function markNotificationsRead(userId, ids) {
+    const selected = ids ? new Set(ids) : null;
+    return store.update(doc => {
+        for (const notification of doc.notifications) {
+            if (notification.userId === userId && (!selected || selected.has(notification.id))) {
+                notification.read = true;
+            }
+        }
+    });
+}
+
+module.exports = {
+    listByUserId,
+    listActive,
+    create,
+    remove,
+    trigger,
+    addNotification,
+    listNotifications,
+    markNotificationsRead,
+};
@@ -0,0 +1,68 @@
+const crypto = require('crypto');
+const { createJsonStore } = require('./jsonStore');
+
+const store = createJsonStore('chatThreads.json', () => ({ threads: [] }));
+
+// The least recently used threads are dropped so the store does not grow without bound.
+const MAX_THREADS_PER_USER = 100;
+
+/** A user's threads, most recently updated first. */
+function listByUserId(userId) {
+    return store.read().threads
+        .filter(thread => thread.userId === userId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+function findById(userId, id) {
+    return store.read().threads.find(thread => thread.id === id && thread.userId === userId) || null;
+}
+
+function create(fields) {
+    const now = new Date().toISOString();
+    const thread = { id: crypto.randomUUID(), ...fields, createdAt: now, updatedAt: now };
+    return store.update(doc => {
+        doc.threads.push(thread);
+        const own = doc.threads
+            .filter(t => t.userId === fields.userId)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+        if (own.length > MAX_THREADS_PER_USER) {
+            const dropped = new Set(own.slice(MAX_THREADS_PER_USER));
+            doc.threads = doc.threads.filter(t => !dropped.has(t));
+        }
+        return thread;
+    });
+}
+
+/**
+ * Applies changes to one of a user's threads.
+ * @returns The updated thread, or null if it does not exist.
+ */
+function update(userId, id, changes) {
+    return store.update(doc => {
+        const thread = doc.threads.find(t => t.id === id && t.userId === userId);
+        if (!thread) return null;
+        Object.assign(thread, changes, { updatedAt: new Date().toISOString() });
+        return thread;
+    });
+}
+
+/**
+ * Deletes one of a user's threads.
+ * @returns Whether a thread was deleted.
+ */
+function remove(userId, id) {
+    return store.update(doc => {
+        const index = doc.threads.findIndex(thread => thread.id === id && thread.userId === userId);
+        if (index === -1) return false;
+        doc.threads.splice(index, 1);
+        return true;
+    });
+}
+
+module.exports = {
+    listByUserId,
+    findById,
+    create,
+    update,
+    remove,
+};
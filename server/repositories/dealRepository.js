@@ -0,0 +1,16 @@
+const seed = require('./seed/deals.json');
+
+// Deals are curated by the investment team and currently served from the seed file.
+
+/** Deals still open for commitments on the given date, closing soonest first. */
+function listOpen(now = new Date()) {
+    const today = now.toISOString().slice(0, 10);
+    return seed
+        .filter(deal => deal.closesOn >= today)
+        .sort((a, b) => a.closesOn.localeCompare(b.closesOn))
+        .map(deal => ({ ...deal }));
+}
+
+module.exports = {
+    listOpen,
+};
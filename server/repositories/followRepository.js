@@ -0,0 +1,110 @@
+const crypto = require('crypto');
+const { createJsonStore } = require('./jsonStore');
+
+const store = createJsonStore('follows.json', () => ({ follows: [], mirroredTrades: [] }));
+
+// Older mirrored trades are dropped so the store does not grow without bound.
+const MAX_MIRRORED_TRADES_PER_USER = 200;
+
+function listByUserId(userId) {
+    return store.read().follows.filter(follow => follow.userId === userId);
+}
+
+function findByUserAndTrader(userId, traderId) {
+    return store.read().follows.find(follow => follow.userId === userId && follow.traderId === traderId) || null;
+}
+
+function findById(id) {
+    return store.read().follows.find(follow => follow.id === id) || null;
+}
+
+function listActive() {
+    return store.read().follows.filter(follow => follow.status === 'active');
+}
+
+function create(fields) {
+    const now = new Date().toISOString();
+    const follow = {
+        id: crypto.randomUUID(),
+        ...fields,
+        status: 'active',
+        stoppedReason: null,
+        positions: {},
+        realizedGain: 0,
+        peakEquity: fields.allocation,
+        createdAt: now,
+        updatedAt: now,
+    };
+    return store.update(doc => {
+        doc.follows.push(follow);
+        return follow;
+    });
+}
+
+/**
+ * Applies a partial update to a follow and persists it.
+ * @returns The updated follow, or null if no follow has that id.
+ */
+function update(id, changes) {
+    return store.update(doc => {
+        const follow = doc.follows.find(f => f.id === id);
+        if (!follow) return null;
+        Object.assign(follow, changes, { updatedAt: new Date().toISOString() });
+        return follow;
+    });
+}
+
+/**
+ * Deletes a follow. Its mirrored trades are kept as history.
+ * @returns Whether a follow was deleted.
+ */
+function remove(id) {
+    return store.update(doc => {
+        const index = doc.follows.findIndex(follow => follow.id === id);
+        if (index === -1) return false;
+        doc.follows.splice(index, 1);
+        return true;
+    });
+}
+
+/**
+ * Records a mirrored trade and, for copied trades, its effect on the follow
+ * (positions and gains) in one write.
+ * @param {object} fields The mirrored trade, without `id`.
+ * @param {object | null} changes Partial update to the follow.
+ * @returns The mirrored trade.
+ */
+function recordMirroredTrade(fields, changes) {
+    return store.update(doc => {
+        const follow = doc.follows.find(f => f.id === fields.followId);
+        if (follow && changes) Object.assign(follow, changes, { updatedAt: fields.executedAt });
+
+        const trade = { id: crypto.randomUUID(), ...fields };
+        doc.mirroredTrades.push(trade);
+        const own = doc.mirroredTrades.filter(t => t.userId === fields.userId);
+        if (own.length > MAX_MIRRORED_TRADES_PER_USER) {
+            const dropped = new Set(own.slice(0, own.length - MAX_MIRRORED_TRADES_PER_USER));
+            doc.mirroredTrades = doc.mirroredTrades.filter(t => !dropped.has(t));
+        }
+        return trade;
+    });
+}
+
+/** A user's mirrored trades, newest first. */
+function listMirroredTrades(userId) {
+    return store.read().mirroredTrades
+        .filter(trade => trade.userId === userId)
+        .reverse();
+}
+
+module.exports = {
+    listByUserId,
+    findByUserAndTrader,
+    findById,
+    listActive,
+    create,
+    update,
+    remove,
+    recordMirroredTrade,
+    listMirroredTrades,
+};
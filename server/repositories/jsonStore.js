@@ -0,0 +1,49 @@
+const fs = require('fs');
+const path = require('path');
+
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '..', 'data');
+
+/**
+ * A small file-backed JSON document store. The document is kept in memory and
+ * written through to disk on every change, so the server can restart without
+ * losing state while staying free of external database dependencies.
+ * @param {string} fileName The file name inside the data directory.
+ * @param {() => object} createDefault Produces the initial document when the file does not exist.
+ */
+function createJsonStore(fileName, createDefault) {
+    const filePath = path.join(DATA_DIR, fileName);
+    let document = null;
+
+    const load = () => {
+        if (document) return document;
+        try {
+            document = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            if (error.code !== 'ENOENT') throw error;
+            document = createDefault();
+        }
+        return document;
+    };
+
+    const save = () => {
+        fs.mkdirSync(DATA_DIR, { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(document, null, 2));
+        fs.renameSync(tempPath, filePath);
+    };
+
+    return {
+        /** Returns the current document. */
+        read() {
+            return load();
+        },
+        /** Applies a mutation to the document and persists the result. */
+        update(mutate) {
+            const result = mutate(load());
+            save();
+            return result;
+        },
+    };
+}
+
+module.exports = { createJsonStore, DATA_DIR };
@@ -0,0 +1,23 @@
+const fs = require('fs');
+const path = require('path');
+
+// Knowledge base documents are curated markdown files served from the seed
+// directory. A document's id is its file name and its title is its first
+// level-1 heading.
+
+const KNOWLEDGE_DIR = path.join(__dirname, 'seed', 'knowledge');
+
+function listAll() {
+    return fs.readdirSync(KNOWLEDGE_DIR)
+        .filter(file => file.endsWith('.md'))
+        .sort()
+        .map(file => {
+            const markdown = fs.readFileSync(path.join(KNOWLEDGE_DIR, file), 'utf8');
+            const id = path.basename(file, '.md');
+            return { id, title: markdown.match(/^# (.+)$/m)?.[1].trim() || id, markdown };
+        });
+}
+
+module.exports = {
+    listAll,
+};
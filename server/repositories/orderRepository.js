@@ -0,0 +1,56 @@
+const crypto = require('crypto');
+const { createJsonStore } = require('./jsonStore');
+
+const store = createJsonStore('orders.json', () => ({ orders: [] }));
+
+/** A user's orders, newest first. */
+function listByUserId(userId) {
+    return store.read().orders
+        .filter(order => order.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Open orders across all users, oldest first so earlier orders fill first. */
+function listOpen() {
+    return store.read().orders
+        .filter(order => order.status === 'open')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function create(fields) {
+    const order = {
+        id: crypto.randomUUID(),
+        ...fields,
+        status: 'open',
+        reason: null,
+        fillPrice: null,
+        transactionId: null,
+        createdAt: new Date().toISOString(),
+        closedAt: null,
+    };
+    return store.update(doc => {
+        doc.orders.push(order);
+        return order;
+    });
+}
+
+/**
+ * Closes an open order with a final status (`filled`, `cancelled`, `rejected`
+ * or `expired`) and any fill details.
+ * @returns The updated order, or null if it is not open.
+ */
+function close(id, status, changes = {}) {
+    return store.update(doc => {
+        const order = doc.orders.find(o => o.id === id);
+        if (!order || order.status !== 'open') return null;
+        Object.assign(order, changes, { status, closedAt: new Date().toISOString() });
+        return order;
+    });
+}
+
+module.exports = {
+    listByUserId,
+    listOpen,
+    create,
+    close,
+};
@@ -0,0 +1,34 @@
+const { createJsonStore } = require('./jsonStore');
+
+const store = createJsonStore('password-resets.json', () => ({ resets: [] }));
+
+function findByTokenHash(tokenHash) {
+    return store.read().resets.find(reset => reset.tokenHash === tokenHash) || null;
+}
+
+/**
+ * Stores a new reset request, discarding the user's earlier requests and any
+ * that have expired, so only the latest link for a user is ever valid.
+ */
+function replaceForUser(userId, { tokenHash, expiresAt }) {
+    const now = Date.now();
+    return store.update(doc => {
+        doc.resets = doc.resets.filter(reset => reset.userId !== userId && reset.expiresAt > now);
+        const reset = { tokenHash, userId, expiresAt, usedAt: null, createdAt: new Date(now).toISOString() };
+        doc.resets.push(reset);
+        return reset;
+    });
+}
+
+function markUsed(tokenHash) {
+    store.update(doc => {
+        const reset = doc.resets.find(r => r.tokenHash === tokenHash);
+        if (reset) reset.usedAt = new Date().toISOString();
+    });
+}
+
+module.exports = {
+    findByTokenHash,
+    replaceForUser,
+    markUsed,
+};
@@ -0,0 +1,140 @@
+const crypto = require('crypto');
+const { createJsonStore } = require('./jsonStore');
+const { roundMoney } = require('../models/portfolio');
+const { hashString, createRandom } = require('../utils/random');
+const seed = require('./seed/portfolio.json');
+
+const store = createJsonStore('portfolios.json', () => ({ portfolios: [], transactions: [] }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Builds a year of daily closing values ending at `lastClose`, walking
+ * backwards with small pseudo-random daily returns. Seeded by the user id so
+ * each user's history is stable across restarts.
+ */
+function buildSeedHistory(userId, lastClose, days, now) {
+    const random = createRandom(hashString(userId));
+
+    const history = [];
+    let value = lastClose;
+    for (let i = 1; i <= days; i++) {
+        history.unshift({ date: new Date(now - i * DAY_MS).toISOString().slice(0, 10), value: roundMoney(value) });
+        const dailyReturn = 0.0006 + (random() - 0.5) * 0.022;
+        value /= 1 + dailyReturn;
+    }
+    return history;
+}
+
+function buildSeedTransaction(portfolioId, entry, now) {
+    const { hoursAgo, ...fields } = entry;
+    const tradeValue = fields.quantity != null ? roundMoney(fields.quantity * fields.price) : 0;
+    const amount = fields.amount ?? (fields.type === 'buy' ? -tradeValue : tradeValue);
+    return {
+        id: crypto.randomUUID(),
+        portfolioId,
+        type: fields.type,
+        symbol: fields.symbol ?? null,
+        quantity: fields.quantity ?? null,
+        price: fields.price ?? null,
+        amount,
+        currency: seed.accountCurrency,
+        description: fields.description,
+        executedAt: new Date(now - hoursAgo * HOUR_MS).toISOString(),
+    };
+}
+
+function buildOpeningLot({ daysAgo, ...lot }, now) {
+    return { id: crypto.randomUUID(), ...lot, acquiredAt: new Date(now - daysAgo * DAY_MS).toISOString() };
+}
+
+function findByUserId(userId) {
+    return store.read().portfolios.find(portfolio => portfolio.userId === userId) || null;
+}
+
+/**
+ * Creates a user's portfolio from the demo seed in `seed/portfolio.json`,
+ * including a year of valuation history, the tax lots held before the first
+ * transaction and recent transactions.
+ * @param {string} userId
+ * @param {(portfolio: object) => number} valuePreviousClose Values the seeded
+ *   portfolio at the previous close in its account currency, where the
+ *   valuation history ends.
+ */
+function createFromSeed(userId, valuePreviousClose) {
+    const now = Date.now();
+    const portfolio = {
+        id: crypto.randomUUID(),
+        userId,
+        name: seed.name,
+        accountCurrency: seed.accountCurrency,
+        baseCurrency: seed.accountCurrency,
+        cashBalance: seed.cashBalance,
+        positions: seed.positions.map(position => ({ ...position })),
+        history: [],
+        openingLots: seed.openingLots.map(lot => buildOpeningLot(lot, now)),
+        createdAt: new Date(now).toISOString(),
+    };
+    portfolio.history = buildSeedHistory(userId, valuePreviousClose(portfolio), seed.historyDays, now);
+    const transactions = seed.transactions.map(entry => buildSeedTransaction(portfolio.id, entry, now));
+
+    return store.update(doc => {
+        doc.portfolios.push(portfolio);
+        doc.transactions.push(...transactions);
+        return portfolio;
+    });
+}
+
+/**
+ * Applies a partial update to a portfolio and persists it.
+ * @returns The updated portfolio, or null if no portfolio has that id.
+ */
+function update(id, changes) {
+    return store.update(doc => {
+        const portfolio = doc.portfolios.find(p => p.id === id);
+        if (!portfolio) return null;
+        Object.assign(portfolio, changes);
+        return portfolio;
+    });
+}
+
+/**
+ * Records a transaction and applies its effect on the portfolio (e.g. the new
+ * cash balance and positions) in one write.
+ * @param {string} portfolioId
+ * @param {object} changes Partial update to the portfolio.
+ * @param {object} fields The transaction, without `id` and `portfolioId`.
+ * @returns The transaction, or null if no portfolio has that id.
+ */
+function recordTransaction(portfolioId, changes, fields) {
+    return store.update(doc => {
+        const portfolio = doc.portfolios.find(p => p.id === portfolioId);
+        if (!portfolio) return null;
+        Object.assign(portfolio, changes);
+        const transaction = { id: crypto.randomUUID(), portfolioId, ...fields };
+        doc.transactions.push(transaction);
+        return transaction;
+    });
+}
+
+/**
+ * Lists a portfolio's transactions, most recent first (then by id, so the
+ * order is stable for pagination).
+ * @param {string} portfolioId
+ * @param {{ limit?: number }} options
+ */
+function listTransactions(portfolioId, { limit } = {}) {
+    const transactions = store.read().transactions
+        .filter(transaction => transaction.portfolioId === portfolioId)
+        .sort((a, b) => b.executedAt.localeCompare(a.executedAt) || b.id.localeCompare(a.id));
+    return limit ? transactions.slice(0, limit) : transactions;
+}
+
+module.exports = {
+    findByUserId,
+    createFromSeed,
+    update,
+    recordTransaction,
+    listTransactions,
+};
@@ -0,0 +1,30 @@
+const { createJsonStore } = require('./jsonStore');
+
+const store = createJsonStore('subscriptions.json', () => ({ subscriptions: [] }));
+
+function findByUserId(userId) {
+    return store.read().subscriptions.find(subscription => subscription.userId === userId) || null;
+}
+
+/**
+ * Records a user's new tier, keeping a history of plan changes.
+ */
+function setTier(userId, tier) {
+    const now = new Date().toISOString();
+    return store.update(doc => {
+        let subscription = doc.subscriptions.find(s => s.userId === userId);
+        if (!subscription) {
+            subscription = { userId, tier, changedAt: now, history: [] };
+            doc.subscriptions.push(subscription);
+        }
+        subscription.history.push({ from: subscription.tier, to: tier, changedAt: now });
+        subscription.tier = tier;
+        subscription.changedAt = now;
+        return subscription;
+    });
+}
+
+module.exports = {
+    findByUserId,
+    setTier,
+};
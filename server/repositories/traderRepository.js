@@ -0,0 +1,16 @@
+const seed = require('./seed/traders.json');
+
+// Social trading leaders are curated and currently served from the seed file.
+
+function listAll() {
+    return seed.map(trader => ({ ...trader, holdings: { ...trader.holdings } }));
+}
+
+function findById(id) {
+    return listAll().find(trader => trader.id === id) || null;
+}
+
+module.exports = {
+    listAll,
+    findById,
+};
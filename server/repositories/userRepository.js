@@ -0,0 +1,57 @@
+const crypto = require('crypto');
+const { createJsonStore } = require('./jsonStore');
+
+const store = createJsonStore('users.json', () => ({ users: [] }));
+
+function normalizeEmail(email) {
+    return String(email || '').trim().toLowerCase();
+}
+
+function findByEmail(email) {
+    const normalized = normalizeEmail(email);
+    return store.read().users.find(user => user.email === normalized) || null;
+}
+
+function findById(id) {
+    return store.read().users.find(user => user.id === id) || null;
+}
+
+function create({ name, email, passwordHash, totpSecret }) {
+    return store.update(doc => {
+        const user = {
+            id: crypto.randomUUID(),
+            name: String(name).trim(),
+            email: normalizeEmail(email),
+            passwordHash,
+            totpSecret,
+            totpConfirmed: false,
+            lastTotpStep: -1,
+            failedTotpAttempts: 0,
+            totpLockedUntil: 0,
+            createdAt: new Date().toISOString(),
+        };
+        doc.users.push(user);
+        return user;
+    });
+}
+
+/**
+ * Applies a partial update to a user and persists it.
+ * @returns The updated user, or null if no user has that id.
+ */
+function update(id, changes) {
+    return store.update(doc => {
+        const user = doc.users.find(u => u.id === id);
+        if (!user) return null;
+        Object.assign(user, changes);
+        return user;
+    });
+}
+
+module.exports = {
+    normalizeEmail,
+    findByEmail,
+    findById,
+    create,
+    update,
+};
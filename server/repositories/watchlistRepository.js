@@ -0,0 +1,29 @@
+const { createJsonStore } = require('./jsonStore');
+
+const store = createJsonStore('watchlists.json', () => ({ watchlists: [] }));
+
+function findByUserId(userId) {
+    return store.read().watchlists.find(watchlist => watchlist.userId === userId) || null;
+}
+
+/**
+ * Replaces the symbols on a user's watchlist, creating it if needed.
+ */
+function setSymbols(userId, symbols) {
+    const now = new Date().toISOString();
+    return store.update(doc => {
+        let watchlist = doc.watchlists.find(w => w.userId === userId);
+        if (!watchlist) {
+            watchlist = { userId, symbols: [], updatedAt: now };
+            doc.watchlists.push(watchlist);
+        }
+        watchlist.symbols = symbols;
+        watchlist.updatedAt = now;
+        return watchlist;
+    });
+}
+
+module.exports = {
+    findByUserId,
+    setSymbols,
+};
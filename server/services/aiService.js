@@ -0,0 +1,253 @@
+const { HttpError } = require('../utils/httpError');
+const geminiService = require('./geminiService');
+const mockAiService = require('./mockAiService');
+const subscriptionService = require('./subscriptionService');
+const { DEFAULT_TIER } = require('../models/investmentTiers');
+const { ALERT_CONDITIONS } = require('../models/alert');
+
+/**
+ * Entry point for every AI feature. Requests are validated here and then
+ * delegated to a pluggable provider, selected with `AI_PROVIDER`:
+ * `gemini` (default) calls the Gemini API; `mock` returns deterministic canned
+ * content with no network, for development, demos and automated tests.
+ *
+ * A provider implements the functions exported below with the same names. It
+ * receives already-validated arguments plus `{ signal }`, an AbortSignal that
+ * fires when the client goes away:
+ *
+ * - `getStrategicInsights(options)` → `{ text, sources: [{ uri, title }] }`
+ * - `generateGuide({ context, knowledge? }, options)` → `{ text }`
+ * - `generateGuideDeepDive(context, options)` → `{ text }`
+ * - `analyzeTrader({ name, rank, ytd, trades }, options)` → `{ text }`
+ * - `generateAllocation({ portfolioValue, tier: { name, description, targets } }, options)` → `{ allocations: [{ category, percentage }] }`
+ * - `commentOnAllocation({ currency, totalValue, allocations: [{ assetClass, percentage, holdings }] }, options)` → `{ text }`
+ * - `generateImage({ prompt, aspectRatio }, options)` → `{ imageBase64, mimeType }`
+ * - `editImage({ imageBase64, mimeType, prompt }, options)` → `{ imageBase64, mimeType }`
+ * - `startVideoGeneration({ prompt, image? }, options)` → `{ id }`
+ * - `getVideoStatus(id, options)` → `{ done, error? }`
+ * - `downloadVideo(id, options)` → a fetch `Response` with the MP4 body
+ * - `parseAlertRequest(text, options)` → `{ alert: { symbol, condition, threshold } | null }`
+ * - `streamChat({ history, message, systemInstruction, tools?, knowledge? }, options)` → async iterable of text chunks
+ * - `titleConversation({ message, reply }, options)` → `{ title }`
+ *
+ * Chat `tools`, when given, are `{ declarations: [{ name, description, parameters }], call(name, args) }`
+ * (see copilotToolService); the provider lets the model call them and answers
+ * with what they return.
+ *
+ * `knowledge`, when given, is `{ instructions, excerpts: [{ citation, document, section, text }] }`
+ * from knowledgeService: the knowledge base excerpts retrieved for the request,
+ * which the answer should draw on and cite by number. For chat, the
+ * instructions are already part of `systemInstruction`.
+ */
+
+const ASPECT_RATIOS = ['1:1', '16:9', '9:16'];
+// The Co-pilot's persona. It is fixed on the server: the chat endpoint is open
+// to signed-out visitors, so clients must not be able to repurpose the model.
+const COPILOT_INSTRUCTIONS = `
+    You are the FULXERPRO AI Co-pilot, a helpful and knowledgeable assistant for a high-end investment platform.
+    Your goal is to answer user questions about the platform, its features, and its benefits for investors and clients.
+    You must be professional, concise, and helpful. Guide users towards signing up or requesting a demo when appropriate.
+    Do not make up features; if the knowledge base excerpts don't cover a question about the platform, say so.
+`;
+const MAX_TITLE_LENGTH = 80;
+
+const PROVIDERS = {
+    gemini: geminiService,
+    mock: mockAiService,
+};
+
+const providerName = process.env.AI_PROVIDER || 'gemini';
+if (!PROVIDERS[providerName]) {
+    throw new Error(`Unknown AI_PROVIDER "${providerName}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+}
+let provider = PROVIDERS[providerName];
+
+function setProvider(nextProvider) {
+    provider = typeof nextProvider === 'string' ? PROVIDERS[nextProvider] : nextProvider;
+    if (!provider) {
+        throw new Error(`Unknown AI provider "${nextProvider}".`);
+    }
+}
+
+function getProviderName() {
+    return Object.keys(PROVIDERS).find(name => PROVIDERS[name] === provider) || 'custom';
+}
+
+function requireText(value, field, maxLength = 4000) {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new HttpError(400, `${field} is required.`);
+    }
+    if (value.length > maxLength) {
+        throw new HttpError(400, `${field} must be at most ${maxLength} characters.`);
+    }
+    return value.trim();
+}
+
+function getStrategicInsights(options) {
+    return provider.getStrategicInsights(options);
+}
+
+/**
+ * @param {string} dashboardContext
+ * @param {{ signal?: AbortSignal, knowledge?: object | null }} [options] `knowledge` is the retrieved knowledge base excerpts, if any.
+ */
+function generateGuide(dashboardContext, { knowledge, ...options } = {}) {
+    return provider.generateGuide({
+        context: requireText(dashboardContext, 'Dashboard context', 20000),
+        knowledge: knowledge || undefined,
+    }, options);
+}
+
+function analyzeTrader(trader, options) {
+    return provider.analyzeTrader({
+        name: requireText(trader?.name, 'Trader name', 200),
+        rank: requireText(trader?.rank, 'Trader rank', 200),
+        ytd: requireText(trader?.ytd, 'Trader YTD performance', 200),
+        trades: requireText(trader?.trades, 'Trader trades', 1000),
+    }, options);
+}
+
+/**
+ * The research-level edition of the Platform Guide, for plans with Priority
+ * Research Access.
+ */
+function generateGuideDeepDive(dashboardContext, options) {
+    return provider.generateGuideDeepDive(requireText(dashboardContext, 'Dashboard context', 20000), options);
+}
+
+/**
+ * An AI model allocation for an investment tier.
+ * @param {{ portfolioValue?: string, tier?: string }} params `tier` is a tier id and defaults to DEFAULT_TIER.
+ */
+async function generateAllocation({ portfolioValue, tier: tierId = DEFAULT_TIER } = {}, options) {
+    const tier = subscriptionService.getTier(tierId);
+    const { allocations } = await provider.generateAllocation({
+        portfolioValue: requireText(portfolioValue || '$12M', 'Portfolio value', 100),
+        tier: { name: tier.name, description: tier.description, targets: tier.targets },
+    }, options);
+    if (!Array.isArray(allocations)) {
+        throw new HttpError(502, 'Invalid allocation data received from AI.');
+    }
+    return { allocations };
+}
+
+/**
+ * Commentary on an allocation computed from real holdings. The figures come
+ * from the portfolio service, never from the model.
+ */
+function commentOnAllocation({ currency, totalValue, allocations }, options) {
+    if (!Array.isArray(allocations) || allocations.length === 0) {
+        throw new HttpError(400, 'There are no holdings to comment on.');
+    }
+    return provider.commentOnAllocation({ currency, totalValue, allocations }, options);
+}
+
+function generateImage({ prompt, aspectRatio }, options) {
+    if (!ASPECT_RATIOS.includes(aspectRatio)) {
+        throw new HttpError(400, `Aspect ratio must be one of ${ASPECT_RATIOS.join(', ')}.`);
+    }
+    return provider.generateImage({ prompt: requireText(prompt, 'Prompt', 2000), aspectRatio }, options);
+}
+
+function editImage({ imageBase64, mimeType = 'image/png', prompt }, options) {
+    return provider.editImage({
+        imageBase64: requireText(imageBase64, 'Image', 15 * 1024 * 1024),
+        mimeType,
+        prompt: requireText(prompt, 'Prompt', 2000),
+    }, options);
+}
+
+function startVideoGeneration({ prompt, image }, options) {
+    return provider.startVideoGeneration({
+        prompt: requireText(prompt, 'Prompt', 2000),
+        image: image?.imageBytes
+            ? { imageBytes: image.imageBytes, mimeType: image.mimeType || 'image/png' }
+            : undefined,
+    }, options);
+}
+
+function getVideoStatus(id, options) {
+    return provider.getVideoStatus(id, options);
+}
+
+function downloadVideo(id, options) {
+    return provider.downloadVideo(id, options);
+}
+
+/**
+ * Extracts a price alert rule from a natural-language request such as "tell
+ * me if NVDA drops 5%". Anything that is not a well-formed rule is reported as
+ * no alert; alertService validates the rule's values before creating it.
+ * @returns {Promise<{ alert: { symbol: string, condition: string, threshold: number } | null }>}
+ */
+async function parseAlertRequest(text, options) {
+    const { alert } = await provider.parseAlertRequest(requireText(text, 'Request', 500), options);
+    const wellFormed = alert
+        && typeof alert.symbol === 'string'
+        && ALERT_CONDITIONS.includes(alert.condition)
+        && Number.isFinite(alert.threshold);
+    return { alert: wellFormed ? { symbol: alert.symbol, condition: alert.condition, threshold: alert.threshold } : null };
+}
+
+/**
+ * Streams a Co-pilot reply. The conversation so far is supplied by the client,
+ * so the server keeps no chat state between requests; the system instruction
+ * is always built here.
+ * @param {{ history?: Array<{ role: 'user' | 'model', text: string }>, message: string }} params
+ * @param {{ signal?: AbortSignal, tools?: { instructions: string, declarations: object[], call: Function }, knowledge?: object | null }} [options]
+ *   `tools` are the signed-in user's data tools, if any; `knowledge` is the
+ *   knowledge base excerpts retrieved for the message, if any.
+ * @returns An async iterable of text chunks.
+ */
+async function* streamChat({ history = [], message }, { tools, knowledge, ...options } = {}) {
+    const userMessage = requireText(message, 'Message', 4000);
+    if (!Array.isArray(history)) {
+        throw new HttpError(400, 'History must be an array.');
+    }
+    const turns = history
+        .filter(turn => (turn?.role === 'user' || turn?.role === 'model') && typeof turn.text === 'string')
+        .map(turn => ({ role: turn.role, text: turn.text }));
+
+    yield* provider.streamChat({
+        history: turns,
+        message: userMessage,
+        systemInstruction: [COPILOT_INSTRUCTIONS, knowledge?.instructions, tools?.instructions].filter(Boolean).join('\n'),
+        tools: tools && { declarations: tools.declarations, call: tools.call },
+        knowledge: knowledge || undefined,
+    }, options);
+}
+
+/**
+ * A short title for a Co-pilot conversation, from its first exchange.
+ * @returns {Promise<{ title: string }>}
+ */
+async function titleConversation({ message, reply } = {}, options) {
+    const { title } = await provider.titleConversation({
+        message: requireText(message, 'Message', 4000),
+        reply: requireText(reply, 'Reply', 20000),
+    }, options);
+    const cleaned = String(title ?? '').replace(/^["'\s#*]+|["'\s.*]+$/g, '').slice(0, MAX_TITLE_LENGTH);
+    if (!cleaned) {
+        throw new HttpError(502, 'The AI service did not return a title.');
+    }
+    return { title: cleaned };
+}
+
+module.exports = {
+    setProvider,
+    getProviderName,
+    getStrategicInsights,
+    generateGuide,
+    generateGuideDeepDive,
+    analyzeTrader,
+    generateAllocation,
+    commentOnAllocation,
+    generateImage,
+    editImage,
+    startVideoGeneration,
+    getVideoStatus,
+    downloadVideo,
+    parseAlertRequest,
+    streamChat,
+    titleConversation,
+};
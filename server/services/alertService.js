@@ -0,0 +1,250 @@
+const { EventEmitter } = require('events');
+const alertRepository = require('../repositories/alertRepository');
+const marketDataService = require('./marketDataService');
+const aiService = require('./aiService');
+const { ALERT_CONDITIONS, describeAlert } = require('../models/alert');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Price alerts. Rules are evaluated on the server against the market data
+ * feed, whether or not their owner is online; a rule fires once, records an
+ * in-app notification and is pushed to the owner's open price streams.
+ *
+ * - `price-above` / `price-below` fire when the price crosses the threshold.
+ * - `percent-move` fires when the price has moved by the threshold percentage
+ *   from where it was when the rule was created.
+ * - `volume-spike` fires when one interval's volume is at least the threshold
+ *   times the average of the previous intervals.
+ */
+
+const MAX_ACTIVE_ALERTS_PER_USER = 50;
+const MAX_PERCENT_MOVE = 100;
+const VOLUME_WINDOW = 20;
+const MIN_VOLUME_SAMPLES = 5;
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+// Last price each active rule saw, so crossings can be detected between ticks.
+const lastPrices = new Map();
+// Recent per-interval volumes per symbol, oldest first.
+const volumeHistory = new Map();
+let monitor = null;
+
+function requireNumber(value, field) {
+    const number = typeof value === 'string' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new HttpError(400, `${field} must be a number.`);
+    }
+    return number;
+}
+
+/**
+ * Validates a rule's condition and threshold.
+ * @returns {{ symbol: string, condition: string, threshold: number }}
+ */
+function validateRule({ symbol, condition, threshold } = {}) {
+    const normalizedSymbol = marketDataService.requireSymbol(symbol);
+    if (!ALERT_CONDITIONS.includes(condition)) {
+        throw new HttpError(400, `Condition must be one of ${ALERT_CONDITIONS.join(', ')}.`);
+    }
+    const value = requireNumber(threshold, 'Threshold');
+    if ((condition === 'price-above' || condition === 'price-below') && value <= 0) {
+        throw new HttpError(400, 'Threshold must be a positive price.');
+    }
+    if (condition === 'percent-move' && (value === 0 || Math.abs(value) > MAX_PERCENT_MOVE)) {
+        throw new HttpError(400, `Threshold must be a non-zero percentage between -${MAX_PERCENT_MOVE} and ${MAX_PERCENT_MOVE}.`);
+    }
+    if (condition === 'volume-spike' && value <= 1) {
+        throw new HttpError(400, 'Threshold must be a multiple of the average volume greater than 1.');
+    }
+    return { symbol: normalizedSymbol, condition, threshold: value };
+}
+
+function toView(alert) {
+    const { userId, ...fields } = alert;
+    return { ...fields, description: describeAlert(alert) };
+}
+
+function refreshMonitor() {
+    monitor?.setSymbols([...new Set(alertRepository.listActive().map(alert => alert.symbol))]);
+}
+
+function listAlerts(userId) {
+    return { alerts: alertRepository.listByUserId(userId).map(toView) };
+}
+
+/**
+ * Creates an alert rule, measured from the symbol's current price.
+ * @param {{ symbol: string, condition: string, threshold: number | string }} params
+ * @param {{ source?: 'manual' | 'copilot' }} [options]
+ */
+async function createAlert(userId, params, { source = 'manual' } = {}) {
+    const rule = validateRule(params);
+    const active = alertRepository.listByUserId(userId).filter(alert => alert.status === 'active');
+    if (active.length >= MAX_ACTIVE_ALERTS_PER_USER) {
+        throw new HttpError(400, `You can have at most ${MAX_ACTIVE_ALERTS_PER_USER} active alerts.`);
+    }
+
+    const [quote] = await marketDataService.getQuotes([rule.symbol]);
+    // A crossing rule that is already satisfied would only fire after the price went back and forth.
+    if (rule.condition === 'price-above' && quote.price >= rule.threshold) {
+        throw new HttpError(400, `${rule.symbol} is already above ${rule.threshold} (${quote.price} ${quote.currency}).`);
+    }
+    if (rule.condition === 'price-below' && quote.price <= rule.threshold) {
+        throw new HttpError(400, `${rule.symbol} is already below ${rule.threshold} (${quote.price} ${quote.currency}).`);
+    }
+
+    const alert = alertRepository.create({ userId, ...rule, referencePrice: quote.price, source });
+    refreshMonitor();
+    return toView(alert);
+}
+
+function deleteAlert(userId, id) {
+    if (!alertRepository.remove(userId, id)) {
+        throw new HttpError(404, 'Alert not found.');
+    }
+    lastPrices.delete(id);
+    refreshMonitor();
+}
+
+/**
+ * Turns a natural-language request such as "tell me if NVDA drops 5%" into an
+ * alert rule with the AI provider, and creates it.
+ * @returns {{ alert: object | null, reply: string }} `alert` is null when the
+ *   request does not describe an alert; `reply` explains the outcome.
+ */
+async function createAlertFromText(userId, text, options) {
+    const { alert: rule } = await aiService.parseAlertRequest(text, options);
+    if (!rule) {
+        return { alert: null, reply: 'That doesn\'t look like a price alert. Try something like "tell me if NVDA drops 5%".' };
+    }
+    const alert = await createAlert(userId, rule, { source: 'copilot' });
+    return { alert, reply: `Alert created: I'll notify you when ${alert.description}.` };
+}
+
+function listNotifications(userId) {
+    const notifications = alertRepository.listNotifications(userId).map(({ userId: owner, ...notification }) => notification);
+    return { unread: notifications.filter(n => !n.read).length, notifications };
+}
+
+function markNotificationsRead(userId, ids) {
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+        throw new HttpError(400, 'ids must be an array of notification ids.');
+    }
+    alertRepository.markNotificationsRead(userId, ids);
+    return listNotifications(userId);
+}
+
+/**
+ * Records an in-app notification for the user, outside of any alert rule, and
+ * pushes it to their open price streams.
+ */
+function notify(userId, message, { symbol } = {}) {
+    events.emit('notification', alertRepository.addNotification({ userId, message, symbol }));
+}
+
+/**
+ * Calls `listener(notification)` whenever one of the user's alerts fires or
+ * they are otherwise notified.
+ * @returns A function that stops listening.
+ */
+function subscribeToNotifications(userId, listener) {
+    const onNotification = notification => {
+        if (notification.userId !== userId) return;
+        const { userId: owner, ...fields } = notification;
+        listener(fields);
+    };
+    events.on('notification', onNotification);
+    return () => events.off('notification', onNotification);
+}
+
+function formatPrice(price, currency) {
+    return `${price.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${currency}`;
+}
+
+/**
+ * The notification message if the quote satisfies the rule, else null.
+ * @param {number | null} averageVolume Average volume of the previous intervals, if known.
+ */
+function evaluate(alert, quote, averageVolume) {
+    const previous = lastPrices.get(alert.id) ?? alert.referencePrice;
+    lastPrices.set(alert.id, quote.price);
+    const price = formatPrice(quote.price, quote.currency);
+
+    switch (alert.condition) {
+        case 'price-above':
+            return previous < alert.threshold && quote.price >= alert.threshold
+                ? `${alert.symbol} rose above ${alert.threshold}: now ${price}.` : null;
+        case 'price-below':
+            return previous > alert.threshold && quote.price <= alert.threshold
+                ? `${alert.symbol} fell below ${alert.threshold}: now ${price}.` : null;
+        case 'percent-move': {
+            const move = ((quote.price - alert.referencePrice) / alert.referencePrice) * 100;
+            const reached = alert.threshold < 0 ? move <= alert.threshold : move >= alert.threshold;
+            return reached
+                ? `${alert.symbol} ${move < 0 ? 'dropped' : 'rose'} ${Math.abs(move).toFixed(2)}% to ${price} since your alert was set.` : null;
+        }
+        case 'volume-spike':
+            return averageVolume && quote.volume >= alert.threshold * averageVolume
+                ? `${alert.symbol} volume spiked to ${(quote.volume / averageVolume).toFixed(1)}× its recent average (price ${price}).` : null;
+        default:
+            return null;
+    }
+}
+
+/** Records a tick's volume and returns the average of the intervals before it. */
+function recordVolume(quote) {
+    const history = volumeHistory.get(quote.symbol) ?? [];
+    const average = history.length >= MIN_VOLUME_SAMPLES ? history.reduce((sum, v) => sum + v, 0) / history.length : null;
+    history.push(quote.volume);
+    if (history.length > VOLUME_WINDOW) history.shift();
+    volumeHistory.set(quote.symbol, history);
+    return average;
+}
+
+function checkQuotes(quotes) {
+    if (quotes.length === 0) return;
+    const bySymbol = new Map(quotes.map(quote => [quote.symbol, { quote, averageVolume: recordVolume(quote) }]));
+    let fired = false;
+    for (const alert of alertRepository.listActive()) {
+        const tick = bySymbol.get(alert.symbol);
+        const message = tick && evaluate(alert, tick.quote, tick.averageVolume);
+        if (!message) continue;
+        const notification = alertRepository.trigger(alert.id, { message, price: tick.quote.price });
+        lastPrices.delete(alert.id);
+        if (notification) {
+            fired = true;
+            events.emit('notification', notification);
+        }
+    }
+    if (fired) refreshMonitor();
+}
+
+/**
+ * Starts evaluating every active rule against the quote feed.
+ */
+function startMonitoring() {
+    if (monitor) return;
+    monitor = marketDataService.subscribe([], quotes => {
+        try {
+            checkQuotes(quotes);
+        } catch (error) {
+            console.error('Alert evaluation failed:', error);
+        }
+    });
+    refreshMonitor();
+}
+
+module.exports = {
+    validateRule,
+    listAlerts,
+    createAlert,
+    deleteAlert,
+    createAlertFromText,
+    listNotifications,
+    markNotificationsRead,
+    notify,
+    subscribeToNotifications,
+    startMonitoring,
+};
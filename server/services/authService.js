@@ -0,0 +1,225 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+const userRepository = require('../repositories/userRepository');
+const passwordResetRepository = require('../repositories/passwordResetRepository');
+const mailService = require('./mailService');
+const tokenService = require('./tokenService');
+const totp = require('../utils/totp');
+const { HttpError } = require('../utils/httpError');
+
+const scrypt = promisify(crypto.scrypt);
+
+const MAX_NAME_LENGTH = 100;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_TOTP_ATTEMPTS = 5;
+const TOTP_LOCKOUT_MS = 5 * 60 * 1000;
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+// Origin of reset links. Configured rather than taken from the request, whose
+// Host header the client controls.
+const APP_BASE_URL = process.env.APP_BASE_URL?.replace(/\/+$/, '');
+
+/**
+ * Hashes a password with a per-user random salt using scrypt.
+ * @returns A string of the form `scrypt$<salt>$<hash>`.
+ */
+async function hashPassword(password) {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, 64);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password, stored) {
+    const [scheme, saltHex, hashHex] = String(stored).split('$');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+function assertValidName(name) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+        throw new HttpError(400, `Name is required and must be at most ${MAX_NAME_LENGTH} characters.`);
+    }
+}
+
+function assertValidPassword(password) {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+}
+
+function hashResetToken(token) {
+    return crypto.createHash('sha256').update(String(token)).digest('hex');
+}
+
+function toPublicUser(user) {
+    return { id: user.id, name: user.name, email: user.email };
+}
+
+/**
+ * Describes what the client needs to continue to the 2FA step. The TOTP secret is
+ * only disclosed until the user has confirmed it with a first valid code.
+ */
+function twoFactorChallenge(user) {
+    const challenge = {
+        preAuthToken: tokenService.issuePreAuthToken(user),
+        twoFactorSetupRequired: !user.totpConfirmed,
+    };
+    if (!user.totpConfirmed) {
+        challenge.totp = {
+            secret: user.totpSecret,
+            otpauthUrl: totp.buildOtpAuthUrl(user.totpSecret, user.email),
+        };
+    }
+    return challenge;
+}
+
+async function register({ name, email, password }) {
+    assertValidName(name);
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(userRepository.normalizeEmail(email))) {
+        throw new HttpError(400, 'A valid email address is required.');
+    }
+    assertValidPassword(password);
+    if (userRepository.findByEmail(email)) {
+        throw new HttpError(409, 'An account with this email already exists.');
+    }
+
+    const user = userRepository.create({
+        name,
+        email,
+        passwordHash: await hashPassword(password),
+        totpSecret: totp.generateSecret(),
+    });
+    return { user: toPublicUser(user), ...twoFactorChallenge(user) };
+}
+
+async function login({ email, password }) {
+    const user = userRepository.findByEmail(email);
+    // Hash against a throwaway value when the user is unknown so response timing
+    // does not reveal which emails are registered.
+    const valid = user
+        ? await verifyPassword(String(password || ''), user.passwordHash)
+        : (await hashPassword(String(password || '')), false);
+    if (!valid) {
+        throw new HttpError(401, 'Invalid email or password.');
+    }
+    return twoFactorChallenge(user);
+}
+
+/**
+ * Completes sign-in with a TOTP code. Codes for an already-used time step are
+ * rejected, and repeated failures lock the account's 2FA for a while.
+ */
+async function verifyTwoFactor(preAuth, code) {
+    const user = userRepository.findById(preAuth.sub);
+    if (!user) {
+        throw new HttpError(401, 'Authentication required.');
+    }
+
+    const now = Date.now();
+    if (user.totpLockedUntil > now) {
+        const minutes = Math.ceil((user.totpLockedUntil - now) / 60000);
+        throw new HttpError(429, `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+
+    const step = totp.matchStep(user.totpSecret, code, { now });
+    if (step === null || step <= user.lastTotpStep) {
+        const failedTotpAttempts = user.failedTotpAttempts + 1;
+        if (failedTotpAttempts >= MAX_TOTP_ATTEMPTS) {
+            userRepository.update(user.id, { failedTotpAttempts: 0, totpLockedUntil: now + TOTP_LOCKOUT_MS });
+            tokenService.revoke(preAuth);
+            throw new HttpError(429, 'Too many failed attempts. Please sign in again in 5 minutes.');
+        }
+        userRepository.update(user.id, { failedTotpAttempts });
+        const reason = step === null ? 'Invalid verification code.' : 'This code has already been used. Wait for the next code.';
+        const remaining = MAX_TOTP_ATTEMPTS - failedTotpAttempts;
+        throw new HttpError(401, `${reason} ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.`);
+    }
+
+    const verified = userRepository.update(user.id, {
+        totpConfirmed: true,
+        lastTotpStep: step,
+        failedTotpAttempts: 0,
+        totpLockedUntil: 0,
+    });
+    tokenService.revoke(preAuth);
+    return { token: tokenService.issueAccessToken(verified), user: toPublicUser(verified) };
+}
+
+/**
+ * Emails a single-use password reset link if the address belongs to an account.
+ * Only a hash of the token is stored, and the caller learns nothing about
+ * whether the account exists. Links point to `APP_BASE_URL`; without it,
+ * password reset is unavailable.
+ * @param {string} email The address the reset was requested for.
+ */
+async function requestPasswordReset(email) {
+    if (!APP_BASE_URL) {
+        throw new HttpError(503, 'Password reset is not available on this server.');
+    }
+    const user = userRepository.findByEmail(email);
+    if (!user) return;
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    passwordResetRepository.replaceForUser(user.id, {
+        tokenHash: hashResetToken(token),
+        expiresAt: Date.now() + RESET_TOKEN_TTL_MS,
+    });
+
+    const resetUrl = `${APP_BASE_URL}/?reset_token=${encodeURIComponent(token)}`;
+    await mailService.send({
+        to: user.email,
+        subject: 'Reset your FULXERPRO password',
+        text: [
+            `Hello ${user.name},`,
+            '',
+            'We received a request to reset your FULXERPRO password. Use the link below to choose a new one.',
+            'The link expires in 30 minutes and can only be used once.',
+            '',
+            resetUrl,
+            '',
+            'If you did not request a reset, you can ignore this email.',
+        ].join('\n'),
+    });
+}
+
+/**
+ * Sets a new password using a reset token, consumes the token and signs the
+ * user out of every existing session.
+ */
+async function resetPassword(token, password) {
+    const tokenHash = hashResetToken(token);
+    const reset = passwordResetRepository.findByTokenHash(tokenHash);
+    if (!reset || reset.usedAt || reset.expiresAt <= Date.now()) {
+        throw new HttpError(400, 'This reset link is invalid or has expired. Please request a new one.');
+    }
+    assertValidPassword(password);
+
+    passwordResetRepository.markUsed(tokenHash);
+    userRepository.update(reset.userId, {
+        passwordHash: await hashPassword(password),
+        sessionsValidAfter: Math.floor(Date.now() / 1000),
+    });
+}
+
+function logout(auth) {
+    tokenService.revoke(auth);
+}
+
+function getProfile(auth) {
+    const user = userRepository.findById(auth.sub);
+    if (!user) {
+        throw new HttpError(404, 'User not found.');
+    }
+    return toPublicUser(user);
+}
+
+module.exports = {
+    register,
+    login,
+    verifyTwoFactor,
+    logout,
+    getProfile,
+    requestPasswordReset,
+    resetPassword,
+};
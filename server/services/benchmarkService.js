@@ -0,0 +1,54 @@
+const { HttpError } = require('../utils/httpError');
+const { hashString, createRandom, normal } = require('../utils/random');
+
+/**
+ * Benchmark index series for performance comparisons. Until a market data
+ * feed is connected, closes are simulated: a seeded random walk from a fixed
+ * epoch, so every request (and every restart) sees the same history.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BENCHMARKS = {
+    SPX: { name: 'S&P 500', epoch: '2020-01-01', startValue: 3230.78, drift: 0.0004, volatility: 0.011 },
+};
+
+// Simulated closes per symbol, indexed by days since the benchmark's epoch.
+const walks = new Map();
+
+function getBenchmark(symbol) {
+    if (!Object.hasOwn(BENCHMARKS, symbol)) {
+        throw new HttpError(400, `Benchmark must be one of ${Object.keys(BENCHMARKS).join(', ')}.`);
+    }
+    return { symbol, ...BENCHMARKS[symbol] };
+}
+
+function listBenchmarks() {
+    return Object.entries(BENCHMARKS).map(([symbol, { name }]) => ({ symbol, name }));
+}
+
+/**
+ * The benchmark's close on a calendar date (`YYYY-MM-DD`).
+ */
+function closeOn(symbol, date) {
+    const benchmark = getBenchmark(symbol);
+    const dayIndex = Math.floor((Date.parse(date) - Date.parse(benchmark.epoch)) / DAY_MS);
+    if (dayIndex <= 0) return benchmark.startValue;
+
+    let walk = walks.get(symbol);
+    if (!walk) {
+        walk = { closes: [benchmark.startValue], random: createRandom(hashString(symbol)) };
+        walks.set(symbol, walk);
+    }
+    while (walk.closes.length <= dayIndex) {
+        const previous = walk.closes[walk.closes.length - 1];
+        walk.closes.push(previous * (1 + benchmark.drift + normal(walk.random) * benchmark.volatility));
+    }
+    return Math.round(walk.closes[dayIndex] * 100) / 100;
+}
+
+module.exports = {
+    getBenchmark,
+    listBenchmarks,
+    closeOn,
+};
@@ -0,0 +1,101 @@
+const chatThreadRepository = require('../repositories/chatThreadRepository');
+const { CHAT_ROLES } = require('../models/chatThread');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Saved Co-pilot conversations for signed-in users. The browser still sends
+ * the history with each chat message; threads only let it resume a
+ * conversation later or on another device. Each save replaces the thread's
+ * messages with the browser's copy.
+ */
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_MESSAGES_PER_THREAD = 200;
+const MAX_MESSAGE_LENGTH = 20000;
+
+function validateTitle(title) {
+    if (title === null) return null;
+    if (typeof title !== 'string' || !title.trim()) {
+        throw new HttpError(400, 'Title must be a non-empty string or null.');
+    }
+    return title.trim().slice(0, MAX_TITLE_LENGTH);
+}
+
+function validateMessages(messages) {
+    if (!Array.isArray(messages)) {
+        throw new HttpError(400, 'Messages must be an array.');
+    }
+    if (messages.length > MAX_MESSAGES_PER_THREAD) {
+        throw new HttpError(400, `A conversation can have at most ${MAX_MESSAGES_PER_THREAD} messages.`);
+    }
+    return messages.map(message => {
+        if (!CHAT_ROLES.includes(message?.role) || typeof message.text !== 'string') {
+            throw new HttpError(400, `Each message needs a role (${CHAT_ROLES.join(' or ')}) and text.`);
+        }
+        if (message.text.length > MAX_MESSAGE_LENGTH) {
+            throw new HttpError(400, `Messages must be at most ${MAX_MESSAGE_LENGTH} characters.`);
+        }
+        return { role: message.role, text: message.text };
+    });
+}
+
+function toSummary({ id, title, messages, createdAt, updatedAt }) {
+    return { id, title, messageCount: messages.length, createdAt, updatedAt };
+}
+
+function toView(thread) {
+    const { userId, ...fields } = thread;
+    return fields;
+}
+
+function listThreads(userId) {
+    return { threads: chatThreadRepository.listByUserId(userId).map(toSummary) };
+}
+
+function getThread(userId, id) {
+    const thread = chatThreadRepository.findById(userId, id);
+    if (!thread) {
+        throw new HttpError(404, 'Conversation not found.');
+    }
+    return toView(thread);
+}
+
+/**
+ * @param {{ title?: string | null, messages?: Array<{ role: string, text: string }> }} params
+ */
+function createThread(userId, { title = null, messages = [] } = {}) {
+    return toView(chatThreadRepository.create({
+        userId,
+        title: validateTitle(title),
+        messages: validateMessages(messages),
+    }));
+}
+
+/**
+ * Renames a thread and/or replaces its messages.
+ * @param {{ title?: string | null, messages?: Array<{ role: string, text: string }> }} changes
+ */
+function updateThread(userId, id, { title, messages } = {}) {
+    const changes = {};
+    if (title !== undefined) changes.title = validateTitle(title);
+    if (messages !== undefined) changes.messages = validateMessages(messages);
+    const thread = chatThreadRepository.update(userId, id, changes);
+    if (!thread) {
+        throw new HttpError(404, 'Conversation not found.');
+    }
+    return toView(thread);
+}
+
+function deleteThread(userId, id) {
+    if (!chatThreadRepository.remove(userId, id)) {
+        throw new HttpError(404, 'Conversation not found.');
+    }
+}
+
+module.exports = {
+    listThreads,
+    getThread,
+    createThread,
+    updateThread,
+    deleteThread,
+};
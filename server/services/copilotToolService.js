@@ -0,0 +1,191 @@
+const portfolioService = require('./portfolioService');
+const ledgerService = require('./ledgerService');
+const marketDataService = require('./marketDataService');
+const { TRANSACTION_TYPES, roundMoney } = require('../models/portfolio');
+const RISK_SETTINGS = require('../../utils/riskSettings.json');
+
+/**
+ * Tools the Co-pilot can call to answer questions from a signed-in user's own
+ * portfolio rather than from the page text. Each tool has a declaration the
+ * model sees (a name, a description and JSON Schema parameters) and a `run`
+ * function that reads the user's data. Results are kept small: the model gets
+ * the figures it needs, not whole documents.
+ */
+
+const MAX_TRANSACTIONS = 20;
+const RISK_BENCHMARK = 'SPX';
+
+/** Appended to the Co-pilot's system instruction when tools are available. */
+const TOOL_INSTRUCTIONS = `
+    The user is signed in. Use the provided tools to answer questions about their own portfolio, holdings, transactions, allocation, risk or current prices; never guess these figures.
+    When you use figures from a tool, cite them in your answer with their values and units (for example "US Equities are 42.3% of your portfolio ($1,234,567)") and say what they are as of.
+`;
+
+// The Risk Analytics card's module, so the Co-pilot quotes the figures the
+// user sees. It is an ES module, loaded on first use.
+let riskAnalytics = null;
+
+function loadRiskAnalytics() {
+    riskAnalytics ??= import('../../utils/riskAnalytics.mjs');
+    return riskAnalytics;
+}
+
+function round(value, decimals) {
+    const scale = 10 ** decimals;
+    return Math.round(value * scale) / scale;
+}
+
+function toPercent(fraction) {
+    return Number.isFinite(fraction) ? round(fraction * 100, 2) : null;
+}
+
+function toRatio(value) {
+    return Number.isFinite(value) ? round(value, 2) : null;
+}
+
+const TOOLS = [
+    {
+        name: 'getHoldings',
+        description: 'Lists the positions in the user\'s portfolio with quantity, current price, market value, weight in the portfolio and unrealized gain, plus the cash balance.',
+        parameters: { type: 'object', properties: {} },
+        run(userId) {
+            const portfolio = portfolioService.getPortfolio(userId);
+            const { currency, totalValue, allocations } = portfolioService.getAllocations(userId);
+            const positions = new Map(portfolio.positions.map(position => [position.symbol, position]));
+            const holdings = allocations.flatMap(({ assetClass, holdings }) => holdings.map(holding => {
+                const position = holding.symbol && positions.get(holding.symbol);
+                return {
+                    ...holding,
+                    assetClass,
+                    unrealizedGainPercent: position?.averageCost
+                        ? round((holding.price / position.averageCost - 1) * 100, 2)
+                        : null,
+                };
+            }));
+            return { asOf: new Date().toISOString(), currency, totalValue, holdings };
+        },
+    },
+    {
+        name: 'getTransactions',
+        description: `Lists the user's most recent transactions, newest first, with the cash balance after each. At most ${MAX_TRANSACTIONS}.`,
+        parameters: {
+            type: 'object',
+            properties: {
+                type: { type: 'string', enum: TRANSACTION_TYPES, description: 'Only transactions of this type.' },
+                symbol: { type: 'string', description: 'Only transactions in this ticker symbol, e.g. NVDA.' },
+                from: { type: 'string', description: 'Earliest date, YYYY-MM-DD.' },
+                to: { type: 'string', description: 'Latest date, YYYY-MM-DD.' },
+                limit: { type: 'integer', description: `How many to return (1-${MAX_TRANSACTIONS}).` },
+            },
+        },
+        run(userId, { type, symbol, from, to, limit } = {}) {
+            const { currency, transactions } = ledgerService.listActivity(userId, {
+                type,
+                symbol,
+                from,
+                to,
+                limit: Math.min(Number(limit) || MAX_TRANSACTIONS, MAX_TRANSACTIONS),
+            });
+            return {
+                currency,
+                transactions: transactions.map(({ id, lots, ...transaction }) => transaction),
+            };
+        },
+    },
+    {
+        name: 'getAllocation',
+        description: 'Breaks the user\'s portfolio down by asset class, with each class\'s value, percentage of the portfolio and holdings.',
+        parameters: { type: 'object', properties: {} },
+        run(userId) {
+            const { currency, totalValue, allocations } = portfolioService.getAllocations(userId);
+            return {
+                asOf: new Date().toISOString(),
+                currency,
+                totalValue,
+                allocations: allocations.map(({ assetClass, value, percentage, holdings }) => ({
+                    assetClass,
+                    value,
+                    percentage,
+                    holdings: holdings.filter(h => h.symbol).map(h => ({ symbol: h.symbol, name: h.name, percentage: h.percentage })),
+                })),
+            };
+        },
+    },
+    {
+        name: 'getRiskMetrics',
+        description: 'Computes risk figures for the user\'s portfolio over the last year of daily closes: annualised return and volatility, one-day 95% historical value at risk, Sharpe and Sortino ratios (against the risk-free rate given), beta against the S&P 500 and maximum drawdown. Percentages are in percent.',
+        parameters: { type: 'object', properties: {} },
+        async run(userId) {
+            const { currency, points } = portfolioService.getPerformance(userId, { range: '1Y', benchmark: RISK_BENCHMARK });
+            const values = points.map(point => point.value);
+            if (values.length < 3) {
+                return { error: 'Not enough history to measure risk yet.' };
+            }
+            const { computeRiskMetrics } = await loadRiskAnalytics();
+            const metrics = computeRiskMetrics(values, points.map(point => point.benchmark), RISK_SETTINGS);
+            return {
+                from: points[0].time,
+                to: points[points.length - 1].time,
+                currency,
+                observations: metrics.observations,
+                annualisedReturnPercent: toPercent(metrics.annualisedReturn),
+                annualisedVolatilityPercent: toPercent(metrics.annualisedVolatility),
+                valueAtRisk95Percent: toPercent(metrics.historicalVaR),
+                valueAtRisk95: roundMoney(metrics.historicalVaR * values[values.length - 1]),
+                riskFreeRatePercent: toPercent(RISK_SETTINGS.riskFreeRate),
+                sharpeRatio: toRatio(metrics.sharpeRatio),
+                sortinoRatio: toRatio(metrics.sortinoRatio),
+                betaToSp500: toRatio(metrics.beta),
+                maxDrawdownPercent: toPercent(metrics.drawdown.maxDrawdown),
+            };
+        },
+    },
+    {
+        name: 'getQuote',
+        description: 'Gets the current price, daily change and volume for a ticker symbol, whether or not the user holds it.',
+        parameters: {
+            type: 'object',
+            properties: {
+                symbol: { type: 'string', description: 'Ticker symbol in upper case, e.g. NVDA or ETH-USD.' },
+            },
+            required: ['symbol'],
+        },
+        async run(userId, { symbol } = {}) {
+            const [quote] = await marketDataService.getQuotes([String(symbol ?? '').toUpperCase()]);
+            return quote;
+        },
+    },
+];
+
+const TOOLS_BY_NAME = new Map(TOOLS.map(tool => [tool.name, tool]));
+
+/**
+ * The tools bound to a user, in the shape AI providers take:
+ * `{ instructions, declarations: [{ name, description, parameters }], call(name, args) }`.
+ * `call` never throws; failures are returned to the model as `{ error }` so it
+ * can explain them. `onCall` is told about every call, for citing sources.
+ * @param {string} userId
+ * @param {{ onCall?: (call: { name: string, args: object }) => void }} [options]
+ */
+function forUser(userId, { onCall } = {}) {
+    return {
+        instructions: TOOL_INSTRUCTIONS,
+        declarations: TOOLS.map(({ name, description, parameters }) => ({ name, description, parameters })),
+        async call(name, args = {}) {
+            const tool = TOOLS_BY_NAME.get(name);
+            if (!tool) return { error: `Unknown tool "${name}".` };
+            onCall?.({ name, args });
+            try {
+                return await tool.run(userId, args);
+            } catch (error) {
+                if (error.status) return { error: error.message };
+                console.error(`[Co-pilot tool:${name}]`, error);
+                return { error: 'The tool failed.' };
+            }
+        },
+    };
+}
+
+module.exports = {
+    forUser,
+};
@@ -0,0 +1,339 @@
+const followRepository = require('../repositories/followRepository');
+const traderActivityService = require('./traderActivityService');
+const paperTradingService = require('./paperTradingService');
+const portfolioService = require('./portfolioService');
+const marketDataService = require('./marketDataService');
+const alertService = require('./alertService');
+const fxService = require('./fxService');
+const { copyEquity } = require('../models/follow');
+const { roundMoney, accountCurrency } = require('../models/portfolio');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Copy-trading: following a social trading leader mirrors their trades into
+ * the follower's paper portfolio, as market orders through the paper-trading
+ * engine (so they pass the same pre-trade checks).
+ *
+ * - Buys are sized in proportion: a leader spending 5% of their portfolio
+ *   spends 5% of the follower's allocation, capped by the per-trade limit and
+ *   by what is left of the allocation.
+ * - Sells sell the same fraction of the units bought by copying that leader;
+ *   the follower's own holdings are never sold.
+ * - Copying stops when the copy's value (allocation plus gains) falls
+ *   `stopLossPercent` below its peak; the follower is notified and keeps the
+ *   copied holdings.
+ *
+ * Every mirrored trade, copied or skipped, is kept as history.
+ */
+
+// Followers may not allocate more than this share of their portfolio to copying in total.
+const MAX_TOTAL_ALLOCATION_PERCENT = 50;
+const MAX_STOP_LOSS_PERCENT = 90;
+const DEFAULT_STOP_LOSS_PERCENT = 15;
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
+// Peak copy values seen on market ticks since the last write, by follow id.
+const peaks = new Map();
+let monitor = null;
+
+function requirePositiveAmount(value, field) {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number) || number <= 0) {
+        throw new HttpError(400, `${field} must be a positive amount.`);
+    }
+    return roundMoney(number);
+}
+
+function requireTrader(traderId) {
+    const trader = traderActivityService.getTrader(traderId);
+    if (!trader) {
+        throw new HttpError(404, 'Trader not found.');
+    }
+    return trader;
+}
+
+/**
+ * Validates copy settings against the follower's portfolio.
+ * @returns {{ allocation: number, maxTradeValue: number, stopLossPercent: number }}
+ */
+function validateSettings(userId, traderId, { allocation, maxTradeValue, stopLossPercent = DEFAULT_STOP_LOSS_PERCENT } = {}) {
+    const settings = {
+        allocation: requirePositiveAmount(allocation, 'Allocation'),
+        maxTradeValue: requirePositiveAmount(maxTradeValue ?? allocation, 'Per-trade limit'),
+        stopLossPercent: Number(stopLossPercent),
+    };
+    if (settings.maxTradeValue > settings.allocation) {
+        throw new HttpError(400, 'The per-trade limit cannot exceed the allocation.');
+    }
+    if (!Number.isFinite(settings.stopLossPercent) || settings.stopLossPercent <= 0 || settings.stopLossPercent > MAX_STOP_LOSS_PERCENT) {
+        throw new HttpError(400, `Stop-copy drawdown must be between 0 and ${MAX_STOP_LOSS_PERCENT}%.`);
+    }
+
+    const portfolio = portfolioService.getPortfolio(userId);
+    const currency = accountCurrency(portfolio);
+    const otherAllocations = followRepository.listByUserId(userId)
+        .filter(follow => follow.traderId !== traderId)
+        .reduce((sum, follow) => sum + follow.allocation, 0);
+    const cap = (portfolioService.totalValue(portfolio, currency) * MAX_TOTAL_ALLOCATION_PERCENT) / 100;
+    if (otherAllocations + settings.allocation > cap) {
+        throw new HttpError(400, `Copy-trading allocations cannot exceed ${MAX_TOTAL_ALLOCATION_PERCENT}% of your portfolio (${roundMoney(cap)} ${currency} in total).`);
+    }
+    return settings;
+}
+
+/** A copied holding's current value in the account currency. */
+function positionValue(currency, symbol, position) {
+    const price = marketDataService.latestPrice(symbol);
+    if (price === undefined) return position.cost;
+    return fxService.convert(position.quantity * price, position.currency, currency);
+}
+
+function followView(follow, currency) {
+    const { userId, positions, ...fields } = follow;
+    const equity = copyEquity(follow, (symbol, position) => positionValue(currency, symbol, position));
+    const peak = Math.max(follow.peakEquity, peaks.get(follow.id) ?? 0, equity);
+    return {
+        ...fields,
+        currency,
+        positions: Object.entries(positions).map(([symbol, position]) => ({
+            symbol,
+            quantity: position.quantity,
+            cost: roundMoney(position.cost),
+        })),
+        invested: roundMoney(Object.values(positions).reduce((sum, position) => sum + position.cost, 0)),
+        equity: roundMoney(equity),
+        drawdownPercent: peak > 0 ? roundMoney(((peak - equity) / peak) * 100) : 0,
+    };
+}
+
+/**
+ * The social trading leaders, each with the user's copy settings and
+ * performance if they follow them.
+ */
+function listTraders(userId) {
+    const currency = accountCurrency(portfolioService.getPortfolio(userId));
+    const follows = new Map(followRepository.listByUserId(userId).map(follow => [follow.traderId, follow]));
+    return {
+        traders: traderActivityService.listTraders().map(trader => ({
+            ...trader,
+            follow: follows.has(trader.id) ? followView(follows.get(trader.id), currency) : null,
+        })),
+    };
+}
+
+function refreshMonitor() {
+    monitor?.setSymbols([...new Set(followRepository.listActive().flatMap(follow => Object.keys(follow.positions)))]);
+}
+
+/**
+ * Follows a leader, or updates the settings of an existing follow. Following
+ * again after copying was stopped resumes it, measuring drawdowns afresh.
+ */
+function follow(userId, traderId, params) {
+    requireTrader(traderId);
+    const settings = validateSettings(userId, traderId, params);
+    const existing = followRepository.findByUserAndTrader(userId, traderId);
+    let result;
+    if (existing) {
+        const currency = accountCurrency(portfolioService.getPortfolio(userId));
+        const equity = copyEquity({ ...existing, ...settings }, (symbol, position) => positionValue(currency, symbol, position));
+        peaks.delete(existing.id);
+        result = followRepository.update(existing.id, { ...settings, status: 'active', stoppedReason: null, peakEquity: roundMoney(equity) });
+    } else {
+        result = followRepository.create({ userId, traderId, ...settings });
+    }
+    refreshMonitor();
+    return followView(result, accountCurrency(portfolioService.getPortfolio(userId)));
+}
+
+/**
+ * Stops following a leader. Copied holdings stay in the portfolio and the
+ * mirrored trade history is kept.
+ */
+function unfollow(userId, traderId) {
+    const existing = followRepository.findByUserAndTrader(userId, traderId);
+    if (!existing) {
+        throw new HttpError(404, 'You are not following this trader.');
+    }
+    followRepository.remove(existing.id);
+    peaks.delete(existing.id);
+    refreshMonitor();
+}
+
+/**
+ * The user's mirrored trades, newest first.
+ * @param {{ limit?: number }} options
+ */
+function listMirroredTrades(userId, { limit = DEFAULT_HISTORY_LIMIT } = {}) {
+    const count = Math.min(Math.max(Math.floor(limit) || DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+    const names = new Map(traderActivityService.listTraders().map(trader => [trader.id, trader.name]));
+    return {
+        trades: followRepository.listMirroredTrades(userId).slice(0, count).map(({ userId: owner, ...trade }) => ({
+            ...trade,
+            traderName: names.get(trade.traderId) ?? trade.traderId,
+        })),
+    };
+}
+
+/**
+ * Sizes a leader's trade for one follower.
+ * @returns {{ quantity: number } | { reason: string }}
+ */
+async function sizeMirror(follow, trade, currency) {
+    const position = follow.positions[trade.symbol];
+    if (trade.side === 'sell') {
+        const quantity = trade.fraction >= 1 ? position.quantity : Math.floor(position.quantity * trade.fraction);
+        return quantity > 0 ? { quantity } : { reason: 'The copied holding is smaller than one unit at this fraction.' };
+    }
+
+    const [quote] = await marketDataService.getQuotes([trade.symbol]);
+    const price = fxService.convert(quote.price, quote.currency, currency);
+    const invested = Object.values(follow.positions).reduce((sum, p) => sum + p.cost, 0);
+    const remaining = follow.allocation - invested;
+    const value = Math.min(trade.fraction * follow.allocation, follow.maxTradeValue, remaining);
+    const quantity = value > 0 ? Math.floor(value / price) : 0;
+    if (quantity > 0) return { quantity };
+    return {
+        reason: remaining < price
+            ? 'The allocation is fully invested.'
+            : `The proportional size (${roundMoney(value)} ${currency}) is less than one unit.`,
+    };
+}
+
+/** The follow's positions and gains after a fill. */
+function applyFill(follow, trade, order, currency) {
+    const positions = { ...follow.positions };
+    const value = fxService.convert(order.quantity * order.fillPrice, order.currency, currency);
+    const position = positions[trade.symbol];
+    if (trade.side === 'buy') {
+        positions[trade.symbol] = {
+            quantity: (position?.quantity ?? 0) + order.quantity,
+            cost: roundMoney((position?.cost ?? 0) + value),
+            currency: order.currency,
+        };
+        return { positions, realizedGain: follow.realizedGain, value };
+    }
+    const soldCost = position.cost * (order.quantity / position.quantity);
+    const quantity = position.quantity - order.quantity;
+    if (quantity > 0) positions[trade.symbol] = { ...position, quantity, cost: roundMoney(position.cost - soldCost) };
+    else delete positions[trade.symbol];
+    return { positions, realizedGain: roundMoney(follow.realizedGain + value - soldCost), value };
+}
+
+/** Mirrors one leader trade for one follower, recording the outcome. */
+async function mirrorFor(followId, trade) {
+    const current = followRepository.findById(followId);
+    if (!current || current.status !== 'active') return;
+    // Only what was bought by copying is sold by copying.
+    if (trade.side === 'sell' && !current.positions[trade.symbol]) return;
+
+    const record = {
+        userId: current.userId,
+        followId,
+        traderId: trade.traderId,
+        traderTradeId: trade.id,
+        symbol: trade.symbol,
+        side: trade.side,
+        quantity: null,
+        price: null,
+        value: null,
+        orderId: null,
+        executedAt: new Date().toISOString(),
+    };
+    const skip = reason => followRepository.recordMirroredTrade({ ...record, status: 'skipped', reason }, null);
+
+    const currency = accountCurrency(portfolioService.getPortfolio(current.userId));
+    const size = await sizeMirror(current, trade, currency);
+    if (size.reason) return skip(size.reason);
+
+    let order;
+    try {
+        order = await paperTradingService.placeOrder(current.userId, {
+            symbol: trade.symbol,
+            side: trade.side,
+            type: 'market',
+            quantity: size.quantity,
+            timeInForce: 'ioc',
+        });
+    } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+        return skip(error.message);
+    }
+    if (order.status !== 'filled') return skip(order.reason ?? `The order was ${order.status}.`);
+
+    // Re-read: the follow may have changed while the order was placed.
+    const latest = followRepository.findById(followId) ?? current;
+    const { positions, realizedGain, value } = applyFill(latest, trade, order, currency);
+    followRepository.recordMirroredTrade({
+        ...record,
+        status: 'copied',
+        reason: null,
+        quantity: order.quantity,
+        price: order.fillPrice,
+        value: roundMoney(value),
+        orderId: order.id,
+    }, { positions, realizedGain });
+}
+
+/** Mirrors a leader's trade for each of their active followers in turn. */
+async function mirrorTrade(trade) {
+    const follows = followRepository.listActive().filter(follow => follow.traderId === trade.traderId);
+    for (const { id } of follows) {
+        try {
+            await mirrorFor(id, trade);
+        } catch (error) {
+            console.error('Copy trade failed:', error);
+        }
+    }
+    if (follows.length) refreshMonitor();
+}
+
+/** Stops copies whose value has fallen past their drawdown threshold. */
+function checkDrawdowns() {
+    let stopped = false;
+    for (const follow of followRepository.listActive()) {
+        if (Object.keys(follow.positions).length === 0) continue;
+        const currency = accountCurrency(portfolioService.getPortfolio(follow.userId));
+        const equity = copyEquity(follow, (symbol, position) => positionValue(currency, symbol, position));
+        const peak = Math.max(follow.peakEquity, peaks.get(follow.id) ?? 0, equity);
+        peaks.set(follow.id, peak);
+
+        const drawdown = peak > 0 ? ((peak - equity) / peak) * 100 : 0;
+        if (drawdown < follow.stopLossPercent) continue;
+        const trader = traderActivityService.getTrader(follow.traderId);
+        const reason = `Stopped after a ${drawdown.toFixed(1)}% drawdown (limit ${follow.stopLossPercent}%).`;
+        followRepository.update(follow.id, { status: 'stopped', stoppedReason: reason, peakEquity: roundMoney(peak) });
+        peaks.delete(follow.id);
+        stopped = true;
+        alertService.notify(follow.userId, `Copying ${trader?.name ?? follow.traderId} stopped after a ${drawdown.toFixed(1)}% drawdown. The copied holdings remain in your portfolio.`);
+    }
+    if (stopped) refreshMonitor();
+}
+
+/**
+ * Starts mirroring leaders' trades and watching copies for drawdowns.
+ */
+function startCopying() {
+    if (monitor) return;
+    traderActivityService.subscribe(trade => {
+        mirrorTrade(trade).catch(error => console.error('Copy trading failed:', error));
+    });
+    monitor = marketDataService.subscribe([], () => {
+        try {
+            checkDrawdowns();
+        } catch (error) {
+            console.error('Copy drawdown check failed:', error);
+        }
+    });
+    refreshMonitor();
+    traderActivityService.start();
+}
+
+module.exports = {
+    listTraders,
+    follow,
+    unfollow,
+    listMirroredTrades,
+    startCopying,
+};
@@ -0,0 +1,13 @@
+const dealRepository = require('../repositories/dealRepository');
+
+/**
+ * Off-market and co-investment deals for clients with Direct Co-Investment
+ * Rights. Access is enforced by the route with `requireEntitlement`.
+ */
+function listDeals() {
+    return { deals: dealRepository.listOpen() };
+}
+
+module.exports = {
+    listDeals,
+};
@@ -0,0 +1,14 @@
+const fixture = require('../repositories/seed/fxRates.json');
+
+/**
+ * Offline FX provider (`FX_PROVIDER=fixture`). Serves the static rates in
+ * `repositories/seed/fxRates.json`, so conversions are stable across requests
+ * and restarts.
+ */
+async function getRates() {
+    return { base: fixture.base, asOf: fixture.asOf, rates: { ...fixture.rates } };
+}
+
+module.exports = {
+    getRates,
+};
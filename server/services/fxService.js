@@ -0,0 +1,100 @@
+const fixtureFxProvider = require('./fixtureFxProvider');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Currency conversion. Rates come from a pluggable provider, selected with
+ * `FX_PROVIDER`: `fixture` (default) serves static rates with no network.
+ *
+ * A provider implements `getRates()` → `{ base, asOf, rates }`, where `rates`
+ * maps ISO 4217 codes to units of that currency per unit of `base`. Rates are
+ * fetched on startup and every `FX_REFRESH_MS`, then served from memory so
+ * conversions stay synchronous.
+ */
+
+const PROVIDERS = {
+    fixture: fixtureFxProvider,
+};
+
+const REFRESH_MS = Number(process.env.FX_REFRESH_MS) || 60 * 60 * 1000;
+
+const providerName = process.env.FX_PROVIDER || 'fixture';
+if (!PROVIDERS[providerName]) {
+    throw new Error(`Unknown FX_PROVIDER "${providerName}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+}
+const provider = PROVIDERS[providerName];
+
+let snapshot = null;
+
+async function refreshRates() {
+    const { base, asOf, rates } = await provider.getRates();
+    snapshot = { base, asOf, rates: { ...rates, [base]: 1 } };
+    return snapshot;
+}
+
+/**
+ * Loads rates now and keeps them fresh. Failed refreshes are logged and the
+ * previous rates kept.
+ */
+function startRefreshing() {
+    const refresh = () => refreshRates().catch(error => console.error('FX rate refresh failed:', error));
+    setInterval(refresh, REFRESH_MS).unref();
+    return refresh();
+}
+
+function getSnapshot() {
+    if (!snapshot) {
+        throw new HttpError(503, 'Exchange rates are not available yet.');
+    }
+    return snapshot;
+}
+
+function listCurrencies() {
+    return Object.keys(getSnapshot().rates).sort();
+}
+
+/**
+ * Validates a currency code.
+ * @returns {string} The code in upper case.
+ */
+function requireCurrency(code) {
+    const currency = typeof code === 'string' ? code.trim().toUpperCase() : '';
+    if (!getSnapshot().rates[currency]) {
+        throw new HttpError(400, `Currency must be one of ${listCurrencies().join(', ')}.`);
+    }
+    return currency;
+}
+
+/** Units of `to` per unit of `from`. */
+function getRate(from, to) {
+    if (from === to) return 1;
+    const { rates } = getSnapshot();
+    return rates[requireCurrency(to)] / rates[requireCurrency(from)];
+}
+
+function convert(amount, from, to) {
+    return amount * getRate(from, to);
+}
+
+/**
+ * Every rate against `base` (default: the provider's base currency).
+ */
+function getRates(base) {
+    const current = getSnapshot();
+    const baseCurrency = base ? requireCurrency(base) : current.base;
+    return {
+        base: baseCurrency,
+        asOf: current.asOf,
+        provider: providerName,
+        rates: Object.fromEntries(listCurrencies().map(currency => [currency, getRate(baseCurrency, currency)])),
+    };
+}
+
+module.exports = {
+    refreshRates,
+    startRefreshing,
+    listCurrencies,
+    requireCurrency,
+    getRate,
+    convert,
+    getRates,
+};
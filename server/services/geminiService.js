@@ -0,0 +1,511 @@
+const crypto = require('crypto');
+const { GoogleGenAI, Modality, Type } = require('@google/genai');
+const { HttpError } = require('../utils/httpError');
+const { sleep } = require('../utils/abort');
+const { AI_MODELS, AI_TIMEOUTS } = require('../config/aiModels');
+
+/**
+ * Gemini-backed AI provider. The API key never leaves the server: the browser
+ * calls the /api/v1 routes, which go through aiService to this provider.
+ * Arguments are validated by aiService before they reach these functions.
+ * Models are chosen per feature from config/aiModels.js.
+ */
+
+const API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY;
+const VIDEO_OPERATION_TTL_MS = 60 * 60 * 1000;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+// Rounds of Co-pilot tool calls allowed before the answer is cut short.
+const MAX_TOOL_ROUNDS = 4;
+
+let client = null;
+
+function getClient() {
+    if (!API_KEY) {
+        throw new HttpError(503, 'AI features are not configured on this server.');
+    }
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: API_KEY });
+    }
+    return client;
+}
+
+function isRetryable(error) {
+    return error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Runs a Gemini call for a feature with the feature's configured model, a
+ * timeout, and exponential backoff (with jitter) on 429 and 5xx responses.
+ * Upstream failures are translated into HttpErrors so the API key and raw
+ * upstream responses are never echoed to the browser.
+ * @param {string} feature Key into AI_MODELS.
+ * @param {(ai: GoogleGenAI, call: { model: string, abortSignal: AbortSignal }) => Promise<T>} fn
+ * @param {{ signal?: AbortSignal, timeoutMs?: number }} options
+ * @returns {Promise<T>}
+ * @template T
+ */
+async function callGemini(feature, fn, { signal, timeoutMs = AI_TIMEOUTS.text } = {}) {
+    const ai = getClient();
+    const model = AI_MODELS[feature];
+    const startedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+        const abortSignal = AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)].filter(Boolean));
+        try {
+            return await fn(ai, { model, abortSignal });
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            if (signal?.aborted) {
+                throw new HttpError(499, 'The request was cancelled.');
+            }
+            if (abortSignal.aborted) {
+                console.error(`[Gemini:${feature}] timed out after ${Date.now() - startedAt} ms`);
+                throw new HttpError(504, 'The AI service took too long to respond.');
+            }
+            if (isRetryable(error) && attempt < MAX_RETRIES) {
+                const delay = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+                console.warn(`[Gemini:${feature}] ${error.status}; retrying in ${Math.round(delay)} ms`);
+                await sleep(delay, signal).catch(() => {});
+                continue;
+            }
+            console.error(`[Gemini:${feature}] failed after ${Date.now() - startedAt} ms`, error);
+            if (error.status === 429) {
+                throw new HttpError(429, 'The AI service is busy. Please try again shortly.');
+            }
+            throw new HttpError(502, 'The AI service failed to respond.');
+        }
+    }
+}
+
+async function getStrategicInsights({ signal } = {}) {
+    const prompt = `
+      Act as the Chief Investment Officer for FULXERPRO, an elite, futuristic investment firm. Your task is to generate compelling content for a client's "AI-Powered Strategic Opportunities" dashboard widget.
+
+      Analyze the current global financial market using your real-time web search capabilities.
+
+      Based on your analysis, identify and describe **three exclusive, next-generation investment opportunities** we are currently exploring. These should sound cutting-edge, proprietary, and highly desirable to sophisticated investors.
+
+      For each opportunity, provide:
+      1. A compelling name (as a bolded list item).
+      2. A brief, powerful one-sentence description of the opportunity.
+
+      Format the output as a clean markdown list.
+    `;
+
+    const response = await callGemini('insights', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            tools: [{ googleSearch: {} }],
+            abortSignal,
+        },
+    }), { signal });
+
+    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const sources = chunks
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ uri: chunk.web.uri, title: chunk.web.title || chunk.web.uri }));
+
+    return { text: response.text || '', sources };
+}
+
+async function generateGuide({ context, knowledge }, { signal } = {}) {
+    const prompt = `
+        Act as a senior technical writer for FULXERPRO, an elite investment platform. Your task is to create a comprehensive "Platform Features Guide" for new clients. This guide will be displayed on a dedicated page within the client dashboard.
+
+        The guide should be structured logically, explaining each major feature of the platform. Use the context provided below from the live dashboard to inform your writing. The tone should be professional, confident, and highlight the value and sophistication of each tool.
+
+        For each feature, provide a clear heading and a detailed paragraph explaining its purpose, what the user can see, and how it benefits them.
+
+        Format the output as clean markdown. Use level-3 headings (###) for each feature.
+
+        ---
+        DASHBOARD CONTEXT:
+        ${context}
+        ---
+        ${knowledge ? `
+        KNOWLEDGE BASE:
+        ${knowledge.instructions}
+        ---` : ''}
+      `;
+
+    const response = await callGemini('guide', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { abortSignal },
+    }), { signal });
+    return { text: response.text || '' };
+}
+
+async function generateGuideDeepDive(context, { signal } = {}) {
+    const prompt = `
+        Act as the Head of Research at FULXERPRO, an elite investment platform. Write the research edition of the "Platform Features Guide" for clients with Priority Research Access.
+
+        Go beyond what each feature shows: for each one, explain the methodology behind its figures, how a sophisticated investor should interpret them, their limitations, and how to combine it with the other features when making portfolio decisions. Use the context provided below from the live dashboard to inform your writing.
+
+        Format the output as clean markdown. Use level-3 headings (###) for each feature and level-4 headings (####) for "Methodology", "Interpretation" and "Limitations" within it.
+
+        ---
+        DASHBOARD CONTEXT:
+        ${context}
+        ---
+      `;
+
+    const response = await callGemini('guideDeepDive', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { abortSignal },
+    }), { signal });
+    return { text: response.text || '' };
+}
+
+async function analyzeTrader({ name, rank, ytd, trades }, { signal } = {}) {
+    const prompt = `
+            Act as a Senior Investment Analyst for FULXERPRO.
+            Your task is to provide a brief, professional analysis of a trader based on the following data.
+            The tone should be insightful, objective, and suitable for a sophisticated investor.
+
+            **Trader Data:**
+            - **Name:** ${name}
+            - **Rank:** ${rank}
+            - **Year-to-Date Performance:** ${ytd}
+            - **Mock Recent Trades:** ${trades}
+
+            **Analysis Required:**
+            1.  **Trading Strategy:** Based on their rank, performance, and recent trades, what is their likely trading style? (e.g., Aggressive Growth, Value Investing, Momentum Trading, etc.)
+            2.  **Risk Profile:** Briefly assess their likely risk profile.
+            3.  **Key Holdings Insight:** Comment on one or two of their key holdings from the recent trades.
+
+            Format the output as clean markdown. Use level-4 headings (####) for each section of the analysis.
+        `;
+
+    const response = await callGemini('traderAnalysis', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { abortSignal },
+    }), { signal });
+    return { text: response.text || '' };
+}
+
+async function generateAllocation({ portfolioValue, tier }, { signal } = {}) {
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            allocations: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        category: {
+                            type: Type.STRING,
+                            description: 'The name of the investment category.',
+                        },
+                        percentage: {
+                            type: Type.NUMBER,
+                            description: 'The percentage of the portfolio allocated to this category.',
+                        },
+                    },
+                    required: ['category', 'percentage'],
+                },
+            },
+        },
+        required: ['allocations'],
+    };
+
+    const prompt = `
+      Based on a high-net-worth individual's portfolio valued at approximately ${portfolioValue}, generate a plausible and diversified asset allocation strategy suitable for the '${tier.name}' investment tier (${tier.description}).
+      Provide 5 to 7 allocation categories.
+      The total percentages should sum up to exactly 100.
+      Return the data according to the provided JSON schema.
+    `;
+
+    const response = await callGemini('allocation', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: schema,
+            abortSignal,
+        },
+    }), { signal });
+
+    return JSON.parse(response.text || '{}');
+}
+
+async function commentOnAllocation({ currency, totalValue, allocations }, { signal } = {}) {
+    const breakdown = allocations
+        .map(({ assetClass, percentage, holdings }) => `- ${assetClass}: ${percentage}%${holdings.length ? ` (${holdings.join(', ')})` : ''}`)
+        .join('\n');
+    const prompt = `
+      Act as a Senior Portfolio Strategist for FULXERPRO.
+      Comment briefly on the following asset allocation of a ${totalValue.toLocaleString('en-US')} ${currency} portfolio.
+      The figures are exact and computed from the client's holdings: do not restate them differently or invent new ones.
+
+      ${breakdown}
+
+      Cover diversification, concentration risk and one or two considerations for the client, in at most 120 words.
+      Format the output as clean markdown without headings.
+    `;
+
+    const response = await callGemini('allocationCommentary', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { abortSignal },
+    }), { signal });
+    return { text: response.text || '' };
+}
+
+async function generateImage({ prompt, aspectRatio }, { signal } = {}) {
+    const fullPrompt = `
+                Generate a professional, high-fidelity financial visualization for an elite investment dashboard.
+                The style should be clean, modern, and data-rich, suitable for FULXERPRO INVESTORS.
+                Use a dark theme with highlights of blue and green for positive trends.
+                Visualization request: "${prompt}"
+            `;
+
+    const response = await callGemini('image', (ai, { model, abortSignal }) => ai.models.generateImages({
+        model,
+        prompt: fullPrompt,
+        config: {
+            numberOfImages: 1,
+            outputMimeType: 'image/png',
+            aspectRatio,
+            abortSignal,
+        },
+    }), { signal, timeoutMs: AI_TIMEOUTS.image });
+
+    const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+    if (!imageBytes) {
+        throw new HttpError(502, 'The AI did not return an image.');
+    }
+    return { imageBase64: imageBytes, mimeType: 'image/png' };
+}
+
+async function editImage({ imageBase64, mimeType, prompt }, { signal } = {}) {
+    const response = await callGemini('imageEdit', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: {
+            parts: [
+                { inlineData: { mimeType, data: imageBase64 } },
+                { text: prompt },
+            ],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            abortSignal,
+        },
+    }), { signal, timeoutMs: AI_TIMEOUTS.image });
+
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+    if (!part) {
+        throw new HttpError(502, 'The AI did not return an edited image.');
+    }
+    return { imageBase64: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+}
+
+// Long-running video operations, keyed by an opaque id handed to the browser.
+const videoOperations = new Map();
+
+function pruneVideoOperations() {
+    const cutoff = Date.now() - VIDEO_OPERATION_TTL_MS;
+    for (const [id, entry] of videoOperations) {
+        if (entry.createdAt < cutoff) videoOperations.delete(id);
+    }
+}
+
+function getVideoEntry(id) {
+    const entry = videoOperations.get(id);
+    if (!entry) {
+        throw new HttpError(404, 'Video generation not found.');
+    }
+    return entry;
+}
+
+async function startVideoGeneration({ prompt, image }, { signal } = {}) {
+    const operation = await callGemini('video', (ai, { model, abortSignal }) => ai.models.generateVideos({
+        model,
+        prompt,
+        image,
+        config: { numberOfVideos: 1, abortSignal },
+    }), { signal, timeoutMs: AI_TIMEOUTS.image });
+
+    pruneVideoOperations();
+    const id = crypto.randomUUID();
+    videoOperations.set(id, { operation, createdAt: Date.now() });
+    return { id };
+}
+
+async function getVideoStatus(id, { signal } = {}) {
+    const entry = getVideoEntry(id);
+    if (!entry.operation.done) {
+        entry.operation = await callGemini('video', (ai, { abortSignal }) => ai.operations.getVideosOperation({
+            operation: entry.operation,
+            config: { abortSignal },
+        }), { signal });
+    }
+    if (entry.operation.done && !entry.operation.response?.generatedVideos?.[0]?.video?.uri) {
+        return { done: true, error: 'Video generation completed, but no video was returned.' };
+    }
+    return { done: Boolean(entry.operation.done) };
+}
+
+/**
+ * Downloads a finished video. The download URL requires the API key, so the
+ * bytes are fetched here and relayed to the browser.
+ * @returns The upstream fetch Response.
+ */
+async function downloadVideo(id, { signal } = {}) {
+    const entry = getVideoEntry(id);
+    const uri = entry.operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!entry.operation.done || !uri) {
+        throw new HttpError(409, 'The video is not ready yet.');
+    }
+    getClient();
+    const separator = uri.includes('?') ? '&' : '?';
+    const response = await fetch(`${uri}${separator}key=${API_KEY}`, { signal });
+    if (!response.ok) {
+        throw new HttpError(502, `Failed to download video: ${response.statusText}`);
+    }
+    return response;
+}
+
+async function parseAlertRequest(text, { signal } = {}) {
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            isAlert: {
+                type: Type.BOOLEAN,
+                description: 'Whether the request asks to be notified about a market move.',
+            },
+            symbol: {
+                type: Type.STRING,
+                description: 'The ticker symbol in upper case, e.g. NVDA.',
+            },
+            condition: {
+                type: Type.STRING,
+                enum: ['price-above', 'price-below', 'percent-move', 'volume-spike'],
+            },
+            threshold: {
+                type: Type.NUMBER,
+                description: 'A price for price-above/price-below, a signed percentage for percent-move (negative for drops), or a multiple of average volume for volume-spike.',
+            },
+        },
+        required: ['isAlert'],
+    };
+
+    const prompt = `
+      Convert the following request from an investor into a price alert rule.
+      Use price-above or price-below when a price level is given, percent-move when a percentage move is given (negative for drops, positive for rises),
+      and volume-spike when unusual trading volume is mentioned (default threshold 3 if no multiple is given).
+      Use the ticker symbol, not the company name, e.g. "Nvidia" is NVDA.
+      If the request is not asking to be alerted about a market move, set isAlert to false.
+      Return the data according to the provided JSON schema.
+
+      Request: "${text}"
+    `;
+
+    const response = await callGemini('alertParsing', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: schema,
+            abortSignal,
+        },
+    }), { signal });
+
+    const { isAlert, symbol, condition, threshold } = JSON.parse(response.text || '{}');
+    return { alert: isAlert ? { symbol, condition, threshold } : null };
+}
+
+/**
+ * Streams a Co-pilot reply. With `tools`, the model may call them before or
+ * while answering: each round's calls are run and their results sent back,
+ * up to MAX_TOOL_ROUNDS rounds, and the text of every round is streamed.
+ * @returns An async iterable of text chunks.
+ */
+async function* streamChat({ history, message, systemInstruction, tools }, { signal } = {}) {
+    const contents = history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+    const functionDeclarations = tools?.declarations.map(({ name, description, parameters }) => ({
+        name,
+        description,
+        parametersJsonSchema: parameters,
+    }));
+
+    // Retries cover opening each stream only: once chunks have been sent a failure
+    // can no longer be retried transparently. No timeout is applied because a
+    // long answer may legitimately stream for longer than a single response.
+    let chat = null;
+    let nextMessage = message;
+    for (let round = 0; ; round++) {
+        const stream = await callGemini('chat', (ai, { model }) => {
+            chat ??= ai.chats.create({
+                model,
+                config: {
+                    systemInstruction,
+                    ...(functionDeclarations && { tools: [{ functionDeclarations }] }),
+                },
+                history: contents,
+            });
+            return chat.sendMessageStream({ message: nextMessage, config: { abortSignal: signal } });
+        }, { signal });
+
+        const calls = [];
+        try {
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+                calls.push(...(chunk.functionCalls ?? []));
+            }
+        } catch (error) {
+            if (signal?.aborted) return;
+            console.error('[Gemini:chat]', error);
+            throw new HttpError(502, 'The AI service failed to respond.');
+        }
+        if (!calls.length || !tools) return;
+        if (round === MAX_TOOL_ROUNDS) {
+            console.warn(`[Gemini:chat] stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls`);
+            return;
+        }
+
+        nextMessage = await Promise.all(calls.map(async ({ id, name, args }) => ({
+            functionResponse: { id, name, response: await tools.call(name, args) },
+        })));
+        if (signal?.aborted) return;
+    }
+}
+
+async function titleConversation({ message, reply }, { signal } = {}) {
+    const prompt = `
+      Write a short title (at most six words, no quotes or trailing punctuation) for a conversation between an investor and the FULXERPRO AI Co-pilot that starts like this.
+
+      Investor: ${message}
+
+      Co-pilot: ${reply.slice(0, 2000)}
+    `;
+
+    const response = await callGemini('chatTitle', (ai, { model, abortSignal }) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { abortSignal },
+    }), { signal });
+
+    return { title: (response.text || '').trim().split('\n')[0] };
+}
+
+module.exports = {
+    getStrategicInsights,
+    generateGuide,
+    generateGuideDeepDive,
+    analyzeTrader,
+    generateAllocation,
+    commentOnAllocation,
+    generateImage,
+    editImage,
+    startVideoGeneration,
+    getVideoStatus,
+    downloadVideo,
+    parseAlertRequest,
+    streamChat,
+    titleConversation,
+};
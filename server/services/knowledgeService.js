@@ -0,0 +1,168 @@
+const knowledgeRepository = require('../repositories/knowledgeRepository');
+const { INVESTMENT_TIERS } = require('../models/investmentTiers');
+const { createBm25Index } = require('../utils/bm25');
+
+/**
+ * The knowledge base the Co-pilot and the Platform Guide answer from: the
+ * investment framework, FAQ and policies in seed/knowledge, plus the tier
+ * descriptions generated from `INVESTMENT_TIERS` so they can't drift from the
+ * model. Documents are split into chunks at their headings (long sections
+ * again at paragraphs) and ranked against a question with BM25. The index is
+ * built on first use.
+ *
+ * @typedef {object} KnowledgeExcerpt
+ * @property {number} citation The number the model cites it by, from 1.
+ * @property {string} documentId
+ * @property {string} document Document title.
+ * @property {string} section Heading path within the document, e.g. "Plans & Tiers › Which plan am I on?".
+ * @property {string} text
+ */
+
+const MAX_CHUNK_WORDS = 120;
+const DEFAULT_EXCERPTS = 4;
+// Excerpts scoring below this fraction of the best match are left out.
+const MIN_RELATIVE_SCORE = 0.25;
+const SECTION_SEPARATOR = ' › ';
+
+let index = null;
+
+function tiersDocument() {
+    const tiers = Object.values(INVESTMENT_TIERS).sort((a, b) => a.rank - b.rank);
+    const sections = tiers.map((tier, i) => [
+        `## ${tier.name}`,
+        tier.description,
+        '',
+        `Features: ${tier.features.map(feature => feature.label).join(', ')}${i > 0 ? `, plus everything in ${tiers[i - 1].name}` : ''}.`,
+        '',
+        `Model portfolio: ${Object.entries(tier.targets).map(([assetClass, target]) => `${assetClass} ${target}%`).join(', ')}. Tolerance band: ${tier.toleranceBand} percentage points; an asset class that drifts further than this from its target is rebalanced.`,
+    ].join('\n'));
+    const markdown = [
+        '# Investment Tiers',
+        `FULXERPRO has ${tiers.length} investment tiers: ${tiers.map(tier => tier.name).join(', ')}, from entry level to the most exclusive. Each tier includes the features of the tiers below it.`,
+        ...sections,
+    ].join('\n\n');
+    return { id: 'investment-tiers', title: 'Investment Tiers', markdown };
+}
+
+function countWords(text) {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** Splits a section's text into pieces of at most MAX_CHUNK_WORDS, at paragraphs and then lines. */
+function splitSection(text) {
+    const blocks = text.split(/\n\s*\n/).flatMap(block => (countWords(block) > MAX_CHUNK_WORDS ? block.split('\n') : [block]));
+    const pieces = [];
+    let current = '';
+    for (const block of blocks.map(b => b.trim()).filter(Boolean)) {
+        if (current && countWords(current) + countWords(block) > MAX_CHUNK_WORDS) {
+            pieces.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${block}` : block;
+    }
+    if (current) pieces.push(current);
+    return pieces;
+}
+
+function chunkDocument({ id, title, markdown }) {
+    const chunks = [];
+    const headings = [];
+    let lines = [];
+    const flush = () => {
+        const section = headings.filter(Boolean).join(SECTION_SEPARATOR) || 'Overview';
+        for (const text of splitSection(lines.join('\n'))) {
+            chunks.push({ id: `${id}#${chunks.length + 1}`, documentId: id, document: title, section, text });
+        }
+        lines = [];
+    };
+
+    for (const line of markdown.split('\n')) {
+        const heading = line.match(/^(#{1,6})\s+(.+)$/);
+        if (!heading) {
+            lines.push(line);
+            continue;
+        }
+        flush();
+        const level = heading[1].length;
+        // The level-1 heading is the document title.
+        if (level === 1) continue;
+        headings.length = level - 2;
+        headings[level - 2] = heading[2].trim();
+    }
+    flush();
+    return chunks;
+}
+
+function loadIndex() {
+    if (!index) {
+        const chunks = [...knowledgeRepository.listAll(), tiersDocument()].flatMap(chunkDocument);
+        const byId = new Map(chunks.map(chunk => [chunk.id, chunk]));
+        // Titles and headings are indexed with the text, so "fees" finds a section headed "Fees".
+        const bm25 = createBm25Index(chunks.map(chunk => ({
+            id: chunk.id,
+            text: `${chunk.document}\n${chunk.section}\n${chunk.text}`,
+        })));
+        index = { byId, bm25 };
+    }
+    return index;
+}
+
+/**
+ * The chunks that best match a query, best first.
+ * @param {string} query
+ * @param {{ limit?: number }} [options]
+ */
+function search(query, { limit = DEFAULT_EXCERPTS } = {}) {
+    const { byId, bm25 } = loadIndex();
+    const results = bm25.search(query, limit);
+    const threshold = (results[0]?.score || 0) * MIN_RELATIVE_SCORE;
+    return results
+        .filter(result => result.score >= threshold)
+        .map(({ id, score }) => ({ ...byId.get(id), score }));
+}
+
+/**
+ * Retrieves the excerpts relevant to a question, numbered for citation, with
+ * instructions for the model that quote them. Null when nothing matches.
+ * @param {string} query
+ * @param {{ limit?: number }} [options]
+ * @returns {{ instructions: string, excerpts: KnowledgeExcerpt[] } | null}
+ */
+function retrieve(query, options) {
+    const excerpts = search(query, options).map(({ documentId, document, section, text }, i) => ({
+        citation: i + 1,
+        documentId,
+        document,
+        section,
+        text,
+    }));
+    if (!excerpts.length) return null;
+
+    const instructions = [
+        'Use these excerpts from the FULXERPRO knowledge base where they are relevant. Cite each excerpt you use by its number in square brackets, for example [1]; don\'t cite excerpts you didn\'t use, and don\'t contradict them.',
+        ...excerpts.map(excerpt => `[${excerpt.citation}] ${excerpt.document}${SECTION_SEPARATOR}${excerpt.section}\n${excerpt.text}`),
+    ].join('\n\n');
+    return { instructions, excerpts };
+}
+
+/**
+ * The excerpts an answer cites, as sources to list under it.
+ * @param {{ excerpts: KnowledgeExcerpt[] } | null} knowledge
+ * @param {string} text
+ * @returns {Array<{ citation: number, documentId: string, document: string, section: string }>}
+ */
+function citedSources(knowledge, text) {
+    if (!knowledge) return [];
+    // Citations look like [2] or [1, 3].
+    const cited = new Set([...String(text).matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)]
+        .flatMap(match => match[1].split(',').map(Number)));
+    return knowledge.excerpts
+        .filter(excerpt => cited.has(excerpt.citation))
+        .map(({ text: excerptText, ...source }) => source);
+}
+
+module.exports = {
+    search,
+    retrieve,
+    citedSources,
+};
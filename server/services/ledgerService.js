@@ -0,0 +1,203 @@
+const portfolioService = require('./portfolioService');
+const portfolioRepository = require('../repositories/portfolioRepository');
+const { TRANSACTION_TYPES, roundMoney, accountCurrency } = require('../models/portfolio');
+const { HttpError } = require('../utils/httpError');
+const { toCsv } = require('../utils/csv');
+const { toOfxStatement } = require('../utils/ofx');
+
+/**
+ * The transaction ledger: a portfolio's transactions, newest first, with the
+ * cash balance after each one. Supports filtering, cursor pagination and
+ * export as CSV or an OFX bank statement.
+ */
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const EXPORT_FORMATS = ['csv', 'ofx'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const OFX_BANK_ID = 'FULXERPRO';
+const OFX_ACCOUNT_ID_LENGTH = 22;
+
+const OFX_TYPES = {
+    buy: 'DEBIT',
+    sell: 'CREDIT',
+    deposit: 'DEP',
+    withdrawal: 'DEBIT',
+    dividend: 'DIV',
+    fee: 'FEE',
+};
+
+function parseDate(value, label) {
+    if (!value) return null;
+    const date = String(value);
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+        throw new HttpError(400, `${label} must be a date in YYYY-MM-DD format.`);
+    }
+    return date;
+}
+
+/**
+ * Validates the ledger filters from a query string.
+ * @param {{ type?: string, symbol?: string, from?: string, to?: string }} query
+ *   `type` is a comma-separated list of TRANSACTION_TYPES; `from` and `to` are
+ *   inclusive UTC calendar dates.
+ */
+function parseFilters({ type, symbol, from, to } = {}) {
+    const types = type ? String(type).split(',').map(t => t.trim().toLowerCase()).filter(Boolean) : [];
+    if (types.some(t => !TRANSACTION_TYPES.includes(t))) {
+        throw new HttpError(400, `Type must be one or more of ${TRANSACTION_TYPES.join(', ')}.`);
+    }
+    const filters = {
+        types,
+        symbol: symbol ? String(symbol).trim().toUpperCase() : null,
+        from: parseDate(from, 'From'),
+        to: parseDate(to, 'To'),
+    };
+    if (filters.from && filters.to && filters.from > filters.to) {
+        throw new HttpError(400, 'From must not be after To.');
+    }
+    return filters;
+}
+
+function matches(transaction, { types, symbol, from, to }) {
+    const date = transaction.executedAt.slice(0, 10);
+    return (types.length === 0 || types.includes(transaction.type))
+        && (!symbol || transaction.symbol?.toUpperCase() === symbol)
+        && (!from || date >= from)
+        && (!to || date <= to);
+}
+
+/**
+ * Every transaction, newest first, with the cash balance after it. Balances
+ * are worked back from the current cash balance, so they hold whichever
+ * filters are applied afterwards.
+ */
+function ledgerEntries(portfolio) {
+    let balance = portfolio.cashBalance;
+    return portfolioRepository.listTransactions(portfolio.id).map(({ portfolioId, ...transaction }) => {
+        const entry = { ...transaction, balance: roundMoney(balance) };
+        balance -= transaction.amount;
+        return entry;
+    });
+}
+
+function encodeCursor(entry) {
+    return Buffer.from(JSON.stringify([entry.executedAt, entry.id])).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+    try {
+        const [executedAt, id] = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+        if (typeof executedAt === 'string' && typeof id === 'string') return { executedAt, id };
+    } catch {
+        // Reported below.
+    }
+    throw new HttpError(400, 'Invalid cursor.');
+}
+
+/** Whether an entry comes after the cursor in ledger order (newest first, then by id). */
+function isAfter(entry, cursor) {
+    return entry.executedAt < cursor.executedAt || (entry.executedAt === cursor.executedAt && entry.id < cursor.id);
+}
+
+/**
+ * One page of the ledger.
+ * @param {string} userId
+ * @param {{ limit?: number, cursor?: string, type?: string, symbol?: string, from?: string, to?: string }} query
+ *   Pass the previous page's `nextCursor` as `cursor` to continue; it is null on the last page.
+ */
+function listActivity(userId, { limit = DEFAULT_LIMIT, cursor, ...query } = {}) {
+    const filters = parseFilters(query);
+    const count = Math.min(Math.max(Math.floor(limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const portfolio = portfolioService.getPortfolio(userId);
+
+    let entries = ledgerEntries(portfolio).filter(entry => matches(entry, filters));
+    if (cursor) {
+        const position = decodeCursor(cursor);
+        entries = entries.filter(entry => isAfter(entry, position));
+    }
+    const page = entries.slice(0, count);
+
+    return {
+        currency: accountCurrency(portfolio),
+        transactions: page,
+        nextCursor: entries.length > count ? encodeCursor(page[page.length - 1]) : null,
+    };
+}
+
+function toCsvExport(entries) {
+    const headers = ['Date', 'Executed At', 'Type', 'Symbol', 'Description', 'Quantity', 'Price', 'Amount', 'Balance', 'Currency', 'Transaction ID'];
+    const rows = entries.map(entry => [
+        entry.executedAt.slice(0, 10),
+        entry.executedAt,
+        entry.type.toUpperCase(),
+        entry.symbol,
+        entry.description,
+        entry.quantity,
+        entry.price,
+        entry.amount,
+        entry.balance,
+        entry.currency,
+        entry.id,
+    ]);
+    return toCsv(headers, rows);
+}
+
+/** The cash balance at a point in time: after the last transaction up to then. */
+function balanceAt(allEntries, time) {
+    const latest = allEntries.find(entry => entry.executedAt <= time);
+    if (latest) return latest.balance;
+    const oldest = allEntries[allEntries.length - 1];
+    return oldest ? roundMoney(oldest.balance - oldest.amount) : 0;
+}
+
+function toOfxExport(portfolio, allEntries, entries, filters) {
+    const now = new Date();
+    const end = filters.to ? `${filters.to}T23:59:59.999Z` : now.toISOString();
+    const start = filters.from ? `${filters.from}T00:00:00.000Z` : entries[0]?.executedAt ?? end;
+    return toOfxStatement({
+        bankId: OFX_BANK_ID,
+        accountId: portfolio.id.replace(/-/g, '').slice(0, OFX_ACCOUNT_ID_LENGTH),
+        accountType: 'MONEYMRKT',
+        currency: accountCurrency(portfolio),
+        start,
+        end,
+        transactions: entries.map(entry => ({
+            id: entry.id,
+            type: OFX_TYPES[entry.type] || 'OTHER',
+            postedAt: entry.executedAt,
+            amount: entry.amount,
+            name: entry.description,
+            memo: entry.quantity !== null ? `${entry.quantity} ${entry.symbol} @ ${entry.price}` : entry.description,
+        })),
+        balance: { amount: balanceAt(allEntries, end), asOf: end < now.toISOString() ? end : now.toISOString() },
+    }, now);
+}
+
+/**
+ * Every ledger entry matching the filters, oldest first, as a downloadable file.
+ * @param {string} userId
+ * @param {string} format One of EXPORT_FORMATS.
+ * @param {{ type?: string, symbol?: string, from?: string, to?: string }} query
+ * @returns {{ fileName: string, contentType: string, body: string }}
+ */
+function exportActivity(userId, format, query = {}) {
+    if (!EXPORT_FORMATS.includes(format)) {
+        throw new HttpError(400, `Format must be one of ${EXPORT_FORMATS.join(', ')}.`);
+    }
+    const filters = parseFilters(query);
+    const portfolio = portfolioService.getPortfolio(userId);
+    const allEntries = ledgerEntries(portfolio);
+    const entries = allEntries.filter(entry => matches(entry, filters)).reverse();
+    const fileName = `fulxerpro-ledger-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    if (format === 'csv') {
+        return { fileName, contentType: 'text/csv; charset=utf-8', body: toCsvExport(entries) };
+    }
+    return { fileName, contentType: 'application/x-ofx', body: toOfxExport(portfolio, allEntries, entries, filters) };
+}
+
+module.exports = {
+    listActivity,
+    exportActivity,
+};
@@ -0,0 +1,54 @@
+const fs = require('fs');
+const path = require('path');
+const { DATA_DIR } = require('../repositories/jsonStore');
+
+/**
+ * Outgoing mail with a pluggable transport. A transport is any object with an
+ * async `send({ to, subject, text })` method; production deployments can plug an
+ * SMTP or provider-backed transport in with `setTransport`.
+ */
+
+/**
+ * Logs messages to the console instead of delivering them.
+ */
+function createConsoleTransport() {
+    return {
+        async send(message) {
+            console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+        },
+    };
+}
+
+/**
+ * Writes each message as a plain-text file into an outbox directory.
+ * @param {string} outboxDir Directory to write messages into.
+ */
+function createFileTransport(outboxDir = path.join(DATA_DIR, 'outbox')) {
+    return {
+        async send(message) {
+            await fs.promises.mkdir(outboxDir, { recursive: true });
+            const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9@.]/gi, '_')}.txt`;
+            const filePath = path.join(outboxDir, fileName);
+            const content = `To: ${message.to}\nSubject: ${message.subject}\nDate: ${new Date().toUTCString()}\n\n${message.text}\n`;
+            await fs.promises.writeFile(filePath, content);
+            console.log(`📧 Mail to ${message.to} written to ${filePath}`);
+        },
+    };
+}
+
+let transport = process.env.MAIL_TRANSPORT === 'console' ? createConsoleTransport() : createFileTransport();
+
+function setTransport(nextTransport) {
+    transport = nextTransport;
+}
+
+function send(message) {
+    return transport.send(message);
+}
+
+module.exports = {
+    createConsoleTransport,
+    createFileTransport,
+    setTransport,
+    send,
+};
@@ -0,0 +1,127 @@
+const simulatedQuoteFeed = require('./simulatedQuoteFeed');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Live quotes. Prices come from a pluggable provider, selected with
+ * `QUOTE_FEED`: `simulated` (default) random-walks every symbol locally with
+ * no network.
+ *
+ * A provider implements `getQuotes(symbols)` → `Quote[]`. While anyone is
+ * subscribed, the provider is polled every `QUOTE_INTERVAL_MS` for the union
+ * of subscribed symbols; the latest quotes are kept in memory so valuations
+ * can use them synchronously.
+ *
+ * @typedef {object} Quote
+ * @property {string} symbol
+ * @property {string} name
+ * @property {string} currency ISO 4217 code the price is in.
+ * @property {number} price
+ * @property {number} previousClose
+ * @property {number} change Since the previous close.
+ * @property {number} changePercent
+ * @property {number} volume Units traded since the previous quote.
+ * @property {string} time
+ */
+
+const PROVIDERS = {
+    simulated: simulatedQuoteFeed,
+};
+
+const INTERVAL_MS = Number(process.env.QUOTE_INTERVAL_MS) || 2000;
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.\-^=]{0,14}$/;
+
+const providerName = process.env.QUOTE_FEED || 'simulated';
+if (!PROVIDERS[providerName]) {
+    throw new Error(`Unknown QUOTE_FEED "${providerName}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+}
+const provider = PROVIDERS[providerName];
+
+const latestQuotes = new Map();
+const subscriptions = new Set();
+let timer = null;
+
+/**
+ * Validates a ticker symbol.
+ * @returns {string} The symbol in upper case.
+ */
+function requireSymbol(symbol) {
+    const normalized = typeof symbol === 'string' ? symbol.trim().toUpperCase() : '';
+    if (!SYMBOL_PATTERN.test(normalized)) {
+        throw new HttpError(400, `"${String(symbol).slice(0, 20)}" is not a valid symbol.`);
+    }
+    return normalized;
+}
+
+function streamedSymbols() {
+    return new Set([...subscriptions].flatMap(subscription => [...subscription.symbols]));
+}
+
+async function poll() {
+    const symbols = [...streamedSymbols()];
+    const quotes = symbols.length ? await provider.getQuotes(symbols) : [];
+    for (const quote of quotes) latestQuotes.set(quote.symbol, quote);
+    for (const subscription of subscriptions) {
+        // Every subscriber hears every tick, even with no symbols, so clients can tell the feed is alive.
+        subscription.listener(quotes.filter(quote => subscription.symbols.has(quote.symbol)));
+    }
+}
+
+function startPolling() {
+    if (timer) return;
+    timer = setInterval(() => poll().catch(error => console.error('Quote feed poll failed:', error)), INTERVAL_MS);
+    timer.unref();
+}
+
+function stopPolling() {
+    clearInterval(timer);
+    timer = null;
+}
+
+/**
+ * Calls `listener(quotes)` on every tick of the feed with the latest quotes
+ * for `symbols`.
+ * @returns {{ setSymbols: (symbols: string[]) => void, unsubscribe: () => void }}
+ */
+function subscribe(symbols, listener) {
+    const subscription = { symbols: new Set(), listener };
+    const setSymbols = list => {
+        subscription.symbols = new Set(list.map(requireSymbol));
+    };
+    setSymbols(symbols);
+    subscriptions.add(subscription);
+    startPolling();
+    return {
+        setSymbols,
+        unsubscribe() {
+            subscriptions.delete(subscription);
+            if (subscriptions.size === 0) stopPolling();
+        },
+    };
+}
+
+/**
+ * The last streamed price for a symbol, or undefined if it has never been
+ * streamed or quoted.
+ */
+function latestPrice(symbol) {
+    return latestQuotes.get(symbol)?.price;
+}
+
+/** A current quote for each symbol, fetched from the provider unless it is being streamed. */
+async function getQuotes(symbols) {
+    const normalized = symbols.map(requireSymbol);
+    const streamed = streamedSymbols();
+    const missing = [...new Set(normalized.filter(symbol => !streamed.has(symbol) || !latestQuotes.has(symbol)))];
+    if (missing.length) {
+        for (const quote of await provider.getQuotes(missing)) latestQuotes.set(quote.symbol, quote);
+    }
+    return normalized.map(symbol => latestQuotes.get(symbol));
+}
+
+module.exports = {
+    INTERVAL_MS,
+    requireSymbol,
+    subscribe,
+    latestPrice,
+    getQuotes,
+};
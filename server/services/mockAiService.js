@@ -0,0 +1,417 @@
+const crypto = require('crypto');
+const { HttpError } = require('../utils/httpError');
+const { sleep } = require('../utils/abort');
+const { encodePng } = require('../utils/png');
+const { encodeMp4 } = require('../utils/mp4');
+const { hashString, createRandom } = require('../utils/random');
+
+/**
+ * Offline AI provider (`AI_PROVIDER=mock`). Returns canned markdown, valid
+ * allocation JSON, placeholder PNGs and a short MP4 without any network
+ * access. Output depends only on the input, so the same request always gives
+ * the same response. Set `MOCK_AI_DELAY_MS` to simulate latency per call.
+ */
+
+const DELAY_MS = Number(process.env.MOCK_AI_DELAY_MS) || 0;
+const CHAT_CHUNK_DELAY_MS = 15;
+const VIDEO_OPERATION_TTL_MS = 60 * 60 * 1000;
+
+const IMAGE_SIZES = {
+    '1:1': [512, 512],
+    '16:9': [640, 360],
+    '9:16': [360, 640],
+};
+const MAX_EDIT_SIZE = 1024;
+const VIDEO_SIZE = [128, 80];
+const VIDEO_FPS = 6;
+const VIDEO_FRAMES = 12;
+
+const BACKGROUND = [10, 15, 30];
+const GRID = [30, 40, 66];
+const BAR_COLORS = [[0, 122, 255], [52, 199, 89]];
+
+const MOCK_NOTE = '_Generated by the offline mock AI provider._';
+
+async function simulateLatency(signal) {
+    if (DELAY_MS > 0) await sleep(DELAY_MS, signal);
+}
+
+/**
+ * Draws a dark "dashboard chart" placeholder: a grid with a bar series whose
+ * heights are derived from the seed.
+ * @param {number} progress Fraction of each bar's height to draw, for animation.
+ */
+function drawChart(width, height, seed, progress = 1) {
+    const random = createRandom(seed);
+    const barCount = 6 + Math.floor(random() * 6);
+    const barHeights = Array.from({ length: barCount }, () => 0.2 + random() * 0.7);
+    const margin = Math.round(Math.min(width, height) * 0.08);
+    const slot = (width - margin * 2) / barCount;
+    const gridStep = Math.max(8, Math.round((height - margin * 2) / 5));
+
+    const rgb = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let color = BACKGROUND;
+            const inPlot = x >= margin && x < width - margin && y >= margin && y < height - margin;
+            if (inPlot && (height - margin - y) % gridStep === 0) {
+                color = GRID;
+            }
+            if (inPlot) {
+                const bar = Math.floor((x - margin) / slot);
+                const withinSlot = (x - margin) % slot;
+                const top = height - margin - barHeights[bar] * progress * (height - margin * 2);
+                if (withinSlot >= slot * 0.15 && withinSlot < slot * 0.85 && y >= top) {
+                    color = BAR_COLORS[bar % BAR_COLORS.length];
+                }
+            }
+            rgb.set(color, (y * width + x) * 3);
+        }
+    }
+    return rgb;
+}
+
+function placeholderPng(width, height, seedText) {
+    return encodePng(width, height, drawChart(width, height, hashString(seedText))).toString('base64');
+}
+
+/** Reads the dimensions of a base64 PNG from its IHDR chunk, if it is one. */
+function pngSize(imageBase64) {
+    const header = Buffer.from(imageBase64.slice(0, 32), 'base64');
+    if (header.length < 24 || header.toString('ascii', 12, 16) !== 'IHDR') return null;
+    return [header.readUInt32BE(16), header.readUInt32BE(20)];
+}
+
+async function getStrategicInsights({ signal } = {}) {
+    await simulateLatency(signal);
+    const text = [
+        '- **Quantum-Secured Settlement Rails:** Early-stage infrastructure that settles cross-border trades in seconds using post-quantum cryptography.',
+        '- **Orbital Data Centres:** Solar-powered compute in low Earth orbit, positioned to serve the next wave of AI training demand.',
+        '- **Grid-Scale Sodium Storage:** Lithium-free batteries that smooth renewable output at a fraction of today\'s storage cost.',
+        '',
+        MOCK_NOTE,
+    ].join('\n');
+    return { text, sources: [] };
+}
+
+async function generateGuide({ context, knowledge }, { signal } = {}) {
+    await simulateLatency(signal);
+    const text = [
+        '### Portfolio Overview',
+        'Your headline metrics — total portfolio value, performance and risk — are summarised at the top of the dashboard so you can see your position at a glance.',
+        '',
+        '### AI-Powered Strategic Opportunities',
+        'A curated view of emerging investment themes our research team is tracking, refreshed each time you open the dashboard.',
+        '',
+        '### Asset Allocation',
+        'A breakdown of how your capital is distributed across asset classes, generated for your chosen investment tier.',
+        '',
+        '### Social Trading',
+        'Discover top-ranked traders, follow their activity and request an AI analysis of any trader\'s strategy and risk profile.',
+        '',
+        '### AI Studio',
+        'Turn a written description into a financial visualization or a short video, then refine images with natural-language edits.',
+        '',
+        '### AI Co-pilot',
+        'Ask questions about the platform and your portfolio in plain language, at any time, from the Co-pilot button.',
+        '',
+        ...(knowledge ? ['### Plans & Policies', ...describeKnowledge(knowledge), ''] : []),
+        `_This guide was generated offline from ${context.length.toLocaleString('en-US')} characters of dashboard context._`,
+    ].join('\n');
+    return { text };
+}
+
+async function generateGuideDeepDive(context, { signal } = {}) {
+    await simulateLatency(signal);
+    const sections = [
+        ['Portfolio Overview', 'Values are marked to the latest price of each holding; the performance chart plots daily closes and rebases the benchmark to your starting value.', 'Compare the drawdown shading with the benchmark to separate market moves from portfolio-specific ones.', 'Intraday points between closes are simulated until live prices are connected.'],
+        ['Asset Allocation', 'Weights are computed from holdings and rounded with the largest remainder method, so they always sum to exactly 100%.', 'Drill into a class to see which holdings drive its weight.', 'Classification follows the platform taxonomy, which may differ from fund factsheets.'],
+        ['Risk Analytics', 'Volatility, VaR and CVaR come from a year of daily returns, with both historical and normal (parametric) estimates.', 'A wide gap between historical and parametric VaR points to fat tails.', 'One year of history says little about rare events.'],
+    ];
+    const text = [
+        ...sections.flatMap(([title, methodology, interpretation, limitations]) => [
+            `### ${title}`,
+            '#### Methodology',
+            methodology,
+            '#### Interpretation',
+            interpretation,
+            '#### Limitations',
+            limitations,
+            '',
+        ]),
+        `_This research edition was generated offline from ${context.length.toLocaleString('en-US')} characters of dashboard context._`,
+    ].join('\n');
+    return { text };
+}
+
+async function analyzeTrader({ name, rank, ytd, trades }, { signal } = {}) {
+    await simulateLatency(signal);
+    const styles = ['Momentum Trading', 'Aggressive Growth', 'Value Investing', 'Thematic Growth'];
+    const style = styles[hashString(name) % styles.length];
+    const firstHolding = trades.split(/[,;]/)[0].trim();
+    const text = [
+        '#### Trading Strategy',
+        `${name} (${rank}) shows a **${style}** style, consistent with a year-to-date return of ${ytd}.`,
+        '',
+        '#### Risk Profile',
+        `Position sizing and turnover suggest an above-average risk appetite; returns of ${ytd} are unlikely without meaningful drawdowns along the way.`,
+        '',
+        '#### Key Holdings Insight',
+        `Recent activity (${trades}) is led by ${firstHolding}, which anchors the portfolio's exposure.`,
+        '',
+        MOCK_NOTE,
+    ].join('\n');
+    return { text };
+}
+
+/**
+ * Returns the tier's own target allocation, so the model allocation is
+ * consistent with the rebalancing targets.
+ */
+async function generateAllocation({ tier }, { signal } = {}) {
+    await simulateLatency(signal);
+    return {
+        allocations: Object.entries(tier.targets)
+            .filter(([, percentage]) => percentage > 0)
+            .map(([category, percentage]) => ({ category, percentage })),
+    };
+}
+
+async function commentOnAllocation({ allocations }, { signal } = {}) {
+    await simulateLatency(signal);
+    const [largest] = allocations;
+    const cash = allocations.find(entry => entry.assetClass === 'Cash');
+    const text = [
+        `Your largest exposure is **${largest.assetClass}** at ${largest.percentage}% of the portfolio, spread across ${allocations.length} asset classes in total.`,
+        '',
+        largest.percentage > 50
+            ? '- That concentration drives most of your day-to-day volatility; consider whether it still matches your risk profile.'
+            : '- No single asset class dominates, which keeps the portfolio reasonably diversified.',
+        cash
+            ? `- Cash at ${cash.percentage}% gives you room to act on new opportunities.`
+            : '- There is no cash buffer, so new purchases will need a deposit or a sale.',
+        '',
+        MOCK_NOTE,
+    ].join('\n');
+    return { text };
+}
+
+async function generateImage({ prompt, aspectRatio }, { signal } = {}) {
+    await simulateLatency(signal);
+    const [width, height] = IMAGE_SIZES[aspectRatio];
+    return { imageBase64: placeholderPng(width, height, prompt), mimeType: 'image/png' };
+}
+
+async function editImage({ imageBase64, prompt }, { signal } = {}) {
+    await simulateLatency(signal);
+    const [width, height] = (pngSize(imageBase64) || [512, 512]).map(size => Math.min(size, MAX_EDIT_SIZE));
+    return { imageBase64: placeholderPng(width, height, `${prompt}\n${imageBase64.length}`), mimeType: 'image/png' };
+}
+
+// Finished mock videos, keyed by an opaque id handed to the browser.
+const videos = new Map();
+
+function pruneVideos() {
+    const cutoff = Date.now() - VIDEO_OPERATION_TTL_MS;
+    for (const [id, entry] of videos) {
+        if (entry.createdAt < cutoff) videos.delete(id);
+    }
+}
+
+function getVideo(id) {
+    const entry = videos.get(id);
+    if (!entry) {
+        throw new HttpError(404, 'Video generation not found.');
+    }
+    return entry;
+}
+
+async function startVideoGeneration({ prompt }, { signal } = {}) {
+    await simulateLatency(signal);
+    const [width, height] = VIDEO_SIZE;
+    const seed = hashString(prompt);
+    const frames = Array.from({ length: VIDEO_FRAMES }, (_, i) => drawChart(width, height, seed, (i + 1) / VIDEO_FRAMES));
+
+    pruneVideos();
+    const id = crypto.randomUUID();
+    videos.set(id, { video: encodeMp4(frames, { width, height, fps: VIDEO_FPS }), createdAt: Date.now() });
+    return { id };
+}
+
+async function getVideoStatus(id) {
+    getVideo(id);
+    return { done: true };
+}
+
+async function downloadVideo(id) {
+    const { video } = getVideo(id);
+    return new Response(video, { headers: { 'Content-Type': 'video/mp4' } });
+}
+
+const ALERT_PERCENT_PATTERN = /\b(drops?|falls?|declines?|down|rises?|gains?|jumps?|up)\s+(?:by\s+)?(\d+(?:\.\d+)?)\s*%/i;
+const ALERT_PRICE_PATTERN = /\b(above|over|below|under)\s+\$?(\d+(?:\.\d+)?)/i;
+const ALERT_VOLUME_PATTERN = /\bvolume\b/i;
+const ALERT_MULTIPLE_PATTERN = /(\d+(?:\.\d+)?)\s*(?:x|×|times)\b/i;
+// Upper-case tickers such as NVDA, BRK.B or ETH-USD; "I" and "A" are words, not tickers.
+const ALERT_SYMBOL_PATTERN = /\$?\b(?!(?:I|A)\b)([A-Z][A-Z0-9]{0,5}(?:[.-][A-Z0-9]{1,4})?)\b/;
+
+/**
+ * Recognises a few common phrasings ("tell me if NVDA drops 5%", "alert me
+ * when AAPL is above 250", "AMD volume spike") with regular expressions.
+ */
+async function parseAlertRequest(text, { signal } = {}) {
+    await simulateLatency(signal);
+    const symbol = text.match(ALERT_SYMBOL_PATTERN)?.[1];
+    const percent = text.match(ALERT_PERCENT_PATTERN);
+    const price = text.match(ALERT_PRICE_PATTERN);
+
+    let rule = null;
+    if (percent) {
+        const falling = /^(drop|fall|decline|down)/i.test(percent[1]);
+        rule = { condition: 'percent-move', threshold: Number(percent[2]) * (falling ? -1 : 1) };
+    } else if (price) {
+        rule = { condition: /^(above|over)$/i.test(price[1]) ? 'price-above' : 'price-below', threshold: Number(price[2]) };
+    } else if (ALERT_VOLUME_PATTERN.test(text)) {
+        rule = { condition: 'volume-spike', threshold: Number(text.match(ALERT_MULTIPLE_PATTERN)?.[1] ?? 3) };
+    }
+    return { alert: symbol && rule ? { symbol, ...rule } : null };
+}
+
+// Which of the Co-pilot's tools the offline provider calls for a message, by keyword.
+const CHAT_TOOL_PATTERNS = [
+    ['getRiskMetrics', /\b(risk\w*|volatil\w*|drawdown|sharpe|var|beta)\b/i],
+    ['getAllocation', /\b(allocat\w*|exposure|exposed|asset class\w*|diversif\w*)\b/i],
+    ['getTransactions', /\b(transactions?|trades?|bought|sold|activity|dividends?|deposits?)\b/i],
+    ['getHoldings', /\b(holdings?|positions?|own|hold|portfolio)\b/i],
+];
+const CHAT_QUOTE_PATTERN = /\b(price|quote|trading|worth)\b/i;
+
+function formatAmount(value, currency) {
+    return `${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+/** Markdown lines citing the figures a tool returned. */
+function describeToolResult(name, result) {
+    if (result.error) return [`- ${name}: ${result.error}`];
+    switch (name) {
+        case 'getHoldings':
+            return [
+                `Your portfolio is worth **${formatAmount(result.totalValue, result.currency)}**. Largest holdings:`,
+                ...result.holdings.slice(0, 5).map(h => `- **${h.symbol ?? h.name}**: ${formatAmount(h.value, result.currency)} (${h.percentage}% of the portfolio)`),
+            ];
+        case 'getAllocation':
+            return [
+                `Of your **${formatAmount(result.totalValue, result.currency)}** portfolio:`,
+                ...result.allocations.map(a => `- ${a.assetClass}: **${a.percentage}%** (${formatAmount(a.value, result.currency)})`),
+            ];
+        case 'getTransactions':
+            return [
+                'Your most recent transactions:',
+                ...result.transactions.slice(0, 5).map(t => `- ${t.executedAt.slice(0, 10)}: ${t.description} (${formatAmount(t.amount, result.currency)})`),
+            ];
+        case 'getRiskMetrics':
+            return [
+                `Risk over the year to ${result.to}:`,
+                `- Annualised volatility: **${result.annualisedVolatilityPercent}%**`,
+                `- One-day 95% VaR: **${result.valueAtRisk95Percent}%** (${formatAmount(result.valueAtRisk95, result.currency)})`,
+                `- Sharpe ratio: **${result.sharpeRatio}**, Sortino ratio: **${result.sortinoRatio}**, beta to the S&P 500: **${result.betaToSp500}**`,
+                `- Maximum drawdown: **${result.maxDrawdownPercent}%**`,
+            ];
+        case 'getQuote':
+            return [`**${result.symbol}** is at **${formatAmount(result.price, result.currency)}** (${result.changePercent >= 0 ? '+' : ''}${result.changePercent}% today).`];
+        default:
+            return [];
+    }
+}
+
+const KNOWLEDGE_EXCERPTS_QUOTED = 2;
+
+/** The opening of a knowledge base excerpt: the first two sentences of its first line, without a list marker. */
+function summariseExcerpt(text) {
+    const firstLine = text.split('\n')[0].replace(/^(\d+\.|[-*])\s+/, '');
+    return firstLine.split(/(?<=[.!?]\**)\s+/).slice(0, 2).join(' ');
+}
+
+/** Markdown lines quoting the best knowledge base excerpts, with their citations. */
+function describeKnowledge(knowledge) {
+    return knowledge.excerpts.slice(0, KNOWLEDGE_EXCERPTS_QUOTED)
+        .map(excerpt => `- **${excerpt.section}**: ${summariseExcerpt(excerpt.text)} [${excerpt.citation}]`);
+}
+
+/**
+ * Streams a canned reply word by word, like a real model would. With tools,
+ * it calls the ones whose keywords appear in the message and cites their
+ * figures instead; otherwise, with knowledge base excerpts, it quotes the
+ * best of them.
+ */
+async function* streamChat({ history, message, tools, knowledge }, { signal } = {}) {
+    await simulateLatency(signal);
+    const turn = history.filter(t => t.role === 'user').length + 1;
+    const calls = CHAT_TOOL_PATTERNS.filter(([, pattern]) => pattern.test(message)).map(([name]) => [name, {}]);
+    const symbol = message.match(ALERT_SYMBOL_PATTERN)?.[1];
+    if (symbol && CHAT_QUOTE_PATTERN.test(message)) calls.push(['getQuote', { symbol }]);
+
+    let lines;
+    if (tools && calls.length) {
+        lines = [];
+        for (const [name, args] of calls) {
+            lines.push(...describeToolResult(name, await tools.call(name, args)), '');
+        }
+        lines.push(`_Offline reply ${turn} in this conversation, from your portfolio data._`);
+    } else if (knowledge) {
+        lines = [
+            'Here is what the FULXERPRO knowledge base says:',
+            '',
+            ...describeKnowledge(knowledge),
+            '',
+            `_Offline reply ${turn} in this conversation, from the knowledge base._`,
+        ];
+    } else {
+        lines = [
+            `You asked: **"${message}"**`,
+            '',
+            'I\'m the offline Co-pilot, so I can\'t look anything up, but here is how I would normally help:',
+            '',
+            '- Explain FULXERPRO features and investment tiers',
+            '- Summarise your portfolio and recent activity',
+            '- Point you to the right part of the dashboard',
+            '',
+            `_Offline reply ${turn} in this conversation._`,
+        ];
+    }
+
+    for (const word of lines.join('\n').match(/\S+\s*/g)) {
+        if (signal?.aborted) return;
+        yield word;
+        await sleep(CHAT_CHUNK_DELAY_MS, signal).catch(() => {});
+    }
+}
+
+const TITLE_WORDS = 6;
+
+/**
+ * Titles a conversation with the first few words of its opening message.
+ */
+async function titleConversation({ message }, { signal } = {}) {
+    await simulateLatency(signal);
+    const words = message.replace(/[?!.]+$/, '').split(/\s+/);
+    const title = words.slice(0, TITLE_WORDS).join(' ') + (words.length > TITLE_WORDS ? '\u2026' : '');
+    return { title: title.charAt(0).toUpperCase() + title.slice(1) };
+}
+
+module.exports = {
+    getStrategicInsights,
+    generateGuide,
+    generateGuideDeepDive,
+    analyzeTrader,
+    generateAllocation,
+    commentOnAllocation,
+    generateImage,
+    editImage,
+    startVideoGeneration,
+    getVideoStatus,
+    downloadVideo,
+    parseAlertRequest,
+    streamChat,
+    titleConversation,
+};
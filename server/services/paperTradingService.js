@@ -0,0 +1,399 @@
+const { EventEmitter } = require('events');
+const orderRepository = require('../repositories/orderRepository');
+const portfolioRepository = require('../repositories/portfolioRepository');
+const portfolioService = require('./portfolioService');
+const marketDataService = require('./marketDataService');
+const fxService = require('./fxService');
+const { ORDER_SIDES, ORDER_TYPES, TIME_IN_FORCE, describeOrder } = require('../models/order');
+const { OTHER_ASSET_CLASS, roundMoney, accountCurrency, positionCurrency } = require('../models/portfolio');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Order entry and the paper-trading matching engine. Orders are matched
+ * against the market data feed: when placed, and then on every tick while
+ * they are open. Orders fill in full at the quoted price; a fill is recorded
+ * as a buy or sell transaction and moves the cash balance and position.
+ *
+ * Pre-trade checks run when an order is placed, and the funds checks run
+ * again when it fills:
+ * - Buying power: a buy's cost, plus what other open buys have reserved, must
+ *   be covered by cash; sells may not exceed the quantity held less what other
+ *   open sells have reserved (no short selling).
+ * - Position limit: a buy may not take a position above MAX_POSITION_PERCENT
+ *   of the portfolio's value.
+ * - Fat-finger: orders worth more than MAX_ORDER_PERCENT of the portfolio, and
+ *   limits more than MAX_LIMIT_DEVIATION_PERCENT through the market, are
+ *   rejected.
+ */
+
+const MAX_POSITION_PERCENT = 30;
+const MAX_ORDER_PERCENT = 20;
+const MAX_LIMIT_DEVIATION_PERCENT = 10;
+const MAX_OPEN_ORDERS_PER_USER = 50;
+const QUANTITY_DECIMALS = 8;
+// Illiquid holdings are valued in the portfolio but cannot be traded.
+const UNTRADABLE_ASSET_CLASSES = ['Private Equity'];
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+let monitor = null;
+
+function roundQuantity(quantity) {
+    return Number(quantity.toFixed(QUANTITY_DECIMALS));
+}
+
+function formatQuantity(quantity) {
+    return quantity.toLocaleString('en-US', { maximumFractionDigits: QUANTITY_DECIMALS });
+}
+
+function requirePositiveNumber(value, field) {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number) || number <= 0) {
+        throw new HttpError(400, `${field} must be a positive number.`);
+    }
+    return number;
+}
+
+function requireOneOf(value, allowed, field) {
+    if (!allowed.includes(value)) {
+        throw new HttpError(400, `${field} must be one of ${allowed.join(', ')}.`);
+    }
+    return value;
+}
+
+/**
+ * Validates an order ticket.
+ * @returns {{ symbol: string, side: string, type: string, quantity: number,
+ *   limitPrice: number | null, stopPrice: number | null, timeInForce: string }}
+ */
+function validateOrder({ symbol, side, type = 'market', quantity, limitPrice, stopPrice, timeInForce = 'day' } = {}) {
+    return {
+        symbol: marketDataService.requireSymbol(symbol),
+        side: requireOneOf(side, ORDER_SIDES, 'Side'),
+        type: requireOneOf(type, ORDER_TYPES, 'Order type'),
+        quantity: requirePositiveNumber(quantity, 'Quantity'),
+        limitPrice: type === 'limit' ? requirePositiveNumber(limitPrice, 'Limit price') : null,
+        stopPrice: type === 'stop' ? requirePositiveNumber(stopPrice, 'Stop price') : null,
+        timeInForce: requireOneOf(timeInForce, TIME_IN_FORCE, 'Time in force'),
+    };
+}
+
+/** The start of the next UTC day, when day orders lapse. */
+function endOfDay(now) {
+    const end = new Date(now);
+    end.setUTCHours(24, 0, 0, 0);
+    return end.toISOString();
+}
+
+function toView(order) {
+    const { userId, ...fields } = order;
+    return { ...fields, description: describeOrder(order) };
+}
+
+function findPosition(portfolio, symbol) {
+    return portfolio.positions.find(position => position.symbol === symbol) || null;
+}
+
+/** The price an order is expected to fill at, for reserving buying power. */
+function expectedPrice(order, marketPrice) {
+    switch (order.type) {
+        case 'limit':
+            return order.limitPrice;
+        case 'stop':
+            return Math.max(order.stopPrice, marketPrice);
+        default:
+            return marketPrice;
+    }
+}
+
+/** Converts an amount in a symbol's currency into the account currency. */
+function toAccountCurrency(portfolio, amount, currency) {
+    return fxService.convert(amount, currency, accountCurrency(portfolio));
+}
+
+/**
+ * Cash reserved by the user's open buy orders and quantities reserved by open
+ * sells, excluding `excludeId`.
+ */
+function reservations(portfolio, userId, excludeId) {
+    let cash = 0;
+    const quantities = new Map();
+    for (const order of orderRepository.listByUserId(userId)) {
+        if (order.status !== 'open' || order.id === excludeId) continue;
+        if (order.side === 'buy') {
+            const price = expectedPrice(order, marketDataService.latestPrice(order.symbol) ?? order.limitPrice ?? order.stopPrice);
+            cash += toAccountCurrency(portfolio, order.quantity * price, order.currency);
+        } else {
+            quantities.set(order.symbol, (quantities.get(order.symbol) ?? 0) + order.quantity);
+        }
+    }
+    return { cash, quantities };
+}
+
+/**
+ * The buying power and position checks.
+ * @returns Why the order cannot be filled at `price`, or null if it can.
+ */
+function checkFunds(portfolio, order, price, currency) {
+    const position = findPosition(portfolio, order.symbol);
+    const reserved = reservations(portfolio, order.userId, order.id);
+
+    if (order.side === 'sell') {
+        const available = roundQuantity((position?.quantity ?? 0) - (reserved.quantities.get(order.symbol) ?? 0));
+        if (order.quantity > available) {
+            return available > 0
+                ? `You can sell at most ${formatQuantity(available)} ${order.symbol}; the rest is held or reserved by open orders.`
+                : `You have no ${order.symbol} available to sell.`;
+        }
+        return null;
+    }
+
+    const cost = toAccountCurrency(portfolio, order.quantity * price, currency);
+    const buyingPower = portfolio.cashBalance - reserved.cash;
+    if (cost > buyingPower) {
+        return `Insufficient buying power: the order needs ${roundMoney(cost)} ${accountCurrency(portfolio)} and ${roundMoney(Math.max(buyingPower, 0))} is available.`;
+    }
+    const total = portfolioService.totalValue(portfolio, accountCurrency(portfolio));
+    const positionAfter = (position ? portfolioService.positionValue(portfolio, position, accountCurrency(portfolio)) : 0) + cost;
+    if (total > 0 && (positionAfter / total) * 100 > MAX_POSITION_PERCENT) {
+        return `The order would make ${order.symbol} more than ${MAX_POSITION_PERCENT}% of the portfolio.`;
+    }
+    return null;
+}
+
+/**
+ * The fat-finger checks, run when an order is placed.
+ * @returns Why the order looks mistaken, or null.
+ */
+function checkFatFinger(portfolio, order, marketPrice, currency) {
+    const total = portfolioService.totalValue(portfolio, accountCurrency(portfolio));
+    const value = toAccountCurrency(portfolio, order.quantity * expectedPrice(order, marketPrice), currency);
+    if (total > 0 && (value / total) * 100 > MAX_ORDER_PERCENT) {
+        return `The order is worth more than ${MAX_ORDER_PERCENT}% of the portfolio. Check the quantity, or split it into smaller orders.`;
+    }
+    if (order.type === 'limit') {
+        const deviation = ((order.limitPrice - marketPrice) / marketPrice) * 100 * (order.side === 'buy' ? 1 : -1);
+        if (deviation > MAX_LIMIT_DEVIATION_PERCENT) {
+            return `The limit price is more than ${MAX_LIMIT_DEVIATION_PERCENT}% ${order.side === 'buy' ? 'above' : 'below'} the market price of ${marketPrice}.`;
+        }
+    }
+    return null;
+}
+
+/** Whether an open order fills at `price`. */
+function isMarketable(order, price) {
+    switch (order.type) {
+        case 'limit':
+            return order.side === 'buy' ? price <= order.limitPrice : price >= order.limitPrice;
+        case 'stop':
+            return order.side === 'buy' ? price >= order.stopPrice : price <= order.stopPrice;
+        default:
+            return true;
+    }
+}
+
+function closeOrder(order, status, changes) {
+    const closed = orderRepository.close(order.id, status, changes);
+    if (closed) events.emit('order', closed);
+    return closed;
+}
+
+/** The position after a fill, or null once it is sold out. */
+function applyFill(portfolio, position, order, quote) {
+    if (order.side === 'sell') {
+        const quantity = roundQuantity(position.quantity - order.quantity);
+        return quantity > 0 ? { ...position, quantity, price: quote.price } : null;
+    }
+    if (!position) {
+        return {
+            symbol: order.symbol,
+            name: quote.name,
+            assetClass: OTHER_ASSET_CLASS,
+            currency: quote.currency,
+            quantity: order.quantity,
+            averageCost: quote.price,
+            price: quote.price,
+            previousClose: quote.previousClose,
+            ...(!Number.isInteger(order.quantity) && { fractional: true }),
+        };
+    }
+    const quantity = roundQuantity(position.quantity + order.quantity);
+    const averageCost = (position.quantity * position.averageCost + order.quantity * quote.price) / quantity;
+    return { ...position, quantity, averageCost: roundMoney(averageCost), price: quote.price };
+}
+
+/**
+ * Fills an open order at the quoted price, re-running the funds checks, and
+ * records the trade as a transaction.
+ * @returns The closed order.
+ */
+function fill(order, quote) {
+    const portfolio = portfolioService.getPortfolio(order.userId);
+    const position = findPosition(portfolio, order.symbol);
+    const currency = position ? positionCurrency(portfolio, position) : quote.currency;
+    const reason = checkFunds(portfolio, order, quote.price, currency);
+    if (reason) return closeOrder(order, 'rejected', { reason });
+
+    const updated = applyFill(portfolio, position, order, quote);
+    const positions = portfolio.positions
+        .map(p => (p.symbol === order.symbol ? updated : p))
+        .filter(Boolean);
+    if (!position) positions.push(updated);
+
+    const value = roundMoney(toAccountCurrency(portfolio, order.quantity * quote.price, currency));
+    const amount = order.side === 'buy' ? -value : value;
+    const transaction = portfolioRepository.recordTransaction(portfolio.id, {
+        cashBalance: roundMoney(portfolio.cashBalance + amount),
+        positions,
+    }, {
+        type: order.side,
+        symbol: order.symbol,
+        quantity: order.quantity,
+        price: quote.price,
+        amount,
+        currency: accountCurrency(portfolio),
+        description: `${order.side === 'buy' ? 'Bought' : 'Sold'} ${formatQuantity(order.quantity)} ${order.symbol} (paper ${order.type} order)`,
+        executedAt: new Date().toISOString(),
+    });
+    return closeOrder(order, 'filled', { fillPrice: quote.price, transactionId: transaction.id });
+}
+
+function refreshMonitor() {
+    monitor?.setSymbols([...new Set(orderRepository.listOpen().map(order => order.symbol))]);
+}
+
+function buyingPower(portfolio, userId) {
+    const reserved = reservations(portfolio, userId, null).cash;
+    return {
+        currency: accountCurrency(portfolio),
+        cash: roundMoney(portfolio.cashBalance),
+        reserved: roundMoney(reserved),
+        available: roundMoney(Math.max(portfolio.cashBalance - reserved, 0)),
+    };
+}
+
+/**
+ * The user's orders, newest first, with the buying power left for new buys.
+ */
+function listOrders(userId) {
+    const portfolio = portfolioService.getPortfolio(userId);
+    return {
+        buyingPower: buyingPower(portfolio, userId),
+        orders: orderRepository.listByUserId(userId).map(toView),
+    };
+}
+
+/**
+ * Places an order after the pre-trade checks, and matches it against the
+ * current quote. Immediate-or-cancel orders that do not fill are cancelled.
+ * @returns The order, which may already be filled, cancelled or rejected.
+ */
+async function placeOrder(userId, params) {
+    const ticket = validateOrder(params);
+    const open = orderRepository.listByUserId(userId).filter(order => order.status === 'open');
+    if (open.length >= MAX_OPEN_ORDERS_PER_USER) {
+        throw new HttpError(400, `You can have at most ${MAX_OPEN_ORDERS_PER_USER} open orders.`);
+    }
+
+    const portfolio = portfolioService.getPortfolio(userId);
+    const position = findPosition(portfolio, ticket.symbol);
+    if (position && UNTRADABLE_ASSET_CLASSES.includes(position.assetClass)) {
+        throw new HttpError(400, `${ticket.symbol} is a ${position.assetClass} holding and cannot be traded on the paper exchange.`);
+    }
+    if (!Number.isInteger(ticket.quantity) && position && !position.fractional) {
+        throw new HttpError(400, `${ticket.symbol} trades in whole units.`);
+    }
+    if (roundQuantity(ticket.quantity) !== ticket.quantity) {
+        throw new HttpError(400, `Quantity can have at most ${QUANTITY_DECIMALS} decimal places.`);
+    }
+
+    const [quote] = await marketDataService.getQuotes([ticket.symbol]);
+    const currency = position ? positionCurrency(portfolio, position) : quote.currency;
+    const candidate = { ...ticket, userId, id: null };
+    const reason = checkFatFinger(portfolio, candidate, quote.price, currency)
+        || checkFunds(portfolio, candidate, expectedPrice(candidate, quote.price), currency);
+    if (reason) throw new HttpError(400, reason);
+
+    const order = orderRepository.create({
+        userId,
+        ...ticket,
+        currency,
+        expiresAt: ticket.timeInForce === 'day' ? endOfDay(Date.now()) : null,
+    });
+    let result = order;
+    if (isMarketable(order, quote.price)) {
+        result = fill(order, quote);
+    } else if (order.timeInForce === 'ioc') {
+        result = closeOrder(order, 'cancelled', { reason: 'Not marketable when placed (immediate-or-cancel).' });
+    }
+    refreshMonitor();
+    return toView(result);
+}
+
+function cancelOrder(userId, id) {
+    const order = orderRepository.listByUserId(userId).find(o => o.id === id);
+    if (!order) {
+        throw new HttpError(404, 'Order not found.');
+    }
+    if (order.status !== 'open') {
+        throw new HttpError(409, `The order is already ${order.status}.`);
+    }
+    const cancelled = closeOrder(order, 'cancelled', { reason: 'Cancelled by you.' });
+    refreshMonitor();
+    return toView(cancelled);
+}
+
+/**
+ * Calls `listener(order)` whenever one of the user's orders fills, expires
+ * or is cancelled or rejected.
+ * @returns A function that stops listening.
+ */
+function subscribeToOrders(userId, listener) {
+    const onOrder = order => {
+        if (order.userId === userId) listener(toView(order));
+    };
+    events.on('order', onOrder);
+    return () => events.off('order', onOrder);
+}
+
+function matchQuotes(quotes) {
+    const bySymbol = new Map(quotes.map(quote => [quote.symbol, quote]));
+    const now = new Date().toISOString();
+    let closed = false;
+    for (const order of orderRepository.listOpen()) {
+        if (order.expiresAt && order.expiresAt <= now) {
+            closed = Boolean(closeOrder(order, 'expired', { reason: 'Day order not filled before the end of the day.' })) || closed;
+            continue;
+        }
+        const quote = bySymbol.get(order.symbol);
+        if (quote && isMarketable(order, quote.price)) {
+            closed = Boolean(fill(order, quote)) || closed;
+        }
+    }
+    if (closed) refreshMonitor();
+}
+
+/**
+ * Starts matching open orders against the quote feed.
+ */
+function startMatching() {
+    if (monitor) return;
+    monitor = marketDataService.subscribe([], quotes => {
+        try {
+            matchQuotes(quotes);
+        } catch (error) {
+            console.error('Order matching failed:', error);
+        }
+    });
+    refreshMonitor();
+}
+
+module.exports = {
+    validateOrder,
+    listOrders,
+    placeOrder,
+    cancelOrder,
+    subscribeToOrders,
+    startMatching,
+};
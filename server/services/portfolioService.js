@@ -0,0 +1,268 @@
+const portfolioRepository = require('../repositories/portfolioRepository');
+const benchmarkService = require('./benchmarkService');
+const aiService = require('./aiService');
+const fxService = require('./fxService');
+const marketDataService = require('./marketDataService');
+const {
+    ASSET_CLASSES,
+    OTHER_ASSET_CLASS,
+    roundMoney,
+    accountCurrency,
+    positionCurrency,
+    classifyPosition,
+} = require('../models/portfolio');
+const { HttpError } = require('../utils/httpError');
+const { hashString, createRandom, brownianBridge } = require('../utils/random');
+const { roundToTotal } = require('../utils/percentages');
+
+/**
+ * Portfolio read models for the dashboard widgets. A user's portfolio is
+ * seeded with demo holdings the first time it is requested.
+ *
+ * Positions are held in their own currency and cash in the account currency.
+ * They are valued at the latest streamed quote once their symbol has been
+ * streamed, and at their recorded price until then. Values are reported in the user's base currency, converted at the latest FX
+ * rates; the valuation history is recorded in the account currency and
+ * converted at the latest rate too.
+ */
+
+const PERFORMANCE_RANGES = ['1D', '1W', '1M', 'YTD', '1Y', 'ALL'];
+const INTRADAY_STEPS = 96; // 15-minute points over the last 24 hours
+const INTRADAY_VOLATILITY = 0.001;
+
+function getPortfolio(userId) {
+    return portfolioRepository.findByUserId(userId)
+        || portfolioRepository.createFromSeed(userId, portfolio => previousCloseValue(portfolio, accountCurrency(portfolio)));
+}
+
+/** The portfolio's cash balance in `currency`. */
+function cashValue(portfolio, currency = portfolio.baseCurrency) {
+    return fxService.convert(portfolio.cashBalance, accountCurrency(portfolio), currency);
+}
+
+/** A position's latest price per unit, in its own currency. */
+function currentPrice(position) {
+    return marketDataService.latestPrice(position.symbol) ?? position.price;
+}
+
+/** A position's market value in `currency`. */
+function positionValue(portfolio, position, currency = portfolio.baseCurrency) {
+    return fxService.convert(position.quantity * currentPrice(position), positionCurrency(portfolio, position), currency);
+}
+
+function totalValue(portfolio, currency = portfolio.baseCurrency) {
+    return cashValue(portfolio, currency) + portfolio.positions.reduce((sum, position) => sum + positionValue(portfolio, position, currency), 0);
+}
+
+function previousCloseValue(portfolio, currency = portfolio.baseCurrency) {
+    return cashValue(portfolio, currency) + portfolio.positions.reduce((sum, position) => sum
+        + fxService.convert(position.quantity * position.previousClose, positionCurrency(portfolio, position), currency), 0);
+}
+
+/**
+ * Sets the currency the portfolio is reported in.
+ * @returns The updated overview.
+ */
+function setBaseCurrency(userId, currency) {
+    const baseCurrency = fxService.requireCurrency(currency);
+    portfolioRepository.update(getPortfolio(userId).id, { baseCurrency });
+    return getOverview(userId);
+}
+
+/**
+ * Headline metrics: total value and change since the previous close.
+ */
+function getOverview(userId) {
+    const portfolio = getPortfolio(userId);
+    const value = totalValue(portfolio);
+    const previousClose = previousCloseValue(portfolio);
+    return {
+        name: portfolio.name,
+        currency: portfolio.baseCurrency,
+        accountCurrency: accountCurrency(portfolio),
+        totalValue: roundMoney(value),
+        dayChange: roundMoney(value - previousClose),
+        dayChangePercent: previousClose ? roundMoney(((value - previousClose) / previousClose) * 100) : 0,
+        asOf: new Date().toISOString(),
+    };
+}
+
+function toDateString(time) {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * First calendar date (`YYYY-MM-DD`) covered by a daily range, or '' for ALL.
+ */
+function rangeStartDate(range, now) {
+    const start = new Date(now);
+    switch (range) {
+        case '1W':
+            start.setUTCDate(start.getUTCDate() - 7);
+            break;
+        case '1M':
+            start.setUTCMonth(start.getUTCMonth() - 1);
+            break;
+        case 'YTD':
+            return `${start.getUTCFullYear()}-01-01`;
+        case '1Y':
+            start.setUTCFullYear(start.getUTCFullYear() - 1);
+            break;
+        default:
+            return '';
+    }
+    return toDateString(start);
+}
+
+/**
+ * Value over the last 24 hours, simulated between the previous close and the
+ * current value until intraday prices are recorded.
+ */
+function intradayPoints(portfolio, benchmark, now) {
+    const today = toDateString(now);
+    const yesterday = toDateString(now - 24 * 60 * 60 * 1000);
+    const values = brownianBridge(createRandom(hashString(`${portfolio.id}:${today}`)),
+        previousCloseValue(portfolio), totalValue(portfolio), INTRADAY_STEPS, INTRADAY_VOLATILITY);
+    const benchmarkValues = benchmark && brownianBridge(createRandom(hashString(`${benchmark.symbol}:${today}`)),
+        benchmarkService.closeOn(benchmark.symbol, yesterday), benchmarkService.closeOn(benchmark.symbol, today),
+        INTRADAY_STEPS, benchmark.volatility / Math.sqrt(INTRADAY_STEPS));
+
+    const stepMs = (24 * 60 * 60 * 1000) / INTRADAY_STEPS;
+    return values.map((value, i) => ({
+        time: new Date(now - (INTRADAY_STEPS - i) * stepMs).toISOString(),
+        value: roundMoney(value),
+        ...(benchmarkValues && { benchmark: roundMoney(benchmarkValues[i]) }),
+    }));
+}
+
+/**
+ * Daily closes in the range, ending with the current value. The last close
+ * before the range is included as the baseline the range's change is measured from.
+ */
+function dailyPoints(portfolio, range, benchmark, now) {
+    const rate = fxService.getRate(accountCurrency(portfolio), portfolio.baseCurrency);
+    const closes = [
+        ...portfolio.history.map(({ date, value }) => ({ date, value: roundMoney(value * rate) })),
+        { date: toDateString(now), value: roundMoney(totalValue(portfolio)) },
+    ];
+    const startDate = rangeStartDate(range, now);
+    const firstIndex = closes.findIndex(point => point.date >= startDate);
+    return closes.slice(Math.max(firstIndex - 1, 0)).map(({ date, value }) => ({
+        time: date,
+        value,
+        ...(benchmark && { benchmark: benchmarkService.closeOn(benchmark.symbol, date) }),
+    }));
+}
+
+/**
+ * Portfolio value over a time range, optionally with a benchmark's closes for
+ * comparison. 1D returns intraday points (ISO timestamps); the other ranges
+ * return daily closes (`YYYY-MM-DD`).
+ * @param {{ range?: string, benchmark?: string }} options
+ */
+function getPerformance(userId, { range = '1M', benchmark: benchmarkSymbol } = {}) {
+    if (!PERFORMANCE_RANGES.includes(range)) {
+        throw new HttpError(400, `Range must be one of ${PERFORMANCE_RANGES.join(', ')}.`);
+    }
+    const benchmark = benchmarkSymbol ? benchmarkService.getBenchmark(benchmarkSymbol) : null;
+    const portfolio = getPortfolio(userId);
+    const now = Date.now();
+
+    return {
+        range,
+        interval: range === '1D' ? 'intraday' : 'daily',
+        currency: portfolio.baseCurrency,
+        benchmark: benchmark && { symbol: benchmark.symbol, name: benchmark.name },
+        points: range === '1D' ? intradayPoints(portfolio, benchmark, now) : dailyPoints(portfolio, range, benchmark, now),
+    };
+}
+
+/**
+ * Allocation computed from the portfolio's holdings, grouped by the asset class
+ * taxonomy and sorted by value. Percentages are of the total portfolio value
+ * (1 decimal place) and sum to exactly 100; each class's holdings sum to that
+ * class's percentage. Values are in the base currency; each holding's `price`
+ * is in its own `currency`.
+ */
+function getAllocations(userId) {
+    const portfolio = getPortfolio(userId);
+    const byClass = new Map();
+    const addHolding = (assetClass, holding) => {
+        if (!byClass.has(assetClass)) byClass.set(assetClass, []);
+        byClass.get(assetClass).push(holding);
+    };
+    for (const position of portfolio.positions) {
+        addHolding(classifyPosition(position), {
+            symbol: position.symbol,
+            name: position.name,
+            currency: positionCurrency(portfolio, position),
+            quantity: position.quantity,
+            price: currentPrice(position),
+            value: positionValue(portfolio, position),
+        });
+    }
+    if (portfolio.cashBalance) {
+        addHolding('Cash', {
+            symbol: null,
+            name: 'Cash balance',
+            currency: accountCurrency(portfolio),
+            quantity: null,
+            price: null,
+            value: cashValue(portfolio),
+        });
+    }
+
+    const taxonomyOrder = [...ASSET_CLASSES, OTHER_ASSET_CLASS];
+    const classes = [...byClass]
+        .map(([assetClass, holdings]) => ({ assetClass, holdings, value: holdings.reduce((sum, h) => sum + h.value, 0) }))
+        .sort((a, b) => b.value - a.value || taxonomyOrder.indexOf(a.assetClass) - taxonomyOrder.indexOf(b.assetClass));
+    const percentages = roundToTotal(classes.map(entry => entry.value));
+
+    const allocations = classes.map((entry, i) => {
+        const holdings = [...entry.holdings].sort((a, b) => b.value - a.value);
+        const holdingPercentages = roundToTotal(holdings.map(h => h.value), percentages[i]);
+        return {
+            assetClass: entry.assetClass,
+            value: roundMoney(entry.value),
+            percentage: percentages[i],
+            holdings: holdings.map((holding, j) => ({
+                ...holding,
+                value: roundMoney(holding.value),
+                percentage: holdingPercentages[j],
+            })),
+        };
+    });
+
+    return { currency: portfolio.baseCurrency, totalValue: roundMoney(totalValue(portfolio)), allocations };
+}
+
+/**
+ * AI commentary on the user's allocation. The figures are computed here and
+ * passed to the model, which only comments on them.
+ */
+function getAllocationCommentary(userId, options) {
+    const { currency, totalValue: total, allocations } = getAllocations(userId);
+    return aiService.commentOnAllocation({
+        currency,
+        totalValue: total,
+        allocations: allocations.map(({ assetClass, percentage, holdings }) => ({
+            assetClass,
+            percentage,
+            holdings: holdings.filter(h => h.symbol).map(h => h.symbol),
+        })),
+    }, options);
+}
+
+module.exports = {
+    PERFORMANCE_RANGES,
+    getPortfolio,
+    currentPrice,
+    cashValue,
+    positionValue,
+    totalValue,
+    setBaseCurrency,
+    getOverview,
+    getPerformance,
+    getAllocations,
+    getAllocationCommentary,
+};
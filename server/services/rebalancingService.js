@@ -0,0 +1,246 @@
+const portfolioService = require('./portfolioService');
+const subscriptionService = require('./subscriptionService');
+const fxService = require('./fxService');
+const { ASSET_CLASSES, OTHER_ASSET_CLASS, roundMoney, positionCurrency, classifyPosition } = require('../models/portfolio');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Drift of a portfolio from its tier's target allocation, and a proposal of
+ * trades that brings it back within the tier's tolerance bands.
+ *
+ * The proposal trades as little as possible: only asset classes outside their
+ * band are traded, and only back to their target. Cash is the balancing item.
+ * It is never spent below zero. If it would end up below its band, the
+ * shortfall is raised by trimming the most overweight classes. If it would end
+ * up above its band, the excess goes into the most underweight classes.
+ *
+ * Amounts are in the portfolio's base currency. Trades quote the instrument's
+ * price in its own currency.
+ */
+
+const CASH = 'Cash';
+const MIN_TOLERANCE = 0.5;
+const MAX_TOLERANCE = 25;
+const FRACTIONAL_DECIMALS = 4;
+
+function roundPercent(value) {
+    return Math.round(value * 100) / 100;
+}
+
+function driftStatus(drift, tolerance) {
+    if (drift > tolerance) return 'over';
+    if (drift < -tolerance) return 'under';
+    return 'within';
+}
+
+/**
+ * Current value per asset class, including every class the tier targets.
+ * @returns {Map<string, number>}
+ */
+function classValues(portfolio, targets) {
+    const values = new Map(Object.keys(targets).map(assetClass => [assetClass, 0]));
+    for (const position of portfolio.positions) {
+        const assetClass = classifyPosition(position);
+        values.set(assetClass, (values.get(assetClass) || 0) + portfolioService.positionValue(portfolio, position));
+    }
+    values.set(CASH, (values.get(CASH) || 0) + portfolioService.cashValue(portfolio));
+    return values;
+}
+
+function describeDrift(values, targets, total, tolerance) {
+    const order = [...ASSET_CLASSES, OTHER_ASSET_CLASS];
+    return [...values]
+        .sort(([a], [b]) => order.indexOf(a) - order.indexOf(b))
+        .map(([assetClass, value]) => {
+            const targetPercentage = targets[assetClass] || 0;
+            const currentPercentage = total ? (value / total) * 100 : 0;
+            const drift = currentPercentage - targetPercentage;
+            return {
+                assetClass,
+                value: roundMoney(value),
+                targetValue: roundMoney((targetPercentage / 100) * total),
+                currentPercentage: roundPercent(currentPercentage),
+                targetPercentage,
+                drift: roundPercent(drift),
+                status: driftStatus(drift, tolerance),
+            };
+        });
+}
+
+/**
+ * Value to buy (positive) or sell (negative) per non-cash asset class.
+ * @returns {Map<string, number>}
+ */
+function planClassTrades(values, targets, total, tolerance) {
+    const band = (tolerance / 100) * total;
+    const targetValue = assetClass => ((targets[assetClass] || 0) / 100) * total;
+    const plan = new Map();
+    const gap = assetClass => targetValue(assetClass) - values.get(assetClass) - (plan.get(assetClass) || 0);
+
+    for (const assetClass of values.keys()) {
+        if (assetClass !== CASH && Math.abs(gap(assetClass)) > band) {
+            plan.set(assetClass, gap(assetClass));
+        }
+    }
+
+    const cashTarget = targetValue(CASH);
+    const cashAfter = () => values.get(CASH) - [...plan.values()].reduce((sum, amount) => sum + amount, 0);
+    const others = [...values.keys()].filter(assetClass => assetClass !== CASH);
+
+    if (cashAfter() < Math.max(cashTarget - band, 0)) {
+        // Raise the shortfall from the most overweight classes, down to their target.
+        for (const assetClass of others.sort((a, b) => gap(a) - gap(b))) {
+            const shortfall = cashTarget - cashAfter();
+            if (shortfall <= 0 || gap(assetClass) >= 0) break;
+            plan.set(assetClass, (plan.get(assetClass) || 0) - Math.min(shortfall, -gap(assetClass)));
+        }
+        // Whatever is still missing comes off the purchases.
+        const deficit = -cashAfter();
+        const buys = [...plan].filter(([, amount]) => amount > 0);
+        const buyTotal = buys.reduce((sum, [, amount]) => sum + amount, 0);
+        if (deficit > 0 && buyTotal > 0) {
+            const scale = Math.max(0, 1 - deficit / buyTotal);
+            buys.forEach(([assetClass, amount]) => plan.set(assetClass, amount * scale));
+        }
+    } else if (cashAfter() > cashTarget + band) {
+        // Invest the excess in the most underweight classes, up to their target.
+        for (const assetClass of others.sort((a, b) => gap(b) - gap(a))) {
+            const excess = cashAfter() - cashTarget;
+            if (excess <= 0 || gap(assetClass) <= 0) break;
+            plan.set(assetClass, (plan.get(assetClass) || 0) + Math.min(excess, gap(assetClass)));
+        }
+    }
+    return plan;
+}
+
+function roundQuantity(quantity, position, round) {
+    if (!position.fractional) return round(quantity);
+    const scale = 10 ** FRACTIONAL_DECIMALS;
+    return round(quantity * scale) / scale;
+}
+
+/** A position's price per unit in the portfolio's base currency. */
+function basePrice(portfolio, position) {
+    return fxService.convert(portfolioService.currentPrice(position), positionCurrency(portfolio, position), portfolio.baseCurrency);
+}
+
+function toTrade(side, portfolio, position, quantity) {
+    return {
+        side,
+        symbol: position.symbol,
+        name: position.name,
+        assetClass: classifyPosition(position),
+        quantity,
+        price: portfolioService.currentPrice(position),
+        currency: positionCurrency(portfolio, position),
+        amount: roundMoney(quantity * basePrice(portfolio, position)),
+    };
+}
+
+/**
+ * Turns class-level amounts into trades in existing holdings, split in
+ * proportion to each holding's value so weights within a class are kept.
+ * Sells run first so their proceeds are available to the buys.
+ */
+function planTrades(portfolio, classPlan, warnings) {
+    const holdingsOf = assetClass => portfolio.positions.filter(p => classifyPosition(p) === assetClass && p.quantity > 0);
+    const valueOf = position => portfolioService.positionValue(portfolio, position);
+    const trades = [];
+
+    for (const [assetClass, amount] of classPlan) {
+        if (amount >= 0) continue;
+        const holdings = holdingsOf(assetClass);
+        const classValue = holdings.reduce((sum, p) => sum + valueOf(p), 0);
+        for (const position of holdings) {
+            const share = (-amount * valueOf(position)) / classValue;
+            const quantity = Math.min(roundQuantity(share / basePrice(portfolio, position), position, Math.round), position.quantity);
+            if (quantity > 0) trades.push(toTrade('sell', portfolio, position, quantity));
+        }
+    }
+
+    let cash = portfolioService.cashValue(portfolio) + trades.reduce((sum, trade) => sum + trade.amount, 0);
+    const buys = [...classPlan].filter(([, amount]) => amount > 0);
+    const buyTotal = buys.reduce((sum, [, amount]) => sum + amount, 0);
+    // Rounding the sells can leave slightly less cash than planned.
+    const scale = buyTotal > cash ? Math.max(cash, 0) / buyTotal : 1;
+
+    for (const [assetClass, amount] of buys) {
+        const holdings = holdingsOf(assetClass);
+        if (holdings.length === 0) {
+            warnings.push(`No ${assetClass} holding to add to; buy ${roundMoney(amount)} of an instrument of your choice.`);
+            continue;
+        }
+        const classValue = holdings.reduce((sum, p) => sum + valueOf(p), 0);
+        for (const position of holdings) {
+            const share = (amount * scale * valueOf(position)) / classValue;
+            const quantity = roundQuantity(Math.min(share, cash) / basePrice(portfolio, position), position, Math.floor);
+            if (quantity <= 0) continue;
+            const trade = toTrade('buy', portfolio, position, quantity);
+            cash -= trade.amount;
+            trades.push(trade);
+        }
+    }
+    return trades;
+}
+
+/**
+ * Drift from a tier's targets and a rebalancing proposal.
+ * @param {string} userId
+ * @param {{ tier?: string, tolerance?: number }} options `tier` defaults to the
+ *   user's subscription; `tolerance` overrides the tier's band, in percentage points.
+ */
+function getRebalancing(userId, { tier: tierId = subscriptionService.getTierId(userId), tolerance } = {}) {
+    const tier = subscriptionService.getTier(tierId);
+    const band = tolerance ?? tier.toleranceBand;
+    if (!Number.isFinite(band) || band < MIN_TOLERANCE || band > MAX_TOLERANCE) {
+        throw new HttpError(400, `Tolerance must be between ${MIN_TOLERANCE} and ${MAX_TOLERANCE} percentage points.`);
+    }
+
+    const portfolio = portfolioService.getPortfolio(userId);
+    const total = portfolioService.totalValue(portfolio);
+    const values = classValues(portfolio, tier.targets);
+    const drift = describeDrift(values, tier.targets, total, band);
+
+    const warnings = [];
+    const needsRebalancing = drift.some(entry => entry.status !== 'within');
+    const trades = needsRebalancing ? planTrades(portfolio, planClassTrades(values, tier.targets, total, band), warnings) : [];
+
+    const projectedValues = new Map(values);
+    for (const trade of trades) {
+        const signed = trade.side === 'buy' ? trade.amount : -trade.amount;
+        projectedValues.set(trade.assetClass, projectedValues.get(trade.assetClass) + signed);
+        projectedValues.set(CASH, projectedValues.get(CASH) - signed);
+    }
+    const projected = describeDrift(projectedValues, tier.targets, total, band);
+    projected
+        .filter(entry => needsRebalancing && entry.assetClass !== CASH && entry.status !== 'within')
+        .forEach(entry => warnings.push(`${entry.assetClass} stays outside its band: trades are rounded to whole units and limited by cash.`));
+    const turnover = trades.reduce((sum, trade) => sum + trade.amount, 0);
+
+    return {
+        tier: { id: tier.id, name: tier.name },
+        currency: portfolio.baseCurrency,
+        totalValue: roundMoney(total),
+        tolerance: band,
+        drift,
+        needsRebalancing,
+        proposal: {
+            trades,
+            turnover: roundMoney(turnover),
+            turnoverPercentage: total ? roundPercent((turnover / total) * 100) : 0,
+            cashBefore: roundMoney(portfolioService.cashValue(portfolio)),
+            cashAfter: roundMoney(projectedValues.get(CASH)),
+            projected: projected.map(({ assetClass, currentPercentage, drift: projectedDrift, status }) => ({
+                assetClass,
+                percentage: currentPercentage,
+                drift: projectedDrift,
+                status,
+            })),
+            warnings,
+        },
+    };
+}
+
+module.exports = {
+    getRebalancing,
+};
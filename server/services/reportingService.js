@@ -0,0 +1,159 @@
+const portfolioService = require('./portfolioService');
+const taxLotService = require('./taxLotService');
+const fxService = require('./fxService');
+const portfolioRepository = require('../repositories/portfolioRepository');
+const { roundMoney, accountCurrency, positionCurrency } = require('../models/portfolio');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Tax reports built from the tax lot engine: open lots with unrealized gains,
+ * and the realized gains report for a tax year.
+ *
+ * Lots and disposals are in the instrument's own `currency`; totals are
+ * converted to the base currency at the latest rates.
+ */
+
+const EARLIEST_REPORT_YEAR = 2000;
+const QUANTITY_DECIMALS = 8;
+
+function roundQuantity(quantity) {
+    return Number(quantity.toFixed(QUANTITY_DECIMALS));
+}
+
+function replayLots(portfolio, method) {
+    return taxLotService.computeTaxLots({
+        openingLots: portfolio.openingLots || [],
+        transactions: portfolioRepository.listTransactions(portfolio.id),
+        method,
+    });
+}
+
+function emptyTotals() {
+    return { proceeds: 0, costBasis: 0, washSaleDisallowed: 0, gain: 0 };
+}
+
+/** The currency a symbol trades in: its position's, or the account currency once sold out. */
+function symbolCurrency(portfolio, positions, symbol) {
+    const position = positions.get(symbol);
+    return position ? positionCurrency(portfolio, position) : accountCurrency(portfolio);
+}
+
+function roundTotals(totals) {
+    return Object.fromEntries(Object.entries(totals).map(([key, value]) => [key, roundMoney(value)]));
+}
+
+/**
+ * Open tax lots valued at the latest prices, with unrealized gains split by
+ * holding term as of today.
+ * @param {string} userId
+ * @param {{ method?: string }} options Cost basis method (default FIFO).
+ */
+function getTaxLots(userId, { method } = {}) {
+    const lotMethod = taxLotService.getLotMethod(method);
+    const portfolio = portfolioService.getPortfolio(userId);
+    const positions = new Map(portfolio.positions.map(position => [position.symbol, position]));
+    const now = new Date().toISOString();
+    const unrealized = { short: 0, long: 0 };
+
+    const lots = replayLots(portfolio, lotMethod).lots
+        .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.acquiredAt.localeCompare(b.acquiredAt))
+        .map(lot => {
+            const position = positions.get(lot.symbol);
+            const costBasis = lot.quantity * lot.costPerUnit;
+            const price = position ? portfolioService.currentPrice(position) : null;
+            const marketValue = position ? lot.quantity * price : null;
+            const term = taxLotService.holdingTerm(lot.holdingPeriodStart, now);
+            const currency = symbolCurrency(portfolio, positions, lot.symbol);
+            if (marketValue !== null) unrealized[term] += fxService.convert(marketValue - costBasis, currency, portfolio.baseCurrency);
+            return {
+                id: lot.id,
+                symbol: lot.symbol,
+                name: position?.name ?? lot.symbol,
+                currency,
+                quantity: roundQuantity(lot.quantity),
+                acquiredAt: lot.acquiredAt,
+                holdingPeriodStart: lot.holdingPeriodStart,
+                term,
+                costPerUnit: roundMoney(lot.costPerUnit),
+                costBasis: roundMoney(costBasis),
+                price,
+                marketValue: marketValue === null ? null : roundMoney(marketValue),
+                unrealizedGain: marketValue === null ? null : roundMoney(marketValue - costBasis),
+                washSaleAdjustment: roundMoney(lot.washSaleAdjustment),
+            };
+        });
+
+    return {
+        method: lotMethod,
+        currency: portfolio.baseCurrency,
+        lots,
+        unrealizedGain: {
+            shortTerm: roundMoney(unrealized.short),
+            longTerm: roundMoney(unrealized.long),
+            total: roundMoney(unrealized.short + unrealized.long),
+        },
+    };
+}
+
+/**
+ * Year-end realized gains report: every disposal in the tax year (UTC) with
+ * short- and long-term totals. `gain` is after wash sale adjustments.
+ * @param {string} userId
+ * @param {{ year?: number, method?: string }} options `year` defaults to the current year.
+ */
+function getRealizedGains(userId, { year = new Date().getUTCFullYear(), method } = {}) {
+    const currentYear = new Date().getUTCFullYear();
+    if (!Number.isInteger(year) || year < EARLIEST_REPORT_YEAR || year > currentYear) {
+        throw new HttpError(400, `Year must be between ${EARLIEST_REPORT_YEAR} and ${currentYear}.`);
+    }
+    const lotMethod = taxLotService.getLotMethod(method);
+    const portfolio = portfolioService.getPortfolio(userId);
+    const positions = new Map(portfolio.positions.map(position => [position.symbol, position]));
+    const totals = { short: emptyTotals(), long: emptyTotals() };
+
+    const disposals = replayLots(portfolio, lotMethod).disposals
+        .filter(disposal => disposal.soldAt.startsWith(`${year}-`))
+        .map(disposal => {
+            const gain = disposal.gain + disposal.washSaleDisallowed;
+            const currency = symbolCurrency(portfolio, positions, disposal.symbol);
+            const toBase = amount => fxService.convert(amount, currency, portfolio.baseCurrency);
+            const termTotals = totals[disposal.term];
+            termTotals.proceeds += toBase(disposal.proceeds);
+            termTotals.costBasis += toBase(disposal.costBasis);
+            termTotals.washSaleDisallowed += toBase(disposal.washSaleDisallowed);
+            termTotals.gain += toBase(gain);
+            return {
+                id: disposal.id,
+                transactionId: disposal.transactionId,
+                lotId: disposal.lotId,
+                symbol: disposal.symbol,
+                currency,
+                quantity: roundQuantity(disposal.quantity),
+                acquiredAt: disposal.acquiredAt,
+                soldAt: disposal.soldAt,
+                term: disposal.term,
+                proceeds: roundMoney(disposal.proceeds),
+                costBasis: roundMoney(disposal.costBasis),
+                washSaleDisallowed: roundMoney(disposal.washSaleDisallowed),
+                gain: roundMoney(gain),
+            };
+        });
+
+    const total = Object.fromEntries(Object.keys(emptyTotals()).map(key => [key, totals.short[key] + totals.long[key]]));
+    return {
+        year,
+        method: lotMethod,
+        currency: portfolio.baseCurrency,
+        disposals,
+        summary: {
+            shortTerm: roundTotals(totals.short),
+            longTerm: roundTotals(totals.long),
+            total: roundTotals(total),
+        },
+    };
+}
+
+module.exports = {
+    getTaxLots,
+    getRealizedGains,
+};
@@ -0,0 +1,96 @@
+const seed = require('../repositories/seed/portfolio.json');
+const { hashString, createRandom, normal } = require('../utils/random');
+
+/**
+ * Offline quote provider (`QUOTE_FEED=simulated`). Each symbol follows its own
+ * seeded random walk from a reference price: the demo portfolio's prices for
+ * the instruments it holds, and a price derived from the symbol for anything
+ * else, so every symbol has a stable starting point across restarts.
+ *
+ * Volatilities are per second of wall-clock time, so the walk moves at the
+ * same pace whatever the polling interval.
+ */
+
+const VOLATILITY_PER_SECOND = {
+    'US Equities': 0.0004,
+    'Int\'l Equities': 0.0003,
+    'Fixed Income': 0.0001,
+    'Alternatives': 0.0006,
+    'Private Equity': 0,
+};
+const DEFAULT_VOLATILITY = 0.0004;
+const CRYPTO_VOLATILITY = 0.0009;
+// Mean shares traded per second, and how often an interval trades far more.
+const BASE_VOLUME_PER_SECOND = 400;
+const VOLUME_SPIKE_PROBABILITY = 0.02;
+const VOLUME_SPIKE_MULTIPLIER = 8;
+
+const referenceInstruments = new Map(seed.positions.map(position => [position.symbol, position]));
+
+// Walk state per symbol: { random, price, previousClose, volatility, updatedAt, ... }.
+const walks = new Map();
+
+function referenceWalk(symbol, now) {
+    const random = createRandom(hashString(`quote:${symbol}`));
+    const instrument = referenceInstruments.get(symbol);
+    if (instrument) {
+        return {
+            random,
+            name: instrument.name,
+            currency: instrument.currency,
+            price: instrument.price,
+            previousClose: instrument.previousClose,
+            volatility: instrument.fractional ? CRYPTO_VOLATILITY : VOLATILITY_PER_SECOND[instrument.assetClass] ?? DEFAULT_VOLATILITY,
+            updatedAt: now,
+        };
+    }
+    const price = 20 + (hashString(symbol) % 48000) / 100;
+    return { random, name: symbol, currency: 'USD', price, previousClose: price, volatility: DEFAULT_VOLATILITY, updatedAt: now };
+}
+
+function step(walk, now) {
+    const seconds = Math.max(now - walk.updatedAt, 0) / 1000;
+    if (seconds > 0) {
+        walk.price *= Math.exp(normal(walk.random) * walk.volatility * Math.sqrt(seconds));
+        const spike = walk.random() < VOLUME_SPIKE_PROBABILITY ? VOLUME_SPIKE_MULTIPLIER : 1;
+        walk.volume = Math.round(BASE_VOLUME_PER_SECOND * seconds * spike * (0.5 + walk.random()));
+        walk.updatedAt = now;
+    }
+    return walk;
+}
+
+function toQuote(symbol, walk) {
+    const price = Math.round(walk.price * 100) / 100;
+    const change = price - walk.previousClose;
+    return {
+        symbol,
+        name: walk.name,
+        currency: walk.currency,
+        price,
+        previousClose: walk.previousClose,
+        change: Math.round(change * 100) / 100,
+        changePercent: walk.previousClose ? Math.round((change / walk.previousClose) * 10000) / 100 : 0,
+        volume: walk.volume ?? 0,
+        time: new Date(walk.updatedAt).toISOString(),
+    };
+}
+
+/**
+ * The latest quote for each symbol, advancing each walk to now.
+ * @param {string[]} symbols
+ */
+async function getQuotes(symbols) {
+    const now = Date.now();
+    return symbols.map(symbol => {
+        let walk = walks.get(symbol);
+        if (!walk) {
+            walk = referenceWalk(symbol, now);
+            walks.set(symbol, walk);
+        }
+        return toQuote(symbol, step(walk, now));
+    });
+}
+
+module.exports = {
+    getQuotes,
+};
@@ -0,0 +1,82 @@
+const subscriptionRepository = require('../repositories/subscriptionRepository');
+const { INVESTMENT_TIERS, DEFAULT_TIER } = require('../models/investmentTiers');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Investment tier subscriptions and the entitlements they grant. Users who
+ * have never chosen a plan are on DEFAULT_TIER.
+ */
+
+function getTier(tierId) {
+    // Own keys only, so "constructor" or "toString" isn't taken for a tier.
+    if (!Object.hasOwn(INVESTMENT_TIERS, tierId)) {
+        throw new HttpError(400, `Tier must be one of ${Object.keys(INVESTMENT_TIERS).join(', ')}.`);
+    }
+    const tier = INVESTMENT_TIERS[tierId];
+    return { id: tierId, ...tier };
+}
+
+function listTiers() {
+    return Object.keys(INVESTMENT_TIERS)
+        .map(getTier)
+        .sort((a, b) => a.rank - b.rank);
+}
+
+/** Entitlement ids for a tier: its own features and those of every lower tier. */
+function entitlementsFor(tierId) {
+    const { rank } = getTier(tierId);
+    return listTiers()
+        .filter(tier => tier.rank <= rank)
+        .flatMap(tier => tier.features.map(feature => feature.id));
+}
+
+/** The lowest tier that grants an entitlement. */
+function tierGranting(entitlement) {
+    return listTiers().find(tier => tier.features.some(feature => feature.id === entitlement)) || null;
+}
+
+function getTierId(userId) {
+    return subscriptionRepository.findByUserId(userId)?.tier || DEFAULT_TIER;
+}
+
+function hasEntitlement(userId, entitlement) {
+    return entitlementsFor(getTierId(userId)).includes(entitlement);
+}
+
+/**
+ * The user's current tier and entitlements, plus every tier with its
+ * features so the client can present upgrades and downgrades.
+ */
+function getSubscription(userId) {
+    const subscription = subscriptionRepository.findByUserId(userId);
+    const tierId = subscription?.tier || DEFAULT_TIER;
+    return {
+        tier: tierId,
+        entitlements: entitlementsFor(tierId),
+        changedAt: subscription?.changedAt || null,
+        tiers: listTiers().map(({ id, name, rank, description, features }) => ({ id, name, rank, description, features })),
+    };
+}
+
+/**
+ * Moves the user to another tier. The client confirms the change with the
+ * user first; changing to the current tier is a no-op.
+ */
+function changeTier(userId, tierId) {
+    getTier(tierId);
+    if (tierId !== getTierId(userId)) {
+        subscriptionRepository.setTier(userId, tierId);
+    }
+    return getSubscription(userId);
+}
+
+module.exports = {
+    getTier,
+    listTiers,
+    entitlementsFor,
+    tierGranting,
+    getTierId,
+    hasEntitlement,
+    getSubscription,
+    changeTier,
+};
@@ -0,0 +1,224 @@
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Tax lot engine. Replays a portfolio's opening lots and trades in time order
+ * and matches each sale to the lots it disposes of, giving the open lots and
+ * every disposal with its cost basis, holding period and gain.
+ *
+ * Lots are chosen per sale by the cost basis method: FIFO (oldest first),
+ * LIFO (newest first), HIFO (highest cost first) or specific identification,
+ * which uses the lots recorded on the sale and falls back to FIFO for sales
+ * that name none.
+ *
+ * Wash sales: when a sale at a loss has a purchase of the same symbol within
+ * 30 days before or after it, the loss on the matched quantity is disallowed.
+ * It is added to the replacement shares' cost basis, and their holding period
+ * starts earlier by the time the sold shares were held. Each purchased share
+ * replaces at most one sold share.
+ */
+
+const LOT_METHODS = ['fifo', 'lifo', 'hifo', 'specific'];
+const WASH_SALE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9;
+
+const LOT_ORDER = {
+    fifo: (a, b) => a.acquiredAt.localeCompare(b.acquiredAt),
+    lifo: (a, b) => b.acquiredAt.localeCompare(a.acquiredAt),
+    hifo: (a, b) => b.costPerUnit - a.costPerUnit || a.acquiredAt.localeCompare(b.acquiredAt),
+};
+
+function getLotMethod(method = 'fifo') {
+    const normalized = String(method).toLowerCase();
+    if (!LOT_METHODS.includes(normalized)) {
+        throw new HttpError(400, `Method must be one of ${LOT_METHODS.join(', ')}.`);
+    }
+    return normalized;
+}
+
+/**
+ * Long-term if held for more than one year: sold after the anniversary of
+ * the day the holding period started.
+ */
+function holdingTerm(holdingPeriodStart, soldAt) {
+    const start = new Date(holdingPeriodStart);
+    const anniversary = Date.UTC(start.getUTCFullYear() + 1, start.getUTCMonth(), start.getUTCDate());
+    return Date.parse(soldAt.slice(0, 10)) > anniversary ? 'long' : 'short';
+}
+
+function createLot({ id, symbol, quantity, costPerUnit, acquiredAt }) {
+    return {
+        id,
+        symbol,
+        quantity,
+        costPerUnit,
+        acquiredAt,
+        holdingPeriodStart: acquiredAt,
+        washSaleAdjustment: 0,
+        // Shares that already replaced a wash sale cannot replace another.
+        isReplacement: false,
+    };
+}
+
+/**
+ * The lots a sale disposes of and how much of each.
+ * @returns {{ lot: object, quantity: number }[]}
+ */
+function selectLots(openLots, sale, method) {
+    const held = openLots.filter(lot => lot.symbol === sale.symbol);
+
+    if (method === 'specific' && sale.lots?.length) {
+        const named = sale.lots.reduce((sum, { quantity }) => sum + quantity, 0);
+        if (Math.abs(named - sale.quantity) > EPSILON) {
+            throw new HttpError(409, `The lots named for the sale on ${sale.executedAt.slice(0, 10)} hold ${named} ${sale.symbol}, not the ${sale.quantity} sold.`);
+        }
+        return sale.lots.map(({ lotId, quantity }) => {
+            const lot = held.find(candidate => candidate.id === lotId);
+            if (!lot || lot.quantity < quantity - EPSILON) {
+                throw new HttpError(409, `Lot ${lotId} does not hold ${quantity} ${sale.symbol} for the sale on ${sale.executedAt.slice(0, 10)}.`);
+            }
+            return { lot, quantity };
+        });
+    }
+
+    const selections = [];
+    let remaining = sale.quantity;
+    for (const lot of [...held].sort(LOT_ORDER[method === 'specific' ? 'fifo' : method])) {
+        if (remaining <= EPSILON) break;
+        const quantity = Math.min(lot.quantity, remaining);
+        selections.push({ lot, quantity });
+        remaining -= quantity;
+    }
+    if (remaining > EPSILON) {
+        throw new HttpError(409, `Tax lots do not hold enough ${sale.symbol} to cover the sale of ${sale.quantity} on ${sale.executedAt.slice(0, 10)}.`);
+    }
+    return selections;
+}
+
+/**
+ * Disallows the loss on `quantity` sold shares against a replacement lot,
+ * splitting the lot if only part of it is used.
+ */
+function applyWashSale(disposal, replacement, quantity, openLots) {
+    let lot = replacement;
+    if (quantity < replacement.quantity - EPSILON) {
+        lot = { ...replacement, id: `${replacement.id}-w${disposal.id}`, quantity };
+        replacement.quantity -= quantity;
+        openLots.push(lot);
+    }
+    const lossPerUnit = -disposal.gain / disposal.quantity;
+    const heldMs = Date.parse(disposal.soldAt) - Date.parse(disposal.holdingPeriodStart);
+
+    lot.costPerUnit += lossPerUnit;
+    lot.washSaleAdjustment += lossPerUnit * quantity;
+    lot.holdingPeriodStart = new Date(Date.parse(lot.holdingPeriodStart) - heldMs).toISOString();
+    lot.isReplacement = true;
+    disposal.washSaleDisallowed += lossPerUnit * quantity;
+    disposal.washSaleLotIds.push(lot.id);
+}
+
+/**
+ * Replays opening lots and trades.
+ * @param {object} params
+ * @param {object[]} params.openingLots `{ id, symbol, quantity, costPerUnit, acquiredAt }`.
+ * @param {object[]} params.transactions The portfolio's transactions, in any order; only buys and sells are used.
+ * @param {string} [params.method] One of LOT_METHODS (default `fifo`).
+ * @returns {{ lots: object[], disposals: object[] }} Open lots and disposals, oldest first.
+ *   Money is unrounded; disposals' `gain` is before wash sale adjustments.
+ */
+function computeTaxLots({ openingLots = [], transactions, method = 'fifo' }) {
+    const lotMethod = getLotMethod(method);
+    const events = [
+        ...openingLots.map(lot => ({ kind: 'opening', time: lot.acquiredAt, lot })),
+        ...transactions
+            .filter(t => (t.type === 'buy' || t.type === 'sell') && t.symbol && t.quantity > 0)
+            .map(t => ({ kind: t.type, time: t.executedAt, transaction: t })),
+    ].sort((a, b) => a.time.localeCompare(b.time));
+
+    let openLots = [];
+    const disposals = [];
+    // Loss sales whose remaining quantity a later purchase can still wash.
+    const pendingLosses = [];
+
+    for (const event of events) {
+        if (event.kind === 'opening') {
+            openLots.push(createLot(event.lot));
+            continue;
+        }
+
+        const transaction = event.transaction;
+        if (event.kind === 'buy') {
+            const lot = createLot({
+                id: transaction.id,
+                symbol: transaction.symbol,
+                quantity: transaction.quantity,
+                costPerUnit: transaction.price,
+                acquiredAt: transaction.executedAt,
+            });
+            openLots.push(lot);
+            const windowStart = Date.parse(transaction.executedAt) - WASH_SALE_WINDOW_MS;
+            for (const pending of pendingLosses) {
+                if (pending.disposal.symbol !== lot.symbol || pending.remaining <= EPSILON || Date.parse(pending.disposal.soldAt) < windowStart) continue;
+                const available = openLots.find(candidate => candidate.id === transaction.id && !candidate.isReplacement);
+                if (!available) break;
+                const quantity = Math.min(pending.remaining, available.quantity);
+                applyWashSale(pending.disposal, available, quantity, openLots);
+                pending.remaining -= quantity;
+            }
+            continue;
+        }
+
+        const selections = selectLots(openLots, transaction, lotMethod);
+        const soldLotIds = new Set(selections.map(({ lot }) => lot.id));
+        const windowStart = Date.parse(transaction.executedAt) - WASH_SALE_WINDOW_MS;
+
+        selections.forEach(({ lot, quantity }, index) => {
+            const proceeds = quantity * transaction.price;
+            const costBasis = quantity * lot.costPerUnit;
+            const disposal = {
+                id: `${transaction.id}-${index + 1}`,
+                transactionId: transaction.id,
+                lotId: lot.id,
+                symbol: transaction.symbol,
+                quantity,
+                acquiredAt: lot.acquiredAt,
+                holdingPeriodStart: lot.holdingPeriodStart,
+                soldAt: transaction.executedAt,
+                proceeds,
+                costBasis,
+                gain: proceeds - costBasis,
+                term: holdingTerm(lot.holdingPeriodStart, transaction.executedAt),
+                washSaleDisallowed: 0,
+                washSaleLotIds: [],
+            };
+            lot.quantity -= quantity;
+            disposals.push(disposal);
+            if (disposal.gain >= 0) return;
+
+            // Replacement shares bought in the 30 days before the sale and still held.
+            let remaining = quantity;
+            const candidates = openLots.filter(candidate => candidate.symbol === transaction.symbol
+                && !soldLotIds.has(candidate.id)
+                && !candidate.isReplacement
+                && candidate.quantity > EPSILON
+                && Date.parse(candidate.acquiredAt) >= windowStart)
+                .sort(LOT_ORDER.fifo);
+            for (const candidate of candidates) {
+                if (remaining <= EPSILON) break;
+                const matched = Math.min(remaining, candidate.quantity);
+                applyWashSale(disposal, candidate, matched, openLots);
+                remaining -= matched;
+            }
+            if (remaining > EPSILON) pendingLosses.push({ disposal, remaining });
+        });
+        openLots = openLots.filter(lot => lot.quantity > EPSILON);
+    }
+
+    return { lots: openLots, disposals };
+}
+
+module.exports = {
+    LOT_METHODS,
+    getLotMethod,
+    holdingTerm,
+    computeTaxLots,
+};
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import taxLotService from './taxLotService.js';
+
+const { computeTaxLots, holdingTerm } = taxLotService;
+
+function buy(id, executedAt, quantity, price, symbol = 'AAPL') {
+    return { id, type: 'buy', symbol, quantity, price, executedAt: `${executedAt}T15:00:00.000Z` };
+}
+
+function sell(id, executedAt, quantity, price, extra = {}) {
+    return { id, type: 'sell', symbol: 'AAPL', quantity, price, executedAt: `${executedAt}T15:00:00.000Z`, ...extra };
+}
+
+describe('holdingTerm', () => {
+    it('is long-term only after the anniversary of the start date', () => {
+        expect(holdingTerm('2023-03-01T15:00:00.000Z', '2024-02-29T15:00:00.000Z')).toBe('short');
+        expect(holdingTerm('2023-03-01T15:00:00.000Z', '2024-03-01T15:00:00.000Z')).toBe('short');
+        expect(holdingTerm('2023-03-01T15:00:00.000Z', '2024-03-02T15:00:00.000Z')).toBe('long');
+    });
+
+    it('treats March 1 as the anniversary of February 29', () => {
+        expect(holdingTerm('2024-02-29T15:00:00.000Z', '2025-03-01T15:00:00.000Z')).toBe('short');
+        expect(holdingTerm('2024-02-29T15:00:00.000Z', '2025-03-02T15:00:00.000Z')).toBe('long');
+    });
+});
+
+describe('computeTaxLots', () => {
+    const transactions = [
+        buy('b1', '2022-01-10', 10, 100),
+        buy('b2', '2023-06-01', 10, 150),
+        buy('b3', '2023-09-01', 10, 120),
+        sell('s1', '2023-10-02', 15, 130),
+    ];
+
+    it('classifies each disposal as short- or long-term', () => {
+        const { disposals } = computeTaxLots({ transactions, method: 'fifo' });
+        expect(disposals.map(d => [d.lotId, d.quantity, d.term, d.gain])).toEqual([
+            ['b1', 10, 'long', 300],
+            ['b2', 5, 'short', -100],
+        ]);
+    });
+
+    it('chooses lots by the cost basis method', () => {
+        const lotsSold = method => computeTaxLots({ transactions, method }).disposals.map(d => [d.lotId, d.quantity]);
+        expect(lotsSold('lifo')).toEqual([['b3', 10], ['b2', 5]]);
+        expect(lotsSold('hifo')).toEqual([['b2', 10], ['b3', 5]]);
+    });
+
+    it('sells the lots a specific identification sale names', () => {
+        const specific = [
+            ...transactions.slice(0, 3),
+            sell('s1', '2023-10-02', 15, 130, { lots: [{ lotId: 'b3', quantity: 10 }, { lotId: 'b1', quantity: 5 }] }),
+        ];
+        const { lots, disposals } = computeTaxLots({ transactions: specific, method: 'specific' });
+        expect(disposals.map(d => [d.lotId, d.quantity, d.term])).toEqual([['b3', 10, 'short'], ['b1', 5, 'long']]);
+        expect(lots.map(lot => [lot.id, lot.quantity])).toEqual([['b1', 5], ['b2', 10]]);
+    });
+
+    it('rejects a specific identification sale whose lots do not add up to the quantity sold', () => {
+        const naming = lots => computeTaxLots({
+            transactions: [...transactions.slice(0, 3), sell('s1', '2023-10-02', 15, 130, { lots })],
+            method: 'specific',
+        });
+        expect(() => naming([{ lotId: 'b1', quantity: 10 }])).toThrow('hold 10 AAPL, not the 15 sold');
+        expect(() => naming([{ lotId: 'b1', quantity: 10 }, { lotId: 'b2', quantity: 10 }])).toThrow('hold 20 AAPL, not the 15 sold');
+    });
+
+    it('rejects a sale of more than the lots hold', () => {
+        expect(() => computeTaxLots({ transactions: [buy('b1', '2023-01-03', 5, 100), sell('s1', '2023-02-01', 6, 90)] }))
+            .toThrow(expect.objectContaining({ status: 409 }));
+    });
+});
+
+describe('wash sales', () => {
+    it('adds the disallowed loss to shares bought within 30 days after the sale', () => {
+        const { lots, disposals } = computeTaxLots({
+            transactions: [
+                buy('b1', '2024-01-02', 10, 100),
+                sell('s1', '2024-03-01', 10, 80),
+                buy('b2', '2024-03-15', 10, 85),
+            ],
+        });
+        expect(disposals).toHaveLength(1);
+        expect(disposals[0]).toMatchObject({ gain: -200, washSaleDisallowed: 200, washSaleLotIds: ['b2'] });
+        // The 59 days the sold shares were held carry over to the replacement.
+        expect(lots).toEqual([expect.objectContaining({
+            id: 'b2',
+            quantity: 10,
+            costPerUnit: 105,
+            washSaleAdjustment: 200,
+            holdingPeriodStart: '2024-01-16T15:00:00.000Z',
+        })]);
+    });
+
+    it('washes shares bought within 30 days before the sale, and later purchases for the rest', () => {
+        const { lots, disposals } = computeTaxLots({
+            transactions: [
+                buy('b1', '2024-01-02', 10, 100),
+                buy('b2', '2024-02-20', 5, 90),
+                sell('s1', '2024-03-01', 10, 80),
+                buy('b3', '2024-03-20', 2, 85),
+            ],
+        });
+        expect(disposals[0]).toMatchObject({ lotId: 'b1', gain: -200, washSaleDisallowed: 140, washSaleLotIds: ['b2', 'b3'] });
+        expect(lots.map(lot => [lot.id, lot.quantity, lot.costPerUnit, lot.washSaleAdjustment])).toEqual([
+            ['b2', 5, 110, 100],
+            ['b3', 2, 105, 40],
+        ]);
+    });
+
+    it('splits a replacement lot that is larger than the washed quantity', () => {
+        const { lots, disposals } = computeTaxLots({
+            transactions: [
+                buy('b1', '2024-01-02', 4, 100),
+                sell('s1', '2024-03-01', 4, 80),
+                buy('b2', '2024-03-10', 10, 85),
+            ],
+        });
+        expect(disposals[0]).toMatchObject({ washSaleDisallowed: 80, washSaleLotIds: ['b2-ws1-1'] });
+        expect(lots.map(lot => [lot.id, lot.quantity, lot.costPerUnit])).toEqual([
+            ['b2', 6, 85],
+            ['b2-ws1-1', 4, 105],
+        ]);
+    });
+
+    it('leaves losses alone without a purchase inside the window, and gains alone always', () => {
+        const { lots, disposals } = computeTaxLots({
+            transactions: [
+                buy('b1', '2024-01-02', 10, 100),
+                sell('s1', '2024-03-01', 5, 80),
+                sell('s2', '2024-03-02', 5, 120),
+                buy('b2', '2024-04-01', 10, 85),
+            ],
+        });
+        expect(disposals.map(d => [d.gain, d.washSaleDisallowed])).toEqual([[-100, 0], [100, 0]]);
+        expect(lots).toEqual([expect.objectContaining({ id: 'b2', costPerUnit: 85, washSaleAdjustment: 0 })]);
+    });
+
+    it('can make a replacement long-term through the carried-over holding period', () => {
+        const { disposals } = computeTaxLots({
+            transactions: [
+                buy('b1', '2023-01-02', 10, 100),
+                sell('s1', '2023-12-01', 10, 80),
+                buy('b2', '2023-12-15', 10, 85),
+                sell('s2', '2024-02-01', 10, 90),
+            ],
+        });
+        expect(disposals[1]).toMatchObject({ lotId: 'b2', holdingPeriodStart: '2023-01-16T15:00:00.000Z', term: 'long', gain: -150 });
+    });
+});
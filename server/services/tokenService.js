@@ -0,0 +1,101 @@
+const crypto = require('crypto');
+const { createJsonStore } = require('../repositories/jsonStore');
+
+/**
+ * Issues and verifies HS256 JSON Web Tokens and keeps the list of revoked token ids.
+ */
+
+const ACCESS_TOKEN_TTL_SECONDS = 8 * 60 * 60;
+const PRE_AUTH_TOKEN_TTL_SECONDS = 5 * 60;
+
+const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.JWT_SECRET) {
+    console.warn('⚠️  JWT_SECRET is not set; using a random secret. Sessions will not survive a restart.');
+}
+
+const revocations = createJsonStore('revoked-tokens.json', () => ({ revoked: {} }));
+
+function base64url(input) {
+    return Buffer.from(input).toString('base64url');
+}
+
+function signature(data) {
+    return crypto.createHmac('sha256', JWT_SECRET).update(data).digest('base64url');
+}
+
+function sign(payload, ttlSeconds) {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const body = base64url(JSON.stringify({ ...payload, jti: crypto.randomUUID(), iat: now, exp: now + ttlSeconds }));
+    return `${header}.${body}.${signature(`${header}.${body}`)}`;
+}
+
+/**
+ * Issues a full access token for an authenticated user.
+ */
+function issueAccessToken(user) {
+    return sign({ sub: user.id, typ: 'access' }, ACCESS_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Issues a short-lived token proving the password step succeeded. It is only
+ * accepted by the 2FA verification route.
+ */
+function issuePreAuthToken(user) {
+    return sign({ sub: user.id, typ: 'pre-auth' }, PRE_AUTH_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Verifies a token's signature, expiry, type and revocation status.
+ * @param {string} token The encoded JWT.
+ * @param {'access' | 'pre-auth'} expectedType The token type the caller requires.
+ * @returns The decoded payload, or null if the token is not acceptable.
+ */
+function verify(token, expectedType) {
+    if (typeof token !== 'string') return null;
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    const [header, body, sig] = parts;
+    const expected = Buffer.from(signature(`${header}.${body}`));
+    const actual = Buffer.from(sig);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    let payload;
+    try {
+        payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+
+    if (payload.typ !== expectedType) return null;
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) return null;
+    if (isRevoked(payload.jti)) return null;
+    return payload;
+}
+
+function isRevoked(jti) {
+    return Object.prototype.hasOwnProperty.call(revocations.read().revoked, jti);
+}
+
+/**
+ * Revokes a token until it would have expired anyway, pruning entries that have lapsed.
+ */
+function revoke(payload) {
+    const now = Math.floor(Date.now() / 1000);
+    revocations.update(doc => {
+        for (const [jti, exp] of Object.entries(doc.revoked)) {
+            if (exp <= now) delete doc.revoked[jti];
+        }
+        doc.revoked[payload.jti] = payload.exp;
+    });
+}
+
+module.exports = {
+    issueAccessToken,
+    issuePreAuthToken,
+    verify,
+    revoke,
+};
@@ -0,0 +1,130 @@
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+const traderRepository = require('../repositories/traderRepository');
+const { hashString, createRandom } = require('../utils/random');
+
+/**
+ * Simulated trading by the social trading leaders. Every
+ * `TRADER_ACTIVITY_INTERVAL_MS` the next trader in turn trades: a buy sized as
+ * a fraction of their portfolio, or a sale of part or all of a holding.
+ * Trades are expressed as fractions so followers can mirror them in
+ * proportion to their own allocation.
+ *
+ * @typedef {object} TraderTrade
+ * @property {string} id
+ * @property {string} traderId
+ * @property {string} symbol
+ * @property {'buy' | 'sell'} side
+ * @property {number} fraction For buys, the fraction of the trader's
+ *   portfolio spent; for sells, the fraction of the holding sold.
+ * @property {string} executedAt
+ */
+
+const INTERVAL_MS = Number(process.env.TRADER_ACTIVITY_INTERVAL_MS) || 2 * 60 * 1000;
+const MAX_RECENT_TRADES = 10;
+const MIN_BUY_FRACTION = 0.02;
+const MAX_BUY_FRACTION = 0.08;
+const SELL_FRACTIONS = [0.25, 0.5, 1];
+// Traders keep at least this much of their portfolio in cash.
+const MIN_CASH_FRACTION = 0.05;
+
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+// Each trader's current holdings (fractions of their portfolio) and recent trades.
+const states = new Map(traderRepository.listAll().map(trader => [trader.id, {
+    random: createRandom(hashString(trader.id)),
+    holdings: trader.holdings,
+    recentTrades: [],
+}]));
+let turn = 0;
+let timer = null;
+
+function cashFraction(holdings) {
+    return 1 - Object.values(holdings).reduce((sum, weight) => sum + weight, 0);
+}
+
+function roundFraction(value) {
+    return Math.round(value * 10000) / 10000;
+}
+
+/** Picks and applies the trader's next trade. */
+function nextTrade(trader, state) {
+    const { random, holdings } = state;
+    const held = Object.keys(holdings);
+    const cash = cashFraction(holdings) - MIN_CASH_FRACTION;
+    const trade = { id: crypto.randomUUID(), traderId: trader.id, executedAt: new Date().toISOString() };
+
+    if (held.length && (cash < MIN_BUY_FRACTION || random() < 0.4)) {
+        const symbol = held[Math.floor(random() * held.length)];
+        const fraction = SELL_FRACTIONS[Math.floor(random() * SELL_FRACTIONS.length)];
+        const remaining = roundFraction(holdings[symbol] * (1 - fraction));
+        if (remaining > 0) holdings[symbol] = remaining;
+        else delete holdings[symbol];
+        return { ...trade, symbol, side: 'sell', fraction };
+    }
+
+    const symbol = trader.universe[Math.floor(random() * trader.universe.length)];
+    const fraction = roundFraction(Math.min(cash, MIN_BUY_FRACTION + random() * (MAX_BUY_FRACTION - MIN_BUY_FRACTION)));
+    holdings[symbol] = roundFraction((holdings[symbol] ?? 0) + fraction);
+    return { ...trade, symbol, side: 'buy', fraction };
+}
+
+function toView(trader) {
+    const state = states.get(trader.id);
+    const { universe, ...fields } = trader;
+    return { ...fields, holdings: { ...state.holdings }, recentTrades: [...state.recentTrades] };
+}
+
+/** The leaders with their current holdings and recent trades, newest first. */
+function listTraders() {
+    return traderRepository.listAll().map(toView);
+}
+
+function getTrader(id) {
+    const trader = traderRepository.findById(id);
+    return trader && toView(trader);
+}
+
+/**
+ * Calls `listener(trade)` for every trade a leader makes.
+ * @returns A function that stops listening.
+ */
+function subscribe(listener) {
+    events.on('trade', listener);
+    return () => events.off('trade', listener);
+}
+
+function tick() {
+    const traders = traderRepository.listAll();
+    const trader = traders[turn % traders.length];
+    turn++;
+    const state = states.get(trader.id);
+    const trade = nextTrade(trader, state);
+    state.recentTrades.unshift(trade);
+    state.recentTrades.length = Math.min(state.recentTrades.length, MAX_RECENT_TRADES);
+    events.emit('trade', trade);
+}
+
+/**
+ * Starts the simulated trading.
+ */
+function start() {
+    if (timer) return;
+    timer = setInterval(() => {
+        try {
+            tick();
+        } catch (error) {
+            console.error('Trader activity failed:', error);
+        }
+    }, INTERVAL_MS);
+    timer.unref();
+}
+
+module.exports = {
+    INTERVAL_MS,
+    listTraders,
+    getTrader,
+    subscribe,
+    start,
+};
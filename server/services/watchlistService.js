@@ -0,0 +1,53 @@
+const watchlistRepository = require('../repositories/watchlistRepository');
+const marketDataService = require('./marketDataService');
+const { HttpError } = require('../utils/httpError');
+
+/**
+ * Watchlists: symbols a user tracks without holding them. Quotes are attached
+ * from the market data feed; the client keeps them moving over the price
+ * stream.
+ */
+
+const MAX_WATCHLIST_SYMBOLS = 25;
+
+function listSymbols(userId) {
+    return watchlistRepository.findByUserId(userId)?.symbols ?? [];
+}
+
+/**
+ * The user's watchlist in the order symbols were added, each with its latest quote.
+ */
+async function getWatchlist(userId) {
+    const symbols = listSymbols(userId);
+    return { symbols, quotes: symbols.length ? await marketDataService.getQuotes(symbols) : [] };
+}
+
+/** Adds a symbol; adding one already on the list is a no-op. */
+async function addSymbol(userId, symbol) {
+    const normalized = marketDataService.requireSymbol(symbol);
+    const symbols = listSymbols(userId);
+    if (!symbols.includes(normalized)) {
+        if (symbols.length >= MAX_WATCHLIST_SYMBOLS) {
+            throw new HttpError(400, `A watchlist can hold at most ${MAX_WATCHLIST_SYMBOLS} symbols.`);
+        }
+        watchlistRepository.setSymbols(userId, [...symbols, normalized]);
+    }
+    return getWatchlist(userId);
+}
+
+async function removeSymbol(userId, symbol) {
+    const normalized = marketDataService.requireSymbol(symbol);
+    const symbols = listSymbols(userId);
+    if (!symbols.includes(normalized)) {
+        throw new HttpError(404, `${normalized} is not on your watchlist.`);
+    }
+    watchlistRepository.setSymbols(userId, symbols.filter(s => s !== normalized));
+    return getWatchlist(userId);
+}
+
+module.exports = {
+    listSymbols,
+    getWatchlist,
+    addSymbol,
+    removeSymbol,
+};
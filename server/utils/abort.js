@@ -0,0 +1,29 @@
+/**
+ * Returns a signal that aborts if the client disconnects before the response is sent,
+ * so upstream work for an abandoned request can be cancelled.
+ */
+function requestSignal(res) {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort(new Error('Client disconnected.'));
+    });
+    return controller.signal;
+}
+
+/** Waits for `ms`, rejecting early with the signal's reason if it aborts. */
+function sleep(ms, signal) {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+module.exports = { requestSignal, sleep };
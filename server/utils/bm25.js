@@ -0,0 +1,78 @@
+/**
+ * A small in-memory BM25 index for ranking short passages against a query.
+ * Text is lower-cased, split on anything that isn't a letter or digit, stripped
+ * of common English stop words and lightly stemmed (plurals only), so "fees"
+ * matches "fee" and "policies" matches "policy".
+ */
+
+// Includes the filler of typed questions ("please tell me about...").
+const STOP_WORDS = new Set([
+    'a', 'about', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'do', 'does', 'explain',
+    'for', 'from', 'give', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'know', 'me', 'my',
+    'of', 'on', 'or', 'our', 'please', 'show', 'so', 'tell', 'that', 'the', 'their', 'them', 'there', 'this',
+    'to', 'was', 'we', 'what', 'when', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+function stem(word) {
+    if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+}
+
+/** @param {string} text */
+function tokenize(text) {
+    return String(text ?? '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word && !STOP_WORDS.has(word))
+        .map(stem);
+}
+
+/**
+ * @param {Array<{ id: string, text: string }>} documents
+ * @param {{ k1?: number, b?: number }} [options] Term frequency saturation and length normalisation.
+ * @returns {{ search(query: string, limit?: number): Array<{ id: string, score: number }> }}
+ */
+function createBm25Index(documents, { k1 = 1.2, b = 0.75 } = {}) {
+    const entries = documents.map(({ id, text }) => {
+        const frequencies = new Map();
+        const tokens = tokenize(text);
+        for (const token of tokens) frequencies.set(token, (frequencies.get(token) || 0) + 1);
+        return { id, length: tokens.length, frequencies };
+    });
+    const averageLength = entries.reduce((sum, entry) => sum + entry.length, 0) / (entries.length || 1);
+
+    const documentFrequencies = new Map();
+    for (const { frequencies } of entries) {
+        for (const token of frequencies.keys()) {
+            documentFrequencies.set(token, (documentFrequencies.get(token) || 0) + 1);
+        }
+    }
+    const idf = token => {
+        const n = documentFrequencies.get(token) || 0;
+        return Math.log(1 + (entries.length - n + 0.5) / (n + 0.5));
+    };
+
+    return {
+        search(query, limit = 5) {
+            const terms = [...new Set(tokenize(query))];
+            return entries
+                .map(({ id, length, frequencies }) => ({
+                    id,
+                    score: terms.reduce((score, term) => {
+                        const tf = frequencies.get(term);
+                        if (!tf) return score;
+                        return score + idf(term) * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * length / averageLength));
+                    }, 0),
+                }))
+                .filter(result => result.score > 0)
+                .sort((x, y) => y.score - x.score)
+                .slice(0, limit);
+        },
+    };
+}
+
+module.exports = {
+    tokenize,
+    createBm25Index,
+};
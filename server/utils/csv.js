@@ -0,0 +1,28 @@
+/**
+ * Minimal CSV encoder (RFC 4180): fields containing a comma, quote or line
+ * break are quoted, and lines end with CRLF.
+ */
+
+// Text starting with one of these is treated as a formula by spreadsheet apps.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function encodeField(value) {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    // Numbers are written as-is so negative amounts stay numeric.
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * @param {string[]} headers
+ * @param {Array<Array<string | number | null>>} rows
+ * @returns {string}
+ */
+function toCsv(headers, rows) {
+    return [headers, ...rows].map(row => row.map(encodeField).join(',')).join('\r\n') + '\r\n';
+}
+
+module.exports = { toCsv };
@@ -0,0 +1,21 @@
+/**
+ * An error that carries the HTTP status code it should be reported with.
+ */
+class HttpError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+/**
+ * Wraps an async route handler so rejected promises reach Express's error middleware.
+ */
+function asyncHandler(handler) {
+    return (req, res, next) => {
+        Promise.resolve(handler(req, res, next)).catch(next);
+    };
+}
+
+module.exports = { HttpError, asyncHandler };
@@ -0,0 +1,275 @@
+/**
+ * Minimal MP4 (H.264) encoder for short generated clips such as mock video
+ * output. Every frame is an IDR picture made of I_PCM macroblocks, i.e. raw
+ * uncompressed samples: no codec is needed, at the cost of large files, so
+ * keep clips small (a few seconds at low resolution).
+ */
+
+const PROFILE_BASELINE = 66;
+const LEVEL = 30;
+const CONSTRAINT_FLAGS = 0xc0; // constraint_set0 and constraint_set1: decodable as baseline
+
+function createBitWriter() {
+    const output = [];
+    let current = 0;
+    let bitCount = 0;
+
+    const writer = {
+        bit(value) {
+            current = (current << 1) | (value & 1);
+            if (++bitCount === 8) {
+                output.push(current);
+                current = 0;
+                bitCount = 0;
+            }
+        },
+        bits(value, count) {
+            for (let i = count - 1; i >= 0; i--) writer.bit(value >>> i);
+        },
+        /** Unsigned Exp-Golomb code. */
+        ue(value) {
+            const length = 32 - Math.clz32(value + 1);
+            writer.bits(0, length - 1);
+            writer.bits(value + 1, length);
+        },
+        /** Signed Exp-Golomb code. */
+        se(value) {
+            writer.ue(value <= 0 ? -2 * value : 2 * value - 1);
+        },
+        alignWithZeros() {
+            while (bitCount !== 0) writer.bit(0);
+        },
+        /** rbsp_trailing_bits: a stop bit, then zeros up to the byte boundary. */
+        trailingBits() {
+            writer.bit(1);
+            writer.alignWithZeros();
+        },
+        bytes(data) {
+            for (const byte of data) writer.bits(byte, 8);
+        },
+        toBuffer() {
+            return Buffer.from(output);
+        },
+    };
+    return writer;
+}
+
+/** Wraps an RBSP in a NAL unit, inserting emulation prevention bytes. */
+function nalUnit(refIdc, type, rbsp) {
+    const out = [(refIdc << 5) | type];
+    let zeros = 0;
+    for (const byte of rbsp) {
+        if (zeros >= 2 && byte <= 3) {
+            out.push(3);
+            zeros = 0;
+        }
+        out.push(byte);
+        zeros = byte === 0 ? zeros + 1 : 0;
+    }
+    return Buffer.from(out);
+}
+
+function sequenceParameterSet(width, height) {
+    const w = createBitWriter();
+    w.bits(PROFILE_BASELINE, 8);
+    w.bits(CONSTRAINT_FLAGS, 8);
+    w.bits(LEVEL, 8);
+    w.ue(0); // seq_parameter_set_id
+    w.ue(0); // log2_max_frame_num_minus4
+    w.ue(2); // pic_order_cnt_type: output order follows decode order
+    w.ue(1); // max_num_ref_frames
+    w.bit(0); // gaps_in_frame_num_value_allowed_flag
+    w.ue(width / 16 - 1); // pic_width_in_mbs_minus1
+    w.ue(height / 16 - 1); // pic_height_in_map_units_minus1
+    w.bit(1); // frame_mbs_only_flag
+    w.bit(1); // direct_8x8_inference_flag
+    w.bit(0); // frame_cropping_flag
+    w.bit(0); // vui_parameters_present_flag
+    w.trailingBits();
+    return nalUnit(3, 7, w.toBuffer());
+}
+
+function pictureParameterSet() {
+    const w = createBitWriter();
+    w.ue(0); // pic_parameter_set_id
+    w.ue(0); // seq_parameter_set_id
+    w.bit(0); // entropy_coding_mode_flag: CAVLC
+    w.bit(0); // bottom_field_pic_order_in_frame_present_flag
+    w.ue(0); // num_slice_groups_minus1
+    w.ue(0); // num_ref_idx_l0_default_active_minus1
+    w.ue(0); // num_ref_idx_l1_default_active_minus1
+    w.bit(0); // weighted_pred_flag
+    w.bits(0, 2); // weighted_bipred_idc
+    w.se(0); // pic_init_qp_minus26
+    w.se(0); // pic_init_qs_minus26
+    w.se(0); // chroma_qp_index_offset
+    w.bit(1); // deblocking_filter_control_present_flag
+    w.bit(0); // constrained_intra_pred_flag
+    w.bit(0); // redundant_pic_cnt_present_flag
+    w.trailingBits();
+    return nalUnit(3, 8, w.toBuffer());
+}
+
+function clampSample(value) {
+    return Math.min(254, Math.max(1, Math.round(value)));
+}
+
+/**
+ * Converts an RGB frame to BT.601 limited-range 4:2:0 planes.
+ */
+function toYuv420(width, height, rgb) {
+    const luma = new Uint8Array(width * height);
+    const cb = new Uint8Array((width / 2) * (height / 2));
+    const cr = new Uint8Array((width / 2) * (height / 2));
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 3;
+            const r = rgb[i];
+            const g = rgb[i + 1];
+            const b = rgb[i + 2];
+            luma[y * width + x] = clampSample(16 + (65.738 * r + 129.057 * g + 25.064 * b) / 256);
+            if (x % 2 === 0 && y % 2 === 0) {
+                const c = (y / 2) * (width / 2) + x / 2;
+                cb[c] = clampSample(128 + (-37.945 * r - 74.494 * g + 112.439 * b) / 256);
+                cr[c] = clampSample(128 + (112.439 * r - 94.154 * g - 18.285 * b) / 256);
+            }
+        }
+    }
+    return { luma, cb, cr };
+}
+
+/** One IDR slice covering the whole picture, coded entirely as I_PCM macroblocks. */
+function idrSlice(width, height, rgb, idrPicId) {
+    const { luma, cb, cr } = toYuv420(width, height, rgb);
+    const chromaWidth = width / 2;
+    const w = createBitWriter();
+    w.ue(0); // first_mb_in_slice
+    w.ue(7); // slice_type: I (all slices in the picture)
+    w.ue(0); // pic_parameter_set_id
+    w.bits(0, 4); // frame_num
+    w.ue(idrPicId);
+    w.bit(0); // no_output_of_prior_pics_flag
+    w.bit(0); // long_term_reference_flag
+    w.se(0); // slice_qp_delta
+    w.ue(1); // disable_deblocking_filter_idc: off
+
+    for (let mbY = 0; mbY < height / 16; mbY++) {
+        for (let mbX = 0; mbX < width / 16; mbX++) {
+            w.ue(25); // mb_type: I_PCM
+            w.alignWithZeros(); // pcm_alignment_zero_bit
+            for (let y = 0; y < 16; y++) {
+                const row = (mbY * 16 + y) * width + mbX * 16;
+                w.bytes(luma.subarray(row, row + 16));
+            }
+            for (const plane of [cb, cr]) {
+                for (let y = 0; y < 8; y++) {
+                    const row = (mbY * 8 + y) * chromaWidth + mbX * 8;
+                    w.bytes(plane.subarray(row, row + 8));
+                }
+            }
+        }
+    }
+    w.trailingBits();
+    return nalUnit(3, 5, w.toBuffer());
+}
+
+function uint32(value) {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(value >>> 0);
+    return buffer;
+}
+
+function uint16(value) {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16BE(value);
+    return buffer;
+}
+
+function box(type, ...payload) {
+    const body = Buffer.concat(payload);
+    return Buffer.concat([uint32(body.length + 8), Buffer.from(type, 'ascii'), body]);
+}
+
+function fullBox(type, version, flags, ...payload) {
+    return box(type, uint32((version << 24) | flags), ...payload);
+}
+
+const IDENTITY_MATRIX = Buffer.concat([0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000].map(uint32));
+
+function sampleEntry(width, height, sps, pps) {
+    const avcC = box('avcC',
+        Buffer.from([1, PROFILE_BASELINE, CONSTRAINT_FLAGS, LEVEL, 0xff, 0xe1]), // 4-byte NAL lengths, 1 SPS
+        uint16(sps.length), sps,
+        Buffer.from([1]), uint16(pps.length), pps);
+    return box('avc1',
+        Buffer.alloc(6), uint16(1), // reserved, data_reference_index
+        Buffer.alloc(16), // pre_defined and reserved
+        uint16(width), uint16(height),
+        uint32(0x00480000), uint32(0x00480000), // 72 dpi
+        uint32(0), uint16(1), // reserved, frame_count
+        Buffer.alloc(32), // compressorname
+        uint16(0x18), uint16(0xffff), // depth, pre_defined
+        avcC);
+}
+
+function movieBox({ width, height, fps, sps, pps, sampleSizes, chunkOffset }) {
+    const timescale = 1000;
+    const sampleDelta = Math.round(timescale / fps);
+    const duration = sampleDelta * sampleSizes.length;
+
+    const stbl = box('stbl',
+        fullBox('stsd', 0, 0, uint32(1), sampleEntry(width, height, sps, pps)),
+        fullBox('stts', 0, 0, uint32(1), uint32(sampleSizes.length), uint32(sampleDelta)),
+        fullBox('stsc', 0, 0, uint32(1), uint32(1), uint32(sampleSizes.length), uint32(1)),
+        fullBox('stsz', 0, 0, uint32(0), uint32(sampleSizes.length), ...sampleSizes.map(uint32)),
+        fullBox('stco', 0, 0, uint32(1), uint32(chunkOffset)));
+    // No stss box: every sample is a sync sample.
+
+    const minf = box('minf',
+        fullBox('vmhd', 0, 1, Buffer.alloc(8)),
+        box('dinf', fullBox('dref', 0, 0, uint32(1), fullBox('url ', 0, 1))),
+        stbl);
+    const mdia = box('mdia',
+        fullBox('mdhd', 0, 0, uint32(0), uint32(0), uint32(timescale), uint32(duration), uint16(0x55c4), uint16(0)), // language "und"
+        fullBox('hdlr', 0, 0, uint32(0), Buffer.from('vide', 'ascii'), Buffer.alloc(12), Buffer.from('VideoHandler\0', 'ascii')),
+        minf);
+    const trak = box('trak',
+        fullBox('tkhd', 0, 3, uint32(0), uint32(0), uint32(1), uint32(0), uint32(duration), // enabled, in movie
+            Buffer.alloc(8), uint16(0), uint16(0), uint16(0), uint16(0), // reserved, layer, group, volume, reserved
+            IDENTITY_MATRIX, uint32(width << 16), uint32(height << 16)),
+        mdia);
+    return box('moov',
+        fullBox('mvhd', 0, 0, uint32(0), uint32(0), uint32(timescale), uint32(duration),
+            uint32(0x00010000), uint16(0x0100), Buffer.alloc(10), // rate 1.0, volume 1.0, reserved
+            IDENTITY_MATRIX, Buffer.alloc(24), uint32(2)), // pre_defined, next_track_ID
+        trak);
+}
+
+/**
+ * Encodes RGB frames as an MP4 video.
+ * @param {Uint8Array[]} frames RGB pixel data per frame, 3 bytes per pixel.
+ * @param {{ width: number, height: number, fps: number }} options Width and height must be multiples of 16.
+ * @returns {Buffer}
+ */
+function encodeMp4(frames, { width, height, fps }) {
+    if (width % 16 !== 0 || height % 16 !== 0) {
+        throw new Error('Width and height must be multiples of 16.');
+    }
+    const sps = sequenceParameterSet(width, height);
+    const pps = pictureParameterSet();
+    // Consecutive IDR pictures must carry different idr_pic_id values.
+    const samples = frames.map((rgb, index) => {
+        const nal = idrSlice(width, height, rgb, index % 2);
+        return Buffer.concat([uint32(nal.length), nal]);
+    });
+    const sampleSizes = samples.map(sample => sample.length);
+
+    const ftyp = box('ftyp', Buffer.from('isom', 'ascii'), uint32(0x200), Buffer.from('isomiso2avc1mp41', 'ascii'));
+    // The moov size does not depend on the offset value, so measure it once with a placeholder.
+    const moovSize = movieBox({ width, height, fps, sps, pps, sampleSizes, chunkOffset: 0 }).length;
+    const moov = movieBox({ width, height, fps, sps, pps, sampleSizes, chunkOffset: ftyp.length + moovSize + 8 });
+    const mdat = box('mdat', ...samples);
+    return Buffer.concat([ftyp, moov, mdat]);
+}
+
+module.exports = { encodeMp4 };
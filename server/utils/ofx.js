@@ -0,0 +1,80 @@
+/**
+ * Minimal OFX 2.2 (XML) encoder for a bank statement download, the format
+ * accounting packages import as a "Web Connect" or bank statement file.
+ */
+
+// OFX transaction types (TRNTYPE) accepted in a bank statement.
+const OFX_TRANSACTION_TYPES = ['CREDIT', 'DEBIT', 'INT', 'DIV', 'FEE', 'SRVCHG', 'DEP', 'ATM', 'POS', 'XFER', 'CHECK', 'PAYMENT', 'CASH', 'DIRECTDEP', 'DIRECTDEBIT', 'REPEATPMT', 'OTHER'];
+const MAX_NAME_LENGTH = 32;
+const MAX_MEMO_LENGTH = 255;
+
+function escapeXml(text) {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/** OFX datetime in UTC, e.g. `20250301143000.000[0:GMT]`. */
+function formatOfxDate(time) {
+    const iso = new Date(time).toISOString();
+    return `${iso.slice(0, 19).replace(/[-T:]/g, '')}.${iso.slice(20, 23)}[0:GMT]`;
+}
+
+function formatAmount(amount) {
+    return amount.toFixed(2);
+}
+
+function element(tag, content) {
+    return `<${tag}>${content}</${tag}>`;
+}
+
+function statusElement() {
+    return element('STATUS', element('CODE', 0) + element('SEVERITY', 'INFO'));
+}
+
+/**
+ * @param {object} statement
+ * @param {string} statement.bankId
+ * @param {string} statement.accountId At most 22 characters.
+ * @param {string} statement.accountType e.g. `CHECKING` or `MONEYMRKT`.
+ * @param {string} statement.currency ISO 4217 code.
+ * @param {string} statement.start Start of the statement period (ISO timestamp).
+ * @param {string} statement.end End of the statement period (ISO timestamp).
+ * @param {{ id: string, type: string, postedAt: string, amount: number, name: string, memo?: string }[]} statement.transactions
+ *   `type` is one of OFX_TRANSACTION_TYPES; `amount` is signed.
+ * @param {{ amount: number, asOf: string }} statement.balance Ledger balance at the end of the period.
+ * @param {Date} [now]
+ * @returns {string}
+ */
+function toOfxStatement({ bankId, accountId, accountType, currency, start, end, transactions, balance }, now = new Date()) {
+    const entries = transactions.map(transaction => {
+        if (!OFX_TRANSACTION_TYPES.includes(transaction.type)) {
+            throw new Error(`Unsupported OFX transaction type: ${transaction.type}`);
+        }
+        return element('STMTTRN',
+            element('TRNTYPE', transaction.type) +
+            element('DTPOSTED', formatOfxDate(transaction.postedAt)) +
+            element('TRNAMT', formatAmount(transaction.amount)) +
+            element('FITID', escapeXml(transaction.id)) +
+            element('NAME', escapeXml(transaction.name.slice(0, MAX_NAME_LENGTH))) +
+            (transaction.memo ? element('MEMO', escapeXml(transaction.memo.slice(0, MAX_MEMO_LENGTH))) : ''));
+    });
+
+    const statement = element('STMTRS',
+        element('CURDEF', currency) +
+        element('BANKACCTFROM', element('BANKID', escapeXml(bankId)) + element('ACCTID', escapeXml(accountId)) + element('ACCTTYPE', accountType)) +
+        element('BANKTRANLIST', element('DTSTART', formatOfxDate(start)) + element('DTEND', formatOfxDate(end)) + entries.join('')) +
+        element('LEDGERBAL', element('BALAMT', formatAmount(balance.amount)) + element('DTASOF', formatOfxDate(balance.asOf))));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+        element('OFX',
+            element('SIGNONMSGSRSV1', element('SONRS', statusElement() + element('DTSERVER', formatOfxDate(now)) + element('LANGUAGE', 'ENG'))) +
+            element('BANKMSGSRSV1', element('STMTTRNRS', element('TRNUID', 0) + statusElement() + statement))),
+        '',
+    ].join('\n');
+}
+
+module.exports = { OFX_TRANSACTION_TYPES, toOfxStatement };
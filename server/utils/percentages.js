@@ -0,0 +1,31 @@
+/**
+ * Converts values to percentages of `total` that add up exactly to `total`
+ * after rounding, using the largest remainder method: every share is rounded
+ * down, then the leftover units go to the shares that lost the most.
+ * @param {number[]} values Non-negative amounts, e.g. market values.
+ * @param {number} [total=100] What the percentages should sum to.
+ * @param {number} [decimals=1]
+ * @returns {number[]} Percentages in the same order as `values`.
+ */
+function roundToTotal(values, total = 100, decimals = 1) {
+    const scale = 10 ** decimals;
+    const sum = values.reduce((acc, value) => acc + value, 0);
+    if (!sum) return values.map(() => 0);
+
+    const units = Math.round(total * scale);
+    const exact = values.map(value => (value / sum) * units);
+    const floored = exact.map(Math.floor);
+    let leftover = units - floored.reduce((acc, value) => acc + value, 0);
+
+    const byRemainder = exact
+        .map((value, index) => ({ index, remainder: value - floored[index] }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+    for (const { index } of byRemainder) {
+        if (leftover <= 0) break;
+        floored[index] += 1;
+        leftover -= 1;
+    }
+    return floored.map(unit => unit / scale);
+}
+
+module.exports = { roundToTotal };
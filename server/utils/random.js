@@ -0,0 +1,53 @@
+/**
+ * Deterministic pseudo-random helpers for seeded and simulated data. Not
+ * suitable for anything security-related; use `crypto` for that.
+ */
+
+/** 32-bit FNV-1a hash, used to derive a seed from text. */
+function hashString(text) {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/** mulberry32: a small seeded PRNG returning numbers in [0, 1). */
+function createRandom(seed) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** A standard normal sample (Box-Muller) from a uniform generator. */
+function normal(random) {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * A random path from `start` to `end` (a Brownian bridge), for simulating
+ * intraday moves between two known prices.
+ * @param {() => number} random Uniform generator.
+ * @param {number} steps Number of intervals; the path has `steps + 1` points.
+ * @param {number} volatility Standard deviation of each step, relative to `start`.
+ */
+function brownianBridge(random, start, end, steps, volatility) {
+    const walk = [0];
+    for (let i = 1; i <= steps; i++) {
+        walk.push(walk[i - 1] + normal(random) * volatility);
+    }
+    return walk.map((w, i) => {
+        const fraction = i / steps;
+        return start + (end - start) * fraction + (w - fraction * walk[steps]) * start;
+    });
+}
+
+module.exports = { hashString, createRandom, normal, brownianBridge };
@@ -0,0 +1,105 @@
+const crypto = require('crypto');
+
+/**
+ * RFC 6238 time-based one-time passwords (TOTP) for server-side 2FA verification.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const DIGITS = 6;
+const PERIOD_SECONDS = 30;
+
+function base32Encode(buffer) {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(input) {
+    const clean = input.toUpperCase().replace(/[\s=]/g, '');
+    const bytes = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character "${char}".`);
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * Generates a 160-bit base32 secret, as recommended by RFC 4226.
+ */
+function generateSecret() {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Builds the otpauth:// URI that authenticator apps read from a QR code.
+ */
+function buildOtpAuthUrl(secret, account, issuer = 'FULXERPRO') {
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`;
+}
+
+function hotp(key, counter) {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const hmac = crypto.createHmac('sha1', key).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+function currentStep(now = Date.now()) {
+    return Math.floor(now / 1000 / PERIOD_SECONDS);
+}
+
+function generateCode(secret, now = Date.now()) {
+    return hotp(base32Decode(secret), currentStep(now));
+}
+
+/**
+ * Finds the time step a code belongs to, allowing ±`window` steps of clock drift.
+ * @returns The matching step, or null when the code does not match.
+ */
+function matchStep(secret, code, { now = Date.now(), window = 1 } = {}) {
+    if (typeof code !== 'string' || !/^\d{6}$/.test(code.trim())) {
+        return null;
+    }
+    const key = base32Decode(secret);
+    const candidate = Buffer.from(code.trim());
+    const step = currentStep(now);
+    for (let s = step - window; s <= step + window; s++) {
+        if (crypto.timingSafeEqual(candidate, Buffer.from(hotp(key, s)))) {
+            return s;
+        }
+    }
+    return null;
+}
+
+module.exports = {
+    generateSecret,
+    buildOtpAuthUrl,
+    generateCode,
+    matchStep,
+};
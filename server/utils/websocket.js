@@ -0,0 +1,220 @@
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+
+/**
+ * A minimal RFC 6455 WebSocket server: the opening handshake, text frames,
+ * ping/pong and the closing handshake. Binary messages and extensions are not
+ * supported, which is all the JSON streaming endpoints need.
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const OPCODES = {
+    continuation: 0x0,
+    text: 0x1,
+    binary: 0x2,
+    close: 0x8,
+    ping: 0x9,
+    pong: 0xa,
+};
+
+/** Close codes used by this module; see RFC 6455 section 7.4.1. */
+const CLOSE_CODES = {
+    normal: 1000,
+    goingAway: 1001,
+    protocolError: 1002,
+    unsupportedData: 1003,
+    messageTooBig: 1009,
+};
+
+function encodeFrame(opcode, payload) {
+    const length = payload.length;
+    let header;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Reads one frame from the start of `buffer`.
+ * @returns The frame and the number of bytes it used, or null if incomplete.
+ */
+function decodeFrame(buffer) {
+    if (buffer.length < 2) return null;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+        if (buffer.length < 4) return null;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (buffer.length < 10) return null;
+        const longLength = buffer.readBigUInt64BE(2);
+        // Anything this large is rejected by the caller anyway.
+        length = longLength > BigInt(Number.MAX_SAFE_INTEGER) ? Infinity : Number(longLength);
+        offset = 10;
+    }
+
+    const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+    if (masked) offset += 4;
+    if (length > MAX_MESSAGE_BYTES) return { fin, opcode, masked, length, payload: null, size: offset };
+    if (buffer.length < offset + length) return null;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    return { fin, opcode, masked, length, payload, size: offset + length };
+}
+
+/**
+ * One accepted connection. Emits `message` (text), `close` (code, reason) and
+ * `error`.
+ */
+class WebSocketConnection extends EventEmitter {
+    constructor(socket) {
+        super();
+        this.socket = socket;
+        this.open = true;
+        this.buffer = Buffer.alloc(0);
+        this.fragments = null;
+        socket.setNoDelay(true);
+        socket.on('data', data => this.receive(data));
+        socket.on('close', () => this.finish(CLOSE_CODES.goingAway, ''));
+        socket.on('error', error => this.emit('error', error));
+    }
+
+    /** Sends a text message; ignored once the connection is closing. */
+    send(text) {
+        if (this.open) this.socket.write(encodeFrame(OPCODES.text, Buffer.from(text, 'utf8')));
+    }
+
+    ping() {
+        if (this.open) this.socket.write(encodeFrame(OPCODES.ping, Buffer.alloc(0)));
+    }
+
+    /** Starts the closing handshake; the socket ends once the frame is sent. */
+    close(code = CLOSE_CODES.normal, reason = '') {
+        if (!this.open) return;
+        const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+        payload.writeUInt16BE(code, 0);
+        payload.write(reason, 2);
+        this.socket.end(encodeFrame(OPCODES.close, payload));
+        this.finish(code, reason);
+    }
+
+    finish(code, reason) {
+        if (!this.open) return;
+        this.open = false;
+        this.emit('close', code, reason);
+    }
+
+    receive(data) {
+        this.buffer = Buffer.concat([this.buffer, data]);
+        let frame;
+        while (this.open && (frame = decodeFrame(this.buffer))) {
+            this.buffer = this.buffer.subarray(frame.size);
+            this.handleFrame(frame);
+        }
+    }
+
+    handleFrame({ fin, opcode, masked, payload }) {
+        // Clients must mask every frame.
+        if (!masked) return this.close(CLOSE_CODES.protocolError, 'Frames must be masked.');
+        if (!payload) return this.close(CLOSE_CODES.messageTooBig, 'Message too big.');
+
+        switch (opcode) {
+            case OPCODES.ping:
+                this.socket.write(encodeFrame(OPCODES.pong, payload));
+                return;
+            case OPCODES.pong:
+                this.emit('pong');
+                return;
+            case OPCODES.close:
+                return this.close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_CODES.normal);
+            case OPCODES.binary:
+                return this.close(CLOSE_CODES.unsupportedData, 'Only text messages are supported.');
+            case OPCODES.text:
+                // A new message may not start before a fragmented one has finished.
+                if (this.fragments) return this.close(CLOSE_CODES.protocolError, 'Expected a continuation frame.');
+                this.fragments = [];
+                break;
+            case OPCODES.continuation:
+                if (!this.fragments) return this.close(CLOSE_CODES.protocolError, 'Unexpected continuation frame.');
+                break;
+            default:
+                return this.close(CLOSE_CODES.protocolError, 'Unknown opcode.');
+        }
+
+        this.fragments.push(payload);
+        const size = this.fragments.reduce((sum, fragment) => sum + fragment.length, 0);
+        if (size > MAX_MESSAGE_BYTES) return this.close(CLOSE_CODES.messageTooBig, 'Message too big.');
+        if (fin) {
+            const message = Buffer.concat(this.fragments).toString('utf8');
+            this.fragments = null;
+            this.emit('message', message);
+        }
+    }
+}
+
+function rejectUpgrade(socket, status, statusText) {
+    socket.end(`HTTP/1.1 ${status} ${statusText}\r\nConnection: close\r\n\r\n`);
+}
+
+/**
+ * Accepts WebSocket upgrades on an HTTP server and hands each connection to
+ * the handler registered for its path, as `handler(connection, req)`.
+ * Upgrades for other paths are answered with 404, and malformed request
+ * targets with 400.
+ * @param {Record<string, (connection: WebSocketConnection, req: object) => void>} routes
+ */
+function attachWebSocketServer(server, routes) {
+    server.on('upgrade', (req, socket, head) => {
+        let pathname;
+        try {
+            ({ pathname } = new URL(req.url, 'http://localhost'));
+        } catch {
+            // A request target such as "//" is not a valid URL; throwing here would crash the server.
+            return rejectUpgrade(socket, 400, 'Bad Request');
+        }
+        const onConnection = Object.prototype.hasOwnProperty.call(routes, pathname) ? routes[pathname] : null;
+        if (!onConnection) return rejectUpgrade(socket, 404, 'Not Found');
+
+        const key = req.headers['sec-websocket-key'];
+        if ((req.headers.upgrade || '').toLowerCase() !== 'websocket' || !key || req.headers['sec-websocket-version'] !== '13') {
+            return rejectUpgrade(socket, 400, 'Bad Request');
+        }
+
+        const accept = crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+        socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '',
+            '',
+        ].join('\r\n'));
+
+        const connection = new WebSocketConnection(socket);
+        onConnection(connection, req);
+        if (head && head.length) connection.receive(head);
+    });
+}
+
+module.exports = { attachWebSocketServer, CLOSE_CODES };
@@ -0,0 +1,331 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ApiError, apiDownload, apiRequest, getAccessToken} from './apiClient';
+import {logError, logLatency} from './errorLog';
+
+/**
+ * Client for the server-side Gemini proxy. The browser never holds an API key;
+ * every AI feature goes through these /api/v1 endpoints via `callAi`, which
+ * adds a timeout, retries with backoff, cancellation and latency reporting.
+ */
+
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
+export interface AllocationSlice {
+  category: string;
+  percentage: number;
+}
+
+export interface TraderData {
+  name: string;
+  rank: string;
+  ytd: string;
+  trades: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** A Co-pilot tool the model called to read the signed-in user's data. */
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** A knowledge base excerpt an answer cites, by the number in its text, e.g. [1]. */
+export interface KnowledgeSource {
+  citation: number;
+  documentId: string;
+  /** Document title. */
+  document: string;
+  /** Heading path within the document. */
+  section: string;
+}
+
+export interface AiCallOptions {
+  /** Aborts the request, e.g. when the user navigates away. */
+  signal?: AbortSignal;
+  /** Overrides the default timeout for this call. */
+  timeoutMs?: number;
+}
+
+const VIDEO_POLL_INTERVAL_MS = 10000;
+const DEFAULT_TIMEOUT_MS = 90 * 1000;
+const MEDIA_TIMEOUT_MS = 180 * 1000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+
+/** True if the error came from the caller cancelling the request. */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Only requests that never reached the server are retried: the server
+// already retries the AI provider, and its 429s and 5xx are final. Network
+// failures surface as TypeErrors from fetch.
+function isRetryable(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs one AI request with a timeout, retrying network failures with
+ * exponential backoff. Every call that isn't cancelled is recorded in the
+ * error log with its latency, failures with their error, so slow or flaky
+ * features show up in the admin view.
+ * @param feature Name used in logs, e.g. "guide".
+ * @param request Performs the request with the given signal.
+ */
+async function callAi<T>(feature: string, request: (signal: AbortSignal) => Promise<T>, options: AiCallOptions = {}): Promise<T> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const startedAt = performance.now();
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  if (signal?.aborted) onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new DOMException('The AI request timed out.', 'TimeoutError')), timeoutMs);
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await request(controller.signal);
+        logLatency(`AI:${feature}`, Math.round(performance.now() - startedAt));
+        return result;
+      } catch (error) {
+        if (controller.signal.aborted || attempt >= MAX_RETRIES || !isRetryable(error)) throw error;
+        await delay(RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() / 2), controller.signal);
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw new DOMException('The AI request was cancelled.', 'AbortError');
+    const reported = controller.signal.aborted
+      ? new ApiError(504, 'The AI service took too long to respond. Please try again.')
+      : error;
+    logError(reported, `AI:${feature}`, { latencyMs: Math.round(performance.now() - startedAt) });
+    throw reported;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+export function getStrategicInsights(options?: AiCallOptions): Promise<{ text: string, sources: GroundingSource[] }> {
+  return callAi('insights', signal => apiRequest('/api/v1/insights/strategic', { signal }), options);
+}
+
+/** The Platform Guide, with the knowledge base excerpts it cites. */
+export function generateGuide(dashboardContext: string, options?: AiCallOptions): Promise<{ text: string, sources: KnowledgeSource[] }> {
+  return callAi('guide', signal => apiRequest('/api/v1/insights/guide', {
+    method: 'POST',
+    body: { context: dashboardContext },
+    signal,
+  }), options);
+}
+
+/**
+ * The in-depth edition of the guide, covering methodology, interpretation
+ * and limitations. Requires the `priority-research` entitlement.
+ */
+export async function generateGuideDeepDive(dashboardContext: string, options?: AiCallOptions): Promise<string> {
+  const { text } = await callAi('guideDeepDive', signal => apiRequest<{ text: string }>('/api/v1/insights/guide/deep-dive', {
+    method: 'POST',
+    body: { context: dashboardContext },
+    signal,
+  }), options);
+  return text;
+}
+
+export async function analyzeTrader(trader: TraderData, options?: AiCallOptions): Promise<string> {
+  const { text } = await callAi('traderAnalysis', signal => apiRequest<{ text: string }>('/api/v1/insights/trader-analysis', {
+    method: 'POST',
+    body: { trader },
+    signal,
+  }), options);
+  return text;
+}
+
+/**
+ * An illustrative model allocation for an investment tier. It is not derived
+ * from the user's holdings. Without a portfolio value the server assumes a
+ * sample one.
+ */
+export async function generateAllocation(tier: string, portfolioValue?: string, options?: AiCallOptions): Promise<AllocationSlice[]> {
+  const { allocations } = await callAi('allocation', signal => apiRequest<{ allocations: AllocationSlice[] }>('/api/v1/insights/allocation', {
+    method: 'POST',
+    body: { portfolioValue, tier },
+    signal,
+  }), options);
+  return allocations;
+}
+
+/**
+ * Commentary on the signed-in user's allocation, which the server computes
+ * from their holdings before asking the model.
+ */
+export async function commentOnAllocation(options?: AiCallOptions): Promise<string> {
+  const { text } = await callAi('allocationCommentary', signal => apiRequest<{ text: string }>('/api/v1/portfolio/allocations/commentary', {
+    method: 'POST',
+    signal,
+  }), options);
+  return text;
+}
+
+/**
+ * Generates a visualization image.
+ * @returns The PNG as a base64 string.
+ */
+export async function generateImage(prompt: string, aspectRatio: '1:1' | '16:9' | '9:16', options?: AiCallOptions): Promise<string> {
+  const { imageBase64 } = await callAi('image', signal => apiRequest<{ imageBase64: string }>('/api/v1/ai-studio/generate/image', {
+    method: 'POST',
+    body: { prompt, aspectRatio },
+    signal,
+  }), { timeoutMs: MEDIA_TIMEOUT_MS, ...options });
+  return imageBase64;
+}
+
+/**
+ * Applies a natural-language edit to an image.
+ * @returns The edited image as a base64 string.
+ */
+export async function editImage(imageBase64: string, prompt: string, options?: AiCallOptions): Promise<string> {
+  const result = await callAi('imageEdit', signal => apiRequest<{ imageBase64: string }>('/api/v1/ai-studio/edit/image', {
+    method: 'POST',
+    body: { imageBase64, mimeType: 'image/png', prompt },
+    signal,
+  }), { timeoutMs: MEDIA_TIMEOUT_MS, ...options });
+  return result.imageBase64;
+}
+
+/**
+ * Starts a video generation, polls until it finishes and downloads the result.
+ * Each request has its own timeout; the overall wait is bounded only by the
+ * caller's signal.
+ * @param prompt Description of the video.
+ * @param image Optional starting frame.
+ * @returns The MP4 video.
+ */
+export async function generateVideo(prompt: string, image?: { imageBytes: string, mimeType: string }, options: AiCallOptions = {}): Promise<Blob> {
+  const { signal } = options;
+  const { id } = await callAi('video', requestSignal => apiRequest<{ id: string }>('/api/v1/ai-studio/generate/video', {
+    method: 'POST',
+    body: { prompt, image },
+    signal: requestSignal,
+  }), options);
+  const videoPath = `/api/v1/ai-studio/videos/${encodeURIComponent(id)}`;
+
+  for (;;) {
+    await delay(VIDEO_POLL_INTERVAL_MS, signal);
+    const status = await callAi('video', requestSignal => apiRequest<{ done: boolean, error?: string }>(videoPath, { signal: requestSignal }), options);
+    if (status.error) {
+      throw new Error(status.error);
+    }
+    if (status.done) break;
+  }
+
+  return callAi('video', requestSignal => apiDownload(`${videoPath}/content`, { signal: requestSignal }), { timeoutMs: MEDIA_TIMEOUT_MS, ...options });
+}
+
+/** A short title for a Co-pilot conversation, from its first exchange. */
+export async function suggestChatTitle(message: string, reply: string, options?: AiCallOptions): Promise<string> {
+  const { title } = await callAi('chatTitle', signal => apiRequest<{ title: string }>('/api/v1/copilot/title', {
+    method: 'POST',
+    body: { message, reply },
+    signal,
+  }), options);
+  return title;
+}
+
+export interface ChatOptions extends AiCallOptions {
+  /** Called when the model reads the user's data, e.g. to cite it under the answer. */
+  onToolCall?: (call: ChatToolCall) => void;
+  /** Called once the reply is complete with the knowledge base excerpts it cites. */
+  onSources?: (sources: KnowledgeSource[]) => void;
+}
+
+/**
+ * Streams a Co-pilot reply for a message, given the conversation so far.
+ * Signed-in users' requests carry their token, so the model can call tools
+ * over their portfolio. The server also answers from its knowledge base and
+ * reports the excerpts the reply cites through `options.onSources`. Only
+ * opening the stream is retried and timed out;
+ * aborting `options.signal` stops the stream at any point.
+ * @yields Text chunks as they arrive.
+ */
+export async function* streamChat(history: ChatTurn[], message: string, options: ChatOptions = {}): AsyncGenerator<string> {
+  const token = getAccessToken();
+  const response = await callAi('chat', async requestSignal => {
+    const res = await fetch('/api/v1/copilot/chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { 'Authorization': `Bearer ${token}` }),
+      },
+      body: JSON.stringify({ history, message }),
+      signal: requestSignal,
+    });
+    if (!res.ok || !res.body) {
+      const data = await res.json().catch(() => null);
+      throw new ApiError(res.status, data?.error ?? `Request failed with status ${res.status}.`);
+    }
+    return res;
+  }, options);
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  const cancel = () => reader.cancel();
+  options.signal?.addEventListener('abort', cancel, { once: true });
+  let buffer = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (value) buffer += value;
+
+      // Each complete line is one JSON event.
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (!line) continue;
+        const event = JSON.parse(line) as { text?: string, tool?: ChatToolCall, sources?: KnowledgeSource[], error?: string };
+        if (event.error) {
+          const error = new ApiError(502, event.error);
+          logError(error, 'AI:chat');
+          throw error;
+        }
+        if (event.tool) options.onToolCall?.(event.tool);
+        if (event.sources) options.onSources?.(event.sources);
+        if (event.text) yield event.text;
+      }
+
+      if (done) break;
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', cancel);
+    // Releases the connection if the consumer stopped iterating early.
+    reader.cancel().catch(() => {});
+  }
+
+  if (options.signal?.aborted) {
+    throw new DOMException('The AI request was cancelled.', 'AbortError');
+  }
+}
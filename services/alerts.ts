@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest} from './apiClient';
+
+/**
+ * Client for price alerts and the in-app notifications they raise. Rules are
+ * evaluated on the server; fired alerts also arrive over the price stream.
+ */
+
+export type AlertCondition = 'price-above' | 'price-below' | 'percent-move' | 'volume-spike';
+
+export interface AlertRule {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  /**
+   * A price for `price-above`/`price-below`, a signed percentage for
+   * `percent-move` (negative for drops) and a multiple of the average volume
+   * for `volume-spike`.
+   */
+  threshold: number;
+  /** The price when the rule was created; percent moves are measured from it. */
+  referencePrice: number;
+  status: 'active' | 'triggered';
+  source: 'manual' | 'copilot';
+  /** A short summary, e.g. "NVDA drops 5%". */
+  description: string;
+  createdAt: string;
+  triggeredAt: string | null;
+}
+
+export interface AlertNotification {
+  id: string;
+  /** Null for notifications not raised by an alert rule. */
+  alertId: string | null;
+  symbol: string | null;
+  message: string;
+  price: number | null;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface Notifications {
+  unread: number;
+  /** Newest first. */
+  notifications: AlertNotification[];
+}
+
+export async function getAlerts(): Promise<AlertRule[]> {
+  const { alerts } = await apiRequest<{ alerts: AlertRule[] }>('/api/v1/alerts');
+  return alerts;
+}
+
+export function createAlert(symbol: string, condition: AlertCondition, threshold: number): Promise<AlertRule> {
+  return apiRequest('/api/v1/alerts', { method: 'POST', body: { symbol, condition, threshold } });
+}
+
+/**
+ * Creates an alert from a natural-language request such as "tell me if NVDA
+ * drops 5%". `alert` is null when the request does not describe one; `reply`
+ * explains the outcome either way.
+ */
+export function createAlertFromText(text: string, signal?: AbortSignal): Promise<{ alert: AlertRule | null, reply: string }> {
+  return apiRequest('/api/v1/alerts/from-text', { method: 'POST', body: { text }, signal });
+}
+
+export function deleteAlert(id: string): Promise<void> {
+  return apiRequest(`/api/v1/alerts/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export function getNotifications(): Promise<Notifications> {
+  return apiRequest('/api/v1/notifications');
+}
+
+/** Marks the given notifications as read, or all of them when `ids` is omitted. */
+export function markNotificationsRead(ids?: string[]): Promise<Notifications> {
+  return apiRequest('/api/v1/notifications/read', { method: 'POST', body: ids ? { ids } : {} });
+}
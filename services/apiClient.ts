@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Thin fetch wrapper for the FULXERPRO backend.
+ */
+
+const SESSION_STORAGE_KEY = 'fulxerpro.accessToken';
+
+/**
+ * An error returned by the backend, carrying the HTTP status and server message.
+ */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  /** Bearer token to send; defaults to the stored access token. */
+  token?: string | null;
+  signal?: AbortSignal;
+}
+
+export function getAccessToken(): string | null {
+  return sessionStorage.getItem(SESSION_STORAGE_KEY);
+}
+
+export function setAccessToken(token: string | null) {
+  if (token) {
+    sessionStorage.setItem(SESSION_STORAGE_KEY, token);
+  } else {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
+
+async function send(path: string, options: ApiRequestOptions, accept: string): Promise<Response> {
+  const { method = 'GET', body, signal } = options;
+  const token = options.token === undefined ? getAccessToken() : options.token;
+
+  const headers: Record<string, string> = { 'Accept': accept };
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  return fetch(path, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal,
+  });
+}
+
+/**
+ * Sends a JSON request to the backend and parses the JSON response.
+ * @throws ApiError when the server responds with a non-2xx status.
+ */
+export async function apiRequest<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+  const response = await send(path, options, 'application/json');
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(response.status, data?.error ?? `Request failed with status ${response.status}.`);
+  }
+  return data as T;
+}
+
+/**
+ * Downloads a file from the backend, e.g. an export.
+ * @throws ApiError when the server responds with a non-2xx status.
+ */
+export async function apiDownload(path: string, options: ApiRequestOptions = {}): Promise<Blob> {
+  const response = await send(path, options, '*/*');
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new ApiError(response.status, data?.error ?? `Download failed with status ${response.status}.`);
+  }
+  return response.blob();
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest, getAccessToken, setAccessToken} from './apiClient';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Returned by login and registration: the caller must complete 2FA with the
+ * pre-auth token before it receives an access token.
+ */
+export interface TwoFactorChallenge {
+  preAuthToken: string;
+  twoFactorSetupRequired: boolean;
+  /** Only present until the user has confirmed their authenticator. */
+  totp?: {
+    secret: string;
+    otpauthUrl: string;
+  };
+}
+
+export function login(email: string, password: string): Promise<TwoFactorChallenge> {
+  return apiRequest<TwoFactorChallenge>('/auth/login', {
+    method: 'POST',
+    body: { email, password },
+    token: null,
+  });
+}
+
+export function register(name: string, email: string, password: string): Promise<TwoFactorChallenge & { user: User }> {
+  return apiRequest<TwoFactorChallenge & { user: User }>('/auth/register', {
+    method: 'POST',
+    body: { name, email, password },
+    token: null,
+  });
+}
+
+/**
+ * Exchanges a pre-auth token and TOTP code for an access token, and stores it.
+ */
+export async function verifyTwoFactor(preAuthToken: string, code: string): Promise<User> {
+  const { token, user } = await apiRequest<{ token: string, user: User }>('/auth/2fa/verify', {
+    method: 'POST',
+    body: { code },
+    token: preAuthToken,
+  });
+  setAccessToken(token);
+  return user;
+}
+
+/**
+ * Revokes the current access token on the server and forgets it locally.
+ */
+export async function logout(): Promise<void> {
+  try {
+    if (getAccessToken()) {
+      await apiRequest<void>('/auth/logout', { method: 'POST' });
+    }
+  } finally {
+    setAccessToken(null);
+  }
+}
+
+/**
+ * Asks the server to email a password reset link. The server responds the same
+ * way whether or not the email belongs to an account.
+ */
+export async function requestPasswordReset(email: string): Promise<string> {
+  const { message } = await apiRequest<{ message: string }>('/auth/password/forgot', {
+    method: 'POST',
+    body: { email },
+    token: null,
+  });
+  return message;
+}
+
+/**
+ * Sets a new password with a reset token. The server signs out every existing
+ * session, so any locally stored access token is discarded as well.
+ */
+export async function resetPassword(resetToken: string, password: string): Promise<void> {
+  await apiRequest<void>('/auth/password/reset', {
+    method: 'POST',
+    body: { token: resetToken, password },
+    token: null,
+  });
+  setAccessToken(null);
+}
+
+export function isLoggedIn(): boolean {
+  return getAccessToken() !== null;
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest, getAccessToken} from './apiClient';
+import {ChatTurn} from './ai';
+
+/**
+ * Saved Co-pilot conversations. Signed-in users' threads are stored on the
+ * server, so they follow the user between devices; signed-out threads are
+ * kept in this browser's IndexedDB. Each save replaces a thread's messages
+ * with the caller's copy.
+ */
+
+export interface ChatThreadSummary {
+  id: string;
+  /** Null until the user names the thread or a title is generated. */
+  title: string | null;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string | null;
+  /** Oldest first. */
+  messages: ChatTurn[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatThreadChanges {
+  title?: string | null;
+  messages?: ChatTurn[];
+}
+
+interface ThreadStore {
+  list(): Promise<ChatThreadSummary[]>;
+  get(id: string): Promise<ChatThread>;
+  create(changes: ChatThreadChanges): Promise<ChatThread>;
+  update(id: string, changes: ChatThreadChanges): Promise<ChatThread>;
+  remove(id: string): Promise<void>;
+}
+
+const remoteStore: ThreadStore = {
+  async list() {
+    const { threads } = await apiRequest<{ threads: ChatThreadSummary[] }>('/api/v1/copilot/threads');
+    return threads;
+  },
+  get: id => apiRequest(`/api/v1/copilot/threads/${encodeURIComponent(id)}`),
+  create: changes => apiRequest('/api/v1/copilot/threads', { method: 'POST', body: changes }),
+  update: (id, changes) => apiRequest(`/api/v1/copilot/threads/${encodeURIComponent(id)}`, { method: 'PATCH', body: changes }),
+  remove: id => apiRequest(`/api/v1/copilot/threads/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+};
+
+const DB_NAME = 'fulxerpro';
+const DB_VERSION = 1;
+const THREAD_STORE = 'copilotThreads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(THREAD_STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** Runs one request against the thread object store and resolves with its result. */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(THREAD_STORE, mode).objectStore(THREAD_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toSummary({ messages, ...thread }: ChatThread): ChatThreadSummary {
+  return { ...thread, messageCount: messages.length };
+}
+
+async function getLocal(id: string): Promise<ChatThread> {
+  const thread = await withStore<ChatThread | undefined>('readonly', store => store.get(id));
+  if (!thread) throw new Error('Conversation not found.');
+  return thread;
+}
+
+const localStore: ThreadStore = {
+  async list() {
+    const threads = await withStore<ChatThread[]>('readonly', store => store.getAll());
+    return threads.map(toSummary).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  },
+  get: getLocal,
+  async create({ title = null, messages = [] }) {
+    const now = new Date().toISOString();
+    const thread: ChatThread = { id: crypto.randomUUID(), title, messages, createdAt: now, updatedAt: now };
+    await withStore('readwrite', store => store.put(thread));
+    return thread;
+  },
+  async update(id, changes) {
+    const thread = { ...(await getLocal(id)), ...changes, updatedAt: new Date().toISOString() };
+    await withStore('readwrite', store => store.put(thread));
+    return thread;
+  },
+  async remove(id) {
+    await withStore('readwrite', store => store.delete(id));
+  },
+};
+
+function threadStore(): ThreadStore {
+  return getAccessToken() ? remoteStore : localStore;
+}
+
+/** The user's threads, most recently updated first. */
+export function listThreads(): Promise<ChatThreadSummary[]> {
+  return threadStore().list();
+}
+
+export function getThread(id: string): Promise<ChatThread> {
+  return threadStore().get(id);
+}
+
+export function createThread(changes: ChatThreadChanges = {}): Promise<ChatThread> {
+  return threadStore().create(changes);
+}
+
+/** Renames a thread and/or replaces its messages. */
+export function updateThread(id: string, changes: ChatThreadChanges): Promise<ChatThread> {
+  return threadStore().update(id, changes);
+}
+
+export function deleteThread(id: string): Promise<void> {
+  return threadStore().remove(id);
+}
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ErrorLogEntry {
+  timestamp: string;
+  /** 'info' entries record operations that succeeded, with their latency. */
+  level: 'error' | 'info';
+  context: string;
+  message: string;
+  stack?: string;
+  /** How long the operation ran before it finished or failed, when known. */
+  latencyMs?: number;
+}
+
+let errorLog: ErrorLogEntry[] = [];
+
+/**
+ * Logs an error to the in-memory store for admin review.
+ * @param error The error object.
+ * @param context A string describing where the error occurred (e.g., 'Co-pilot').
+ * @param details Optional extra information, such as the latency of a failed call.
+ */
+export function logError(error: unknown, context: string, details: { latencyMs?: number } = {}) {
+  console.error(`[${context}]`, error); // Keep original console log for debugging
+
+  const entry: ErrorLogEntry = {
+    timestamp: new Date().toISOString(),
+    level: 'error',
+    context: context,
+    message: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    latencyMs: details.latencyMs,
+  };
+
+  errorLog.push(entry);
+}
+
+/**
+ * Records how long a successful operation took, alongside the errors. Nothing
+ * is written to the console.
+ * @param context A string describing the operation (e.g., 'AI:guide').
+ */
+export function logLatency(context: string, latencyMs: number) {
+  errorLog.push({
+    timestamp: new Date().toISOString(),
+    level: 'info',
+    context,
+    message: 'Completed',
+    latencyMs,
+  });
+}
+
+/**
+ * Returns the logged entries, oldest first.
+ */
+export function getErrorLog(): readonly ErrorLogEntry[] {
+  return errorLog;
+}
+
+export function clearErrorLog() {
+  errorLog = [];
+}
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest} from './apiClient';
+
+/**
+ * Client for the exchange rates used to value multi-currency portfolios.
+ */
+
+export interface FxRates {
+  base: string;
+  asOf: string;
+  provider: string;
+  /** Units of each currency per unit of `base`, keyed by ISO 4217 code. */
+  rates: Record<string, number>;
+}
+
+export function getFxRates(base?: string): Promise<FxRates> {
+  return apiRequest(`/api/v1/fx/rates${base ? `?base=${encodeURIComponent(base)}` : ''}`);
+}
+
+/** Converts an amount between two currencies quoted in `fx`. */
+export function convertCurrency(fx: FxRates, amount: number, from: string, to: string): number {
+  if (from === to) return amount;
+  return (amount * fx.rates[to]) / fx.rates[from];
+}
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest} from './apiClient';
+
+/**
+ * Client for the paper-trading order ticket. Orders are checked and matched on
+ * the server against the simulated price feed; fills are recorded as
+ * transactions. Orders that fill or close later arrive over the price stream.
+ */
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit' | 'stop';
+export type TimeInForce = 'day' | 'gtc' | 'ioc';
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected' | 'expired';
+
+export interface OrderTicket {
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  /** Required for limit orders, in the instrument's currency. */
+  limitPrice?: number;
+  /** Required for stop orders, in the instrument's currency. */
+  stopPrice?: number;
+  timeInForce: TimeInForce;
+}
+
+export interface Order {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  /** The currency the instrument, and so the order's prices, are in. */
+  currency: string;
+  timeInForce: TimeInForce;
+  status: OrderStatus;
+  /** Why the order was rejected, cancelled or expired. */
+  reason: string | null;
+  fillPrice: number | null;
+  transactionId: string | null;
+  /** A short summary, e.g. "Buy 10 NVDA limit 120". */
+  description: string;
+  createdAt: string;
+  expiresAt: string | null;
+  closedAt: string | null;
+}
+
+export interface BuyingPower {
+  /** The account currency. */
+  currency: string;
+  cash: number;
+  /** Cash set aside for open buy orders. */
+  reserved: number;
+  available: number;
+}
+
+export interface Orders {
+  buyingPower: BuyingPower;
+  /** Newest first. */
+  orders: Order[];
+}
+
+export function getOrders(): Promise<Orders> {
+  return apiRequest('/api/v1/orders');
+}
+
+/**
+ * Places an order after the server's pre-trade checks, which reject it with
+ * an `ApiError` explaining why. The returned order may already be filled.
+ */
+export function placeOrder(ticket: OrderTicket): Promise<Order> {
+  return apiRequest('/api/v1/orders', { method: 'POST', body: ticket });
+}
+
+export function cancelOrder(id: string): Promise<Order> {
+  return apiRequest(`/api/v1/orders/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
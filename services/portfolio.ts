@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiDownload, apiRequest} from './apiClient';
+
+/**
+ * Client for the signed-in user's portfolio endpoints.
+ */
+
+export interface PortfolioOverview {
+  name: string;
+  /** The base currency values are reported in. */
+  currency: string;
+  /** The currency of the cash balance and transactions. */
+  accountCurrency: string;
+  totalValue: number;
+  dayChange: number;
+  dayChangePercent: number;
+  asOf: string;
+}
+
+export type PerformanceRange = '1D' | '1W' | '1M' | 'YTD' | '1Y' | 'ALL';
+
+export interface PerformancePoint {
+  /** ISO timestamp for intraday points, calendar date (`YYYY-MM-DD`) for daily closes. */
+  time: string;
+  value: number;
+  /** Benchmark level at the same time, when a benchmark was requested. */
+  benchmark?: number;
+}
+
+export interface PortfolioPerformance {
+  range: PerformanceRange;
+  interval: 'intraday' | 'daily';
+  currency: string;
+  benchmark: { symbol: string; name: string } | null;
+  /** Oldest first; the first point is the baseline the range's change is measured from. */
+  points: PerformancePoint[];
+}
+
+export interface AllocationHolding {
+  /** Null for the cash balance. */
+  symbol: string | null;
+  name: string;
+  /** The currency the holding is priced in. */
+  currency: string;
+  quantity: number | null;
+  /** In the holding's currency. */
+  price: number | null;
+  /** In the base currency. */
+  value: number;
+  /** Share of the total portfolio value. */
+  percentage: number;
+}
+
+export interface AllocationEntry {
+  assetClass: string;
+  value: number;
+  /** Share of the total portfolio value; the entries sum to exactly 100. */
+  percentage: number;
+  /** Largest first; their percentages sum to the entry's percentage. */
+  holdings: AllocationHolding[];
+}
+
+export interface PortfolioAllocations {
+  currency: string;
+  totalValue: number;
+  allocations: AllocationEntry[];
+}
+
+export type DriftStatus = 'within' | 'over' | 'under';
+
+export interface AllocationDrift {
+  assetClass: string;
+  value: number;
+  targetValue: number;
+  currentPercentage: number;
+  targetPercentage: number;
+  /** Current minus target, in percentage points. */
+  drift: number;
+  status: DriftStatus;
+}
+
+export interface RebalancingTrade {
+  side: 'buy' | 'sell';
+  symbol: string;
+  name: string;
+  assetClass: string;
+  quantity: number;
+  /** In the instrument's currency. */
+  price: number;
+  currency: string;
+  /** In the base currency. */
+  amount: number;
+}
+
+export interface Rebalancing {
+  tier: { id: string; name: string };
+  currency: string;
+  totalValue: number;
+  /** Tolerance band applied, in percentage points either side of each target. */
+  tolerance: number;
+  drift: AllocationDrift[];
+  needsRebalancing: boolean;
+  proposal: {
+    trades: RebalancingTrade[];
+    turnover: number;
+    turnoverPercentage: number;
+    cashBefore: number;
+    cashAfter: number;
+    /** Allocation after the proposed trades. */
+    projected: { assetClass: string; percentage: number; drift: number; status: DriftStatus }[];
+    warnings: string[];
+  };
+}
+
+export type TransactionType = 'buy' | 'sell' | 'deposit' | 'withdrawal' | 'dividend' | 'fee';
+
+export interface Transaction {
+  id: string;
+  type: TransactionType;
+  symbol: string | null;
+  quantity: number | null;
+  price: number | null;
+  /** Signed effect on cash: negative for buys, fees and withdrawals. */
+  amount: number;
+  currency: string;
+  description: string;
+  executedAt: string;
+}
+
+export interface LedgerEntry extends Transaction {
+  /** Cash balance after the transaction. */
+  balance: number;
+}
+
+export interface ActivityFilters {
+  types?: TransactionType[];
+  symbol?: string;
+  /** Inclusive UTC calendar dates, `YYYY-MM-DD`. */
+  from?: string;
+  to?: string;
+}
+
+export interface ActivityPage {
+  currency: string;
+  /** Newest first. */
+  transactions: LedgerEntry[];
+  /** Pass to `getActivity` for the next page; null on the last page. */
+  nextCursor: string | null;
+}
+
+export type ActivityExportFormat = 'csv' | 'ofx';
+
+export function getOverview(): Promise<PortfolioOverview> {
+  return apiRequest('/api/v1/portfolio/overview');
+}
+
+/**
+ * Reports the portfolio in another currency.
+ * @returns The overview in the new base currency.
+ */
+export function setBaseCurrency(currency: string): Promise<PortfolioOverview> {
+  return apiRequest('/api/v1/portfolio/base-currency', { method: 'PUT', body: { currency } });
+}
+
+export function getPerformance(
+  range: PerformanceRange,
+  options: { benchmark?: string; signal?: AbortSignal } = {},
+): Promise<PortfolioPerformance> {
+  const query = new URLSearchParams({ range });
+  if (options.benchmark) query.set('benchmark', options.benchmark);
+  return apiRequest(`/api/v1/portfolio/performance?${query}`, { signal: options.signal });
+}
+
+export function getAllocations(): Promise<PortfolioAllocations> {
+  return apiRequest('/api/v1/portfolio/allocations');
+}
+
+/**
+ * Drift from a tier's target allocation and a proposal to rebalance.
+ * @param tier Defaults to the user's subscribed tier.
+ * @param tolerance Overrides the tier's tolerance band, in percentage points.
+ */
+export function getRebalancing(tier?: string, tolerance?: number): Promise<Rebalancing> {
+  const query = new URLSearchParams();
+  if (tier) query.set('tier', tier);
+  if (tolerance !== undefined) query.set('tolerance', String(tolerance));
+  return apiRequest(`/api/v1/portfolio/rebalancing?${query}`);
+}
+
+function activityQuery(filters: ActivityFilters): URLSearchParams {
+  const query = new URLSearchParams();
+  if (filters.types?.length) query.set('type', filters.types.join(','));
+  if (filters.symbol) query.set('symbol', filters.symbol);
+  if (filters.from) query.set('from', filters.from);
+  if (filters.to) query.set('to', filters.to);
+  return query;
+}
+
+/**
+ * One page of the transaction ledger, newest first.
+ */
+export function getActivity(options: ActivityFilters & { limit?: number, cursor?: string } = {}): Promise<ActivityPage> {
+  const query = activityQuery(options);
+  if (options.limit) query.set('limit', String(options.limit));
+  if (options.cursor) query.set('cursor', options.cursor);
+  return apiRequest(`/api/v1/portfolio/activity?${query}`);
+}
+
+/**
+ * Every ledger entry matching the filters, oldest first, as a CSV file or an
+ * OFX bank statement.
+ */
+export function exportActivity(format: ActivityExportFormat, filters: ActivityFilters = {}): Promise<Blob> {
+  const query = activityQuery(filters);
+  query.set('format', format);
+  return apiDownload(`/api/v1/portfolio/activity/export?${query}`);
+}
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AlertNotification} from './alerts';
+import {getAccessToken} from './apiClient';
+import {Order} from './orders';
+import {PortfolioOverview} from './portfolio';
+
+/**
+ * Client for the live price stream (`/api/v1/stream`): quotes, portfolio
+ * value ticks, fired price alerts and order updates over a WebSocket. Dropped
+ * connections are retried with exponential backoff, and the stream reports
+ * itself stale when ticks stop arriving, so the UI can flag numbers that are
+ * no longer moving.
+ */
+
+export interface Quote {
+  symbol: string;
+  name: string;
+  /** The currency `price` is in. */
+  currency: string;
+  price: number;
+  previousClose: number;
+  change: number;
+  changePercent: number;
+  /** Units traded since the previous quote. */
+  volume: number;
+  time: string;
+}
+
+/**
+ * `connecting` until the first tick, `live` while ticks arrive on time,
+ * `stale` when they stop or the connection drops, and `closed` once the
+ * stream is closed or the session is rejected.
+ */
+export type StreamStatus = 'connecting' | 'live' | 'stale' | 'closed';
+
+export interface PriceStreamHandlers {
+  onQuotes?: (quotes: Quote[]) => void;
+  onPortfolio?: (overview: PortfolioOverview) => void;
+  onNotification?: (notification: AlertNotification) => void;
+  /** An order filled, expired or was cancelled or rejected. */
+  onOrder?: (order: Order) => void;
+  onStatus?: (status: StreamStatus) => void;
+}
+
+export interface PriceStream {
+  /** Replaces the symbols quoted in addition to the portfolio's holdings. */
+  subscribe(symbols: string[]): void;
+  close(): void;
+}
+
+type ServerMessage =
+  | { type: 'ready', intervalMs: number }
+  | { type: 'quotes', quotes: Quote[] }
+  | { type: 'portfolio', overview: PortfolioOverview }
+  | { type: 'notification', notification: AlertNotification }
+  | { type: 'order', order: Order }
+  | { type: 'error', error: string };
+
+const STREAM_PATH = '/api/v1/stream';
+// Matches the server's close code for a missing, expired or revoked session.
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+// Ticks missed in a row before the data counts as stale.
+const STALE_AFTER_TICKS = 3;
+
+function streamUrl(): string {
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${location.host}${STREAM_PATH}`;
+}
+
+/**
+ * Opens the price stream with the stored access token and keeps it open
+ * until `close()` is called or the server rejects the session.
+ */
+export function openPriceStream(handlers: PriceStreamHandlers): PriceStream {
+  let socket: WebSocket | null = null;
+  let symbols: string[] = [];
+  let status: StreamStatus | null = null;
+  let closed = false;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let staleTimer: ReturnType<typeof setTimeout> | undefined;
+  let staleAfterMs = 0;
+
+  const setStatus = (next: StreamStatus) => {
+    if (next === status) return;
+    status = next;
+    handlers.onStatus?.(next);
+  };
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  // Restarted on every tick; fires if the next few ticks do not arrive.
+  const resetStaleTimer = () => {
+    clearTimeout(staleTimer);
+    staleTimer = setTimeout(() => setStatus('stale'), staleAfterMs);
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'ready':
+        attempt = 0;
+        staleAfterMs = message.intervalMs * STALE_AFTER_TICKS;
+        resetStaleTimer();
+        if (symbols.length) send({ type: 'subscribe', symbols });
+        break;
+      case 'quotes':
+        resetStaleTimer();
+        setStatus('live');
+        handlers.onQuotes?.(message.quotes);
+        break;
+      case 'portfolio':
+        handlers.onPortfolio?.(message.overview);
+        break;
+      case 'notification':
+        handlers.onNotification?.(message.notification);
+        break;
+      case 'order':
+        handlers.onOrder?.(message.order);
+        break;
+      case 'error':
+        console.warn('Price stream:', message.error);
+        break;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    // Full jitter, so clients dropped together do not reconnect together.
+    const ceiling = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+    attempt++;
+    reconnectTimer = setTimeout(connect, Math.random() * ceiling);
+  };
+
+  function connect() {
+    const token = getAccessToken();
+    if (closed || !token) {
+      setStatus('closed');
+      return;
+    }
+    if (status === null) setStatus('connecting');
+
+    socket = new WebSocket(streamUrl());
+    socket.addEventListener('open', () => send({ type: 'auth', token }));
+    socket.addEventListener('message', (event) => {
+      try {
+        handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.warn('Ignoring malformed price stream message.', error);
+      }
+    });
+    socket.addEventListener('close', (event) => {
+      socket = null;
+      clearTimeout(staleTimer);
+      if (closed) return;
+      if (event.code === UNAUTHORIZED_CLOSE_CODE) {
+        closed = true;
+        setStatus('closed');
+        return;
+      }
+      setStatus(status === 'connecting' ? 'connecting' : 'stale');
+      scheduleReconnect();
+    });
+  }
+
+  connect();
+
+  return {
+    subscribe(next) {
+      symbols = [...next];
+      send({ type: 'subscribe', symbols });
+    },
+    close() {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      clearTimeout(staleTimer);
+      socket?.close(1000);
+      socket = null;
+      setStatus('closed');
+    },
+  };
+}
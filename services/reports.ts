@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest} from './apiClient';
+
+/**
+ * Client for the tax reporting endpoints.
+ */
+
+export type LotMethod = 'fifo' | 'lifo' | 'hifo' | 'specific';
+export type HoldingTerm = 'short' | 'long';
+
+export interface TaxLot {
+  id: string;
+  symbol: string;
+  name: string;
+  /** The instrument's currency, which the lot's money fields are in. */
+  currency: string;
+  quantity: number;
+  acquiredAt: string;
+  /** Earlier than `acquiredAt` when a wash sale's holding period was added. */
+  holdingPeriodStart: string;
+  term: HoldingTerm;
+  /** Includes any disallowed wash sale loss. */
+  costPerUnit: number;
+  costBasis: number;
+  /** Null if the symbol has no current price. */
+  price: number | null;
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  washSaleAdjustment: number;
+}
+
+export interface TaxLots {
+  method: LotMethod;
+  /** The base currency the totals are converted to. */
+  currency: string;
+  lots: TaxLot[];
+  unrealizedGain: { shortTerm: number; longTerm: number; total: number };
+}
+
+export interface Disposal {
+  id: string;
+  transactionId: string;
+  lotId: string;
+  symbol: string;
+  /** The instrument's currency, which the disposal's money fields are in. */
+  currency: string;
+  quantity: number;
+  acquiredAt: string;
+  soldAt: string;
+  term: HoldingTerm;
+  proceeds: number;
+  costBasis: number;
+  washSaleDisallowed: number;
+  /** After wash sale adjustments. */
+  gain: number;
+}
+
+export interface GainTotals {
+  proceeds: number;
+  costBasis: number;
+  washSaleDisallowed: number;
+  gain: number;
+}
+
+export interface RealizedGains {
+  year: number;
+  method: LotMethod;
+  /** The base currency the totals are converted to. */
+  currency: string;
+  disposals: Disposal[];
+  summary: { shortTerm: GainTotals; longTerm: GainTotals; total: GainTotals };
+}
+
+export function getTaxLots(method: LotMethod): Promise<TaxLots> {
+  return apiRequest(`/api/v1/reports/tax-lots?method=${method}`);
+}
+
+export function getRealizedGains(year: number, method: LotMethod): Promise<RealizedGains> {
+  return apiRequest(`/api/v1/reports/realized-gains?${new URLSearchParams({ year: String(year), method })}`);
+}
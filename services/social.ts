@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest} from './apiClient';
+
+/**
+ * Client for social trading and copy-trading. Following a trader mirrors
+ * their trades into the paper portfolio, in proportion to the allocation;
+ * mirrored fills arrive over the price stream like any other order.
+ */
+
+export interface TraderTrade {
+  id: string;
+  traderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  /** For buys, the fraction of the trader's portfolio spent; for sells, the fraction of the holding sold. */
+  fraction: number;
+  executedAt: string;
+}
+
+export interface CopySettings {
+  /** Capital set aside for copying, in the account currency. */
+  allocation: number;
+  /** The most a single copied trade may be worth. */
+  maxTradeValue: number;
+  /** Copying stops when the copy falls this far below its peak value. */
+  stopLossPercent: number;
+}
+
+export interface Follow extends CopySettings {
+  id: string;
+  traderId: string;
+  status: 'active' | 'stopped';
+  stoppedReason: string | null;
+  /** The account currency amounts are in. */
+  currency: string;
+  positions: { symbol: string, quantity: number, cost: number }[];
+  /** Cost of the copied holdings still held. */
+  invested: number;
+  realizedGain: number;
+  /** The allocation plus realized and unrealized gains. */
+  equity: number;
+  drawdownPercent: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Trader {
+  id: string;
+  name: string;
+  rank: string;
+  ytdReturn: number;
+  style: string;
+  /** Current holdings as fractions of the trader's portfolio. */
+  holdings: Record<string, number>;
+  /** Newest first. */
+  recentTrades: TraderTrade[];
+  /** The user's copy of this trader, if they follow them. */
+  follow: Follow | null;
+}
+
+export interface MirroredTrade {
+  id: string;
+  traderId: string;
+  traderName: string;
+  traderTradeId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  status: 'copied' | 'skipped';
+  /** Why the trade was skipped. */
+  reason: string | null;
+  quantity: number | null;
+  /** In the instrument's currency. */
+  price: number | null;
+  /** In the account currency. */
+  value: number | null;
+  orderId: string | null;
+  executedAt: string;
+}
+
+export async function getTraders(): Promise<Trader[]> {
+  const { traders } = await apiRequest<{ traders: Trader[] }>('/api/v1/social/traders');
+  return traders;
+}
+
+/** Follows a trader, or updates the settings of (and resumes) an existing copy. */
+export function followTrader(traderId: string, settings: CopySettings): Promise<Follow> {
+  return apiRequest(`/api/v1/social/traders/${encodeURIComponent(traderId)}/follow`, { method: 'POST', body: settings });
+}
+
+/** Stops copying a trader. Copied holdings stay in the portfolio. */
+export function unfollowTrader(traderId: string): Promise<void> {
+  return apiRequest(`/api/v1/social/traders/${encodeURIComponent(traderId)}/follow`, { method: 'DELETE' });
+}
+
+/** Mirrored trades, newest first. */
+export async function getCopyTrades(limit = 10): Promise<MirroredTrade[]> {
+  const { trades } = await apiRequest<{ trades: MirroredTrade[] }>(`/api/v1/social/copy-trades?limit=${limit}`);
+  return trades;
+}
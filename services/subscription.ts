@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest} from './apiClient';
+
+/**
+ * Client for the signed-in user's investment tier subscription and the
+ * features it unlocks.
+ */
+
+export interface TierFeature {
+  id: string;
+  label: string;
+}
+
+export interface Tier {
+  id: string;
+  name: string;
+  /** Higher ranks include every feature of the lower ones. */
+  rank: number;
+  description: string;
+  features: TierFeature[];
+}
+
+export interface Subscription {
+  tier: string;
+  /** Feature ids the current tier unlocks, including those of lower tiers. */
+  entitlements: string[];
+  /** Null until the user first changes plan. */
+  changedAt: string | null;
+  tiers: Tier[];
+}
+
+export interface Deal {
+  id: string;
+  name: string;
+  sponsor: string;
+  sector: string;
+  structure: string;
+  minimumCommitment: number;
+  currency: string;
+  targetIrr: string;
+  closesOn: string;
+  summary: string;
+}
+
+export function getSubscription(): Promise<Subscription> {
+  return apiRequest('/api/v1/subscription');
+}
+
+export function changeTier(tier: string): Promise<Subscription> {
+  return apiRequest('/api/v1/subscription', { method: 'PUT', body: { tier } });
+}
+
+/** Off-market deals; requires the `co-investment` entitlement. */
+export async function getDeals(): Promise<Deal[]> {
+  const { deals } = await apiRequest<{ deals: Deal[] }>('/api/v1/deals');
+  return deals;
+}
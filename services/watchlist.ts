@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {apiRequest} from './apiClient';
+import {Quote} from './priceStream';
+
+/**
+ * Client for the signed-in user's watchlist: symbols tracked without holding
+ * them. Quotes keep moving over the price stream once subscribed there.
+ */
+
+export interface Watchlist {
+  /** In the order they were added. */
+  symbols: string[];
+  quotes: Quote[];
+}
+
+export function getWatchlist(): Promise<Watchlist> {
+  return apiRequest('/api/v1/watchlist');
+}
+
+export function addToWatchlist(symbol: string): Promise<Watchlist> {
+  return apiRequest('/api/v1/watchlist/symbols', { method: 'POST', body: { symbol } });
+}
+
+export function removeFromWatchlist(symbol: string): Promise<Watchlist> {
+  return apiRequest(`/api/v1/watchlist/symbols/${encodeURIComponent(symbol)}`, { method: 'DELETE' });
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {marked} from 'marked';
+
+/**
+ * Safe rendering of model output and error text. Markdown is converted with
+ * marked, which passes raw HTML through, so the result is parsed into an inert
+ * <template> and sanitised against an allow-list before it reaches the page:
+ *
+ * - Elements outside ALLOWED_TAGS are unwrapped (their text is kept), and
+ *   those in DROPPED_TAGS are removed along with their content.
+ * - Only the attributes in ALLOWED_ATTRIBUTES survive; `href` must use a
+ *   safe scheme.
+ * - Images are removed, so model output can't make the browser fetch a URL
+ *   of its choosing (a beacon that could carry the figures in an answer).
+ * - Every link gets `rel="noopener noreferrer"`; links off the page open in a
+ *   new tab.
+ *
+ * Text that is not markdown, such as error messages, goes through escapeHtml.
+ */
+
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'li',
+  'ol', 'p', 'pre', 's', 'small', 'span', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th',
+  'thead', 'tr', 'ul',
+]);
+
+// Removed with their content: executable, embedded, interactive or fetching elements.
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'link', 'meta', 'base',
+  'form', 'input', 'button', 'textarea', 'select', 'option', 'svg', 'math', 'template', 'noscript',
+  'audio', 'video', 'source', 'track', 'canvas', 'title', 'img', 'picture',
+]);
+
+const GLOBAL_ATTRIBUTES = ['title'];
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  code: ['class'],
+  ol: ['start'],
+  td: ['align', 'colspan', 'rowspan'],
+  th: ['align', 'colspan', 'rowspan'],
+};
+
+const SAFE_LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+// marked tags fenced code with its language, e.g. "language-ts".
+const CODE_CLASS_PATTERN = /^language-[\w-]+$/;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&#39;',
+};
+
+/** Escapes text for interpolation into HTML. */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/** An error's message, escaped for HTML, for error cards. */
+export function errorMessageHtml(error: unknown): string {
+  return escapeHtml(error instanceof Error ? error.message : 'An unknown error occurred.');
+}
+
+/** Whether a URL from untrusted content is safe to link to (http, https or mailto). */
+export function isSafeLinkUrl(value: string): boolean {
+  try {
+    return SAFE_LINK_PROTOCOLS.has(new URL(value, document.baseURI).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function sanitizeElement(element: Element) {
+  const tag = element.tagName.toLowerCase();
+  const allowed = [...GLOBAL_ATTRIBUTES, ...(ALLOWED_ATTRIBUTES[tag] ?? [])];
+  for (const { name, value } of [...element.attributes]) {
+    const keep = allowed.includes(name)
+      && (name !== 'href' || isSafeLinkUrl(value))
+      && (name !== 'class' || CODE_CLASS_PATTERN.test(value));
+    if (!keep) element.removeAttribute(name);
+  }
+
+  if (tag === 'a') {
+    element.setAttribute('rel', 'noopener noreferrer');
+    const href = element.getAttribute('href');
+    if (href && !href.startsWith('#')) element.setAttribute('target', '_blank');
+  }
+}
+
+function sanitizeChildren(parent: ParentNode) {
+  for (const node of [...parent.childNodes]) {
+    if (node.nodeType === Node.COMMENT_NODE) {
+      node.remove();
+      continue;
+    }
+    if (!(node instanceof Element)) continue;
+
+    const tag = node.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      node.remove();
+    } else if (!ALLOWED_TAGS.has(tag)) {
+      sanitizeChildren(node);
+      node.replaceWith(...node.childNodes);
+    } else {
+      sanitizeElement(node);
+      sanitizeChildren(node);
+    }
+  }
+}
+
+/**
+ * Parses HTML without running or loading anything and strips everything
+ * outside the allow-list.
+ */
+export function sanitizeHtml(html: string): DocumentFragment {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  sanitizeChildren(template.content);
+  return template.content;
+}
+
+/** Converts markdown to sanitised DOM nodes. */
+export function renderMarkdown(markdown: string): DocumentFragment {
+  return sanitizeHtml(marked.parse(markdown ?? '', { async: false }));
+}
+
+/** Replaces an element's content with rendered, sanitised markdown. */
+export function setMarkdown(element: HTMLElement, markdown: string) {
+  element.replaceChildren(renderMarkdown(markdown));
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// A table delimiter row that may still be arriving, e.g. "| --- | -".
+const PARTIAL_DELIMITER_PATTERN = /^[\s|:-]+$/;
+
+/**
+ * Completes markdown that is still streaming in so it renders the way it
+ * will once finished: an unclosed code fence is closed, and a table whose
+ * delimiter row hasn't fully arrived is held back instead of flashing up as a
+ * paragraph of pipes.
+ */
+export function completePartialMarkdown(markdown: string): string {
+  const lines = markdown.split('\n');
+  let fence: string | null = null;
+  for (const line of lines) {
+    const marker = line.match(FENCE_PATTERN)?.[1];
+    if (!marker) continue;
+    if (!fence) {
+      fence = marker;
+    } else if (marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) {
+      fence = null;
+    }
+  }
+  if (fence) return `${markdown}\n${fence}`;
+
+  // The last block: the lines after the last blank one, ignoring the empty
+  // string after a trailing newline.
+  const lineComplete = markdown.endsWith('\n');
+  const body = lineComplete ? lines.slice(0, -1) : lines;
+  let blockStart = body.length;
+  while (blockStart > 0 && body[blockStart - 1].trim()) blockStart--;
+  const block = body.slice(blockStart);
+
+  const pendingTable = block.length > 0
+    && block[0].trimStart().startsWith('|')
+    && (block.length === 1
+      || (block.length === 2 && PARTIAL_DELIMITER_PATTERN.test(block[1]) && !(lineComplete && TABLE_DELIMITER_PATTERN.test(block[1]))));
+  return pendingTable ? body.slice(0, blockStart).join('\n') : markdown;
+}
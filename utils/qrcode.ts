@@ -0,0 +1,461 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A self-contained QR Code (ISO/IEC 18004) encoder supporting byte mode, all
+ * four error correction levels and versions 1–40, with SVG and canvas output.
+ * Encoding happens entirely in the browser, so secrets such as TOTP keys are
+ * never sent to a third-party image service.
+ */
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number;
+  /** Width and height in modules. */
+  size: number;
+  /** modules[y][x] is true for a dark module. */
+  modules: boolean[][];
+}
+
+export interface QrRenderOptions {
+  /** Quiet zone width in modules. */
+  border?: number;
+  dark?: string;
+  light?: string;
+}
+
+const ECL_INDEX: Record<ErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECL_FORMAT_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [level][version]; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const MASK_PATTERNS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+/** Number of modules available for data and error correction codewords. */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number, ecl: ErrorCorrectionLevel): number {
+  const e = ECL_INDEX[ecl];
+  return Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[e][version] * NUM_ERROR_CORRECTION_BLOCKS[e][version];
+}
+
+function getAlignmentPatternPositions(version: number, size: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+// --- Reed-Solomon over GF(2^8) with the QR polynomial 0x11D ---
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+/** Splits data into blocks, appends error correction to each and interleaves them. */
+function addEccAndInterleave(data: number[], version: number, ecl: ErrorCorrectionLevel): number[] {
+  const e = ECL_INDEX[ecl];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[e][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[e][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) {
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte added to short blocks.
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+// --- Module matrix construction ---
+
+class QrMatrix {
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+function drawFinderPattern(m: QrMatrix, x: number, y: number) {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const dist = Math.max(Math.abs(dx), Math.abs(dy));
+      const xx = x + dx;
+      const yy = y + dy;
+      if (xx >= 0 && xx < m.size && yy >= 0 && yy < m.size) {
+        m.setFunction(xx, yy, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+}
+
+function drawAlignmentPattern(m: QrMatrix, x: number, y: number) {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      m.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+}
+
+function drawFormatBits(m: QrMatrix, ecl: ErrorCorrectionLevel, mask: number) {
+  const data = (ECL_FORMAT_BITS[ecl] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) {
+    rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const size = m.size;
+
+  // First copy, around the top-left finder
+  for (let i = 0; i <= 5; i++) m.setFunction(8, i, getBit(bits, i));
+  m.setFunction(8, 7, getBit(bits, 6));
+  m.setFunction(8, 8, getBit(bits, 7));
+  m.setFunction(7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) m.setFunction(14 - i, 8, getBit(bits, i));
+
+  // Second copy, split between the other two finders
+  for (let i = 0; i < 8; i++) m.setFunction(size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) m.setFunction(8, size - 15 + i, getBit(bits, i));
+  m.setFunction(8, size - 8, true); // Always-dark module
+}
+
+function drawVersionBits(m: QrMatrix, version: number) {
+  if (version < 7) return;
+  let rem = version;
+  for (let i = 0; i < 12; i++) {
+    rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  }
+  const bits = (version << 12) | rem;
+  for (let i = 0; i < 18; i++) {
+    const bit = getBit(bits, i);
+    const a = m.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    m.setFunction(a, b, bit);
+    m.setFunction(b, a, bit);
+  }
+}
+
+function drawFunctionPatterns(m: QrMatrix, version: number, ecl: ErrorCorrectionLevel) {
+  const size = m.size;
+  for (let i = 0; i < size; i++) {
+    m.setFunction(6, i, i % 2 === 0);
+    m.setFunction(i, 6, i % 2 === 0);
+  }
+
+  drawFinderPattern(m, 3, 3);
+  drawFinderPattern(m, size - 4, 3);
+  drawFinderPattern(m, 3, size - 4);
+
+  const alignPositions = getAlignmentPatternPositions(version, size);
+  const last = alignPositions.length - 1;
+  alignPositions.forEach((ax, i) => {
+    alignPositions.forEach((ay, j) => {
+      // Alignment patterns never overlap the finder patterns.
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      drawAlignmentPattern(m, ax, ay);
+    });
+  });
+
+  drawFormatBits(m, ecl, 0); // Placeholder; redrawn once the mask is chosen
+  drawVersionBits(m, version);
+}
+
+/** Places codewords in the two-column zigzag pattern, skipping function modules. */
+function drawCodewords(m: QrMatrix, codewords: number[]) {
+  const size = m.size;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // Skip the vertical timing pattern
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!m.isFunction[y][x] && i < codewords.length * 8) {
+          m.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+}
+
+function applyMask(m: QrMatrix, mask: number) {
+  const pattern = MASK_PATTERNS[mask];
+  for (let y = 0; y < m.size; y++) {
+    for (let x = 0; x < m.size; x++) {
+      if (!m.isFunction[y][x] && pattern(x, y)) {
+        m.modules[y][x] = !m.modules[y][x];
+      }
+    }
+  }
+}
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+/** Scores a symbol using the four penalty rules from the specification. */
+function getPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  const scoreLine = (line: boolean[]) => {
+    // Rule 1: runs of five or more same-coloured modules
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) penalty += 3 + (runLength - 5);
+        runLength = 1;
+      }
+    }
+    // Rule 3: finder-like 1:1:3:1:1 patterns with four light modules on one side
+    for (let i = 0; i + 7 <= line.length; i++) {
+      if (!FINDER_LIKE.every((dark, k) => line[i + k] === dark)) continue;
+      const lightBefore = i >= 4 && line.slice(i - 4, i).every(v => !v);
+      const lightAfter = i + 11 <= line.length && line.slice(i + 7, i + 11).every(v => !v);
+      if (lightBefore || lightAfter) penalty += 40;
+    }
+  };
+
+  for (let y = 0; y < size; y++) {
+    scoreLine(modules[y]);
+  }
+  for (let x = 0; x < size; x++) {
+    scoreLine(modules.map(row => row[x]));
+  }
+
+  // Rule 2: 2x2 blocks of the same colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Rule 4: overall balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  penalty += Math.max(0, k) * 10;
+
+  return penalty;
+}
+
+/**
+ * Encodes text (as UTF-8, in byte mode) into the smallest QR Code that fits.
+ * @param text The text to encode.
+ * @param ecl The error correction level.
+ * @throws Error if the text is too long for a version 40 symbol.
+ */
+export function encodeQr(text: string, ecl: ErrorCorrectionLevel = 'M'): QrCode {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  let charCountBits = 8;
+  for (; version <= 40; version++) {
+    charCountBits = version <= 9 ? 8 : 16;
+    const requiredBits = 4 + charCountBits + bytes.length * 8;
+    if (bytes.length < 2 ** charCountBits && requiredBits <= getNumDataCodewords(version, ecl) * 8) {
+      break;
+    }
+  }
+  if (version > 40) {
+    throw new Error('Data is too long to fit in a QR Code.');
+  }
+
+  // Segment header (byte mode), payload, terminator and padding
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  appendBits(0b0100, 4);
+  appendBits(bytes.length, charCountBits);
+  bytes.forEach(byte => appendBits(byte, 8));
+
+  const capacityBits = getNumDataCodewords(version, ecl) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    dataCodewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+
+  const matrix = new QrMatrix(version * 4 + 17);
+  drawFunctionPatterns(matrix, version, ecl);
+  drawCodewords(matrix, addEccAndInterleave(dataCodewords, version, ecl));
+
+  // Pick the mask with the lowest penalty
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, ecl, mask);
+    const penalty = getPenaltyScore(matrix.modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(matrix, mask); // XOR again to undo
+  }
+  applyMask(matrix, bestMask);
+  drawFormatBits(matrix, ecl, bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+}
+
+/**
+ * Renders a QR Code as an SVG document string.
+ */
+export function qrToSvg(qr: QrCode, options: QrRenderOptions = {}): string {
+  const { border = 4, dark = '#000000', light = '#ffffff' } = options;
+  const dimension = qr.size + border * 2;
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) path.push(`M${x + border},${y + border}h1v1h-1z`);
+    });
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${light}"/>` +
+    `<path d="${path.join('')}" fill="${dark}"/>` +
+    `</svg>`;
+}
+
+/**
+ * Renders a QR Code as an SVG data URL, suitable for an `<img>` src.
+ */
+export function qrToDataUrl(qr: QrCode, options: QrRenderOptions = {}): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrToSvg(qr, options))}`;
+}
+
+/**
+ * Draws a QR Code onto a canvas, scaling modules to fill the canvas width.
+ */
+export function drawQrToCanvas(qr: QrCode, canvas: HTMLCanvasElement, options: QrRenderOptions = {}) {
+  const { border = 4, dark = '#000000', light = '#ffffff' } = options;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  const scale = canvas.width / (qr.size + border * 2);
+  ctx.fillStyle = light;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = dark;
+  qr.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) {
+        ctx.fillRect((x + border) * scale, (y + border) * scale, Math.ceil(scale), Math.ceil(scale));
+      }
+    });
+  });
+}
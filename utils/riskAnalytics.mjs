@@ -0,0 +1,315 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Portfolio risk analytics computed from a series of values or periodic
+ * returns. Pure functions with no DOM or network access.
+ *
+ * Returns are simple (not log) returns expressed as fractions, e.g. 0.01 for
+ * +1%. Risk figures that describe a loss (VaR, CVaR, drawdown) are reported as
+ * positive fractions. Standard deviations, covariances and hence volatility
+ * and beta use the sample (n - 1) estimator. Figures that are undefined for
+ * the data (too few returns, or a ratio over zero variance) are NaN.
+ *
+ * Shared by the Risk Analytics card and the Co-pilot's getRiskMetrics tool on
+ * the server, which imports it dynamically; hence plain JavaScript with JSDoc
+ * types, as an ES module (.mjs) that Vite and Node both load unchanged.
+ */
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * @typedef {object} RiskOptions
+ * @property {number} [confidence] Confidence level for VaR and CVaR, e.g. 0.95.
+ * @property {number} [riskFreeRate] Annual risk-free rate as a fraction, e.g. 0.04.
+ * @property {number} [periodsPerYear]
+ */
+
+/**
+ * @typedef {object} Drawdown
+ * @property {number} maxDrawdown Largest peak-to-trough fall as a fraction of the peak.
+ * @property {number} peakIndex
+ * @property {number} troughIndex
+ * @property {number | null} recoveryIndex First index at or above the peak after the trough, or null if not yet recovered.
+ */
+
+/**
+ * @typedef {object} RiskMetrics
+ * @property {number} observations
+ * @property {number} annualisedReturn
+ * @property {number} annualisedVolatility
+ * @property {number} confidence
+ * @property {number} historicalVaR One-period VaR and CVaR.
+ * @property {number} historicalCVaR
+ * @property {number} parametricVaR
+ * @property {number} parametricCVaR
+ * @property {number | null} beta Null without a benchmark series.
+ * @property {number} sharpeRatio
+ * @property {number} sortinoRatio
+ * @property {Drawdown} drawdown
+ */
+
+/**
+ * Period-over-period simple returns; one fewer than the values.
+ * @param {number[]} values
+ * @returns {number[]}
+ */
+export function toReturns(values) {
+  /** @type {number[]} */
+  const returns = [];
+  for (let i = 1; i < values.length; i++) {
+    returns.push(values[i] / values[i - 1] - 1);
+  }
+  return returns;
+}
+
+/**
+ * @param {number[]} values
+ * @returns {number}
+ */
+export function mean(values) {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * @param {number[]} a
+ * @param {number[]} b
+ * @returns {number}
+ */
+export function covariance(a, b) {
+  if (a.length !== b.length) throw new RangeError('Series must have the same length.');
+  if (a.length < 2) return NaN;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (a.length - 1);
+}
+
+/**
+ * @param {number[]} values
+ * @returns {number}
+ */
+export function standardDeviation(values) {
+  return Math.sqrt(covariance(values, values));
+}
+
+/**
+ * The q-th quantile (0 ≤ q ≤ 1), interpolating linearly between order
+ * statistics (the same definition as Excel's PERCENTILE.INC and NumPy's default).
+ * @param {number[]} values
+ * @param {number} q
+ * @returns {number}
+ */
+export function quantile(values, q) {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Standard normal probability density.
+ * @param {number} x
+ * @returns {number}
+ */
+export function normalPdf(x) {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.2e-9).
+ * @param {number} p
+ * @returns {number}
+ */
+export function normalQuantile(p) {
+  if (p <= 0 || p >= 1) throw new RangeError('Probability must be between 0 and 1.');
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * @param {number[]} returns
+ * @param {number} [periodsPerYear]
+ * @returns {number}
+ */
+export function annualisedVolatility(returns, periodsPerYear = TRADING_DAYS_PER_YEAR) {
+  return standardDeviation(returns) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Geometric annual growth rate implied by the returns.
+ * @param {number[]} returns
+ * @param {number} [periodsPerYear]
+ * @returns {number}
+ */
+export function annualisedReturn(returns, periodsPerYear = TRADING_DAYS_PER_YEAR) {
+  if (returns.length === 0) return NaN;
+  const growth = returns.reduce((total, r) => total * (1 + r), 1);
+  return growth ** (periodsPerYear / returns.length) - 1;
+}
+
+/**
+ * Historical VaR: the loss at the (1 - confidence) quantile of the returns.
+ * @param {number[]} returns
+ * @param {number} [confidence]
+ * @returns {number}
+ */
+export function historicalVaR(returns, confidence = 0.95) {
+  return -quantile(returns, 1 - confidence);
+}
+
+/**
+ * Historical CVaR (expected shortfall): the average loss at or beyond the VaR.
+ * @param {number[]} returns
+ * @param {number} [confidence]
+ * @returns {number}
+ */
+export function historicalCVaR(returns, confidence = 0.95) {
+  const threshold = quantile(returns, 1 - confidence);
+  return -mean(returns.filter(r => r <= threshold));
+}
+
+/**
+ * Parametric (variance-covariance) VaR, assuming normally distributed returns.
+ * @param {number[]} returns
+ * @param {number} [confidence]
+ * @returns {number}
+ */
+export function parametricVaR(returns, confidence = 0.95) {
+  return -(mean(returns) + normalQuantile(1 - confidence) * standardDeviation(returns));
+}
+
+/**
+ * Parametric CVaR, assuming normally distributed returns.
+ * @param {number[]} returns
+ * @param {number} [confidence]
+ * @returns {number}
+ */
+export function parametricCVaR(returns, confidence = 0.95) {
+  const tail = 1 - confidence;
+  return -(mean(returns) - standardDeviation(returns) * normalPdf(normalQuantile(tail)) / tail);
+}
+
+/**
+ * A quotient that is NaN, rather than ±Infinity, when the divisor is zero.
+ * @param {number} numerator
+ * @param {number} denominator
+ * @returns {number}
+ */
+function ratio(numerator, denominator) {
+  return denominator === 0 ? NaN : numerator / denominator;
+}
+
+/**
+ * Sensitivity of the returns to the benchmark's: cov(r, b) / var(b).
+ * @param {number[]} returns
+ * @param {number[]} benchmarkReturns
+ * @returns {number}
+ */
+export function beta(returns, benchmarkReturns) {
+  return ratio(covariance(returns, benchmarkReturns), covariance(benchmarkReturns, benchmarkReturns));
+}
+
+/**
+ * Annualised Sharpe ratio: mean excess return over its standard deviation.
+ * @param {number[]} returns
+ * @param {number} [riskFreeRate]
+ * @param {number} [periodsPerYear]
+ * @returns {number}
+ */
+export function sharpeRatio(returns, riskFreeRate = 0, periodsPerYear = TRADING_DAYS_PER_YEAR) {
+  const excess = returns.map(r => r - riskFreeRate / periodsPerYear);
+  return ratio(mean(excess), standardDeviation(excess)) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Annualised Sortino ratio: mean excess return over the downside deviation,
+ * the root mean square of returns below the risk-free rate (taken over all periods).
+ * @param {number[]} returns
+ * @param {number} [riskFreeRate]
+ * @param {number} [periodsPerYear]
+ * @returns {number}
+ */
+export function sortinoRatio(returns, riskFreeRate = 0, periodsPerYear = TRADING_DAYS_PER_YEAR) {
+  const excess = returns.map(r => r - riskFreeRate / periodsPerYear);
+  const downside = Math.sqrt(mean(excess.map(r => Math.min(r, 0) ** 2)));
+  return ratio(mean(excess), downside) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * The largest peak-to-trough fall in a series of values.
+ * @param {number[]} values
+ * @returns {Drawdown}
+ */
+export function maxDrawdown(values) {
+  let peakIndex = 0;
+  /** @type {Drawdown} */
+  let result = { maxDrawdown: 0, peakIndex: 0, troughIndex: 0, recoveryIndex: null };
+  values.forEach((value, index) => {
+    if (value > values[peakIndex]) peakIndex = index;
+    const drawdown = 1 - value / values[peakIndex];
+    if (drawdown > result.maxDrawdown) {
+      result = { maxDrawdown: drawdown, peakIndex, troughIndex: index, recoveryIndex: null };
+    }
+  });
+  if (result.maxDrawdown > 0) {
+    const recovery = values.findIndex((value, index) => index > result.troughIndex && value >= values[result.peakIndex]);
+    result.recoveryIndex = recovery === -1 ? null : recovery;
+  }
+  return result;
+}
+
+/**
+ * Computes every metric for a value series (e.g. daily closes), optionally
+ * against a benchmark series sampled at the same times.
+ * @param {number[]} values
+ * @param {number[]} [benchmarkValues]
+ * @param {RiskOptions} [options]
+ * @returns {RiskMetrics}
+ */
+export function computeRiskMetrics(values, benchmarkValues, options = {}) {
+  const { confidence = 0.95, riskFreeRate = 0, periodsPerYear = TRADING_DAYS_PER_YEAR } = options;
+  if (values.length < 3) throw new RangeError('At least three values are needed to measure risk.');
+  if (benchmarkValues && benchmarkValues.length !== values.length) {
+    throw new RangeError('The benchmark series must have the same length as the values.');
+  }
+
+  const returns = toReturns(values);
+  return {
+    observations: returns.length,
+    annualisedReturn: annualisedReturn(returns, periodsPerYear),
+    annualisedVolatility: annualisedVolatility(returns, periodsPerYear),
+    confidence,
+    historicalVaR: historicalVaR(returns, confidence),
+    historicalCVaR: historicalCVaR(returns, confidence),
+    parametricVaR: parametricVaR(returns, confidence),
+    parametricCVaR: parametricCVaR(returns, confidence),
+    beta: benchmarkValues ? beta(returns, toReturns(benchmarkValues)) : null,
+    sharpeRatio: sharpeRatio(returns, riskFreeRate, periodsPerYear),
+    sortinoRatio: sortinoRatio(returns, riskFreeRate, periodsPerYear),
+    drawdown: maxDrawdown(values),
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  annualisedReturn,
+  annualisedVolatility,
+  beta,
+  computeRiskMetrics,
+  historicalCVaR,
+  historicalVaR,
+  maxDrawdown,
+  normalQuantile,
+  parametricCVaR,
+  parametricVaR,
+  quantile,
+  sharpeRatio,
+  sortinoRatio,
+  standardDeviation,
+  toReturns,
+} from './riskAnalytics.mjs';
+
+// Expected figures were computed independently with Python's statistics module
+// (sample standard deviation, NormalDist for the normal quantile and density).
+const RETURNS = [0.02, -0.01, 0.03, -0.02, 0.01];
+const BENCHMARK_RETURNS = [0.01, -0.005, 0.02, -0.01, 0];
+const VALUES = [100, 102, 100.98, 104.0094, 101.929212, 102.94850412];
+
+function valuesFrom(returns: number[], start = 100): number[] {
+  return returns.reduce((values, r) => [...values, values[values.length - 1] * (1 + r)], [start]);
+}
+
+describe('toReturns', () => {
+  it('returns one fewer simple return than values', () => {
+    toReturns(VALUES).forEach((r, i) => expect(r).toBeCloseTo(RETURNS[i], 12));
+  });
+
+  it('is empty for an empty or one-point series', () => {
+    expect(toReturns([])).toEqual([]);
+    expect(toReturns([100])).toEqual([]);
+  });
+});
+
+describe('quantile', () => {
+  it('interpolates linearly between order statistics', () => {
+    expect(quantile(RETURNS, 0.05)).toBeCloseTo(-0.018, 12);
+    expect(quantile(RETURNS, 0.5)).toBe(0.01);
+    expect(quantile(RETURNS, 1)).toBe(0.03);
+  });
+
+  it('is NaN for an empty series', () => {
+    expect(quantile([], 0.5)).toBeNaN();
+  });
+});
+
+describe('normalQuantile', () => {
+  it('inverts the standard normal CDF', () => {
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 12);
+    expect(normalQuantile(0.05)).toBeCloseTo(-1.6448536269514722, 8);
+    expect(normalQuantile(0.99)).toBeCloseTo(2.3263478740408408, 8);
+  });
+
+  it('rejects probabilities outside (0, 1)', () => {
+    expect(() => normalQuantile(0)).toThrow(RangeError);
+    expect(() => normalQuantile(1)).toThrow(RangeError);
+  });
+});
+
+describe('volatility', () => {
+  it('annualises the sample standard deviation', () => {
+    expect(standardDeviation(RETURNS)).toBeCloseTo(0.020736441353327723, 12);
+    expect(annualisedVolatility(RETURNS)).toBeCloseTo(0.3291808013842849, 12);
+    expect(annualisedVolatility(RETURNS, 365)).toBeCloseTo(0.020736441353327723 * Math.sqrt(365), 12);
+  });
+
+  it('is zero for constant returns', () => {
+    expect(annualisedVolatility([0.01, 0.01, 0.01])).toBe(0);
+  });
+
+  it('is NaN for fewer than two returns', () => {
+    expect(annualisedVolatility([])).toBeNaN();
+    expect(annualisedVolatility([0.01])).toBeNaN();
+  });
+});
+
+describe('annualisedReturn', () => {
+  it('compounds the returns over a year', () => {
+    expect(annualisedReturn(RETURNS)).toBeCloseTo(3.325636719291218, 9);
+  });
+
+  it('is NaN for an empty series', () => {
+    expect(annualisedReturn([])).toBeNaN();
+  });
+});
+
+describe('value at risk', () => {
+  it('takes historical VaR and CVaR from the tail of the returns', () => {
+    expect(historicalVaR(RETURNS)).toBeCloseTo(0.018, 12);
+    expect(historicalCVaR(RETURNS)).toBeCloseTo(0.02, 12);
+  });
+
+  it('takes parametric VaR and CVaR from a fitted normal distribution', () => {
+    expect(parametricVaR(RETURNS)).toBeCloseTo(0.028108410770087612, 9);
+    expect(parametricCVaR(RETURNS)).toBeCloseTo(0.036773323161635715, 9);
+  });
+
+  it('reports the constant loss when returns do not vary', () => {
+    const returns = [-0.01, -0.01, -0.01];
+    expect(historicalVaR(returns)).toBeCloseTo(0.01, 12);
+    expect(historicalCVaR(returns)).toBeCloseTo(0.01, 12);
+    expect(parametricVaR(returns)).toBeCloseTo(0.01, 12);
+    expect(parametricCVaR(returns)).toBeCloseTo(0.01, 12);
+  });
+
+  it('is NaN for an empty series', () => {
+    expect(historicalVaR([])).toBeNaN();
+    expect(historicalCVaR([])).toBeNaN();
+    expect(parametricVaR([])).toBeNaN();
+    expect(parametricCVaR([])).toBeNaN();
+  });
+});
+
+describe('beta', () => {
+  it('divides the covariance with the benchmark by its variance', () => {
+    expect(beta(RETURNS, BENCHMARK_RETURNS)).toBeCloseTo(1.6551724137931034, 12);
+    expect(beta(BENCHMARK_RETURNS, BENCHMARK_RETURNS)).toBeCloseTo(1, 12);
+  });
+
+  it('is NaN against a benchmark with zero variance', () => {
+    expect(beta(RETURNS, [0.01, 0.01, 0.01, 0.01, 0.01])).toBeNaN();
+  });
+
+  it('rejects a benchmark of a different length', () => {
+    expect(() => beta(RETURNS, BENCHMARK_RETURNS.slice(1))).toThrow(RangeError);
+  });
+});
+
+describe('Sharpe and Sortino ratios', () => {
+  it('annualise the excess return over the risk-free rate', () => {
+    expect(sharpeRatio(RETURNS, 0.04)).toBeCloseTo(4.471706715002466, 9);
+    expect(sortinoRatio(RETURNS, 0.04)).toBeCloseTo(9.185204419200307, 9);
+  });
+
+  it('default to a zero risk-free rate', () => {
+    expect(sharpeRatio(RETURNS)).toBeCloseTo((0.006 / 0.020736441353327723) * Math.sqrt(252), 9);
+  });
+
+  it('are NaN when the returns do not vary', () => {
+    expect(sharpeRatio([0.01, 0.01, 0.01])).toBeNaN();
+    expect(sortinoRatio([0.01, 0.01, 0.01])).toBeNaN();
+  });
+
+  it('are NaN for fewer than two returns', () => {
+    expect(sharpeRatio([])).toBeNaN();
+    expect(sharpeRatio([0.01])).toBeNaN();
+    expect(sortinoRatio([])).toBeNaN();
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('finds the largest fall and when it recovered', () => {
+    expect(maxDrawdown([100, 120, 90, 110, 130, 117])).toEqual({ maxDrawdown: 0.25, peakIndex: 1, troughIndex: 2, recoveryIndex: 4 });
+  });
+
+  it('leaves the recovery null until the peak is regained', () => {
+    expect(maxDrawdown([100, 80, 95])).toEqual({ maxDrawdown: expect.closeTo(0.2, 12), peakIndex: 0, troughIndex: 1, recoveryIndex: null });
+  });
+
+  it('is zero for a series that never falls', () => {
+    const none = { maxDrawdown: 0, peakIndex: 0, troughIndex: 0, recoveryIndex: null };
+    expect(maxDrawdown([100, 100, 110])).toEqual(none);
+    expect(maxDrawdown([100])).toEqual(none);
+    expect(maxDrawdown([])).toEqual(none);
+  });
+});
+
+describe('computeRiskMetrics', () => {
+  it('computes every metric for a value series and benchmark', () => {
+    const metrics = computeRiskMetrics(VALUES, valuesFrom(BENCHMARK_RETURNS), { riskFreeRate: 0.04 });
+    expect(metrics.observations).toBe(5);
+    expect(metrics.confidence).toBe(0.95);
+    expect(metrics.annualisedVolatility).toBeCloseTo(0.3291808013842849, 9);
+    expect(metrics.historicalVaR).toBeCloseTo(0.018, 9);
+    expect(metrics.historicalCVaR).toBeCloseTo(0.02, 9);
+    expect(metrics.parametricVaR).toBeCloseTo(0.028108410770087612, 9);
+    expect(metrics.parametricCVaR).toBeCloseTo(0.036773323161635715, 9);
+    expect(metrics.beta).toBeCloseTo(1.6551724137931034, 9);
+    expect(metrics.sharpeRatio).toBeCloseTo(4.471706715002466, 9);
+    expect(metrics.sortinoRatio).toBeCloseTo(9.185204419200307, 9);
+    expect(metrics.drawdown).toEqual({ maxDrawdown: expect.closeTo(0.02, 9), peakIndex: 3, troughIndex: 4, recoveryIndex: null });
+  });
+
+  it('leaves beta null without a benchmark', () => {
+    expect(computeRiskMetrics(VALUES).beta).toBeNull();
+  });
+
+  it('reports zero volatility and drawdown, and NaN ratios, for a flat series', () => {
+    const metrics = computeRiskMetrics([100, 100, 100, 100], [100, 101, 102, 103]);
+    expect(metrics.annualisedVolatility).toBe(0);
+    expect(metrics.historicalVaR).toBeCloseTo(0, 12);
+    expect(metrics.sharpeRatio).toBeNaN();
+    expect(metrics.sortinoRatio).toBeNaN();
+    expect(metrics.drawdown.maxDrawdown).toBe(0);
+  });
+
+  it('needs at least three values', () => {
+    expect(() => computeRiskMetrics([])).toThrow(RangeError);
+    expect(() => computeRiskMetrics([100])).toThrow(RangeError);
+    expect(() => computeRiskMetrics([100, 101])).toThrow(RangeError);
+  });
+
+  it('rejects a benchmark of a different length', () => {
+    expect(() => computeRiskMetrics(VALUES, VALUES.slice(1))).toThrow('same length');
+  });
+});
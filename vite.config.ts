@@ -8,12 +8,13 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Forward backend routes, including the price stream's WebSocket, to the Express server (server.js)
+          '/auth': env.API_SERVER_URL || 'http://localhost:3001',
+          '/api': { target: env.API_SERVER_URL || 'http://localhost:3001', ws: true },
+        },
       },
       plugins: [],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),